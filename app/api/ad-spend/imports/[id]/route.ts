@@ -0,0 +1,20 @@
+import { type NextRequest, NextResponse } from 'next/server'
+import { createServerSupabase } from '@/lib/supabase-server'
+import { errorResponse, requireAccess, requirePermission } from '@/lib/api-server'
+
+type ImportRouteContext = { params: Promise<{ id: string }> }
+
+// DELETE /api/ad-spend/imports/:id → removes the import from the history; its spend rows stay (admins only)
+export async function DELETE(_request: NextRequest, { params }: ImportRouteContext) {
+  try {
+    const access = await requireAccess()
+    requirePermission(access, 'manage')
+    const { id } = await params
+    const client = await createServerSupabase()
+    const { error } = await client.from('ad_spend_imports').delete().eq('id', id)
+    if (error) throw error
+    return new NextResponse(null, { status: 204 })
+  } catch (error) {
+    return errorResponse(error)
+  }
+}
@@ -0,0 +1,41 @@
+import { type NextRequest, NextResponse } from 'next/server'
+import { createServerSupabase } from '@/lib/supabase-server'
+import { errorResponse, readJson, requireAccess, requirePermission } from '@/lib/api-server'
+import { createCsvImporter, fetchAdSpendImports, importAdSpend } from '@/lib/adSpend'
+import { fetchPages } from '@/lib/pages'
+import { ApiError } from '@/lib/apiError'
+
+// GET /api/ad-spend/imports → the latest AdSpendImport[] on the user's pages (finance access)
+export async function GET() {
+  try {
+    const access = await requireAccess()
+    requirePermission(access, 'view_finance')
+    const imports = await fetchAdSpendImports(await createServerSupabase(), { pageIds: access.pageIds ?? undefined })
+    return NextResponse.json(imports)
+  } catch (error) {
+    return errorResponse(error)
+  }
+}
+
+// POST /api/ad-spend/imports with { pageId, fileName, csv } → the created AdSpendImport (admins only).
+// `csv` is a Meta Ads Manager export with a daily breakdown.
+export async function POST(request: NextRequest) {
+  try {
+    const access = await requireAccess()
+    requirePermission(access, 'manage')
+    const body = await readJson(request) as Record<string, unknown>
+    const { pageId, fileName, csv } = body ?? {}
+    if (typeof pageId !== 'string' || typeof csv !== 'string') {
+      throw new ApiError(400, 'bad_request', 'Pass a pageId and the csv text')
+    }
+
+    const client = await createServerSupabase()
+    const pages = await fetchPages(client)
+    if (!pages.some((page) => page.id === pageId)) throw new ApiError(400, 'bad_request', `Unknown page "${pageId}"`)
+
+    const importer = createCsvImporter(csv, pageId, typeof fileName === 'string' && fileName ? fileName : 'upload.csv')
+    return NextResponse.json(await importAdSpend(client, importer, access.userId), { status: 201 })
+  } catch (error) {
+    return errorResponse(error)
+  }
+}
@@ -0,0 +1,21 @@
+import { type NextRequest, NextResponse } from 'next/server'
+import { createServiceSupabase } from '@/lib/supabase-server'
+import { errorResponse, requireAccess, requirePermission } from '@/lib/api-server'
+import { evaluateAlertRules } from '@/lib/alerts-server'
+import { alertDeliveryFromEnv } from '@/lib/alertNotifiers'
+
+// POST /api/alerts/evaluate → RuleEvaluation[]
+// Called by a scheduler with `Authorization: Bearer $CRON_SECRET`, or by an admin from the alerts page.
+export async function POST(request: NextRequest) {
+  try {
+    const cronSecret = process.env.CRON_SECRET
+    const fromScheduler = Boolean(cronSecret) && request.headers.get('authorization') === `Bearer ${cronSecret}`
+    if (!fromScheduler) requirePermission(await requireAccess(), 'manage')
+
+    // Rules cover pages the caller may not see, so evaluation runs with the service role
+    const results = await evaluateAlertRules(createServiceSupabase(), alertDeliveryFromEnv())
+    return NextResponse.json(results)
+  } catch (error) {
+    return errorResponse(error)
+  }
+}
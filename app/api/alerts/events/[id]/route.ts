@@ -0,0 +1,20 @@
+import { type NextRequest, NextResponse } from 'next/server'
+import { createServerSupabase } from '@/lib/supabase-server'
+import { errorResponse, requireAccess } from '@/lib/api-server'
+import { acknowledgeAlertEvent } from '@/lib/alerts-server'
+import { ApiError } from '@/lib/apiError'
+
+// POST /api/alerts/events/:id → acknowledges the alert for everyone
+export async function POST(_request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    await requireAccess()
+    const { id } = await params
+    const eventId = Number(id)
+    if (!Number.isInteger(eventId) || eventId <= 0) throw new ApiError(400, 'bad_request', 'Alert id must be a positive integer')
+    const event = await acknowledgeAlertEvent(await createServerSupabase(), eventId)
+    if (!event) throw new ApiError(404, 'not_found', 'Alert not found')
+    return NextResponse.json(event)
+  } catch (error) {
+    return errorResponse(error)
+  }
+}
@@ -0,0 +1,24 @@
+import { type NextRequest, NextResponse } from 'next/server'
+import { createServerSupabase } from '@/lib/supabase-server'
+import { errorResponse, requireAccess } from '@/lib/api-server'
+
+const MAX_EVENTS = 100
+
+// GET /api/alerts/events[?unacknowledged=1][&limit=n] → newest AlertEvent[] first
+export async function GET(request: NextRequest) {
+  try {
+    await requireAccess()
+    const { searchParams } = request.nextUrl
+    const limit = Math.min(Number(searchParams.get('limit')) || 50, MAX_EVENTS)
+    const client = await createServerSupabase()
+
+    // Row-level security limits this to alerts on pages (and finance metrics) the user may see
+    let query = client.from('alert_events').select('*').order('created_at', { ascending: false }).limit(limit)
+    if (searchParams.get('unacknowledged') === '1') query = query.is('acknowledged_at', null)
+    const { data, error } = await query
+    if (error) throw error
+    return NextResponse.json(data ?? [])
+  } catch (error) {
+    return errorResponse(error)
+  }
+}
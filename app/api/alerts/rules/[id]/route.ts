@@ -0,0 +1,39 @@
+import { type NextRequest, NextResponse } from 'next/server'
+import { createServerSupabase } from '@/lib/supabase-server'
+import { errorResponse, readJson, requireAccess, requirePermission } from '@/lib/api-server'
+import { parseAlertRuleInput } from '@/lib/alerts'
+import { ApiError } from '@/lib/apiError'
+
+type RuleRouteContext = { params: Promise<{ id: string }> }
+
+// PATCH /api/alerts/rules/:id with a partial AlertRuleInput → the updated AlertRule (admins only)
+export async function PATCH(request: NextRequest, { params }: RuleRouteContext) {
+  try {
+    const access = await requireAccess()
+    requirePermission(access, 'manage')
+    const { id } = await params
+    const input = parseAlertRuleInput(await readJson(request), true)
+    const client = await createServerSupabase()
+    const { data, error } = await client.from('alert_rules').update(input).eq('id', id).select().maybeSingle()
+    if (error) throw error
+    if (!data) throw new ApiError(404, 'not_found', 'Alert rule not found')
+    return NextResponse.json(data)
+  } catch (error) {
+    return errorResponse(error)
+  }
+}
+
+// DELETE /api/alerts/rules/:id (admins only). Past alerts are kept.
+export async function DELETE(_request: NextRequest, { params }: RuleRouteContext) {
+  try {
+    const access = await requireAccess()
+    requirePermission(access, 'manage')
+    const { id } = await params
+    const client = await createServerSupabase()
+    const { error } = await client.from('alert_rules').delete().eq('id', id)
+    if (error) throw error
+    return new NextResponse(null, { status: 204 })
+  } catch (error) {
+    return errorResponse(error)
+  }
+}
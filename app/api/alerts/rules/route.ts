@@ -0,0 +1,34 @@
+import { type NextRequest, NextResponse } from 'next/server'
+import { createServerSupabase } from '@/lib/supabase-server'
+import { errorResponse, readJson, requireAccess, requirePermission } from '@/lib/api-server'
+import { parseAlertRuleInput } from '@/lib/alerts'
+import { fetchAlertRules } from '@/lib/alerts-server'
+
+// GET /api/alerts/rules → AlertRule[] visible to the user
+export async function GET() {
+  try {
+    await requireAccess()
+    return NextResponse.json(await fetchAlertRules(await createServerSupabase()))
+  } catch (error) {
+    return errorResponse(error)
+  }
+}
+
+// POST /api/alerts/rules with an AlertRuleInput body → the created AlertRule (admins only)
+export async function POST(request: NextRequest) {
+  try {
+    const access = await requireAccess()
+    requirePermission(access, 'manage')
+    const input = parseAlertRuleInput(await readJson(request))
+    const client = await createServerSupabase()
+    const { data, error } = await client
+      .from('alert_rules')
+      .insert({ ...input, created_by: access.userId })
+      .select()
+      .single()
+    if (error) throw error
+    return NextResponse.json(data, { status: 201 })
+  } catch (error) {
+    return errorResponse(error)
+  }
+}
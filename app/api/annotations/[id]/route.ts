@@ -0,0 +1,40 @@
+import { type NextRequest, NextResponse } from 'next/server'
+import { createServerSupabase } from '@/lib/supabase-server'
+import { errorResponse, readJson, requireAccess, requirePermission } from '@/lib/api-server'
+import { parseAnnotationInput } from '@/lib/annotations'
+import { ApiError } from '@/lib/apiError'
+
+type AnnotationRouteContext = { params: Promise<{ id: string }> }
+
+// PATCH /api/annotations/:id with a partial AnnotationInput → the updated Annotation (its author or an admin)
+export async function PATCH(request: NextRequest, { params }: AnnotationRouteContext) {
+  try {
+    const access = await requireAccess()
+    requirePermission(access, 'annotate')
+    const { id } = await params
+    const input = parseAnnotationInput(await readJson(request), true)
+    const client = await createServerSupabase()
+    const { data, error } = await client.from('annotations').update(input).eq('id', id).select().maybeSingle()
+    if (error) throw error
+    if (!data) throw new ApiError(404, 'not_found', 'Annotation not found or not yours to edit')
+    return NextResponse.json(data)
+  } catch (error) {
+    return errorResponse(error)
+  }
+}
+
+// DELETE /api/annotations/:id (its author or an admin)
+export async function DELETE(_request: NextRequest, { params }: AnnotationRouteContext) {
+  try {
+    const access = await requireAccess()
+    requirePermission(access, 'annotate')
+    const { id } = await params
+    const client = await createServerSupabase()
+    const { data, error } = await client.from('annotations').delete().eq('id', id).select('id').maybeSingle()
+    if (error) throw error
+    if (!data) throw new ApiError(404, 'not_found', 'Annotation not found or not yours to remove')
+    return new NextResponse(null, { status: 204 })
+  } catch (error) {
+    return errorResponse(error)
+  }
+}
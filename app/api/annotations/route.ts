@@ -0,0 +1,26 @@
+import { type NextRequest, NextResponse } from 'next/server'
+import { createServerSupabase } from '@/lib/supabase-server'
+import { errorResponse, readJson, requireAccess, requirePermission, withMetricsContext } from '@/lib/api-server'
+import { parseAnnotationInput } from '@/lib/annotations'
+import { fetchAnnotations } from '@/lib/annotations-server'
+
+// GET /api/annotations?from=<ISO>&to=<ISO>[&pages=a,b] → Annotation[] overlapping the window
+export const GET = withMetricsContext(async ({ client, range, filters }) => {
+  return fetchAnnotations(client, range, filters)
+})
+
+// POST /api/annotations with an AnnotationInput body → the created Annotation (admins, managers and analysts)
+export async function POST(request: NextRequest) {
+  try {
+    const access = await requireAccess()
+    requirePermission(access, 'annotate')
+    const input = parseAnnotationInput(await readJson(request))
+    const client = await createServerSupabase()
+    // created_by defaults to the caller and author_email is filled in by the database
+    const { data, error } = await client.from('annotations').insert(input).select().single()
+    if (error) throw error
+    return NextResponse.json(data, { status: 201 })
+  } catch (error) {
+    return errorResponse(error)
+  }
+}
@@ -0,0 +1,35 @@
+import { type NextRequest, NextResponse } from 'next/server'
+import { createServerSupabase } from '@/lib/supabase-server'
+import { errorResponse, readJson, requireAccess, requirePermission } from '@/lib/api-server'
+import { parseGoalInput } from '@/lib/goals'
+import { updateGoalById } from '@/lib/goals-server'
+
+type GoalRouteContext = { params: Promise<{ id: string }> }
+
+// PATCH /api/goals/:id with a partial GoalInput → the updated Goal (admins only)
+export async function PATCH(request: NextRequest, { params }: GoalRouteContext) {
+  try {
+    const access = await requireAccess()
+    requirePermission(access, 'manage')
+    const { id } = await params
+    const input = parseGoalInput(await readJson(request), true)
+    return NextResponse.json(await updateGoalById(await createServerSupabase(), id, input))
+  } catch (error) {
+    return errorResponse(error)
+  }
+}
+
+// DELETE /api/goals/:id (admins only)
+export async function DELETE(_request: NextRequest, { params }: GoalRouteContext) {
+  try {
+    const access = await requireAccess()
+    requirePermission(access, 'manage')
+    const { id } = await params
+    const client = await createServerSupabase()
+    const { error } = await client.from('goals').delete().eq('id', id)
+    if (error) throw error
+    return new NextResponse(null, { status: 204 })
+  } catch (error) {
+    return errorResponse(error)
+  }
+}
@@ -0,0 +1,15 @@
+import { NextResponse } from 'next/server'
+import { createServerSupabase } from '@/lib/supabase-server'
+import { errorResponse, requireAccess } from '@/lib/api-server'
+import { fetchGoalProgress, fetchGoals } from '@/lib/goals-server'
+
+// GET /api/goals/progress → GoalProgress[] for every visible goal over its current period
+export async function GET() {
+  try {
+    await requireAccess()
+    const client = await createServerSupabase()
+    return NextResponse.json(await fetchGoalProgress(client, await fetchGoals(client)))
+  } catch (error) {
+    return errorResponse(error)
+  }
+}
@@ -0,0 +1,28 @@
+import { type NextRequest, NextResponse } from 'next/server'
+import { createServerSupabase } from '@/lib/supabase-server'
+import { errorResponse, readJson, requireAccess, requirePermission } from '@/lib/api-server'
+import { parseGoalInput } from '@/lib/goals'
+import { fetchGoals, insertGoal } from '@/lib/goals-server'
+
+// GET /api/goals → Goal[] visible to the user
+export async function GET() {
+  try {
+    await requireAccess()
+    return NextResponse.json(await fetchGoals(await createServerSupabase()))
+  } catch (error) {
+    return errorResponse(error)
+  }
+}
+
+// POST /api/goals with a GoalInput body → the created Goal (admins only)
+export async function POST(request: NextRequest) {
+  try {
+    const access = await requireAccess()
+    requirePermission(access, 'manage')
+    const input = parseGoalInput(await readJson(request))
+    const goal = await insertGoal(await createServerSupabase(), input, access.userId)
+    return NextResponse.json(goal, { status: 201 })
+  } catch (error) {
+    return errorResponse(error)
+  }
+}
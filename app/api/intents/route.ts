@@ -0,0 +1,15 @@
+import { NextResponse } from 'next/server'
+import { createServerSupabase } from '@/lib/supabase-server'
+import { errorResponse, requireAccess } from '@/lib/api-server'
+import { fetchIntentCatalog } from '@/lib/intents'
+
+// GET /api/intents → IntentCatalog: the registry plus unmapped intents on the user's pages
+export async function GET() {
+  try {
+    const access = await requireAccess()
+    const catalog = await fetchIntentCatalog(await createServerSupabase(), access.pageIds ?? undefined)
+    return NextResponse.json(catalog)
+  } catch (error) {
+    return errorResponse(error)
+  }
+}
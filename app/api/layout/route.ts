@@ -0,0 +1,61 @@
+import { type NextRequest, NextResponse } from 'next/server'
+import { createServerSupabase } from '@/lib/supabase-server'
+import { errorResponse, readJson, requireAccess } from '@/lib/api-server'
+import { DEFAULT_LAYOUT, parseLayout } from '@/lib/layout'
+import type { Json } from '@/lib/database.types'
+
+// GET /api/layout → the signed-in user's DashboardLayout, or the default one
+export async function GET() {
+  try {
+    const access = await requireAccess()
+    const client = await createServerSupabase()
+    const { data, error } = await client
+      .from('dashboard_layouts')
+      .select('layout')
+      .eq('user_id', access.userId)
+      .maybeSingle()
+    if (error) throw error
+    if (!data) return NextResponse.json(DEFAULT_LAYOUT)
+
+    try {
+      return NextResponse.json(parseLayout(data.layout))
+    } catch (parseError) {
+      // A layout saved by an older version no longer validates; fall back rather than break the page
+      console.error('Stored dashboard layout is invalid:', parseError)
+      return NextResponse.json(DEFAULT_LAYOUT)
+    }
+  } catch (error) {
+    return errorResponse(error)
+  }
+}
+
+// PUT /api/layout with a DashboardLayout body → the saved layout
+export async function PUT(request: NextRequest) {
+  try {
+    const access = await requireAccess()
+    const layout = parseLayout(await readJson(request))
+    const client = await createServerSupabase()
+    const { error } = await client.from('dashboard_layouts').upsert({
+      user_id: access.userId,
+      layout: layout as unknown as Json,
+      updated_at: new Date().toISOString()
+    })
+    if (error) throw error
+    return NextResponse.json(layout)
+  } catch (error) {
+    return errorResponse(error)
+  }
+}
+
+// DELETE /api/layout → back to the default layout
+export async function DELETE() {
+  try {
+    const access = await requireAccess()
+    const client = await createServerSupabase()
+    const { error } = await client.from('dashboard_layouts').delete().eq('user_id', access.userId)
+    if (error) throw error
+    return NextResponse.json(DEFAULT_LAYOUT)
+  } catch (error) {
+    return errorResponse(error)
+  }
+}
@@ -0,0 +1,9 @@
+import { withMetricsContext } from '@/lib/api-server'
+import { hasPermission } from '@/lib/auth'
+import { cohortsWithoutFinance, fetchCohortReport } from '@/lib/cohorts'
+
+// GET /api/metrics/cohorts?from=<ISO>&to=<ISO>[&pages=a,b] → CohortReport for PSIDs first seen in the window
+export const GET = withMetricsContext(async ({ client, access, range, filters }) => {
+  const report = await fetchCohortReport(client, range, filters)
+  return hasPermission(access, 'view_finance') ? report : cohortsWithoutFinance(report)
+})
@@ -0,0 +1,28 @@
+import { withMetricsContext } from '@/lib/api-server'
+import { hasPermission } from '@/lib/auth'
+import { type NumericMetricKey, METRIC_LABELS } from '@/lib/metrics'
+import { type DrillDownTarget, drillDownSource, fetchDrillDownRows } from '@/lib/drilldown'
+import { ApiError } from '@/lib/apiError'
+
+// GET /api/metrics/drilldown?from=<ISO>&to=<ISO>[&pages=a,b] with metric=<key> and/or intents=Lead,VC
+// → DrillDownResult. `intents` lists exactly those intent types, e.g. a custom good/bad grouping.
+export const GET = withMetricsContext(async ({ client, access, range, filters }, searchParams) => {
+  const metric = searchParams.get('metric')
+  const intents = searchParams.get('intents')
+  if (metric && !Object.keys(METRIC_LABELS).includes(metric)) {
+    throw new ApiError(400, 'bad_request', `Unknown metric "${metric}"`)
+  }
+
+  const target: DrillDownTarget = {
+    metric: (metric ?? undefined) as NumericMetricKey | undefined,
+    intentTypes: intents === null ? undefined : intents.split(',').filter(Boolean)
+  }
+  const source = drillDownSource(target)
+  if (!source) {
+    throw new ApiError(400, 'bad_request', metric ? `Metric "${metric}" has no drill-down` : 'Pass a metric or intents')
+  }
+  if (source === 'purchase' && !hasPermission(access, 'view_finance')) {
+    throw new ApiError(403, 'forbidden', 'Purchase rows need finance access')
+  }
+  return fetchDrillDownRows(client, target, range, filters)
+})
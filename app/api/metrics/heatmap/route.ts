@@ -0,0 +1,7 @@
+import { withMetricsContext } from '@/lib/api-server'
+import { fetchHeatmapData } from '@/lib/heatmap'
+
+// GET /api/metrics/heatmap?from=<ISO>&to=<ISO>[&pages=a,b] → HeatmapData by Bangkok weekday and hour
+export const GET = withMetricsContext(async ({ client, range, filters }) => {
+  return fetchHeatmapData(client, range, filters)
+})
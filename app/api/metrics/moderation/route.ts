@@ -0,0 +1,7 @@
+import { withMetricsContext } from '@/lib/api-server'
+import { fetchModerationReport } from '@/lib/moderation'
+
+// GET /api/metrics/moderation?from=<ISO>&to=<ISO>[&pages=a,b] → ModerationReport for bad-customer intents
+export const GET = withMetricsContext(async ({ client, range, filters }) => {
+  return fetchModerationReport(client, range, filters)
+})
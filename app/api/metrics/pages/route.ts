@@ -0,0 +1,15 @@
+import { withMetricsContext } from '@/lib/api-server'
+import { hasPermission } from '@/lib/auth'
+import { withoutFinance } from '@/lib/metrics'
+import { fetchPageBreakdown, fetchPages } from '@/lib/pages'
+
+// GET /api/metrics/pages?from=<ISO>&to=<ISO>[&pages=a,b] → PageMetrics[], one row per page
+export const GET = withMetricsContext(async ({ client, access, range, filters }) => {
+  const pages = await fetchPages(client)
+  const scoped = filters.pageIds?.length
+    ? pages.filter((page) => filters.pageIds?.includes(page.id))
+    : pages
+  const breakdown = await fetchPageBreakdown(client, range, scoped)
+  if (hasPermission(access, 'view_finance')) return breakdown
+  return breakdown.map((row) => ({ ...row, metrics: withoutFinance(row.metrics) }))
+})
@@ -0,0 +1,9 @@
+import { withMetricsContext } from '@/lib/api-server'
+import { hasPermission } from '@/lib/auth'
+import { fetchMetricData, withoutFinance } from '@/lib/metrics'
+
+// GET /api/metrics?from=<ISO>&to=<ISO>[&pages=a,b] → MetricData
+export const GET = withMetricsContext(async ({ client, access, range, filters }) => {
+  const metrics = await fetchMetricData(client, range, filters)
+  return hasPermission(access, 'view_finance') ? metrics : withoutFinance(metrics)
+})
@@ -0,0 +1,10 @@
+import { withMetricsContext } from '@/lib/api-server'
+import { hasPermission } from '@/lib/auth'
+import { fetchTrendData } from '@/lib/trends'
+
+// GET /api/metrics/trends?from=<ISO>&to=<ISO>[&pages=a,b] → TrendData
+export const GET = withMetricsContext(async ({ client, access, range, filters }) => {
+  const trends = await fetchTrendData(client, range, filters)
+  if (hasPermission(access, 'view_finance')) return trends
+  return { ...trends, points: trends.points.map((point) => ({ ...point, revenue: 0 })) }
+})
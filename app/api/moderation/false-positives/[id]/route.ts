@@ -0,0 +1,33 @@
+import { type NextRequest, NextResponse } from 'next/server'
+import { createServerSupabase } from '@/lib/supabase-server'
+import { errorResponse, requireAccess, requirePermission } from '@/lib/api-server'
+import { setFalsePositive } from '@/lib/moderation'
+import { ApiError } from '@/lib/apiError'
+
+type FalsePositiveRouteContext = { params: Promise<{ id: string }> }
+
+const mark = async ({ params }: FalsePositiveRouteContext, isFalsePositive: boolean) => {
+  try {
+    const access = await requireAccess()
+    requirePermission(access, 'moderate')
+    const { id } = await params
+    const intentId = Number(id)
+    if (!Number.isInteger(intentId)) throw new ApiError(400, 'bad_request', 'Intent id must be an integer')
+    const client = await createServerSupabase()
+    const event = await setFalsePositive(client, intentId, isFalsePositive)
+    if (!event) throw new ApiError(404, 'not_found', 'Intent not found')
+    return NextResponse.json(event)
+  } catch (error) {
+    return errorResponse(error)
+  }
+}
+
+// POST /api/moderation/false-positives/:intentId → the ModerationEvent, now excluded from every count
+export async function POST(_request: NextRequest, context: FalsePositiveRouteContext) {
+  return mark(context, true)
+}
+
+// DELETE /api/moderation/false-positives/:intentId → the ModerationEvent, counted again
+export async function DELETE(_request: NextRequest, context: FalsePositiveRouteContext) {
+  return mark(context, false)
+}
@@ -0,0 +1,17 @@
+import { NextResponse } from 'next/server'
+import { createServerSupabase } from '@/lib/supabase-server'
+import { errorResponse, requireAccess } from '@/lib/api-server'
+import { fetchPages } from '@/lib/pages'
+
+// GET /api/pages → Page[] the signed-in user may see
+export async function GET() {
+  try {
+    const access = await requireAccess()
+    const pages = await fetchPages(await createServerSupabase())
+    return NextResponse.json(
+      access.pageIds ? pages.filter((page) => access.pageIds?.includes(page.id)) : pages
+    )
+  } catch (error) {
+    return errorResponse(error)
+  }
+}
@@ -0,0 +1,27 @@
+import { type NextRequest, NextResponse } from 'next/server'
+import { createServerSupabase } from '@/lib/supabase-server'
+import { errorResponse, readJson, requireAccess } from '@/lib/api-server'
+import { fetchUserPreferences, parsePreferences, saveUserPreferences } from '@/lib/i18n'
+
+// GET /api/preferences → the signed-in user's UserPreferences, or the defaults
+export async function GET() {
+  try {
+    const access = await requireAccess()
+    const client = await createServerSupabase()
+    return NextResponse.json(await fetchUserPreferences(client, access.userId))
+  } catch (error) {
+    return errorResponse(error)
+  }
+}
+
+// PUT /api/preferences with a UserPreferences body → the saved preferences
+export async function PUT(request: NextRequest) {
+  try {
+    const access = await requireAccess()
+    const preferences = parsePreferences(await readJson(request))
+    const client = await createServerSupabase()
+    return NextResponse.json(await saveUserPreferences(client, access.userId, preferences))
+  } catch (error) {
+    return errorResponse(error)
+  }
+}
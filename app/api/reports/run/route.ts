@@ -0,0 +1,21 @@
+import { type NextRequest, NextResponse } from 'next/server'
+import { createServiceSupabase } from '@/lib/supabase-server'
+import { errorResponse, requireAccess, requirePermission } from '@/lib/api-server'
+import { runReportSchedules } from '@/lib/reports-server'
+import { reportSendersFromEnv } from '@/lib/reportDelivery'
+
+// POST /api/reports/run → ReportRun[]
+// Called hourly by a scheduler with `Authorization: Bearer $CRON_SECRET`, or by an admin from the reports page.
+export async function POST(request: NextRequest) {
+  try {
+    const cronSecret = process.env.CRON_SECRET
+    const fromScheduler = Boolean(cronSecret) && request.headers.get('authorization') === `Bearer ${cronSecret}`
+    if (!fromScheduler) requirePermission(await requireAccess(), 'manage')
+
+    // Schedules cover pages the caller may not see, so reports are built with the service role
+    const results = await runReportSchedules(createServiceSupabase(), reportSendersFromEnv())
+    return NextResponse.json(results)
+  } catch (error) {
+    return errorResponse(error)
+  }
+}
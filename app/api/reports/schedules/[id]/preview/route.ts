@@ -0,0 +1,25 @@
+import { type NextRequest, NextResponse } from 'next/server'
+import { createServerSupabase } from '@/lib/supabase-server'
+import { errorResponse, requireAccess } from '@/lib/api-server'
+import { hasPermission } from '@/lib/auth'
+import { latestSendTime, renderReport } from '@/lib/reports'
+import { buildScheduledReport, fetchReportSchedule } from '@/lib/reports-server'
+
+type PreviewRouteContext = { params: Promise<{ id: string }> }
+
+// GET /api/reports/schedules/:id/preview → RenderedReport for the schedule's latest send time.
+// Nothing is delivered, and the figures are limited to what the caller may see.
+export async function GET(_request: NextRequest, { params }: PreviewRouteContext) {
+  try {
+    const access = await requireAccess()
+    const { id } = await params
+    const client = await createServerSupabase()
+    const schedule = await fetchReportSchedule(client, id)
+    const report = await buildScheduledReport(client, schedule, latestSendTime(schedule), {
+      includeFinance: hasPermission(access, 'view_finance')
+    })
+    return NextResponse.json(renderReport(report))
+  } catch (error) {
+    return errorResponse(error)
+  }
+}
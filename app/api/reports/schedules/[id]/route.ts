@@ -0,0 +1,35 @@
+import { type NextRequest, NextResponse } from 'next/server'
+import { createServerSupabase } from '@/lib/supabase-server'
+import { errorResponse, readJson, requireAccess, requirePermission } from '@/lib/api-server'
+import { parseReportScheduleInput } from '@/lib/reports'
+import { updateReportSchedule } from '@/lib/reports-server'
+
+type ScheduleRouteContext = { params: Promise<{ id: string }> }
+
+// PATCH /api/reports/schedules/:id with a partial ReportScheduleInput → the updated ReportSchedule (admins only)
+export async function PATCH(request: NextRequest, { params }: ScheduleRouteContext) {
+  try {
+    const access = await requireAccess()
+    requirePermission(access, 'manage')
+    const { id } = await params
+    const input = parseReportScheduleInput(await readJson(request), true)
+    return NextResponse.json(await updateReportSchedule(await createServerSupabase(), id, input))
+  } catch (error) {
+    return errorResponse(error)
+  }
+}
+
+// DELETE /api/reports/schedules/:id (admins only)
+export async function DELETE(_request: NextRequest, { params }: ScheduleRouteContext) {
+  try {
+    const access = await requireAccess()
+    requirePermission(access, 'manage')
+    const { id } = await params
+    const client = await createServerSupabase()
+    const { error } = await client.from('report_schedules').delete().eq('id', id)
+    if (error) throw error
+    return new NextResponse(null, { status: 204 })
+  } catch (error) {
+    return errorResponse(error)
+  }
+}
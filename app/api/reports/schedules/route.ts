@@ -0,0 +1,28 @@
+import { type NextRequest, NextResponse } from 'next/server'
+import { createServerSupabase } from '@/lib/supabase-server'
+import { errorResponse, readJson, requireAccess, requirePermission } from '@/lib/api-server'
+import { parseReportScheduleInput } from '@/lib/reports'
+import { fetchReportSchedules, insertReportSchedule } from '@/lib/reports-server'
+
+// GET /api/reports/schedules → ReportSchedule[] visible to the user, with recipients for admins
+export async function GET() {
+  try {
+    await requireAccess()
+    return NextResponse.json(await fetchReportSchedules(await createServerSupabase()))
+  } catch (error) {
+    return errorResponse(error)
+  }
+}
+
+// POST /api/reports/schedules with a ReportScheduleInput body → the created ReportSchedule (admins only)
+export async function POST(request: NextRequest) {
+  try {
+    const access = await requireAccess()
+    requirePermission(access, 'manage')
+    const input = parseReportScheduleInput(await readJson(request))
+    const schedule = await insertReportSchedule(await createServerSupabase(), input, access.userId)
+    return NextResponse.json(schedule, { status: 201 })
+  } catch (error) {
+    return errorResponse(error)
+  }
+}
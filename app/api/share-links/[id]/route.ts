@@ -0,0 +1,17 @@
+import { type NextRequest, NextResponse } from 'next/server'
+import { createServerSupabase } from '@/lib/supabase-server'
+import { errorResponse, requireAccess, requirePermission } from '@/lib/api-server'
+import { revokeShareLink } from '@/lib/shareLinks-server'
+
+type ShareLinkRouteContext = { params: Promise<{ id: string }> }
+
+// DELETE /api/share-links/:id → the revoked ShareLink (admins only). The row and its access log are kept.
+export async function DELETE(_request: NextRequest, { params }: ShareLinkRouteContext) {
+  try {
+    requirePermission(await requireAccess(), 'manage')
+    const { id } = await params
+    return NextResponse.json(await revokeShareLink(await createServerSupabase(), id))
+  } catch (error) {
+    return errorResponse(error)
+  }
+}
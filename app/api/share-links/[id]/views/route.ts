@@ -0,0 +1,17 @@
+import { type NextRequest, NextResponse } from 'next/server'
+import { createServerSupabase } from '@/lib/supabase-server'
+import { errorResponse, requireAccess, requirePermission } from '@/lib/api-server'
+import { fetchShareLinkViews } from '@/lib/shareLinks-server'
+
+type ShareLinkRouteContext = { params: Promise<{ id: string }> }
+
+// GET /api/share-links/:id/views → the newest ShareLinkView rows for the link (admins only)
+export async function GET(_request: NextRequest, { params }: ShareLinkRouteContext) {
+  try {
+    requirePermission(await requireAccess(), 'manage')
+    const { id } = await params
+    return NextResponse.json(await fetchShareLinkViews(await createServerSupabase(), id))
+  } catch (error) {
+    return errorResponse(error)
+  }
+}
@@ -0,0 +1,29 @@
+import { type NextRequest, NextResponse } from 'next/server'
+import { createServerSupabase } from '@/lib/supabase-server'
+import { errorResponse, readJson, requireAccess, requirePermission } from '@/lib/api-server'
+import { type ShareLinkWithToken, parseShareLinkInput } from '@/lib/shareLinks'
+import { fetchShareLinks, insertShareLink, signShareToken } from '@/lib/shareLinks-server'
+
+// GET /api/share-links → ShareLinkWithToken[], newest first (admins only)
+export async function GET() {
+  try {
+    requirePermission(await requireAccess(), 'manage')
+    const links = await fetchShareLinks(await createServerSupabase())
+    return NextResponse.json(links.map((link): ShareLinkWithToken => ({ ...link, token: signShareToken(link) })))
+  } catch (error) {
+    return errorResponse(error)
+  }
+}
+
+// POST /api/share-links with a ShareLinkInput body → the created ShareLinkWithToken (admins only)
+export async function POST(request: NextRequest) {
+  try {
+    const access = await requireAccess()
+    requirePermission(access, 'manage')
+    const input = parseShareLinkInput(await readJson(request))
+    const link = await insertShareLink(await createServerSupabase(), input, access.userId)
+    return NextResponse.json({ ...link, token: signShareToken(link) }, { status: 201 })
+  } catch (error) {
+    return errorResponse(error)
+  }
+}
@@ -0,0 +1,22 @@
+import { type NextRequest, NextResponse } from 'next/server'
+import { createServiceSupabase } from '@/lib/supabase-server'
+import { errorResponse } from '@/lib/api-server'
+import { fetchSharedDashboard, resolveShareLink } from '@/lib/shareLinks-server'
+
+type ShareRouteContext = { params: Promise<{ token: string }> }
+
+// GET /api/share/:token[?range=7days] → SharedDashboard, without a login.
+// Page views are logged by the /share and /embed pages, not by these data refreshes.
+export async function GET(request: NextRequest, { params }: ShareRouteContext) {
+  try {
+    const { token } = await params
+    // The verified link fixes the pages and time frames, so the service role never reads
+    // anything the viewer chose
+    const client = createServiceSupabase()
+    const link = await resolveShareLink(client, token)
+    const dashboard = await fetchSharedDashboard(client, link, request.nextUrl.searchParams.get('range'))
+    return NextResponse.json(dashboard, { headers: { 'Cache-Control': 'no-store' } })
+  } catch (error) {
+    return errorResponse(error)
+  }
+}
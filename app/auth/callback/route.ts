@@ -0,0 +1,19 @@
+import { type NextRequest, NextResponse } from 'next/server'
+import { createServerSupabase } from '@/lib/supabase-server'
+import { safeRedirectPath } from '@/lib/auth'
+
+// Magic links land here with a one-time code to exchange for a session
+export async function GET(request: NextRequest) {
+  const { searchParams, origin } = request.nextUrl
+  const code = searchParams.get('code')
+  const next = safeRedirectPath(searchParams.get('next'))
+
+  if (code) {
+    const supabase = await createServerSupabase()
+    const { error } = await supabase.auth.exchangeCodeForSession(code)
+    if (!error) return NextResponse.redirect(`${origin}${next}`)
+    console.error('Error exchanging auth code:', error)
+  }
+
+  return NextResponse.redirect(`${origin}/login?error=link_invalid`)
+}
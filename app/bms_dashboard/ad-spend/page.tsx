@@ -0,0 +1,178 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import Link from 'next/link'
+import { ArrowLeft, Trash2, Upload } from 'lucide-react'
+import { type AdSpendImport, AD_SPEND_SOURCE_LABELS } from '@/lib/adSpend'
+import { hasPermission } from '@/lib/auth'
+import type { Page } from '@/lib/pages'
+import { deleteAdSpendImport, getAdSpendImports, getPages, uploadAdSpend } from '@/lib/metricsApi'
+import { useAccess } from '@/components/AccessProvider'
+import { useI18n } from '@/components/I18nProvider'
+
+export default function AdSpendPage() {
+  const access = useAccess()
+  const { t, label, formatDateTime, formatNumber } = useI18n()
+  const canManage = hasPermission(access, 'manage')
+  const showFinance = hasPermission(access, 'view_finance')
+  const [imports, setImports] = useState<AdSpendImport[]>([])
+  const [pages, setPages] = useState<Page[]>([])
+  const [pageId, setPageId] = useState('')
+  const [file, setFile] = useState<File | null>(null)
+  const [uploading, setUploading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const run = async (action: () => Promise<void>) => {
+    setError(null)
+    try {
+      await action()
+    } catch (error) {
+      console.error('Ad spend request failed:', error)
+      setError(error instanceof Error ? error.message : '')
+    }
+  }
+
+  useEffect(() => {
+    if (!showFinance) return
+    run(async () => {
+      const [importRows, pageRows] = await Promise.all([getAdSpendImports(), getPages()])
+      setImports(importRows)
+      setPages(pageRows)
+      setPageId(pageRows[0]?.id ?? '')
+    })
+  }, [showFinance])
+
+  const submit = async (event: React.FormEvent) => {
+    event.preventDefault()
+    if (!file || !pageId) return
+    setUploading(true)
+    await run(async () => {
+      const created = await uploadAdSpend(pageId, file.name, await file.text())
+      setImports([created, ...imports])
+      setFile(null)
+      ;(event.target as HTMLFormElement).reset()
+    })
+    setUploading(false)
+  }
+
+  const remove = (item: AdSpendImport) => run(async () => {
+    if (!window.confirm(t('adSpend.confirmDelete', { label: item.label }))) return
+    await deleteAdSpendImport(item.id)
+    setImports(imports.filter((row) => row.id !== item.id))
+  })
+
+  const pageName = (id: string) => pages.find((page) => page.id === id)?.name ?? id
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-gray-50 to-gray-100 p-6">
+      <div className="max-w-5xl mx-auto">
+        <Link href="/bms_dashboard" className="inline-flex items-center gap-1 text-sm text-blue-600 hover:underline mb-4">
+          <ArrowLeft className="w-4 h-4" />
+          {t('common.back')}
+        </Link>
+        <div className="mb-6">
+          <h1 className="text-3xl font-bold text-gray-900">{t('adSpend.title')}</h1>
+          <p className="text-gray-600">{t('adSpend.subtitle')}</p>
+        </div>
+
+        {!showFinance && (
+          <div className="rounded-lg border border-amber-200 bg-amber-50 px-4 py-3 text-sm text-amber-800">
+            {t('adSpend.financeOnly')}
+          </div>
+        )}
+
+        {error !== null && (
+          <div className="mb-4 rounded-lg border border-red-200 bg-red-50 px-4 py-3 text-sm text-red-700">{error || t('common.requestFailed')}</div>
+        )}
+
+        {showFinance && canManage && (
+          <form onSubmit={submit} className="bg-white rounded-lg shadow-sm p-6 mb-6 space-y-4 text-sm">
+            <h2 className="text-lg font-semibold text-gray-900">{t('adSpend.upload')}</h2>
+            <p className="text-gray-600">{t('adSpend.uploadHint')}</p>
+            <div className="flex flex-wrap items-end gap-3">
+              <label className="block">
+                <span className="text-gray-700">{t('common.page')}</span>
+                <select
+                  value={pageId}
+                  onChange={(event) => setPageId(event.target.value)}
+                  className="mt-1 block rounded-md border border-gray-300 px-3 py-2"
+                >
+                  {pages.map((page) => <option key={page.id} value={page.id}>{page.name}</option>)}
+                </select>
+              </label>
+              <label className="block">
+                <span className="text-gray-700">{t('adSpend.file')}</span>
+                <input
+                  type="file"
+                  accept=".csv,text/csv"
+                  required
+                  onChange={(event) => setFile(event.target.files?.[0] ?? null)}
+                  className="mt-1 block"
+                />
+              </label>
+              <button
+                type="submit"
+                disabled={uploading || !file || !pageId}
+                className="flex items-center gap-2 px-4 py-2 rounded-md bg-blue-600 text-white font-semibold hover:bg-blue-700 disabled:opacity-50"
+              >
+                <Upload className="w-4 h-4" />
+                {uploading ? t('adSpend.importing') : t('adSpend.import')}
+              </button>
+            </div>
+          </form>
+        )}
+
+        {showFinance && (
+          <div className="bg-white rounded-lg shadow-sm overflow-hidden">
+            <table className="w-full text-sm">
+              <thead className="bg-gray-50 text-left text-gray-600">
+                <tr>
+                  <th className="px-4 py-3">{t('adSpend.columnImport')}</th>
+                  <th className="px-4 py-3">{t('common.page')}</th>
+                  <th className="px-4 py-3">{t('adSpend.days')}</th>
+                  <th className="px-4 py-3 text-right">{t('adSpend.rows')}</th>
+                  <th className="px-4 py-3">{t('adSpend.imported')}</th>
+                  {canManage && <th className="px-4 py-3"></th>}
+                </tr>
+              </thead>
+              <tbody>
+                {imports.length === 0 && (
+                  <tr>
+                    <td colSpan={6} className="px-4 py-6 text-center text-gray-500">{t('adSpend.none')}</td>
+                  </tr>
+                )}
+                {imports.map((item) => (
+                  <tr key={item.id} className="border-t border-gray-100">
+                    <td className="px-4 py-3">
+                      <p className="font-medium text-gray-900">{item.label}</p>
+                      <p className="text-gray-500">{label(AD_SPEND_SOURCE_LABELS[item.source])}</p>
+                    </td>
+                    <td className="px-4 py-3 text-gray-700">{pageName(item.page_id)}</td>
+                    <td className="px-4 py-3 text-gray-700">
+                      {item.date_from === item.date_to ? item.date_from : `${item.date_from} – ${item.date_to}`}
+                    </td>
+                    <td className="px-4 py-3 text-right text-gray-700">{formatNumber(item.row_count)}</td>
+                    <td className="px-4 py-3 text-gray-700">
+                      {formatDateTime(new Date(item.created_at))}
+                    </td>
+                    {canManage && (
+                      <td className="px-4 py-3 text-right">
+                        <button
+                          onClick={() => remove(item)}
+                          className="p-1.5 rounded-md text-gray-500 hover:bg-red-50 hover:text-red-700"
+                          title={t('adSpend.delete')}
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </button>
+                      </td>
+                    )}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
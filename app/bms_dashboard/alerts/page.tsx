@@ -0,0 +1,353 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import Link from 'next/link'
+import { ArrowLeft, Play, Trash2 } from 'lucide-react'
+import {
+  type AlertChannel,
+  type AlertRule,
+  type AlertRuleInput,
+  type RuleEvaluation,
+  ALERT_CHANNEL_LABELS,
+  ALERT_CHANNELS,
+  ALERT_METRICS,
+  ALERT_OPERATORS,
+  ALERT_WINDOWS,
+  ALERT_WINDOW_LABELS,
+  alertMetricLabel,
+  isFinanceAlertMetric,
+  isRatioMetric
+} from '@/lib/alerts'
+import { hasPermission } from '@/lib/auth'
+import type { Page } from '@/lib/pages'
+import { createAlertRule, deleteAlertRule, evaluateAlerts, getAlertRules, getPages, updateAlertRule } from '@/lib/metricsApi'
+import type { MessageKey } from '@/lib/messages'
+import { useAccess } from '@/components/AccessProvider'
+import { useI18n } from '@/components/I18nProvider'
+import PageSelector from '@/components/PageSelector'
+
+const emptyRule: AlertRuleInput = {
+  name: '',
+  metric: 'totalBan',
+  operator: '>',
+  threshold: 20,
+  window: 'today',
+  window_hours: null,
+  page_ids: null,
+  channels: [],
+  cooldown_minutes: 60,
+  enabled: true
+}
+
+const STATUS_LABELS: Record<RuleEvaluation['status'], MessageKey> = {
+  triggered: 'alerts.triggered',
+  ok: 'alerts.ok',
+  cooldown: 'alerts.cooldown',
+  no_data: 'alerts.noData',
+  failed: 'alerts.failed'
+}
+
+export default function AlertRulesPage() {
+  const access = useAccess()
+  const { t, label, formatDateTime } = useI18n()
+  const canManage = hasPermission(access, 'manage')
+  const showFinance = hasPermission(access, 'view_finance')
+  const [rules, setRules] = useState<AlertRule[]>([])
+  const [pages, setPages] = useState<Page[]>([])
+  const [draft, setDraft] = useState<AlertRuleInput>(emptyRule)
+  const [results, setResults] = useState<RuleEvaluation[] | null>(null)
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const run = async (action: () => Promise<void>) => {
+    setError(null)
+    try {
+      await action()
+    } catch (error) {
+      console.error('Alert rule request failed:', error)
+      setError(error instanceof Error ? error.message : '')
+    }
+  }
+
+  useEffect(() => {
+    run(async () => {
+      const [ruleRows, pageRows] = await Promise.all([getAlertRules(), getPages()])
+      setRules(ruleRows)
+      setPages(pageRows)
+    })
+  }, [])
+
+  const update = (changes: Partial<AlertRuleInput>) => setDraft({ ...draft, ...changes })
+
+  const toggleChannel = (channel: AlertChannel) => {
+    update({
+      channels: draft.channels.includes(channel)
+        ? draft.channels.filter((item) => item !== channel)
+        : [...draft.channels, channel]
+    })
+  }
+
+  const submit = async (event: React.FormEvent) => {
+    event.preventDefault()
+    setSaving(true)
+    await run(async () => {
+      const created = await createAlertRule({ ...draft, window_hours: draft.window === 'hours' ? draft.window_hours : null })
+      setRules([...rules, created])
+      setDraft(emptyRule)
+    })
+    setSaving(false)
+  }
+
+  const toggleEnabled = (rule: AlertRule) => run(async () => {
+    const updated = await updateAlertRule(rule.id, { enabled: !rule.enabled })
+    setRules(rules.map((item) => (item.id === rule.id ? updated : item)))
+  })
+
+  const remove = (rule: AlertRule) => run(async () => {
+    if (!window.confirm(t('alerts.confirmDelete', { name: rule.name }))) return
+    await deleteAlertRule(rule.id)
+    setRules(rules.filter((item) => item.id !== rule.id))
+  })
+
+  const evaluateNow = () => run(async () => {
+    setResults(await evaluateAlerts())
+    setRules(await getAlertRules())
+  })
+
+  // The UI counterpart of describeRule, which stays English for notifications
+  const describe = (rule: Pick<AlertRule, 'metric' | 'operator' | 'threshold' | 'window' | 'window_hours'>) => t('alerts.describe', {
+    metric: label(alertMetricLabel(rule.metric)),
+    operator: rule.operator,
+    threshold: `${rule.threshold}${isRatioMetric(rule.metric) ? '%' : ''}`,
+    window: rule.window === 'hours' ? t('alerts.lastHours', { hours: rule.window_hours ?? 1 }) : label(ALERT_WINDOW_LABELS[rule.window])
+  })
+
+  const pageNames = (pageIds: string[] | null) => {
+    if (!pageIds?.length) return t('common.allPages')
+    return pageIds.map((id) => pages.find((page) => page.id === id)?.name ?? id).join(', ')
+  }
+
+  const metricOptions = ALERT_METRICS.filter((metric) => showFinance || !isFinanceAlertMetric(metric))
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-gray-50 to-gray-100 p-6">
+      <div className="max-w-5xl mx-auto">
+        <Link href="/bms_dashboard" className="inline-flex items-center gap-1 text-sm text-blue-600 hover:underline mb-4">
+          <ArrowLeft className="w-4 h-4" />
+          {t('common.back')}
+        </Link>
+        <div className="flex items-center justify-between mb-6">
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900">{t('alerts.rulesTitle')}</h1>
+            <p className="text-gray-600">{t('alerts.subtitle')}</p>
+          </div>
+          {canManage && (
+            <button
+              onClick={evaluateNow}
+              className="flex items-center gap-2 px-4 py-2 rounded-md bg-blue-600 text-white font-semibold hover:bg-blue-700"
+            >
+              <Play className="w-4 h-4" />
+              {t('alerts.evaluate')}
+            </button>
+          )}
+        </div>
+
+        {error !== null && (
+          <div className="mb-4 rounded-lg border border-red-200 bg-red-50 px-4 py-3 text-sm text-red-700">{error || t('common.requestFailed')}</div>
+        )}
+
+        {results && (
+          <div className="mb-6 bg-white rounded-lg shadow-sm p-4 text-sm">
+            <h2 className="font-semibold text-gray-900 mb-2">{t('alerts.lastEvaluation')}</h2>
+            {results.length === 0 && <p className="text-gray-500">{t('alerts.noEnabled')}</p>}
+            {results.map((result) => (
+              <p key={result.ruleId} className="text-gray-700">
+                <span className="font-medium">{result.name}</span>: {t(STATUS_LABELS[result.status])}
+                {result.value !== null && t('alerts.value', { value: Math.round(result.value * 100) / 100 })}
+                {result.error && ` · ${result.error}`}
+                {result.delivery && Object.keys(result.delivery).length > 0 &&
+                  ` · ${Object.entries(result.delivery).map(([channel, status]) => `${label(ALERT_CHANNEL_LABELS[channel as AlertChannel] ?? channel)} ${label(status)}`).join(', ')}`}
+              </p>
+            ))}
+          </div>
+        )}
+
+        <div className="bg-white rounded-lg shadow-sm mb-6 overflow-hidden">
+          <table className="w-full text-sm">
+            <thead className="bg-gray-50 text-left text-gray-600">
+              <tr>
+                <th className="px-4 py-3">{t('alerts.rule')}</th>
+                <th className="px-4 py-3">{t('alerts.pages')}</th>
+                <th className="px-4 py-3">{t('alerts.channels')}</th>
+                <th className="px-4 py-3">{t('alerts.lastTriggered')}</th>
+                {canManage && <th className="px-4 py-3"></th>}
+              </tr>
+            </thead>
+            <tbody>
+              {rules.length === 0 && (
+                <tr>
+                  <td colSpan={5} className="px-4 py-6 text-center text-gray-500">{t('alerts.noRules')}</td>
+                </tr>
+              )}
+              {rules.map((rule) => (
+                <tr key={rule.id} className={`border-t border-gray-100 ${rule.enabled ? '' : 'opacity-50'}`}>
+                  <td className="px-4 py-3">
+                    <p className="font-medium text-gray-900">{rule.name}</p>
+                    <p className="text-gray-600">{describe(rule)}</p>
+                  </td>
+                  <td className="px-4 py-3 text-gray-700">{pageNames(rule.page_ids)}</td>
+                  <td className="px-4 py-3 text-gray-700">
+                    {[t('alerts.inApp'), ...rule.channels.map((channel) => label(ALERT_CHANNEL_LABELS[channel]))].join(', ')}
+                  </td>
+                  <td className="px-4 py-3 text-gray-700">
+                    {rule.last_triggered_at
+                      ? formatDateTime(new Date(rule.last_triggered_at))
+                      : '–'}
+                  </td>
+                  {canManage && (
+                    <td className="px-4 py-3 text-right whitespace-nowrap">
+                      <button
+                        onClick={() => toggleEnabled(rule)}
+                        className="px-3 py-1 rounded-md bg-gray-100 text-gray-700 hover:bg-gray-200 mr-2"
+                      >
+                        {rule.enabled ? t('alerts.disable') : t('alerts.enable')}
+                      </button>
+                      <button
+                        onClick={() => remove(rule)}
+                        className="p-1.5 rounded-md text-gray-500 hover:bg-red-50 hover:text-red-700"
+                        title={t('alerts.delete')}
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    </td>
+                  )}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        {canManage && (
+          <form onSubmit={submit} className="bg-white rounded-lg shadow-sm p-6 space-y-4 text-sm">
+            <h2 className="text-lg font-semibold text-gray-900">{t('alerts.newRule')}</h2>
+            <label className="block">
+              <span className="text-gray-700">{t('alerts.name')}</span>
+              <input
+                required
+                value={draft.name}
+                onChange={(event) => update({ name: event.target.value })}
+                placeholder={t('alerts.namePlaceholder')}
+                className="mt-1 w-full rounded-md border border-gray-300 px-3 py-2"
+              />
+            </label>
+            <div className="flex flex-wrap items-end gap-3">
+              <label className="block">
+                <span className="text-gray-700">{t('alerts.metric')}</span>
+                <select
+                  value={draft.metric}
+                  onChange={(event) => update({ metric: event.target.value as AlertRuleInput['metric'] })}
+                  className="mt-1 block rounded-md border border-gray-300 px-3 py-2"
+                >
+                  {metricOptions.map((metric) => (
+                    <option key={metric} value={metric}>{label(alertMetricLabel(metric))}</option>
+                  ))}
+                </select>
+              </label>
+              <label className="block">
+                <span className="text-gray-700">{t('alerts.condition')}</span>
+                <select
+                  value={draft.operator}
+                  onChange={(event) => update({ operator: event.target.value as AlertRuleInput['operator'] })}
+                  className="mt-1 block rounded-md border border-gray-300 px-3 py-2"
+                >
+                  {ALERT_OPERATORS.map((operator) => (
+                    <option key={operator} value={operator}>{operator}</option>
+                  ))}
+                </select>
+              </label>
+              <label className="block">
+                <span className="text-gray-700">{t('alerts.threshold')}</span>
+                <input
+                  type="number"
+                  step="any"
+                  required
+                  value={draft.threshold}
+                  onChange={(event) => update({ threshold: Number(event.target.value) })}
+                  className="mt-1 block w-28 rounded-md border border-gray-300 px-3 py-2"
+                />
+              </label>
+              <label className="block">
+                <span className="text-gray-700">{t('alerts.window')}</span>
+                <select
+                  value={draft.window}
+                  onChange={(event) => {
+                    const window = event.target.value as AlertRuleInput['window']
+                    update({ window, window_hours: window === 'hours' ? draft.window_hours ?? 2 : null })
+                  }}
+                  className="mt-1 block rounded-md border border-gray-300 px-3 py-2"
+                >
+                  {ALERT_WINDOWS.map((window) => (
+                    <option key={window} value={window}>{label(ALERT_WINDOW_LABELS[window])}</option>
+                  ))}
+                </select>
+              </label>
+              {draft.window === 'hours' && (
+                <label className="block">
+                  <span className="text-gray-700">{t('alerts.hours')}</span>
+                  <input
+                    type="number"
+                    min={1}
+                    max={168}
+                    required
+                    value={draft.window_hours ?? 2}
+                    onChange={(event) => update({ window_hours: Number(event.target.value) })}
+                    className="mt-1 block w-20 rounded-md border border-gray-300 px-3 py-2"
+                  />
+                </label>
+              )}
+            </div>
+            <p className="text-gray-500">{t('alerts.preview', { rule: describe(draft) })}</p>
+            <div className="flex flex-wrap items-start gap-6">
+              <div>
+                <span className="block text-gray-700 mb-1">{t('alerts.pages')}</span>
+                <PageSelector
+                  pages={pages}
+                  selectedIds={draft.page_ids ?? []}
+                  onChange={(pageIds) => update({ page_ids: pageIds.length ? pageIds : null })}
+                />
+              </div>
+              <div>
+                <span className="block text-gray-700 mb-1">{t('alerts.notify')}</span>
+                <div className="flex gap-4 py-2">
+                  {ALERT_CHANNELS.map((channel) => (
+                    <label key={channel} className="flex items-center gap-1 text-gray-700">
+                      <input type="checkbox" checked={draft.channels.includes(channel)} onChange={() => toggleChannel(channel)} />
+                      {label(ALERT_CHANNEL_LABELS[channel])}
+                    </label>
+                  ))}
+                </div>
+              </div>
+              <label className="block">
+                <span className="text-gray-700">{t('alerts.cooldownMinutes')}</span>
+                <input
+                  type="number"
+                  min={0}
+                  value={draft.cooldown_minutes}
+                  onChange={(event) => update({ cooldown_minutes: Number(event.target.value) })}
+                  className="mt-1 block w-28 rounded-md border border-gray-300 px-3 py-2"
+                />
+              </label>
+            </div>
+            <button
+              type="submit"
+              disabled={saving}
+              className="px-4 py-2 rounded-md bg-blue-600 text-white font-semibold hover:bg-blue-700 disabled:opacity-50"
+            >
+              {saving ? t('common.saving') : t('alerts.create')}
+            </button>
+          </form>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,175 @@
+'use client'
+
+import { useState, useEffect, useMemo, Suspense } from 'react'
+import Link from 'next/link'
+import { usePathname, useRouter, useSearchParams } from 'next/navigation'
+import { ArrowLeft } from 'lucide-react'
+import { type DateRange, type TimeFrame, parseRangeParams, rangeSearchParams } from '@/lib/dateRange'
+import type { MetricFilters } from '@/lib/metrics'
+import { type CohortReport, MAX_CUSTOMER_ROWS } from '@/lib/cohorts'
+import { hasPermission, scopePageIds } from '@/lib/auth'
+import { type Page, parsePageIds } from '@/lib/pages'
+import { getCohorts, getPages } from '@/lib/metricsApi'
+import { useAccess } from '@/components/AccessProvider'
+import { useI18n } from '@/components/I18nProvider'
+import DateRangePicker from '@/components/DateRangePicker'
+import PageSelector from '@/components/PageSelector'
+import CohortTable from '@/components/CohortTable'
+import CustomerTable from '@/components/CustomerTable'
+
+function SummaryCard({ title, value, hint }: { title: string; value: string; hint?: string }) {
+  return (
+    <div className="bg-white rounded-lg shadow-sm p-5">
+      <p className="text-sm font-medium text-gray-600">{title}</p>
+      <p className="mt-1 text-2xl font-bold text-gray-900">{value}</p>
+      {hint && <p className="mt-1 text-xs text-gray-500">{hint}</p>}
+    </div>
+  )
+}
+
+function Customers() {
+  const router = useRouter()
+  const pathname = usePathname()
+  const searchParams = useSearchParams()
+  const { timeFrame, range } = useMemo(
+    () => parseRangeParams(new URLSearchParams(searchParams.toString())),
+    [searchParams]
+  )
+  const access = useAccess()
+  const { t, formatCurrency, formatDuration, formatNumber, formatDateTime } = useI18n()
+  const showFinance = hasPermission(access, 'view_finance')
+  const pageParam = searchParams.get('pages')
+  const filters = useMemo<MetricFilters>(
+    () => ({ pageIds: scopePageIds(access, parsePageIds(pageParam)) }),
+    [access, pageParam]
+  )
+  const [pages, setPages] = useState<Page[]>([])
+  const [report, setReport] = useState<CohortReport | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    getPages()
+      .then(setPages)
+      .catch((error) => console.error('Error fetching pages:', error))
+  }, [])
+
+  useEffect(() => {
+    // Cohorts re-read the whole follow-up window, so drop responses for a window the user has left
+    const controller = new AbortController()
+    setLoading(true)
+    setError(null)
+    getCohorts(range, filters, { signal: controller.signal })
+      .then(setReport)
+      .catch((error) => {
+        if (controller.signal.aborted) return
+        console.error('Error fetching cohorts:', error)
+        setError(error instanceof Error ? error.message : '')
+      })
+      .finally(() => {
+        if (!controller.signal.aborted) setLoading(false)
+      })
+    return () => controller.abort()
+  }, [range, filters])
+
+  const navigate = (nextTimeFrame: TimeFrame, nextRange: DateRange, nextPageIds: string[]) => {
+    const params = rangeSearchParams(nextTimeFrame, nextRange)
+    if (nextPageIds.length) params.set('pages', nextPageIds.join(','))
+    const query = params.toString()
+    router.replace(query ? `${pathname}?${query}` : pathname, { scroll: false })
+  }
+
+  const summary = report?.summary
+  const duration = (ms: number | null | undefined) => (ms === null || ms === undefined ? '–' : formatDuration(ms))
+  const share = (count: number | undefined) => {
+    return summary?.customers ? t('customers.share', { percent: ((Number(count) / summary.customers) * 100).toFixed(1) }) : undefined
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-gray-50 to-gray-100 p-6">
+      <div className="max-w-7xl mx-auto">
+        <Link href={`/bms_dashboard?${searchParams.toString()}`} className="inline-flex items-center gap-1 text-sm text-blue-600 hover:underline mb-4">
+          <ArrowLeft className="w-4 h-4" />
+          {t('common.back')}
+        </Link>
+        <div className="mb-6">
+          <h1 className="text-3xl font-bold text-gray-900">{t('customers.title')}</h1>
+          <p className="text-gray-600">{t('customers.subtitle')}</p>
+        </div>
+
+        <div className="flex flex-wrap items-start gap-4 mb-6">
+          <div className="flex-1">
+            <DateRangePicker
+              timeFrame={timeFrame}
+              range={range}
+              onChange={(nextTimeFrame, nextRange) => navigate(nextTimeFrame, nextRange, parsePageIds(pageParam))}
+            />
+          </div>
+          {pages.length > 1 && (
+            <PageSelector
+              pages={pages}
+              selectedIds={parsePageIds(pageParam)}
+              onChange={(nextPageIds) => navigate(timeFrame, range, nextPageIds)}
+            />
+          )}
+        </div>
+
+        {error !== null && (
+          <div className="mb-4 rounded-lg border border-red-200 bg-red-50 px-4 py-3 text-sm text-red-700">{error || t('customers.loadError')}</div>
+        )}
+
+        <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-6 gap-4 mb-8">
+          <SummaryCard title={t('customers.new')} value={summary ? formatNumber(summary.customers) : '–'} />
+          <SummaryCard title={t('customers.leads')} value={summary ? formatNumber(summary.leads) : '–'} hint={share(summary?.leads)} />
+          <SummaryCard title={t('customers.bought')} value={summary ? formatNumber(summary.buyers) : '–'} hint={share(summary?.buyers)} />
+          <SummaryCard
+            title={t('customers.repeatRate')}
+            value={summary?.repeatPurchaseRate != null ? `${summary.repeatPurchaseRate}%` : '–'}
+            hint={summary ? t('customers.repeatBuyers', { count: formatNumber(summary.repeatBuyers) }) : undefined}
+          />
+          <SummaryCard title={t('customers.medianToLead')} value={duration(summary?.medianTimeToLead)} />
+          <SummaryCard title={t('customers.medianToPurchase')} value={duration(summary?.medianTimeToPurchase)} />
+          {showFinance && (
+            <>
+              <SummaryCard title={t('customers.value')} value={summary ? formatCurrency(summary.totalValue) : '–'} />
+              <SummaryCard title={t('customers.averageValue')} value={summary ? formatCurrency(summary.averageLifetimeValue) : '–'} hint={t('customers.perBuyer')} />
+            </>
+          )}
+        </div>
+
+        <div className="bg-white rounded-lg shadow-lg p-6 mb-8">
+          <h2 className="text-2xl font-bold text-gray-900 mb-1">{t('customers.cohorts')}</h2>
+          <p className="text-sm text-gray-500 mb-4">
+            {t('customers.cohortsHint')}
+            {report && t('customers.horizon', { time: formatDateTime(new Date(report.horizon)) })}
+          </p>
+          <CohortTable cohorts={report?.cohorts ?? []} loading={loading} />
+        </div>
+
+        <div className="bg-white rounded-lg shadow-lg p-6">
+          <h2 className="text-2xl font-bold text-gray-900 mb-4">{t('customers.journeys')}</h2>
+          {report?.truncated && (
+            <div className="mb-4 rounded-lg border border-amber-200 bg-amber-50 px-4 py-3 text-sm text-amber-800">
+              {t('customers.truncated', { count: formatNumber(MAX_CUSTOMER_ROWS) })}
+            </div>
+          )}
+          {loading ? (
+            <div className="flex items-center justify-center h-48">
+              <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+            </div>
+          ) : (
+            <CustomerTable customers={report?.customers ?? []} pages={pages} showFinance={showFinance} />
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
+
+export default function CustomersPage() {
+  return (
+    <Suspense>
+      <Customers />
+    </Suspense>
+  )
+}
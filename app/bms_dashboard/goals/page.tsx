@@ -0,0 +1,265 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import Link from 'next/link'
+import { ArrowLeft, Pencil, Trash2 } from 'lucide-react'
+import {
+  type GoalDirection,
+  type GoalInput,
+  type GoalPeriod,
+  type GoalProgress,
+  GOAL_DIRECTIONS,
+  GOAL_DIRECTION_LABELS,
+  GOAL_METRICS,
+  GOAL_PERIODS,
+  GOAL_PERIOD_LABELS
+} from '@/lib/goals'
+import { alertMetricLabel, isFinanceAlertMetric, isRatioMetric } from '@/lib/alerts'
+import { hasPermission } from '@/lib/auth'
+import type { Page } from '@/lib/pages'
+import { createGoal, deleteGoal, getGoalProgress, getPages, updateGoal } from '@/lib/metricsApi'
+import { invalidateQueries } from '@/lib/queryCache'
+import type { MessageKey } from '@/lib/messages'
+import { useAccess } from '@/components/AccessProvider'
+import { useI18n } from '@/components/I18nProvider'
+import PageSelector from '@/components/PageSelector'
+import GoalProgressBar from '@/components/GoalProgressBar'
+
+const emptyGoal: GoalInput = {
+  metric: 'totalLead',
+  period: 'monthly',
+  direction: 'at_least',
+  target: 100,
+  page_ids: null
+}
+
+// "At least 500 Total Lead a month", "At most 3% Chat to Buy % a week"
+const DESCRIPTIONS: Record<GoalDirection, MessageKey> = {
+  at_least: 'goals.atLeast',
+  at_most: 'goals.atMost'
+}
+
+const PER_PERIOD: Record<GoalPeriod, MessageKey> = {
+  daily: 'goals.perDay',
+  weekly: 'goals.perWeek',
+  monthly: 'goals.perMonth'
+}
+
+export default function GoalsPage() {
+  const access = useAccess()
+  const { t, label, formatDate } = useI18n()
+  const canManage = hasPermission(access, 'manage')
+  const showFinance = hasPermission(access, 'view_finance')
+  const [progress, setProgress] = useState<GoalProgress[]>([])
+  const [pages, setPages] = useState<Page[]>([])
+  const [draft, setDraft] = useState<GoalInput>(emptyGoal)
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const run = async (action: () => Promise<void>) => {
+    setError(null)
+    try {
+      await action()
+    } catch (error) {
+      console.error('Goal request failed:', error)
+      setError(error instanceof Error ? error.message : '')
+    }
+  }
+
+  // Progress is measured server-side, so every change reloads it; the dashboard cards
+  // read it through the query cache and need to forget their copy too
+  const reload = async () => {
+    invalidateQueries()
+    setProgress(await getGoalProgress())
+  }
+
+  useEffect(() => {
+    run(async () => {
+      const [progressRows, pageRows] = await Promise.all([getGoalProgress(), getPages()])
+      setProgress(progressRows)
+      setPages(pageRows)
+    }).finally(() => setLoading(false))
+  }, [])
+
+  const describeGoal = (goal: Pick<GoalInput, 'metric' | 'period' | 'direction' | 'target'>) => t(DESCRIPTIONS[goal.direction], {
+    target: `${goal.target}${isRatioMetric(goal.metric) ? '%' : ''}`,
+    metric: label(alertMetricLabel(goal.metric)),
+    per: t(PER_PERIOD[goal.period])
+  })
+
+  const update = (changes: Partial<GoalInput>) => setDraft({ ...draft, ...changes })
+
+  const submit = async (event: React.FormEvent) => {
+    event.preventDefault()
+    setSaving(true)
+    await run(async () => {
+      await createGoal(draft)
+      await reload()
+      setDraft(emptyGoal)
+    })
+    setSaving(false)
+  }
+
+  const editTarget = ({ goal }: GoalProgress) => run(async () => {
+    const answer = window.prompt(t('goals.promptTarget', { goal: describeGoal(goal) }), String(goal.target))
+    if (answer === null) return
+    await updateGoal(goal.id, { target: Number(answer) })
+    await reload()
+  })
+
+  const remove = ({ goal }: GoalProgress) => run(async () => {
+    if (!window.confirm(t('goals.confirmDelete', { goal: describeGoal(goal) }))) return
+    await deleteGoal(goal.id)
+    await reload()
+  })
+
+  const pageNames = (pageIds: string[] | null) => {
+    if (!pageIds?.length) return t('common.allPages')
+    return pageIds.map((id) => pages.find((page) => page.id === id)?.name ?? id).join(', ')
+  }
+
+  const metrics = GOAL_METRICS.filter((metric) => showFinance || !isFinanceAlertMetric(metric))
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-gray-50 to-gray-100 p-6">
+      <div className="max-w-5xl mx-auto">
+        <Link href="/bms_dashboard" className="inline-flex items-center gap-1 text-sm text-blue-600 hover:underline mb-4">
+          <ArrowLeft className="w-4 h-4" />
+          {t('common.back')}
+        </Link>
+        <div className="mb-6">
+          <h1 className="text-3xl font-bold text-gray-900">{t('goals.title')}</h1>
+          <p className="text-gray-600">{t('goals.subtitle')}</p>
+        </div>
+
+        {error !== null && (
+          <div className="mb-4 rounded-lg border border-red-200 bg-red-50 px-4 py-3 text-sm text-red-700">{error || t('common.requestFailed')}</div>
+        )}
+
+        {!loading && progress.length === 0 && (
+          <div className="mb-6 bg-white rounded-lg shadow-sm p-6 text-center text-sm text-gray-500">{t('goals.none')}</div>
+        )}
+
+        {GOAL_PERIODS.map((period) => {
+          const goals = progress.filter((item) => item.goal.period === period)
+          if (goals.length === 0) return null
+          return (
+            <div key={period} className="bg-white rounded-lg shadow-sm p-6 mb-6">
+              <div className="flex items-baseline justify-between mb-2">
+                <h2 className="text-lg font-semibold text-gray-900">{label(GOAL_PERIOD_LABELS[period])}</h2>
+                <p className="text-xs text-gray-500">
+                  {formatDate(new Date(goals[0].periodFrom))} – {formatDate(new Date(new Date(goals[0].periodTo).getTime() - 1))}
+                </p>
+              </div>
+              <ul className="divide-y divide-gray-100">
+                {goals.map((item) => (
+                  <li key={item.goal.id} className="py-4 text-sm">
+                    <div className="flex items-start justify-between gap-4">
+                      <div>
+                        <p className="font-medium text-gray-900">{label(alertMetricLabel(item.goal.metric))}</p>
+                        <p className="text-gray-600">{describeGoal(item.goal)} · {pageNames(item.goal.page_ids)}</p>
+                      </div>
+                      {canManage && (
+                        <div className="whitespace-nowrap">
+                          <button
+                            onClick={() => editTarget(item)}
+                            className="p-1.5 rounded-md text-gray-500 hover:bg-gray-100 hover:text-gray-700 mr-1"
+                            title={t('goals.changeTarget')}
+                          >
+                            <Pencil className="w-4 h-4" />
+                          </button>
+                          <button
+                            onClick={() => remove(item)}
+                            className="p-1.5 rounded-md text-gray-500 hover:bg-red-50 hover:text-red-700"
+                            title={t('goals.delete')}
+                          >
+                            <Trash2 className="w-4 h-4" />
+                          </button>
+                        </div>
+                      )}
+                    </div>
+                    <GoalProgressBar progress={item} />
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )
+        })}
+
+        {canManage && (
+          <form onSubmit={submit} className="bg-white rounded-lg shadow-sm p-6 space-y-4 text-sm">
+            <h2 className="text-lg font-semibold text-gray-900">{t('goals.newGoal')}</h2>
+            <div className="flex flex-wrap items-end gap-3">
+              <label className="block">
+                <span className="text-gray-700">{t('goals.metric')}</span>
+                <select
+                  value={draft.metric}
+                  onChange={(event) => update({ metric: event.target.value as GoalInput['metric'] })}
+                  className="mt-1 block rounded-md border border-gray-300 px-3 py-2"
+                >
+                  {metrics.map((metric) => (
+                    <option key={metric} value={metric}>{label(alertMetricLabel(metric))}</option>
+                  ))}
+                </select>
+              </label>
+              <label className="block">
+                <span className="text-gray-700">{t('goals.period')}</span>
+                <select
+                  value={draft.period}
+                  onChange={(event) => update({ period: event.target.value as GoalInput['period'] })}
+                  className="mt-1 block rounded-md border border-gray-300 px-3 py-2"
+                >
+                  {GOAL_PERIODS.map((period) => (
+                    <option key={period} value={period}>{label(GOAL_PERIOD_LABELS[period])}</option>
+                  ))}
+                </select>
+              </label>
+              <label className="block">
+                <span className="text-gray-700">{t('goals.direction')}</span>
+                <select
+                  value={draft.direction}
+                  onChange={(event) => update({ direction: event.target.value as GoalInput['direction'] })}
+                  className="mt-1 block rounded-md border border-gray-300 px-3 py-2"
+                >
+                  {GOAL_DIRECTIONS.map((direction) => (
+                    <option key={direction} value={direction}>{label(GOAL_DIRECTION_LABELS[direction])}</option>
+                  ))}
+                </select>
+              </label>
+              <label className="block">
+                <span className="text-gray-700">{isRatioMetric(draft.metric) ? t('goals.targetPercent') : t('goals.target')}</span>
+                <input
+                  type="number"
+                  required
+                  min={0}
+                  step="any"
+                  value={draft.target}
+                  onChange={(event) => update({ target: Number(event.target.value) })}
+                  className="mt-1 block w-32 rounded-md border border-gray-300 px-3 py-2"
+                />
+              </label>
+            </div>
+            <p className="text-gray-500">{describeGoal(draft)}</p>
+            <div>
+              <span className="block text-gray-700 mb-1">{t('goals.pages')}</span>
+              <PageSelector
+                pages={pages}
+                selectedIds={draft.page_ids ?? []}
+                onChange={(pageIds) => update({ page_ids: pageIds.length ? pageIds : null })}
+              />
+              <p className="mt-1 text-xs text-gray-500">{t('goals.pagesHint')}</p>
+            </div>
+            <button
+              type="submit"
+              disabled={saving || !(draft.target > 0)}
+              className="px-4 py-2 rounded-md bg-blue-600 text-white font-semibold hover:bg-blue-700 disabled:opacity-50"
+            >
+              {saving ? t('common.saving') : t('goals.create')}
+            </button>
+          </form>
+        )}
+      </div>
+    </div>
+  )
+}
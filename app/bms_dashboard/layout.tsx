@@ -0,0 +1,44 @@
+import { redirect } from 'next/navigation'
+import { getSessionAccess } from '@/lib/auth-server'
+import { createServerSupabase } from '@/lib/supabase-server'
+import { DEFAULT_PREFERENCES, fetchUserPreferences } from '@/lib/i18n'
+import AccessProvider from '@/components/AccessProvider'
+import I18nProvider from '@/components/I18nProvider'
+
+export default async function BMSDashboardLayout({ children }: {
+  children: React.ReactNode
+}) {
+  // The middleware already redirects anonymous visitors; this guards direct server renders too
+  const session = await getSessionAccess()
+  if (!session) redirect('/login?next=/bms_dashboard')
+
+  if (!session.access) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-gray-50 to-gray-100 p-6 flex items-center justify-center">
+        <div className="bg-white rounded-lg shadow-lg p-8 max-w-md text-center space-y-4">
+          <h1 className="text-2xl font-bold text-gray-900">No dashboard access</h1>
+          <p className="text-gray-600">
+            {session.email} is signed in but has no role or pages assigned. Ask an admin to grant access.
+          </p>
+          <form action="/auth/signout" method="post">
+            <button className="px-6 py-3 rounded-md font-semibold bg-gray-100 text-gray-700 hover:bg-gray-200">
+              Sign out
+            </button>
+          </form>
+        </div>
+      </div>
+    )
+  }
+
+  // Loaded here so the first render is already in the user's language
+  const preferences = await fetchUserPreferences(await createServerSupabase(), session.userId).catch((error) => {
+    console.error('Error fetching preferences:', error)
+    return DEFAULT_PREFERENCES
+  })
+
+  return (
+    <AccessProvider access={session.access}>
+      <I18nProvider initialPreferences={preferences}>{children}</I18nProvider>
+    </AccessProvider>
+  )
+}
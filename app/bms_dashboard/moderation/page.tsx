@@ -0,0 +1,345 @@
+'use client'
+
+import { useState, useEffect, useMemo, useCallback, Suspense } from 'react'
+import Link from 'next/link'
+import { usePathname, useRouter, useSearchParams } from 'next/navigation'
+import { ArrowLeft, ExternalLink, RotateCcw, ShieldOff } from 'lucide-react'
+import { type DateRange, type TimeFrame, parseRangeParams, rangeSearchParams } from '@/lib/dateRange'
+import type { MetricFilters } from '@/lib/metrics'
+import { type IntentCatalog, describeIntent } from '@/lib/intents'
+import { type ModerationCounts, type ModerationEvent, type ModerationReport, MAX_MODERATION_EVENTS, badRate } from '@/lib/moderation'
+import { hasPermission, scopePageIds } from '@/lib/auth'
+import { type Page, parsePageIds } from '@/lib/pages'
+import { conversationUrl } from '@/lib/drilldown'
+import { clearFalsePositive, getIntentCatalog, getModeration, getPages, markFalsePositive } from '@/lib/metricsApi'
+import { invalidateQueries } from '@/lib/queryCache'
+import { useAccess } from '@/components/AccessProvider'
+import { useI18n } from '@/components/I18nProvider'
+import DateRangePicker from '@/components/DateRangePicker'
+import PageSelector from '@/components/PageSelector'
+import ModerationChart from '@/components/ModerationChart'
+
+function SummaryCard({ title, value, hint, color }: { title: string; value: string; hint?: string; color?: string }) {
+  return (
+    <div className="bg-white rounded-lg shadow-sm p-5" style={color ? { borderTop: `4px solid ${color}` } : undefined}>
+      <p className="text-sm font-medium text-gray-600">{title}</p>
+      <p className="mt-1 text-2xl font-bold text-gray-900">{value}</p>
+      {hint && <p className="mt-1 text-xs text-gray-500">{hint}</p>}
+    </div>
+  )
+}
+
+function Moderation() {
+  const router = useRouter()
+  const pathname = usePathname()
+  const searchParams = useSearchParams()
+  const { timeFrame, range } = useMemo(
+    () => parseRangeParams(new URLSearchParams(searchParams.toString())),
+    [searchParams]
+  )
+  const access = useAccess()
+  const { t, label, formatNumber, formatDateTime } = useI18n()
+  const canModerate = hasPermission(access, 'moderate')
+  const pageParam = searchParams.get('pages')
+  const filters = useMemo<MetricFilters>(
+    () => ({ pageIds: scopePageIds(access, parsePageIds(pageParam)) }),
+    [access, pageParam]
+  )
+  const [pages, setPages] = useState<Page[]>([])
+  const [catalog, setCatalog] = useState<IntentCatalog>({ registry: [], unmapped: [] })
+  const [report, setReport] = useState<ModerationReport | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  // Intent ids with a false-positive change in flight
+  const [pending, setPending] = useState<number[]>([])
+
+  useEffect(() => {
+    getPages()
+      .then(setPages)
+      .catch((error) => console.error('Error fetching pages:', error))
+    getIntentCatalog()
+      .then(setCatalog)
+      .catch((error) => console.error('Error fetching intent registry:', error))
+  }, [])
+
+  const load = useCallback((signal?: AbortSignal) => {
+    return getModeration(range, filters, { signal })
+      .then((next) => {
+        setReport(next)
+        setError(null)
+      })
+      .catch((error) => {
+        if (signal?.aborted) return
+        console.error('Error fetching moderation report:', error)
+        setError(error instanceof Error ? error.message : '')
+      })
+  }, [range, filters])
+
+  useEffect(() => {
+    const controller = new AbortController()
+    setLoading(true)
+    load(controller.signal).finally(() => {
+      if (!controller.signal.aborted) setLoading(false)
+    })
+    return () => controller.abort()
+  }, [load])
+
+  const navigate = (nextTimeFrame: TimeFrame, nextRange: DateRange, nextPageIds: string[]) => {
+    const params = rangeSearchParams(nextTimeFrame, nextRange)
+    if (nextPageIds.length) params.set('pages', nextPageIds.join(','))
+    const query = params.toString()
+    router.replace(query ? `${pathname}?${query}` : pathname, { scroll: false })
+  }
+
+  const toggleFalsePositive = async (event: ModerationEvent) => {
+    setPending((current) => [...current, event.id])
+    try {
+      await (event.false_positive_at ? clearFalsePositive(event.id) : markFalsePositive(event.id))
+      // Every dashboard count changes with the mark, not just this page
+      invalidateQueries()
+      await load()
+    } catch (error) {
+      console.error('Error updating false positive:', error)
+      setError(error instanceof Error ? error.message : t('moderation.updateError'))
+    } finally {
+      setPending((current) => current.filter((id) => id !== event.id))
+    }
+  }
+
+  const pageNames = useMemo(() => new Map(pages.map((page) => [page.id, page.name])), [pages])
+  const pageName = (pageId: string) => pageNames.get(pageId) ?? pageId
+  const definitions = useMemo(
+    () => (report?.intentTypes ?? []).map((intentType) => describeIntent(catalog, intentType)),
+    [report, catalog]
+  )
+  const rate = (bad: number, chats: number) => (chats > 0 ? `${badRate(bad, chats).toFixed(2)}%` : '–')
+  const breakdown = (counts: ModerationCounts) => definitions
+    .filter((definition) => counts[definition.intent_type])
+    .map((definition) => `${label(definition.label)} ${formatNumber(counts[definition.intent_type])}`)
+    .join(' · ')
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-gray-50 to-gray-100 p-6">
+      <div className="max-w-7xl mx-auto">
+        <Link href={`/bms_dashboard?${searchParams.toString()}`} className="inline-flex items-center gap-1 text-sm text-blue-600 hover:underline mb-4">
+          <ArrowLeft className="w-4 h-4" />
+          {t('common.back')}
+        </Link>
+        <div className="mb-6">
+          <h1 className="text-3xl font-bold text-gray-900">{t('moderation.title')}</h1>
+          <p className="text-gray-600">{t('moderation.subtitle')}</p>
+        </div>
+
+        <div className="flex flex-wrap items-start gap-4 mb-6">
+          <div className="flex-1">
+            <DateRangePicker
+              timeFrame={timeFrame}
+              range={range}
+              onChange={(nextTimeFrame, nextRange) => navigate(nextTimeFrame, nextRange, parsePageIds(pageParam))}
+            />
+          </div>
+          {pages.length > 1 && (
+            <PageSelector
+              pages={pages}
+              selectedIds={parsePageIds(pageParam)}
+              onChange={(nextPageIds) => navigate(timeFrame, range, nextPageIds)}
+            />
+          )}
+        </div>
+
+        {error !== null && (
+          <div className="mb-4 rounded-lg border border-red-200 bg-red-50 px-4 py-3 text-sm text-red-700">{error || t('moderation.loadError')}</div>
+        )}
+
+        <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-6 gap-4 mb-8">
+          <SummaryCard title={t('moderation.badCustomers')} value={report ? formatNumber(report.totalBad) : '–'} />
+          <SummaryCard
+            title={t('moderation.badRate')}
+            value={report ? rate(report.totalBad, report.totalChat) : '–'}
+            hint={report ? t('moderation.ofChats', { count: formatNumber(report.totalChat) }) : undefined}
+          />
+          {definitions.map((definition) => (
+            <SummaryCard
+              key={definition.intent_type}
+              title={label(definition.label)}
+              value={report ? formatNumber(report.totals[definition.intent_type] ?? 0) : '–'}
+              color={definition.color}
+            />
+          ))}
+          <SummaryCard
+            title={t('moderation.falsePositives')}
+            value={report ? formatNumber(report.falsePositives) : '–'}
+            hint={t('moderation.excluded')}
+          />
+        </div>
+
+        <div className="bg-white rounded-lg shadow-lg p-6 mb-8">
+          <h2 className="text-2xl font-bold text-gray-900 mb-1">{t('moderation.overTime')}</h2>
+          <p className="text-sm text-gray-500 mb-4">{t('moderation.overTimeHint')}</p>
+          <ModerationChart report={report} definitions={definitions} loading={loading} />
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-8 mb-8">
+          <div className="bg-white rounded-lg shadow-lg p-6">
+            <h2 className="text-2xl font-bold text-gray-900 mb-4">{t('moderation.byReason')}</h2>
+            <div className="overflow-x-auto">
+              <table className="min-w-full text-sm">
+                <thead>
+                  <tr className="border-b text-left text-gray-500">
+                    <th className="py-2 pr-4 font-medium">{t('moderation.reasonKeyword')}</th>
+                    <th className="py-2 pr-4 font-medium text-right">{t('moderation.events')}</th>
+                    <th className="py-2 font-medium">{t('moderation.breakdown')}</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {(report?.byReason ?? []).map((row) => (
+                    <tr key={row.reason} className="border-b last:border-0">
+                      <td className="py-2 pr-4 text-gray-900">
+                        {row.reason || <span className="italic text-gray-400">{t('moderation.noReason')}</span>}
+                      </td>
+                      <td className="py-2 pr-4 text-right font-semibold">{formatNumber(row.total)}</td>
+                      <td className="py-2 text-xs text-gray-500">{breakdown(row.counts)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+
+          <div className="bg-white rounded-lg shadow-lg p-6">
+            <h2 className="text-2xl font-bold text-gray-900 mb-4">{t('moderation.byPage')}</h2>
+            <div className="overflow-x-auto">
+              <table className="min-w-full text-sm">
+                <thead>
+                  <tr className="border-b text-left text-gray-500">
+                    <th className="py-2 pr-4 font-medium">{t('common.page')}</th>
+                    <th className="py-2 pr-4 font-medium text-right">{t('moderation.events')}</th>
+                    <th className="py-2 pr-4 font-medium text-right">{t('moderation.rate')}</th>
+                    <th className="py-2 font-medium">{t('moderation.breakdown')}</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {(report?.byPage ?? []).map((row) => (
+                    <tr key={row.pageId} className="border-b last:border-0">
+                      <td className="py-2 pr-4 text-gray-900">{pageName(row.pageId)}</td>
+                      <td className="py-2 pr-4 text-right font-semibold">{formatNumber(row.bad)}</td>
+                      <td className="py-2 pr-4 text-right">{rate(row.bad, row.chats)}</td>
+                      <td className="py-2 text-xs text-gray-500">{breakdown(row.counts)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        </div>
+
+        <div className="bg-white rounded-lg shadow-lg p-6 mb-8">
+          <h2 className="text-2xl font-bold text-gray-900 mb-4">{t('moderation.topOffenders')}</h2>
+          <div className="overflow-x-auto">
+            <table className="min-w-full text-sm">
+              <thead>
+                <tr className="border-b text-left text-gray-500">
+                  <th className="py-2 pr-4 font-medium">PSID</th>
+                  <th className="py-2 pr-4 font-medium">{t('common.page')}</th>
+                  <th className="py-2 pr-4 font-medium text-right">{t('moderation.events')}</th>
+                  <th className="py-2 pr-4 font-medium">{t('moderation.breakdown')}</th>
+                  <th className="py-2 font-medium">{t('moderation.lastSeen')}</th>
+                </tr>
+              </thead>
+              <tbody>
+                {(report?.topOffenders ?? []).map((row) => {
+                  const url = conversationUrl(row.pageId, row.psid)
+                  return (
+                    <tr key={row.psid} className="border-b last:border-0">
+                      <td className="py-2 pr-4 font-mono text-xs">
+                        {url ? (
+                          <a href={url} target="_blank" rel="noreferrer" className="inline-flex items-center gap-1 text-blue-600 hover:underline">
+                            {row.psid}
+                            <ExternalLink className="w-3 h-3" />
+                          </a>
+                        ) : row.psid}
+                      </td>
+                      <td className="py-2 pr-4">{pageName(row.pageId)}</td>
+                      <td className="py-2 pr-4 text-right font-semibold">{formatNumber(row.total)}</td>
+                      <td className="py-2 pr-4 text-xs text-gray-500">{breakdown(row.counts)}</td>
+                      <td className="py-2 text-gray-600">{formatDateTime(new Date(row.lastSeen))}</td>
+                    </tr>
+                  )
+                })}
+              </tbody>
+            </table>
+          </div>
+        </div>
+
+        <div className="bg-white rounded-lg shadow-lg p-6">
+          <h2 className="text-2xl font-bold text-gray-900 mb-4">{t('moderation.events')}</h2>
+          {report?.truncated && (
+            <div className="mb-4 rounded-lg border border-amber-200 bg-amber-50 px-4 py-3 text-sm text-amber-800">
+              {t('moderation.truncated', { count: formatNumber(MAX_MODERATION_EVENTS) })}
+            </div>
+          )}
+          <div className="overflow-x-auto">
+            <table className="min-w-full text-sm">
+              <thead>
+                <tr className="border-b text-left text-gray-500">
+                  <th className="py-2 pr-4 font-medium">{t('moderation.time')}</th>
+                  <th className="py-2 pr-4 font-medium">{t('moderation.type')}</th>
+                  <th className="py-2 pr-4 font-medium">{t('moderation.reason')}</th>
+                  <th className="py-2 pr-4 font-medium">{t('common.page')}</th>
+                  <th className="py-2 pr-4 font-medium">PSID</th>
+                  {canModerate && <th className="py-2 font-medium"></th>}
+                </tr>
+              </thead>
+              <tbody>
+                {(report?.events ?? []).map((event) => {
+                  const definition = describeIntent(catalog, event.intent_type)
+                  const excluded = Boolean(event.false_positive_at)
+                  return (
+                    <tr key={event.id} className={`border-b last:border-0 ${excluded ? 'text-gray-400' : ''}`}>
+                      <td className="py-2 pr-4 whitespace-nowrap">{formatDateTime(new Date(event.created_at))}</td>
+                      <td className="py-2 pr-4">
+                        <span className="inline-flex items-center gap-2">
+                          <span className="inline-block w-2.5 h-2.5 rounded-full" style={{ backgroundColor: definition.color }}></span>
+                          {label(definition.label)}
+                          {excluded && (
+                            <span className="rounded bg-gray-100 px-1.5 py-0.5 text-xs text-gray-600">{t('moderation.falsePositive')}</span>
+                          )}
+                        </span>
+                      </td>
+                      <td className="py-2 pr-4">{event.reason || '–'}</td>
+                      <td className="py-2 pr-4">{pageName(event.page_id)}</td>
+                      <td className="py-2 pr-4 font-mono text-xs">{event.psid}</td>
+                      {canModerate && (
+                        <td className="py-2 text-right">
+                          <button
+                            onClick={() => toggleFalsePositive(event)}
+                            disabled={pending.includes(event.id)}
+                            className="inline-flex items-center gap-1 rounded-md border border-gray-300 px-2 py-1 text-xs font-medium text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+                          >
+                            {excluded ? <RotateCcw className="w-3.5 h-3.5" /> : <ShieldOff className="w-3.5 h-3.5" />}
+                            {excluded ? t('moderation.countAgain') : t('moderation.falsePositive')}
+                          </button>
+                        </td>
+                      )}
+                    </tr>
+                  )
+                })}
+              </tbody>
+            </table>
+          </div>
+          {!loading && report?.events.length === 0 && (
+            <p className="py-8 text-center text-sm text-gray-500">{t('moderation.none')}</p>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
+
+export default function ModerationPage() {
+  return (
+    <Suspense>
+      <Moderation />
+    </Suspense>
+  )
+}
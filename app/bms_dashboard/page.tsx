@@ -1,296 +1,289 @@
 'use client'
 
-import { useState, useEffect } from 'react'
-import { supabase } from '@/lib/supabase'
-import { PieChart, Pie, Cell, Tooltip, Legend, ResponsiveContainer } from 'recharts'
-
-type TimeFrame = 'today' | '7days' | '30days'
-
-interface MetricData {
-  totalChat: number
-  totalLead: number
-  totalBuy: number
-  totalBuyValue: number
-  totalGoodCustomer: number
-  totalViewContent: number
-  totalAddToCart: number
-  totalInitiateCheckout: number
-  totalBadCustomer: number
-  totalSpam: number
-  totalBlocking: number
-  totalBan: number
+import { useState, useEffect, useMemo, Suspense } from 'react'
+import Link from 'next/link'
+import { usePathname, useRouter, useSearchParams } from 'next/navigation'
+import { type DateRange, type TimeFrame, neighbourRanges, parseRangeParams, previousRange, rangeSearchParams } from '@/lib/dateRange'
+import { type MetricData, type MetricFilters, emptyMetrics, isEmptyMetrics } from '@/lib/metrics'
+import { type CardSpec, applyRollups, cardFormat, cardTitle, cardValue, isFinanceCard, rowCards } from '@/lib/layout'
+import { type IntentCatalog, DEFAULT_INTENT_CATALOG, describeIntent } from '@/lib/intents'
+import { type TrendData, isEmptyTrend } from '@/lib/trends'
+import type { HeatmapData } from '@/lib/heatmap'
+import { ROLE_LABELS, hasPermission, scopePageIds } from '@/lib/auth'
+import { type Page, type PageMetrics, parsePageIds } from '@/lib/pages'
+import { type DrillDownTarget, drillDownSource } from '@/lib/drilldown'
+import { type GoalProgress, goalForCard } from '@/lib/goals'
+import { type Annotation, overlapsRange } from '@/lib/annotations'
+import {
+  getIntentCatalog,
+  getPages,
+  prefetchWindow,
+  queryAnnotations,
+  queryGoalProgress,
+  queryHeatmap,
+  queryMetrics,
+  queryPageBreakdown,
+  queryTrends
+} from '@/lib/metricsApi'
+import { invalidateQueries } from '@/lib/queryCache'
+import { type ApiError, toApiError } from '@/lib/apiError'
+import { BASE_CURRENCY, THB_RATES } from '@/lib/currency'
+import { useAccess } from '@/components/AccessProvider'
+import { useI18n } from '@/components/I18nProvider'
+import { useDataSync } from '@/hooks/useDataSync'
+import { useSectionData } from '@/hooks/useSectionData'
+import { useDashboardLayout } from '@/hooks/useDashboardLayout'
+import SyncStatusBar from '@/components/SyncStatusBar'
+import SectionState from '@/components/SectionState'
+import DateRangePicker from '@/components/DateRangePicker'
+import TrendChart from '@/components/TrendChart'
+import AnnotationPanel from '@/components/AnnotationPanel'
+import ActivityHeatmap from '@/components/ActivityHeatmap'
+import ConversionFunnel from '@/components/ConversionFunnel'
+import PageSelector from '@/components/PageSelector'
+import PageBreakdownTable from '@/components/PageBreakdownTable'
+import ExportMenu from '@/components/ExportMenu'
+import AlertCenter from '@/components/AlertCenter'
+import LanguageSwitcher from '@/components/LanguageSwitcher'
+import DrillDownPanel from '@/components/DrillDownPanel'
+import MetricCard from '@/components/MetricCard'
+import LayoutEditor from '@/components/LayoutEditor'
+import { CalendarClock, LayoutGrid, Megaphone, Share2, ShieldAlert, Target, Users } from 'lucide-react'
+
+// Static class names so Tailwind keeps them
+const GRID_COLUMNS: Record<number, string> = {
+  1: '',
+  2: 'md:grid-cols-2',
+  3: 'md:grid-cols-3',
+  4: 'md:grid-cols-2 lg:grid-cols-4'
 }
 
+// What each section shows before its first response, when nothing is cached
+const EMPTY_COMPARISON: { current: MetricData; previous: MetricData } = { current: emptyMetrics, previous: emptyMetrics }
+const EMPTY_TREND: TrendData = { granularity: 'day', series: [], points: [] }
+const EMPTY_HEATMAP: HeatmapData = { cells: [] }
+const EMPTY_BREAKDOWN: PageMetrics[] = []
+const EMPTY_GOALS: GoalProgress[] = []
+const EMPTY_ANNOTATIONS: Annotation[] = []
+
+function BMSDashboard() {
+  const router = useRouter()
+  const pathname = usePathname()
+  const searchParams = useSearchParams()
+  // The selected window lives in the URL so it can be shared
+  const { timeFrame, range } = useMemo(
+    () => parseRangeParams(new URLSearchParams(searchParams.toString())),
+    [searchParams]
+  )
+  const rangeKey = `${range.from.toISOString()}/${range.to.toISOString()}`
+  const access = useAccess()
+  const { t, label, formatCurrency, formatDateTime, timeFrameLabel, previousPeriodLabel } = useI18n()
+  const showFinance = hasPermission(access, 'view_finance')
+  const pageParam = searchParams.get('pages')
+  // Restricted roles never query outside their assigned pages
+  const filters = useMemo<MetricFilters>(
+    () => ({ pageIds: scopePageIds(access, parsePageIds(pageParam)) }),
+    [access, pageParam]
+  )
+  const filterKey = filters.pageIds?.join(',') ?? ''
+  const [pages, setPages] = useState<Page[]>([])
+  const [currentTime, setCurrentTime] = useState<Date | null>(null)
+  const [apiError, setApiError] = useState<ApiError | null>(null)
+  const [catalog, setCatalog] = useState<IntentCatalog>(DEFAULT_INTENT_CATALOG)
+  const [drillDown, setDrillDown] = useState<{ target: DrillDownTarget; title: string } | null>(null)
+  const [editingLayout, setEditingLayout] = useState(false)
+  const dashboardLayout = useDashboardLayout()
+  const { layout } = dashboardLayout
+  const reportError = (context: string, error: unknown) => {
+    console.error(`Error fetching ${context}:`, error)
+    setApiError(toApiError(error))
+  }
 
+  // Each section loads, fails and is cached on its own. Requests go through the shared query
+  // cache, so a window is fetched once however many sections and prefetches ask for it; the
+  // last known data is also kept per user, window and page filter for when requests fail.
+  const cachePrefix = `${access.userId}|${rangeKey}|${filterKey}`
+
+  const metricsSection = useSectionData({
+    name: 'metrics',
+    cacheKey: `${cachePrefix}|metrics`,
+    empty: EMPTY_COMPARISON,
+    load: async (signal) => {
+      // Current and previous equivalent window, for the deltas on every card
+      const [current, previous] = await Promise.all([
+        queryMetrics(range, filters, { signal }),
+        queryMetrics(previousRange(range), filters, { signal })
+      ])
+      return { current, previous }
+    }
+  })
 
+  const trendSection = useSectionData({
+    name: 'historical data',
+    cacheKey: `${cachePrefix}|trends`,
+    empty: EMPTY_TREND,
+    load: (signal) => queryTrends(range, filters, { signal })
+  })
 
-export default function BMSDashboard() {
-  const [timeFrame, setTimeFrame] = useState<TimeFrame>('today')
-  const [metrics, setMetrics] = useState<MetricData>({
-    totalChat: 0,
-    totalLead: 0,
-    totalBuy: 0,
-    totalBuyValue: 0,
-    totalGoodCustomer: 0,
-    totalViewContent: 0,
-    totalAddToCart: 0,
-    totalInitiateCheckout: 0,
-    totalBadCustomer: 0,
-    totalSpam: 0,
-    totalBlocking: 0,
-    totalBan: 0
+  const heatmapSection = useSectionData({
+    name: 'activity heatmap',
+    cacheKey: `${cachePrefix}|heatmap`,
+    empty: EMPTY_HEATMAP,
+    load: (signal) => queryHeatmap(range, filters, { signal })
   })
-  const [chartData, setChartData] = useState<any[]>([])
-  const [loading, setLoading] = useState(true)
-  const [chartLoading, setChartLoading] = useState(true)
-  const [currentTime, setCurrentTime] = useState('')
-
-  const fetchHistoricalData = async () => {
-    setChartLoading(true)
-    try {
-      const countColumn = timeFrame === 'today' ? 'today_count' : 
-                         timeFrame === '7days' ? 'weekly_count' : 'monthly_count'
-
-      // Fetch PSID Inputs (Total Chat)
-      const { data: psidData } = await supabase
-        .from('psid_inputs_statistics')
-        .select(countColumn)
-        .eq('metric_type', 'PSID Inputs')
-        .single()
-
-      // Fetch Intent Statistics for Lead and Purchase
-      const { data: intentData } = await supabase
-        .from('intent_statistics')
-        .select(`intent_type, ${countColumn}`)
-        .in('intent_type', ['Lead', 'Purchase'])
-
-      const totalChat = psidData?.[countColumn as keyof typeof psidData] || 0
-      let totalLead = 0
-      let totalBuy = 0
-
-      // Process intent statistics
-      if (intentData) {
-        intentData.forEach(item => {
-          const count = item[countColumn as keyof typeof item] || 0
-          if (item.intent_type === 'Lead') {
-            totalLead = count
-          } else if (item.intent_type === 'Purchase') {
-            totalBuy = count
-          }
-        })
-      }
 
-      // Create pie chart data
-      const total = totalChat + totalLead + totalBuy
-      const chartData = [
-        {
-          name: 'Total Chat',
-          value: totalChat,
-          percentage: total > 0 ? ((totalChat / total) * 100).toFixed(1) : '0.0'
-        },
-        {
-          name: 'Total Lead',
-          value: totalLead,
-          percentage: total > 0 ? ((totalLead / total) * 100).toFixed(1) : '0.0'
-        },
-        {
-          name: 'Total Buy',
-          value: totalBuy,
-          percentage: total > 0 ? ((totalBuy / total) * 100).toFixed(1) : '0.0'
-        }
-      ]
-
-      setChartData(chartData)
-    } catch (error) {
-      console.error('Error fetching historical data:', error)
-    } finally {
-      setChartLoading(false)
-    }
-  }
+  // The API compares the selected pages, or every visible page when none is selected
+  const breakdownSection = useSectionData({
+    name: 'page breakdown',
+    cacheKey: `${cachePrefix}|pages`,
+    empty: EMPTY_BREAKDOWN,
+    load: (signal) => queryPageBreakdown(range, filters, { signal })
+  })
 
-  const fetchMetrics = async () => {
-    setLoading(true)
-    try {
-      const countColumn = timeFrame === 'today' ? 'today_count' : 
-                         timeFrame === '7days' ? 'weekly_count' : 'monthly_count'
-
-      // Fetch PSID Inputs (Total Chat)
-      const { data: psidData } = await supabase
-        .from('psid_inputs_statistics')
-        .select(countColumn)
-        .eq('metric_type', 'PSID Inputs')
-        .single()
-
-      // Fetch Intent Statistics
-      const { data: intentData } = await supabase
-        .from('intent_statistics')
-        .select(`intent_type, ${countColumn}`)
-
-      // Fetch Purchase Value
-      const { data: purchaseData } = await supabase
-        .from('purchase')
-        .select('value')
-
-      const totalChat = psidData?.[countColumn as keyof typeof psidData] || 0
-      let totalLead = 0
-      let totalBuy = 0
-      let totalViewContent = 0
-      let totalAddToCart = 0
-      let totalInitiateCheckout = 0
-      let totalSpam = 0
-      let totalBlocking = 0
-      let totalBan = 0
-
-      // Process intent statistics
-      if (intentData) {
-        intentData.forEach(item => {
-          const count = item[countColumn as keyof typeof item] || 0
-          switch (item.intent_type) {
-            case 'Lead':
-              totalLead += count
-              break
-            case 'Purchase':
-              totalBuy += count
-              break
-            case 'VC':
-              totalViewContent += count
-              break
-            case 'ATC':
-              totalAddToCart += count
-              break
-            case 'IC':
-              totalInitiateCheckout += count
-              break
-            case 'Move to Spam':
-              totalSpam += count
-              break
-            case 'Blocking':
-              totalBlocking += count
-              break
-            case 'Ban':
-              totalBan += count
-              break
-          }
-        })
-      }
+  // Goals run over their own day, week or month whatever window is selected
+  const goalsSection = useSectionData({
+    name: 'goals',
+    cacheKey: `${access.userId}|goals`,
+    empty: EMPTY_GOALS,
+    load: (signal) => queryGoalProgress({ signal })
+  })
 
-      // Calculate totals
-      const totalGoodCustomer = totalAddToCart + totalInitiateCheckout + totalLead + totalBuy + totalViewContent
-      const totalBadCustomer = totalBan + totalBlocking + totalSpam
-      const totalBuyValue = purchaseData?.reduce((sum, item) => sum + (item.value || 0), 0) || 0
-
-      setMetrics({
-        totalChat,
-        totalLead,
-        totalBuy,
-        totalBuyValue,
-        totalGoodCustomer,
-        totalViewContent,
-        totalAddToCart,
-        totalInitiateCheckout,
-        totalBadCustomer,
-        totalSpam,
-        totalBlocking,
-        totalBan
-      })
-    } catch (error) {
-      console.error('Error fetching metrics:', error)
-    } finally {
-      setLoading(false)
-    }
-  }
+  // Covers the comparison period too, so the list can explain the deltas on the cards
+  const annotationsSection = useSectionData({
+    name: 'annotations',
+    cacheKey: `${cachePrefix}|annotations`,
+    empty: EMPTY_ANNOTATIONS,
+    load: (signal) => queryAnnotations({ from: previousRange(range).from, to: range.to }, filters, { signal })
+  })
+  const chartAnnotations = useMemo(
+    () => annotationsSection.data.filter((annotation) => overlapsRange(annotation, range)),
+    [annotationsSection.data, range]
+  )
+
+  const loading = metricsSection.loading
+  const trendData = trendSection.data
+  // Good/bad customer totals follow the user's own intent grouping
+  const metrics = useMemo(() => applyRollups(metricsSection.data.current, layout), [metricsSection.data, layout])
+  const previousMetrics = useMemo(() => applyRollups(metricsSection.data.previous, layout), [metricsSection.data, layout])
 
   useEffect(() => {
-    fetchMetrics()
-    fetchHistoricalData()
-    
-    // Optional: Set up real-time subscription
-    const subscription = supabase
-      .channel('trend-updates')
-      .on('postgres_changes', 
-        { event: '*', schema: 'public', table: 'psid_inputs_statistics' },
-        () => fetchHistoricalData()
-      )
-      .on('postgres_changes', 
-        { event: '*', schema: 'public', table: 'intent_statistics' },
-        () => fetchHistoricalData()
-      )
-      .subscribe()
-
-    return () => {
-      subscription.unsubscribe()
+    getPages()
+      .then(setPages)
+      .catch((error) => reportError('pages', error))
+    getIntentCatalog()
+      .then(setCatalog)
+      .catch((error) => reportError('intent registry', error))
+  }, [])
+
+  // Initial load, realtime changes, polling fallback and manual refreshes all go through here
+  const sync = useDataSync({
+    syncKey: `${rangeKey}|${filterKey}`,
+    pageIds: filters.pageIds,
+    onRefresh: async (reason) => {
+      // Background refreshes keep the current numbers on screen instead of showing spinners.
+      // They run because the data changed, so nothing cached for any window is current any more.
+      const background = reason !== 'initial'
+      if (background) invalidateQueries()
+      const results = await Promise.all([
+        metricsSection.refresh(background),
+        trendSection.refresh(background),
+        heatmapSection.refresh(background),
+        goalsSection.refresh(background),
+        annotationsSection.refresh(background),
+        pages.length > 1 ? breakdownSection.refresh(background) : true
+      ])
+      // Once a newly opened window is in, warm up the ones the user is likely to pick next.
+      // Not on every realtime change: busy pages would refetch them constantly.
+      if (reason === 'initial' && results.every(Boolean)) {
+        neighbourRanges(timeFrame, range).forEach((neighbour) => prefetchWindow(neighbour, previousRange(neighbour), filters))
+      }
+      return results.every(Boolean)
     }
-  }, [timeFrame]) // eslint-disable-line react-hooks/exhaustive-deps
+  })
+
+  // The breakdown only shows with several pages, which are known after the first sync
+  const comparesPages = pages.length > 1
+  const refreshBreakdown = breakdownSection.refresh
+  useEffect(() => {
+    if (comparesPages) refreshBreakdown()
+  }, [comparesPages, refreshBreakdown])
 
   useEffect(() => {
     // Set initial time
-    setCurrentTime(new Date().toLocaleString('th-TH', { timeZone: 'Asia/Bangkok' }))
+    setCurrentTime(new Date())
     
     // Update time every minute
     const interval = setInterval(() => {
-      setCurrentTime(new Date().toLocaleString('th-TH', { timeZone: 'Asia/Bangkok' }))
+      setCurrentTime(new Date())
     }, 60000)
 
     return () => clearInterval(interval)
   }, [])
 
 
-  const formatNumber = (num: number) => {
-    return new Intl.NumberFormat('th-TH').format(num)
+  const navigate = (nextTimeFrame: TimeFrame, nextRange: DateRange, nextPageIds: string[]) => {
+    const params = rangeSearchParams(nextTimeFrame, nextRange)
+    if (nextPageIds.length) params.set('pages', nextPageIds.join(','))
+    const query = params.toString()
+    router.replace(query ? `${pathname}?${query}` : pathname, { scroll: false })
   }
 
-  const formatCurrency = (num: number) => {
-    return new Intl.NumberFormat('th-TH', {
-      style: 'currency',
-      currency: 'THB'
-    }).format(num)
+  const changeRange = (nextTimeFrame: TimeFrame, nextRange: DateRange) => {
+    navigate(nextTimeFrame, nextRange, parsePageIds(pageParam))
   }
 
-  const calculatePercentage = (numerator: number, denominator: number): number => {
-    if (denominator === 0) return 0
-    return Math.round((numerator / denominator) * 100)
+  const changePages = (nextPageIds: string[]) => {
+    navigate(timeFrame, range, nextPageIds)
   }
 
-  const MetricCard = ({ title, value, isPercentage = false, isCurrency = false, color = 'blue' }: {
-    title: string
-    value: number
-    isPercentage?: boolean
-    isCurrency?: boolean
-    color?: 'blue' | 'green' | 'emerald' | 'red'
-  }) => {
-    const colorClasses = {
-      blue: 'border-blue-500 bg-blue-50',
-      green: 'border-green-500 bg-green-50',
-      emerald: 'border-emerald-500 bg-emerald-50',
-      red: 'border-red-500 bg-red-50'
-    }
-    
+  // Only worth listing when something other than THB was sold
+  const currencyBreakdown = Object.keys(metrics.buyValueByCurrency).some((currency) => currency !== BASE_CURRENCY)
+    ? Object.entries(metrics.buyValueByCurrency).sort(([a], [b]) => a.localeCompare(b))
+    : []
+
+  // Custom good/bad groupings drill into their own intents rather than the registry's
+  const drillDownTarget = (card: CardSpec): DrillDownTarget | undefined => {
+    if (card.kind === 'intent') return { intentTypes: [card.intentType] }
+    if (card.kind !== 'metric' || !drillDownSource({ metric: card.metric })) return undefined
+    const intentTypes = card.metric === 'totalGoodCustomer' ? layout.goodIntents :
+      card.metric === 'totalBadCustomer' ? layout.badIntents :
+      undefined
+    return { metric: card.metric, intentTypes }
+  }
+
+  const renderCard = (card: CardSpec) => {
+    const title = label(cardTitle(card, catalog))
+    const target = drillDownTarget(card)
     return (
-      <div className={`bg-white rounded-lg shadow-lg p-6 border-l-4 ${colorClasses[color]} hover:shadow-xl transition-shadow duration-200`}>
-        <h3 className="text-sm font-semibold text-gray-700 mb-3 uppercase tracking-wide">{title}</h3>
-        <p className="text-3xl font-bold text-gray-900 mb-1">
-          {loading ? (
-            <span className="animate-pulse">...</span>
-          ) : (
-            isCurrency ? formatCurrency(value) :
-            isPercentage ? `${value}%` : 
-            formatNumber(value)
-          )}
-        </p>
-        {!loading && (
-          <div className="flex items-center text-xs text-gray-500 mt-2">
-            <span className={`inline-block w-2 h-2 rounded-full mr-2 ${
-              color === 'blue' ? 'bg-blue-500' :
-              color === 'green' ? 'bg-green-500' :
-              color === 'emerald' ? 'bg-emerald-500' :
-              'bg-red-500'
-            }`}></span>
-            {timeFrame === 'today' ? 'Today' : 
-             timeFrame === '7days' ? '7 Days' : 
-             '30 Days'} data
-          </div>
+      <MetricCard
+        key={card.id}
+        title={title}
+        value={cardValue(card, metrics)}
+        previousValue={cardValue(card, previousMetrics)}
+        invertDelta={card.invertDelta}
+        isPercentage={cardFormat(card) === 'percent'}
+        isCurrency={cardFormat(card) === 'currency'}
+        color={card.color}
+        accent={card.kind === 'intent' ? describeIntent(catalog, card.intentType).color : undefined}
+        loading={loading}
+        timeFrame={timeFrame}
+        range={range}
+        goal={goalForCard(goalsSection.data, card, filters.pageIds ?? [], timeFrame)}
+        onClick={target ? () => setDrillDown({ target, title }) : undefined}
+      >
+        {card.kind === 'metric' && card.metric === 'totalBuyValue' && currencyBreakdown.length > 0 && (
+          <ul className="mt-3 space-y-1 text-xs text-gray-600">
+            {currencyBreakdown.map(([currency, value]) => (
+              <li key={currency} className="flex justify-between">
+                <span>{formatCurrency(value, currency)}</span>
+                <span className={THB_RATES[currency] ? '' : 'text-red-600'}>
+                  {THB_RATES[currency] ? `@ ${THB_RATES[currency]} THB` : t('card.noRate')}
+                </span>
+              </li>
+            ))}
+          </ul>
         )}
-      </div>
+      </MetricCard>
     )
   }
 
@@ -301,168 +294,256 @@ export default function BMSDashboard() {
         <div className="mb-8">
           <div className="flex items-center justify-between mb-6">
             <div>
-              <h1 className="text-4xl font-bold text-gray-900 mb-2">BMS Dashboard</h1>
-              <p className="text-gray-600">Business Metrics & Analytics</p>
+              <h1 className="text-4xl font-bold text-gray-900 mb-2">{t('dashboard.title')}</h1>
+              <p className="text-gray-600">{t('dashboard.subtitle')}</p>
             </div>
             <div className="text-right">
-              <p className="text-sm text-gray-500">Bangkok Time (GMT+7)</p>
-              <p className="text-sm font-medium text-gray-700">
-                {currentTime || '--:--:--'}
-              </p>
+              <div className="flex items-center justify-end gap-4">
+                <div>
+                  <p className="text-sm text-gray-500">{t('dashboard.bangkokTime')}</p>
+                  <p className="text-sm font-medium text-gray-700">
+                    {currentTime ? formatDateTime(currentTime) : '--:--:--'}
+                  </p>
+                </div>
+                <AlertCenter refreshKey={sync.lastUpdated} />
+              </div>
+              <form action="/auth/signout" method="post" className="mt-2 flex items-center justify-end gap-2 text-xs text-gray-500">
+                <span>{access.email} · {label(ROLE_LABELS[access.role])}</span>
+                <button className="px-2 py-1 rounded bg-gray-100 text-gray-700 hover:bg-gray-200">{t('dashboard.signOut')}</button>
+              </form>
+              <div className="mt-2">
+                <LanguageSwitcher />
+              </div>
             </div>
           </div>
           
-          {/* Timeframe Filter */}
-          <div className="flex space-x-2 bg-white p-2 rounded-lg shadow-sm">
-            {(['today', '7days', '30days'] as TimeFrame[]).map((tf) => (
-              <button
-                key={tf}
-                onClick={() => setTimeFrame(tf)}
-                className={`px-6 py-3 rounded-md font-semibold transition-all duration-200 ${
-                  timeFrame === tf
-                    ? 'bg-blue-600 text-white shadow-md transform scale-105'
-                    : 'bg-gray-100 text-gray-700 hover:bg-gray-200 hover:scale-105'
-                }`}
-              >
-                {tf === 'today' ? 'Today' : 
-                 tf === '7days' ? '7 Days' : 
-                 '30 Days'}
-              </button>
-            ))}
+          {apiError && (
+            <div className="mb-4 rounded-lg border border-red-200 bg-red-50 px-4 py-3 text-sm text-red-700">
+              {t('dashboard.loadError', { message: apiError.message })}
+              <span className="ml-2 text-xs text-red-500">({apiError.code})</span>
+            </div>
+          )}
+
+          {/* Timeframe and Page Filters */}
+          <div className="flex flex-wrap items-start gap-4">
+            <div className="flex-1">
+              <DateRangePicker timeFrame={timeFrame} range={range} onChange={changeRange} />
+            </div>
+            {pages.length > 1 && (
+              <PageSelector pages={pages} selectedIds={parsePageIds(pageParam)} onChange={changePages} />
+            )}
+            <ExportMenu
+              snapshot={{
+                timeFrame,
+                range,
+                pageNames: pages.filter((page) => parsePageIds(pageParam).includes(page.id)).map((page) => page.name),
+                metrics,
+                previousMetrics,
+                trends: trendData,
+                showFinance
+              }}
+              reportHref={`${pathname}/report?${searchParams.toString()}`}
+              disabled={loading || trendSection.loading}
+            />
           </div>
         </div>
 
         {/* Charts Section */}
         <div className="mb-8">
           <div className="bg-white rounded-lg shadow-lg p-6">
-            <h2 className="text-2xl font-bold text-gray-900 mb-6">Trend Analysis</h2>
+            <h2 className="text-2xl font-bold text-gray-900 mb-6">{t('dashboard.trendAnalysis')}</h2>
             
-            {/* Primary Metrics Chart */}
-            <div className="mb-8">
-              <h3 className="text-lg font-semibold text-gray-700 mb-4">Performance Overview</h3>
-              <div className="h-96">
-                {chartLoading ? (
-                  <div className="flex items-center justify-center h-full">
-                    <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
-                  </div>
-                ) : (
-                  <ResponsiveContainer width="100%" height="100%">
-                    <PieChart>
-                      <Pie
-                        data={chartData}
-                        cx="50%"
-                        cy="50%"
-                        labelLine={false}
-                        label={({ name, value, percentage }) => `${name}: ${value} (${percentage}%)`}
-                        outerRadius={120}
-                        fill="#8884d8"
-                        dataKey="value"
-                      >
-                        {chartData.map((entry, index) => (
-                          <Cell 
-                            key={`cell-${index}`} 
-                            fill={
-                              entry.name === 'Total Chat' ? '#3B82F6' :
-                              entry.name === 'Total Lead' ? '#10B981' :
-                              '#F59E0B'
-                            } 
-                          />
-                        ))}
-                      </Pie>
-                      <Tooltip 
-                        contentStyle={{
-                          backgroundColor: 'rgba(255, 255, 255, 0.95)',
-                          border: '1px solid #ccc',
-                          borderRadius: '4px',
-                          boxShadow: '0 4px 6px -1px rgba(0, 0, 0, 0.1)'
-                        }}
-                        formatter={(value, name) => [
-                          `${value} (${chartData.find(item => item.name === name)?.percentage}%)`,
-                          name
-                        ]}
-                      />
-                      <Legend 
-                        wrapperStyle={{ paddingTop: '20px' }}
-                        formatter={(value, entry) => `${value}: ${entry.payload.value} (${entry.payload.percentage}%)`}
-                      />
-                    </PieChart>
-                  </ResponsiveContainer>
-                )}
+            <div className="grid grid-cols-1 xl:grid-cols-3 gap-6">
+              <div className="xl:col-span-2">
+                <SectionState section={trendSection} isEmpty={isEmptyTrend(trendData)}>
+                  <TrendChart
+                    data={trendData}
+                    loading={trendSection.loading}
+                    series={trendData.series.filter((series) => showFinance || series.axis !== 'value')}
+                    range={range}
+                    annotations={chartAnnotations}
+                  />
+                </SectionState>
               </div>
+              <SectionState section={annotationsSection}>
+                <AnnotationPanel
+                  annotations={annotationsSection.data}
+                  range={range}
+                  periodLabel={previousPeriodLabel(timeFrame, range)}
+                  pages={pages}
+                  defaultPageIds={filters.pageIds ?? []}
+                  onChange={() => {
+                    invalidateQueries()
+                    annotationsSection.refresh(true)
+                  }}
+                />
+              </SectionState>
             </div>
-
           </div>
         </div>
 
-        {/* Metrics Grid */}
-        <div className="space-y-6">
-          {/* Row 1 */}
-          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
-            <MetricCard title="Total Chat" value={metrics.totalChat} />
-            <MetricCard title="Total Lead" value={metrics.totalLead} />
-            <MetricCard title="Total Buy" value={metrics.totalBuy} />
-            <MetricCard title="Total Buy Value" value={metrics.totalBuyValue} isCurrency={true} />
+        {/* Activity Heatmap */}
+        <div className="mb-8">
+          <div className="bg-white rounded-lg shadow-lg p-6">
+            <h2 className="text-2xl font-bold text-gray-900 mb-1">{t('dashboard.activityByHour')}</h2>
+            <p className="text-sm text-gray-500 mb-6">{t('dashboard.activityByHourHint')}</p>
+            <SectionState
+              section={heatmapSection}
+              isEmpty={heatmapSection.data.cells.every((cell) => !cell.chats && !cell.leads && !cell.purchases)}
+            >
+              <ActivityHeatmap data={heatmapSection.data} loading={heatmapSection.loading} />
+            </SectionState>
           </div>
+        </div>
 
-          {/* Row 2 */}
-          <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
-            <MetricCard 
-              title="Chat to Lead %" 
-              value={calculatePercentage(metrics.totalLead, metrics.totalChat)} 
-              isPercentage={true}
-              color="green"
-            />
-            <MetricCard 
-              title="Lead to Buy %" 
-              value={calculatePercentage(metrics.totalBuy, metrics.totalLead)} 
-              isPercentage={true}
-              color="green"
-            />
-            <MetricCard 
-              title="Chat to Buy %" 
-              value={calculatePercentage(metrics.totalBuy, metrics.totalChat)} 
-              isPercentage={true}
-              color="green"
-            />
+        {/* Funnel Section */}
+        <div className="mb-8">
+          <div className="bg-white rounded-lg shadow-lg p-6">
+            <SectionState section={metricsSection} isEmpty={isEmptyMetrics(metrics)}>
+              <ConversionFunnel metrics={metrics} registry={catalog.registry} loading={loading} />
+            </SectionState>
           </div>
+        </div>
 
-          {/* Row 3 */}
-          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
-            <MetricCard title="Total Good Customer" value={metrics.totalGoodCustomer} color="emerald" />
-            <MetricCard title="Total ViewContent" value={metrics.totalViewContent} color="emerald" />
-            <MetricCard title="Total AddToCart" value={metrics.totalAddToCart} color="emerald" />
-            <MetricCard title="Total Initiate Checkout" value={metrics.totalInitiateCheckout} color="emerald" />
+        {/* Page Breakdown */}
+        {pages.length > 1 && (
+          <div className="mb-8">
+            <div className="bg-white rounded-lg shadow-lg p-6">
+              <h2 className="text-2xl font-bold text-gray-900 mb-6">{t('dashboard.pageBreakdown')}</h2>
+              <SectionState section={breakdownSection} isEmpty={breakdownSection.data.length === 0}>
+                <PageBreakdownTable rows={breakdownSection.data} loading={breakdownSection.loading} showFinance={showFinance} />
+              </SectionState>
+            </div>
           </div>
+        )}
 
-          {/* Row 4 */}
-          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
-            <MetricCard title="Total Bad Customer" value={metrics.totalBadCustomer} color="red" />
-            <MetricCard title="Total Spam" value={metrics.totalSpam} color="red" />
-            <MetricCard title="Total Blocking" value={metrics.totalBlocking} color="red" />
-            <MetricCard title="Total Ban" value={metrics.totalBan} color="red" />
+        {/* Metrics Grid */}
+        <div className="space-y-6">
+          <div className="flex items-center justify-end gap-2">
+            <Link
+              href={`${pathname}/customers?${searchParams.toString()}`}
+              className="flex items-center gap-2 px-4 py-2 rounded-md bg-white shadow-sm text-sm font-semibold text-gray-700 hover:bg-gray-50"
+            >
+              <Users className="w-4 h-4" />
+              {t('dashboard.customers')}
+            </Link>
+            <Link
+              href="/bms_dashboard/goals"
+              className="flex items-center gap-2 px-4 py-2 rounded-md bg-white shadow-sm text-sm font-semibold text-gray-700 hover:bg-gray-50"
+            >
+              <Target className="w-4 h-4" />
+              {t('dashboard.goals')}
+            </Link>
+            <Link
+              href={`${pathname}/moderation?${searchParams.toString()}`}
+              className="flex items-center gap-2 px-4 py-2 rounded-md bg-white shadow-sm text-sm font-semibold text-gray-700 hover:bg-gray-50"
+            >
+              <ShieldAlert className="w-4 h-4" />
+              {t('dashboard.moderation')}
+            </Link>
+            <Link
+              href="/bms_dashboard/schedules"
+              className="flex items-center gap-2 px-4 py-2 rounded-md bg-white shadow-sm text-sm font-semibold text-gray-700 hover:bg-gray-50"
+            >
+              <CalendarClock className="w-4 h-4" />
+              {t('dashboard.scheduledReports')}
+            </Link>
+            {showFinance && (
+              <Link
+                href="/bms_dashboard/ad-spend"
+                className="flex items-center gap-2 px-4 py-2 rounded-md bg-white shadow-sm text-sm font-semibold text-gray-700 hover:bg-gray-50"
+              >
+                <Megaphone className="w-4 h-4" />
+                {t('dashboard.adSpend')}
+              </Link>
+            )}
+            {hasPermission(access, 'manage') && (
+              <Link
+                href="/bms_dashboard/sharing"
+                className="flex items-center gap-2 px-4 py-2 rounded-md bg-white shadow-sm text-sm font-semibold text-gray-700 hover:bg-gray-50"
+              >
+                <Share2 className="w-4 h-4" />
+                {t('dashboard.sharing')}
+              </Link>
+            )}
+            <button
+              onClick={() => setEditingLayout(!editingLayout)}
+              className="flex items-center gap-2 px-4 py-2 rounded-md bg-white shadow-sm text-sm font-semibold text-gray-700 hover:bg-gray-50"
+            >
+              <LayoutGrid className="w-4 h-4" />
+              {t('dashboard.customize')}
+            </button>
           </div>
+          {dashboardLayout.error && (
+            <div className="rounded-lg border border-amber-200 bg-amber-50 px-4 py-3 text-sm text-amber-800">
+              {dashboardLayout.error}
+            </div>
+          )}
+          {catalog.unmapped.length > 0 && (
+            <div className="rounded-lg border border-amber-200 bg-amber-50 px-4 py-3 text-sm text-amber-800">
+              {t('dashboard.unmappedIntents')}{' '}
+              <span className="font-semibold">{catalog.unmapped.join(', ')}</span>
+            </div>
+          )}
+          {editingLayout && (
+            <LayoutEditor
+              layout={layout}
+              catalog={catalog}
+              showFinance={showFinance}
+              onSave={dashboardLayout.save}
+              onReset={dashboardLayout.reset}
+              onClose={() => setEditingLayout(false)}
+            />
+          )}
+          <SectionState section={metricsSection}>
+            {!loading && !metricsSection.error && !metricsSection.staleSince && isEmptyMetrics(metrics) && (
+              <div className="mb-6 rounded-lg border border-gray-200 bg-white px-4 py-3 text-sm text-gray-600">
+                {t('dashboard.noActivity')}
+              </div>
+            )}
+            <div className="space-y-6">
+              {layout.rows.map((row) => {
+                const cards = rowCards(row, layout, catalog).filter((card) => showFinance || !isFinanceCard(card))
+                if (cards.length === 0) return null
+                return (
+                  <div key={row.id}>
+                    {row.title && <h2 className="text-lg font-semibold text-gray-800 mb-3">{label(row.title)}</h2>}
+                    <div className={`grid grid-cols-1 gap-6 ${GRID_COLUMNS[Math.min(cards.length, 4)]}`}>
+                      {cards.map((card) => renderCard(card))}
+                    </div>
+                  </div>
+                )
+              })}
+            </div>
+          </SectionState>
         </div>
 
+        {drillDown && (
+          <DrillDownPanel
+            target={drillDown.target}
+            title={drillDown.title}
+            range={range}
+            filters={filters}
+            pages={pages}
+            periodLabel={timeFrameLabel(timeFrame, range)}
+            onClose={() => setDrillDown(null)}
+          />
+        )}
+
         {/* Footer */}
         <div className="mt-12 text-center">
-          <div className="bg-white rounded-lg shadow-sm p-6">
-            <div className="flex items-center justify-center space-x-4 text-sm text-gray-500">
-              <div className="flex items-center">
-                <div className="w-2 h-2 bg-green-500 rounded-full mr-2"></div>
-                <span>Live Data</span>
-              </div>
-              <div className="flex items-center">
-                <div className="w-2 h-2 bg-blue-500 rounded-full mr-2"></div>
-                <span>Bangkok Time (GMT+7)</span>
-              </div>
-              <div className="flex items-center">
-                <div className="w-2 h-2 bg-gray-400 rounded-full mr-2"></div>
-                <span>Auto-refresh every 5 minutes</span>
-              </div>
-            </div>
-          </div>
+          <SyncStatusBar sync={sync} />
         </div>
       </div>
     </div>
   )
-}
\ No newline at end of file
+}
+
+export default function BMSDashboardPage() {
+  // useSearchParams needs a Suspense boundary to keep the route statically renderable
+  return (
+    <Suspense>
+      <BMSDashboard />
+    </Suspense>
+  )
+}
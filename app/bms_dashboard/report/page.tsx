@@ -0,0 +1,232 @@
+'use client'
+
+import { useState, useEffect, useMemo, Suspense } from 'react'
+import { useSearchParams } from 'next/navigation'
+import { Printer } from 'lucide-react'
+import { parseRangeParams, previousRange } from '@/lib/dateRange'
+import {
+  type MetricData,
+  type NumericMetricKey,
+  AD_SPEND_KPIS,
+  CONVERSION_RATIOS,
+  CURRENCY_METRICS,
+  FINANCE_METRICS,
+  METRIC_LABELS,
+  averageOrderValue,
+  percentChange,
+  revenuePerChat
+} from '@/lib/metrics'
+import type { TrendData, TrendSeriesKey } from '@/lib/trends'
+import { hasPermission, scopePageIds } from '@/lib/auth'
+import { type Page, parsePageIds } from '@/lib/pages'
+import { getMetrics, getPages, getTrends } from '@/lib/metricsApi'
+import { useAccess } from '@/components/AccessProvider'
+import { useI18n } from '@/components/I18nProvider'
+
+const REPORT_METRICS: NumericMetricKey[] = [
+  'totalChat', 'totalLead', 'totalBuy', 'totalBuyValue',
+  'totalGoodCustomer', 'totalViewContent', 'totalAddToCart', 'totalInitiateCheckout',
+  'totalBadCustomer', 'totalSpam', 'totalBlocking', 'totalBan', 'totalAdSpend'
+]
+
+const TREND_COLUMNS: { key: TrendSeriesKey; label: string; finance?: boolean }[] = [
+  { key: 'chats', label: 'Chat' },
+  { key: 'Lead', label: 'Lead' },
+  { key: 'Purchase', label: 'Buy' },
+  { key: 'revenue', label: 'Buy Value', finance: true }
+]
+
+// null when there is nothing to compare with
+const formatChange = (current: number, previous: number) => {
+  const change = percentChange(current, previous)
+  if (change === null) return null
+  return `${change > 0 ? '+' : ''}${change.toFixed(1)}%`
+}
+
+const formatRatio = (numerator: number, denominator: number) => {
+  return denominator > 0 ? `${((numerator / denominator) * 100).toFixed(1)}%` : '–'
+}
+
+function BMSReport() {
+  const searchParams = useSearchParams()
+  const access = useAccess()
+  const { t, label, formatBucket, formatCurrency, formatDateTime, formatNumber, timeFrameLabel, previousPeriodLabel } = useI18n()
+  const showFinance = hasPermission(access, 'view_finance')
+  const { timeFrame, range } = useMemo(
+    () => parseRangeParams(new URLSearchParams(searchParams.toString())),
+    [searchParams]
+  )
+  const pageParam = searchParams.get('pages')
+  const filters = useMemo(() => ({ pageIds: scopePageIds(access, parsePageIds(pageParam)) }), [access, pageParam])
+  const [metrics, setMetrics] = useState<MetricData | null>(null)
+  const [previousMetrics, setPreviousMetrics] = useState<MetricData | null>(null)
+  const [trendData, setTrendData] = useState<TrendData | null>(null)
+  const [pages, setPages] = useState<Page[]>([])
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    Promise.all([
+      getMetrics(range, filters),
+      getMetrics(previousRange(range), filters),
+      getTrends(range, filters),
+      getPages()
+    ])
+      .then(([current, previous, trends, pageRows]) => {
+        setMetrics(current)
+        setPreviousMetrics(previous)
+        setTrendData(trends)
+        setPages(pageRows)
+      })
+      .catch((error) => {
+        console.error('Error fetching report data:', error)
+        setError(error instanceof Error ? error.message : '')
+      })
+  }, [range, filters])
+
+  if (error !== null) {
+    return <p className="p-8 text-red-700">{error || t('report.loadError')}</p>
+  }
+
+  if (!metrics || !previousMetrics || !trendData) {
+    return (
+      <div className="flex items-center justify-center min-h-screen">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+      </div>
+    )
+  }
+
+  const selectedPages = parsePageIds(pageParam)
+  const pageLabel = selectedPages.length
+    ? pages.filter((page) => selectedPages.includes(page.id)).map((page) => page.name).join(', ')
+    : t('common.allPages')
+  const formatMetric = (key: NumericMetricKey, value: number) => {
+    return CURRENCY_METRICS.includes(key) ? formatCurrency(value) : formatNumber(value)
+  }
+  const changeText = (current: number, previous: number) => formatChange(current, previous) ?? t('card.new')
+  const trendColumns = TREND_COLUMNS.filter((column) => showFinance || !column.finance)
+
+  return (
+    <div className="max-w-4xl mx-auto p-8 bg-white text-gray-900 print:p-0">
+      <div className="flex items-start justify-between border-b-2 border-gray-900 pb-4 mb-6">
+        <div>
+          <h1 className="text-3xl font-bold">{t('report.title')}</h1>
+          <p className="text-gray-600 mt-1">{timeFrameLabel(timeFrame, range)} · {pageLabel}</p>
+        </div>
+        <div className="text-right text-sm text-gray-600">
+          <p>{t('report.comparedWith', { period: previousPeriodLabel(timeFrame, range) })}</p>
+          <p>{t('report.generated', { time: formatDateTime(new Date()) })}</p>
+          <button
+            onClick={() => window.print()}
+            className="mt-2 inline-flex items-center gap-2 px-4 py-2 rounded-md bg-blue-600 text-white font-semibold hover:bg-blue-700 print:hidden"
+          >
+            <Printer className="w-4 h-4" />
+            {t('report.print')}
+          </button>
+        </div>
+      </div>
+
+      <h2 className="text-xl font-bold mb-3">{t('report.summary')}</h2>
+      <table className="w-full text-sm mb-8 break-inside-avoid">
+        <thead>
+          <tr className="border-b border-gray-300 text-left">
+            <th className="py-2">{t('report.metric')}</th>
+            <th className="py-2 text-right">{t('report.value')}</th>
+            <th className="py-2 text-right">{t('report.previous')}</th>
+            <th className="py-2 text-right">{t('report.change')}</th>
+          </tr>
+        </thead>
+        <tbody>
+          {REPORT_METRICS.filter((key) => showFinance || !FINANCE_METRICS.includes(key)).map((key) => (
+            <tr key={key} className="border-b border-gray-100">
+              <td className="py-1.5">{label(METRIC_LABELS[key])}</td>
+              <td className="py-1.5 text-right font-semibold">{formatMetric(key, metrics[key])}</td>
+              <td className="py-1.5 text-right text-gray-600">{formatMetric(key, previousMetrics[key])}</td>
+              <td className="py-1.5 text-right">{changeText(metrics[key], previousMetrics[key])}</td>
+            </tr>
+          ))}
+          {showFinance && (
+            <>
+              <tr className="border-b border-gray-100">
+                <td className="py-1.5">{label('Average Order Value')}</td>
+                <td className="py-1.5 text-right font-semibold">{formatCurrency(averageOrderValue(metrics))}</td>
+                <td className="py-1.5 text-right text-gray-600">{formatCurrency(averageOrderValue(previousMetrics))}</td>
+                <td className="py-1.5 text-right">{changeText(averageOrderValue(metrics), averageOrderValue(previousMetrics))}</td>
+              </tr>
+              <tr className="border-b border-gray-100">
+                <td className="py-1.5">{label('Revenue per Chat')}</td>
+                <td className="py-1.5 text-right font-semibold">{formatCurrency(revenuePerChat(metrics))}</td>
+                <td className="py-1.5 text-right text-gray-600">{formatCurrency(revenuePerChat(previousMetrics))}</td>
+                <td className="py-1.5 text-right">{changeText(revenuePerChat(metrics), revenuePerChat(previousMetrics))}</td>
+              </tr>
+              {AD_SPEND_KPIS.map((kpi) => {
+                const format = kpi.isCurrency ? formatCurrency : (value: number) => value.toFixed(2)
+                return (
+                  <tr key={kpi.label} className="border-b border-gray-100">
+                    <td className="py-1.5">{label(kpi.label)}</td>
+                    <td className="py-1.5 text-right font-semibold">{format(kpi.value(metrics))}</td>
+                    <td className="py-1.5 text-right text-gray-600">{format(kpi.value(previousMetrics))}</td>
+                    <td className="py-1.5 text-right">{changeText(kpi.value(metrics), kpi.value(previousMetrics))}</td>
+                  </tr>
+                )
+              })}
+            </>
+          )}
+        </tbody>
+      </table>
+
+      <h2 className="text-xl font-bold mb-3">{t('report.conversion')}</h2>
+      <table className="w-full text-sm mb-8 break-inside-avoid">
+        <thead>
+          <tr className="border-b border-gray-300 text-left">
+            <th className="py-2">{t('report.ratio')}</th>
+            <th className="py-2 text-right">{t('report.value')}</th>
+            <th className="py-2 text-right">{t('report.previous')}</th>
+          </tr>
+        </thead>
+        <tbody>
+          {CONVERSION_RATIOS.map((ratio) => (
+            <tr key={ratio.label} className="border-b border-gray-100">
+              <td className="py-1.5">{label(ratio.label)}</td>
+              <td className="py-1.5 text-right font-semibold">{formatRatio(metrics[ratio.numerator], metrics[ratio.denominator])}</td>
+              <td className="py-1.5 text-right text-gray-600">
+                {formatRatio(previousMetrics[ratio.numerator], previousMetrics[ratio.denominator])}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      <h2 className="text-xl font-bold mb-3 break-before-page">{t('report.trend')}</h2>
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="border-b border-gray-300 text-left">
+            <th className="py-2">{trendData.granularity === 'hour' ? t('report.hour') : t('report.date')}</th>
+            {trendColumns.map((column) => (
+              <th key={column.key} className="py-2 text-right">{label(column.label)}</th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {trendData.points.map((point) => (
+            <tr key={point.time} className="border-b border-gray-100">
+              <td className="py-1">{formatBucket(point.time, trendData.granularity, true)}</td>
+              {trendColumns.map((column) => (
+                <td key={column.key} className="py-1 text-right">
+                  {column.finance ? formatCurrency(point[column.key] ?? 0) : formatNumber(point[column.key] ?? 0)}
+                </td>
+              ))}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  )
+}
+
+export default function BMSReportPage() {
+  return (
+    <Suspense>
+      <BMSReport />
+    </Suspense>
+  )
+}
@@ -0,0 +1,469 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import Link from 'next/link'
+import { ArrowLeft, Eye, Play, Trash2, X } from 'lucide-react'
+import { type AlertChannel, ALERT_CHANNEL_LABELS, ALERT_CHANNELS } from '@/lib/alerts'
+import {
+  type RenderedReport,
+  type ReportRun,
+  type ReportSchedule,
+  type ReportScheduleInput,
+  EMPTY_RECIPIENTS,
+  REPORT_FREQUENCIES,
+  REPORT_FREQUENCY_LABELS
+} from '@/lib/reports'
+import { hasPermission } from '@/lib/auth'
+import type { Page } from '@/lib/pages'
+import {
+  createReportSchedule,
+  deleteReportSchedule,
+  getPages,
+  getReportSchedules,
+  previewReportSchedule,
+  runReportSchedules,
+  updateReportSchedule
+} from '@/lib/metricsApi'
+import type { MessageKey } from '@/lib/messages'
+import { useAccess } from '@/components/AccessProvider'
+import { useI18n } from '@/components/I18nProvider'
+import PageSelector from '@/components/PageSelector'
+
+const emptySchedule: ReportScheduleInput = {
+  name: '',
+  frequency: 'daily',
+  send_hour: 8,
+  page_ids: null,
+  channels: ['line'],
+  include_finance: false,
+  enabled: true,
+  recipients: EMPTY_RECIPIENTS
+}
+
+const STATUS_LABELS: Record<ReportRun['status'], MessageKey> = {
+  sent: 'schedules.sent',
+  not_due: 'schedules.notDue',
+  no_recipients: 'schedules.noRecipients'
+}
+
+const HOURS = Array.from({ length: 24 }, (_, hour) => hour)
+
+export default function ReportSchedulesPage() {
+  const access = useAccess()
+  const { t, label, formatDateTime } = useI18n()
+  const canManage = hasPermission(access, 'manage')
+  const showFinance = hasPermission(access, 'view_finance')
+  const [schedules, setSchedules] = useState<ReportSchedule[]>([])
+  const [pages, setPages] = useState<Page[]>([])
+  const [draft, setDraft] = useState<ReportScheduleInput>(emptySchedule)
+  // Typed as free text and split on submit, so a trailing comma does not vanish mid-typing
+  const [emailTo, setEmailTo] = useState('')
+  const [results, setResults] = useState<ReportRun[] | null>(null)
+  const [preview, setPreview] = useState<{ schedule: ReportSchedule; report: RenderedReport } | null>(null)
+  const [previewFormat, setPreviewFormat] = useState<'html' | 'text'>('html')
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const run = async (action: () => Promise<void>) => {
+    setError(null)
+    try {
+      await action()
+    } catch (error) {
+      console.error('Report schedule request failed:', error)
+      setError(error instanceof Error ? error.message : '')
+    }
+  }
+
+  useEffect(() => {
+    run(async () => {
+      const [scheduleRows, pageRows] = await Promise.all([getReportSchedules(), getPages()])
+      setSchedules(scheduleRows)
+      setPages(pageRows)
+    })
+  }, [])
+
+  const update = (changes: Partial<ReportScheduleInput>) => setDraft({ ...draft, ...changes })
+
+  const updateRecipients = (changes: Partial<ReportScheduleInput['recipients']>) => {
+    update({ recipients: { ...draft.recipients, ...changes } })
+  }
+
+  const toggleChannel = (channel: AlertChannel) => {
+    update({
+      channels: draft.channels.includes(channel)
+        ? draft.channels.filter((item) => item !== channel)
+        : [...draft.channels, channel]
+    })
+  }
+
+  const submit = async (event: React.FormEvent) => {
+    event.preventDefault()
+    setSaving(true)
+    await run(async () => {
+      // Only the chosen channels keep a recipient
+      const uses = (channel: AlertChannel) => draft.channels.includes(channel)
+      const created = await createReportSchedule({
+        ...draft,
+        recipients: {
+          email_to: uses('email') ? emailTo.split(/[,;\s]+/).filter(Boolean) : [],
+          webhook_url: uses('webhook') ? draft.recipients.webhook_url : null,
+          webhook_secret: uses('webhook') ? draft.recipients.webhook_secret : null,
+          line_token: uses('line') ? draft.recipients.line_token : null
+        }
+      })
+      setSchedules([...schedules, created])
+      setDraft(emptySchedule)
+      setEmailTo('')
+    })
+    setSaving(false)
+  }
+
+  const toggleEnabled = (schedule: ReportSchedule) => run(async () => {
+    const updated = await updateReportSchedule(schedule.id, { enabled: !schedule.enabled })
+    setSchedules(schedules.map((item) => (item.id === schedule.id ? updated : item)))
+  })
+
+  const remove = (schedule: ReportSchedule) => run(async () => {
+    if (!window.confirm(t('schedules.confirmDelete', { name: schedule.name }))) return
+    await deleteReportSchedule(schedule.id)
+    setSchedules(schedules.filter((item) => item.id !== schedule.id))
+    if (preview?.schedule.id === schedule.id) setPreview(null)
+  })
+
+  const showPreview = (schedule: ReportSchedule) => run(async () => {
+    setPreview({ schedule, report: await previewReportSchedule(schedule.id) })
+  })
+
+  const sendDue = () => run(async () => {
+    setResults(await runReportSchedules())
+    setSchedules(await getReportSchedules())
+  })
+
+  // "Daily at 08:00", "Mondays at 09:00" (Bangkok time)
+  const describeSchedule = (schedule: Pick<ReportSchedule, 'frequency' | 'send_hour'>) => {
+    const time = `${String(schedule.send_hour).padStart(2, '0')}:00`
+    return t(schedule.frequency === 'weekly' ? 'schedules.weeklyAt' : 'schedules.dailyAt', { time })
+  }
+
+  const pageNames = (pageIds: string[] | null) => {
+    if (!pageIds?.length) return t('common.allPages')
+    return pageIds.map((id) => pages.find((page) => page.id === id)?.name ?? id).join(', ')
+  }
+
+  // Tokens and secrets are never shown back, only that they are set
+  const recipientText = (schedule: ReportSchedule, channel: AlertChannel): string => {
+    const { recipients } = schedule
+    if (!recipients) return t('schedules.defaultRecipient')
+    switch (channel) {
+      case 'email': return recipients.email_to.join(', ') || t('schedules.noRecipient')
+      case 'webhook': return recipients.webhook_url ? new URL(recipients.webhook_url).host : t('schedules.noRecipient')
+      case 'line': return recipients.line_token ? t('schedules.tokenSet') : t('schedules.noRecipient')
+    }
+  }
+
+  const deliveryText = (delivery: ReportSchedule['last_delivery'] | undefined) => {
+    if (!delivery || typeof delivery !== 'object' || Array.isArray(delivery)) return null
+    const entries = Object.entries(delivery)
+    return entries.length ? entries.map(([channel, status]) => `${label(ALERT_CHANNEL_LABELS[channel as AlertChannel] ?? channel)} ${label(String(status))}`).join(', ') : null
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-gray-50 to-gray-100 p-6">
+      <div className="max-w-5xl mx-auto">
+        <Link href="/bms_dashboard" className="inline-flex items-center gap-1 text-sm text-blue-600 hover:underline mb-4">
+          <ArrowLeft className="w-4 h-4" />
+          {t('common.back')}
+        </Link>
+        <div className="flex items-center justify-between mb-6">
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900">{t('schedules.title')}</h1>
+            <p className="text-gray-600">{t('schedules.subtitle')}</p>
+          </div>
+          {canManage && (
+            <button
+              onClick={sendDue}
+              className="flex items-center gap-2 px-4 py-2 rounded-md bg-blue-600 text-white font-semibold hover:bg-blue-700"
+            >
+              <Play className="w-4 h-4" />
+              {t('schedules.sendDue')}
+            </button>
+          )}
+        </div>
+
+        {error !== null && (
+          <div className="mb-4 rounded-lg border border-red-200 bg-red-50 px-4 py-3 text-sm text-red-700">{error || t('common.requestFailed')}</div>
+        )}
+
+        {results && (
+          <div className="mb-6 bg-white rounded-lg shadow-sm p-4 text-sm">
+            <h2 className="font-semibold text-gray-900 mb-2">{t('schedules.lastRun')}</h2>
+            {results.length === 0 && <p className="text-gray-500">{t('schedules.noEnabled')}</p>}
+            {results.map((result) => (
+              <p key={result.scheduleId} className="text-gray-700">
+                <span className="font-medium">{result.name}</span>: {t(STATUS_LABELS[result.status])}
+                {deliveryText(result.delivery) && ` · ${deliveryText(result.delivery)}`}
+              </p>
+            ))}
+          </div>
+        )}
+
+        <div className="bg-white rounded-lg shadow-sm mb-6 overflow-hidden">
+          <table className="w-full text-sm">
+            <thead className="bg-gray-50 text-left text-gray-600">
+              <tr>
+                <th className="px-4 py-3">{t('schedules.schedule')}</th>
+                <th className="px-4 py-3">{t('schedules.pages')}</th>
+                <th className="px-4 py-3">{t('schedules.channels')}</th>
+                <th className="px-4 py-3">{t('schedules.lastSent')}</th>
+                <th className="px-4 py-3"></th>
+              </tr>
+            </thead>
+            <tbody>
+              {schedules.length === 0 && (
+                <tr>
+                  <td colSpan={5} className="px-4 py-6 text-center text-gray-500">{t('schedules.none')}</td>
+                </tr>
+              )}
+              {schedules.map((schedule) => (
+                <tr key={schedule.id} className={`border-t border-gray-100 ${schedule.enabled ? '' : 'opacity-50'}`}>
+                  <td className="px-4 py-3">
+                    <p className="font-medium text-gray-900">{schedule.name}</p>
+                    <p className="text-gray-600">
+                      {describeSchedule(schedule)}
+                      {schedule.include_finance && t('schedules.withRevenue')}
+                      {!schedule.enabled && t('schedules.paused')}
+                    </p>
+                  </td>
+                  <td className="px-4 py-3 text-gray-700">{pageNames(schedule.page_ids)}</td>
+                  <td className="px-4 py-3 text-gray-700">
+                    {schedule.channels.map((channel) => (
+                      <p key={channel}>
+                        {label(ALERT_CHANNEL_LABELS[channel])}
+                        {canManage && (
+                          <span className="text-xs text-gray-500"> · {recipientText(schedule, channel)}</span>
+                        )}
+                      </p>
+                    ))}
+                  </td>
+                  <td className="px-4 py-3 text-gray-700">
+                    {schedule.last_sent_at ? formatDateTime(new Date(schedule.last_sent_at)) : '–'}
+                    {deliveryText(schedule.last_delivery) && (
+                      <p className="text-xs text-gray-500">{deliveryText(schedule.last_delivery)}</p>
+                    )}
+                  </td>
+                  <td className="px-4 py-3 text-right whitespace-nowrap">
+                    <button
+                      onClick={() => showPreview(schedule)}
+                      className="p-1.5 rounded-md text-gray-500 hover:bg-gray-100 hover:text-gray-700 mr-1"
+                      title={t('schedules.preview')}
+                    >
+                      <Eye className="w-4 h-4" />
+                    </button>
+                    {canManage && (
+                      <>
+                        <button
+                          onClick={() => toggleEnabled(schedule)}
+                          className="px-3 py-1 rounded-md bg-gray-100 text-gray-700 hover:bg-gray-200 mr-2"
+                        >
+                          {schedule.enabled ? t('schedules.pause') : t('schedules.resume')}
+                        </button>
+                        <button
+                          onClick={() => remove(schedule)}
+                          className="p-1.5 rounded-md text-gray-500 hover:bg-red-50 hover:text-red-700"
+                          title={t('schedules.delete')}
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </button>
+                      </>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        {preview && (
+          <div className="mb-6 bg-white rounded-lg shadow-sm p-6 text-sm">
+            <div className="flex items-start justify-between gap-4 mb-4">
+              <div>
+                <h2 className="text-lg font-semibold text-gray-900">{t('schedules.previewTitle', { name: preview.schedule.name })}</h2>
+                <p className="text-gray-600">{preview.report.subject}</p>
+                <p className="text-xs text-gray-500">{t('schedules.previewHint')}</p>
+              </div>
+              <div className="flex items-center gap-2">
+                <div className="inline-flex rounded-md bg-gray-100 p-0.5">
+                  {(['html', 'text'] as const).map((format) => (
+                    <button
+                      key={format}
+                      onClick={() => setPreviewFormat(format)}
+                      className={`px-3 py-1 rounded ${previewFormat === format ? 'bg-white shadow-sm text-gray-900' : 'text-gray-600'}`}
+                    >
+                      {format === 'html' ? t('schedules.email') : t('schedules.text')}
+                    </button>
+                  ))}
+                </div>
+                <button
+                  onClick={() => setPreview(null)}
+                  className="p-1.5 rounded-md text-gray-500 hover:bg-gray-100"
+                  title={t('schedules.closePreview')}
+                >
+                  <X className="w-4 h-4" />
+                </button>
+              </div>
+            </div>
+            {previewFormat === 'html' ? (
+              <iframe
+                title={t('schedules.emailPreview')}
+                sandbox=""
+                srcDoc={preview.report.html}
+                className="w-full h-[32rem] rounded border border-gray-200"
+              />
+            ) : (
+              <pre className="whitespace-pre-wrap rounded border border-gray-200 bg-gray-50 p-4 text-gray-800">{preview.report.text}</pre>
+            )}
+          </div>
+        )}
+
+        {canManage && (
+          <form onSubmit={submit} className="bg-white rounded-lg shadow-sm p-6 space-y-4 text-sm">
+            <h2 className="text-lg font-semibold text-gray-900">{t('schedules.newSchedule')}</h2>
+            <label className="block">
+              <span className="text-gray-700">{t('schedules.name')}</span>
+              <input
+                required
+                value={draft.name}
+                onChange={(event) => update({ name: event.target.value })}
+                placeholder={t('schedules.namePlaceholder')}
+                className="mt-1 w-full rounded-md border border-gray-300 px-3 py-2"
+              />
+            </label>
+            <div className="flex flex-wrap items-end gap-3">
+              <label className="block">
+                <span className="text-gray-700">{t('schedules.frequency')}</span>
+                <select
+                  value={draft.frequency}
+                  onChange={(event) => update({ frequency: event.target.value as ReportScheduleInput['frequency'] })}
+                  className="mt-1 block rounded-md border border-gray-300 px-3 py-2"
+                >
+                  {REPORT_FREQUENCIES.map((frequency) => (
+                    <option key={frequency} value={frequency}>{label(REPORT_FREQUENCY_LABELS[frequency])}</option>
+                  ))}
+                </select>
+              </label>
+              <label className="block">
+                <span className="text-gray-700">{t('schedules.sendAt')}</span>
+                <select
+                  value={draft.send_hour}
+                  onChange={(event) => update({ send_hour: Number(event.target.value) })}
+                  className="mt-1 block rounded-md border border-gray-300 px-3 py-2"
+                >
+                  {HOURS.map((hour) => (
+                    <option key={hour} value={hour}>{`${String(hour).padStart(2, '0')}:00`}</option>
+                  ))}
+                </select>
+              </label>
+              {showFinance && (
+                <label className="flex items-center gap-2 py-2 text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={draft.include_finance}
+                    onChange={(event) => update({ include_finance: event.target.checked })}
+                  />
+                  {t('schedules.includeFinance')}
+                </label>
+              )}
+            </div>
+            <p className="text-gray-500">
+              {t(draft.frequency === 'weekly' ? 'schedules.coversWeek' : 'schedules.coversDay', { schedule: describeSchedule(draft) })}
+            </p>
+            <div className="flex flex-wrap items-start gap-6">
+              <div>
+                <span className="block text-gray-700 mb-1">{t('schedules.pages')}</span>
+                <PageSelector
+                  pages={pages}
+                  selectedIds={draft.page_ids ?? []}
+                  onChange={(pageIds) => update({ page_ids: pageIds.length ? pageIds : null })}
+                />
+              </div>
+              <div>
+                <span className="block text-gray-700 mb-1">{t('schedules.sendVia')}</span>
+                <div className="flex gap-4 py-2">
+                  {ALERT_CHANNELS.map((channel) => (
+                    <label key={channel} className="flex items-center gap-1 text-gray-700">
+                      <input type="checkbox" checked={draft.channels.includes(channel)} onChange={() => toggleChannel(channel)} />
+                      {label(ALERT_CHANNEL_LABELS[channel])}
+                    </label>
+                  ))}
+                </div>
+              </div>
+            </div>
+            {draft.channels.length > 0 && (
+              <div className="space-y-3">
+                <p className="text-gray-500">{t('schedules.recipientsHint')}</p>
+                {draft.channels.includes('email') && (
+                  <label className="block">
+                    <span className="text-gray-700">{t('schedules.emailTo')}</span>
+                    <input
+                      required
+                      value={emailTo}
+                      onChange={(event) => setEmailTo(event.target.value)}
+                      placeholder="owner@client-a.com, marketing@client-a.com"
+                      className="mt-1 w-full rounded-md border border-gray-300 px-3 py-2"
+                    />
+                  </label>
+                )}
+                {draft.channels.includes('webhook') && (
+                  <div className="flex flex-wrap gap-3">
+                    <label className="block flex-1 min-w-[16rem]">
+                      <span className="text-gray-700">{t('schedules.webhookUrl')}</span>
+                      <input
+                        required
+                        type="url"
+                        pattern="https://.*"
+                        value={draft.recipients.webhook_url ?? ''}
+                        onChange={(event) => updateRecipients({ webhook_url: event.target.value || null })}
+                        placeholder="https://"
+                        className="mt-1 w-full rounded-md border border-gray-300 px-3 py-2"
+                      />
+                    </label>
+                    <label className="block">
+                      <span className="text-gray-700">{t('schedules.webhookSecret')}</span>
+                      <input
+                        type="password"
+                        autoComplete="off"
+                        value={draft.recipients.webhook_secret ?? ''}
+                        onChange={(event) => updateRecipients({ webhook_secret: event.target.value || null })}
+                        className="mt-1 block rounded-md border border-gray-300 px-3 py-2"
+                      />
+                    </label>
+                  </div>
+                )}
+                {draft.channels.includes('line') && (
+                  <label className="block">
+                    <span className="text-gray-700">{t('schedules.lineToken')}</span>
+                    <input
+                      required
+                      type="password"
+                      autoComplete="off"
+                      value={draft.recipients.line_token ?? ''}
+                      onChange={(event) => updateRecipients({ line_token: event.target.value || null })}
+                      className="mt-1 w-full rounded-md border border-gray-300 px-3 py-2"
+                    />
+                  </label>
+                )}
+              </div>
+            )}
+            <button
+              type="submit"
+              disabled={saving || draft.channels.length === 0}
+              className="px-4 py-2 rounded-md bg-blue-600 text-white font-semibold hover:bg-blue-700 disabled:opacity-50"
+            >
+              {saving ? t('common.saving') : t('schedules.create')}
+            </button>
+          </form>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,359 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import Link from 'next/link'
+import { ArrowLeft, Ban, Copy, History } from 'lucide-react'
+import { type PresetTimeFrame, PRESET_TIME_FRAMES, addDays, presetRange } from '@/lib/dateRange'
+import {
+  type ShareLinkInput,
+  type ShareLinkStatus,
+  type ShareLinkView,
+  type ShareLinkWithToken,
+  CHART_WIDGETS,
+  CHART_WIDGET_LABELS,
+  MAX_SHARE_DAYS,
+  embedPath,
+  sharePath,
+  shareLinkStatus
+} from '@/lib/shareLinks'
+import { DEFAULT_LAYOUT, cardTitle, isFinanceCard } from '@/lib/layout'
+import { DEFAULT_INTENT_CATALOG } from '@/lib/intents'
+import { hasPermission } from '@/lib/auth'
+import type { Page } from '@/lib/pages'
+import { createShareLink, getPages, getShareLinkViews, getShareLinks, revokeShareLink } from '@/lib/metricsApi'
+import type { MessageKey } from '@/lib/messages'
+import { useAccess } from '@/components/AccessProvider'
+import { useI18n } from '@/components/I18nProvider'
+import PageSelector from '@/components/PageSelector'
+
+interface Draft {
+  name: string
+  pageIds: string[]
+  timeFrames: PresetTimeFrame[]
+  includeFinance: boolean
+  days: number
+}
+
+const emptyDraft: Draft = { name: '', pageIds: [], timeFrames: ['today', '7days', '30days'], includeFinance: false, days: 30 }
+
+const STATUS_STYLES: Record<ShareLinkStatus, string> = {
+  active: 'bg-green-100 text-green-700',
+  expired: 'bg-gray-100 text-gray-600',
+  revoked: 'bg-red-100 text-red-700'
+}
+
+const STATUS_LABELS: Record<ShareLinkStatus, MessageKey> = {
+  active: 'shareLinks.active',
+  expired: 'shareLinks.expired',
+  revoked: 'shareLinks.revoked'
+}
+
+// Cards of the default layout plus the charts, as offered for embedding
+const WIDGETS = [
+  ...DEFAULT_LAYOUT.rows.flatMap((row) => row.cards).map((card) => ({
+    id: card.id,
+    label: cardTitle(card, DEFAULT_INTENT_CATALOG),
+    finance: isFinanceCard(card)
+  })),
+  ...CHART_WIDGETS.map((widget) => ({ id: widget, label: CHART_WIDGET_LABELS[widget], finance: false }))
+]
+
+export default function ShareLinksPage() {
+  const access = useAccess()
+  const { t, label, formatDate, formatDateTime, timeFrameLabel } = useI18n()
+  const canManage = hasPermission(access, 'manage')
+  const [links, setLinks] = useState<ShareLinkWithToken[]>([])
+  const [pages, setPages] = useState<Page[]>([])
+  const [draft, setDraft] = useState<Draft>(emptyDraft)
+  const [embedWidgets, setEmbedWidgets] = useState<Record<string, string>>({})
+  const [log, setLog] = useState<{ linkId: string; views: ShareLinkView[] } | null>(null)
+  const [copied, setCopied] = useState<string | null>(null)
+  // Set after mount so the server render and the first client render match
+  const [origin, setOrigin] = useState('')
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const run = async (action: () => Promise<void>) => {
+    setError(null)
+    try {
+      await action()
+    } catch (error) {
+      console.error('Share link request failed:', error)
+      setError(error instanceof Error ? error.message : '')
+    }
+  }
+
+  useEffect(() => {
+    setOrigin(window.location.origin)
+    if (!canManage) return
+    run(async () => {
+      const [linkRows, pageRows] = await Promise.all([getShareLinks(), getPages()])
+      setLinks(linkRows)
+      setPages(pageRows)
+    })
+  }, [canManage])
+
+  const update = (changes: Partial<Draft>) => setDraft({ ...draft, ...changes })
+
+  const toggleTimeFrame = (timeFrame: PresetTimeFrame) => {
+    update({
+      timeFrames: draft.timeFrames.includes(timeFrame)
+        ? draft.timeFrames.filter((item) => item !== timeFrame)
+        : [...draft.timeFrames, timeFrame]
+    })
+  }
+
+  const submit = async (event: React.FormEvent) => {
+    event.preventDefault()
+    setSaving(true)
+    await run(async () => {
+      const input: ShareLinkInput = {
+        name: draft.name,
+        page_ids: draft.pageIds,
+        time_frames: draft.timeFrames,
+        include_finance: draft.includeFinance,
+        expires_at: addDays(new Date(), draft.days).toISOString()
+      }
+      const created = await createShareLink(input)
+      setLinks([created, ...links])
+      setDraft(emptyDraft)
+    })
+    setSaving(false)
+  }
+
+  const revoke = (link: ShareLinkWithToken) => run(async () => {
+    if (!window.confirm(t('shareLinks.confirmRevoke', { name: link.name }))) return
+    const revoked = await revokeShareLink(link.id)
+    setLinks(links.map((item) => (item.id === link.id ? { ...item, ...revoked } : item)))
+  })
+
+  const toggleLog = (link: ShareLinkWithToken) => run(async () => {
+    setLog(log?.linkId === link.id ? null : { linkId: link.id, views: await getShareLinkViews(link.id) })
+  })
+
+  const copy = (key: string, text: string) => run(async () => {
+    await navigator.clipboard.writeText(text)
+    setCopied(key)
+  })
+
+  const pageNames = (pageIds: string[]) => {
+    return pageIds.map((id) => pages.find((page) => page.id === id)?.name ?? id).join(', ')
+  }
+
+  // Only the labels of presets are needed here, so any range will do
+  const labelRange = presetRange('today')
+
+  if (!canManage) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-gray-50 to-gray-100 p-6">
+        <div className="max-w-5xl mx-auto">
+          <Link href="/bms_dashboard" className="inline-flex items-center gap-1 text-sm text-blue-600 hover:underline mb-4">
+            <ArrowLeft className="w-4 h-4" />
+            {t('common.back')}
+          </Link>
+          <div className="bg-white rounded-lg shadow-sm p-6 text-sm text-gray-600">{t('shareLinks.adminOnly')}</div>
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-gray-50 to-gray-100 p-6">
+      <div className="max-w-5xl mx-auto">
+        <Link href="/bms_dashboard" className="inline-flex items-center gap-1 text-sm text-blue-600 hover:underline mb-4">
+          <ArrowLeft className="w-4 h-4" />
+          {t('common.back')}
+        </Link>
+        <div className="mb-6">
+          <h1 className="text-3xl font-bold text-gray-900">{t('shareLinks.title')}</h1>
+          <p className="text-gray-600">{t('shareLinks.subtitle')}</p>
+        </div>
+
+        {error !== null && (
+          <div className="mb-4 rounded-lg border border-red-200 bg-red-50 px-4 py-3 text-sm text-red-700">{error || t('common.requestFailed')}</div>
+        )}
+
+        <div className="space-y-4 mb-6">
+          {links.length === 0 && (
+            <div className="bg-white rounded-lg shadow-sm p-6 text-center text-sm text-gray-500">{t('shareLinks.none')}</div>
+          )}
+          {links.map((link) => {
+            const status = shareLinkStatus(link)
+            const shareUrl = `${origin}${sharePath(link.token)}`
+            const widget = embedWidgets[link.id] ?? WIDGETS[0].id
+            const embedCode = `<iframe src="${origin}${embedPath(link.token, widget)}" width="400" height="220" style="border:0" loading="lazy"></iframe>`
+            return (
+              <div key={link.id} className={`bg-white rounded-lg shadow-sm p-6 text-sm ${status === 'active' ? '' : 'opacity-75'}`}>
+                <div className="flex items-start justify-between gap-4">
+                  <div>
+                    <p className="font-medium text-gray-900">
+                      {link.name}
+                      <span className={`ml-2 rounded-full px-2 py-0.5 text-xs font-semibold ${STATUS_STYLES[status]}`}>{t(STATUS_LABELS[status])}</span>
+                    </p>
+                    <p className="text-gray-600">
+                      {pageNames(link.page_ids)} · {link.time_frames.map((item) => timeFrameLabel(item, labelRange)).join(', ')}
+                      {link.include_finance && t('shareLinks.withRevenue')}
+                    </p>
+                    <p className="text-xs text-gray-500">
+                      {t('shareLinks.created', { date: formatDate(new Date(link.created_at)) })} ·{' '}
+                      {link.revoked_at
+                        ? t('shareLinks.revokedAt', { time: formatDateTime(new Date(link.revoked_at)) })
+                        : t(status === 'expired' ? 'shareLinks.expiredAt' : 'shareLinks.expiresAt', { time: formatDateTime(new Date(link.expires_at)) })}
+                    </p>
+                  </div>
+                  <div className="whitespace-nowrap">
+                    <button
+                      onClick={() => toggleLog(link)}
+                      className="p-1.5 rounded-md text-gray-500 hover:bg-gray-100 hover:text-gray-700 mr-1"
+                      title={t('shareLinks.accessLog')}
+                    >
+                      <History className="w-4 h-4" />
+                    </button>
+                    {status === 'active' && (
+                      <button
+                        onClick={() => revoke(link)}
+                        className="p-1.5 rounded-md text-gray-500 hover:bg-red-50 hover:text-red-700"
+                        title={t('shareLinks.revoke')}
+                      >
+                        <Ban className="w-4 h-4" />
+                      </button>
+                    )}
+                  </div>
+                </div>
+
+                {status === 'active' && (
+                  <div className="mt-3 space-y-2">
+                    <div className="flex items-center gap-2">
+                      <input readOnly value={shareUrl} className="flex-1 rounded-md border border-gray-300 bg-gray-50 px-3 py-1.5 font-mono text-xs" />
+                      <button
+                        onClick={() => copy(`${link.id}|share`, shareUrl)}
+                        className="inline-flex items-center gap-1 px-3 py-1.5 rounded-md bg-gray-100 text-gray-700 hover:bg-gray-200"
+                      >
+                        <Copy className="w-4 h-4" />
+                        {copied === `${link.id}|share` ? t('shareLinks.copied') : t('shareLinks.copyLink')}
+                      </button>
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <select
+                        value={widget}
+                        onChange={(event) => setEmbedWidgets({ ...embedWidgets, [link.id]: event.target.value })}
+                        className="rounded-md border border-gray-300 px-2 py-1.5"
+                      >
+                        {WIDGETS.filter((item) => link.include_finance || !item.finance).map((item) => (
+                          <option key={item.id} value={item.id}>{label(item.label)}</option>
+                        ))}
+                      </select>
+                      <input readOnly value={embedCode} className="flex-1 rounded-md border border-gray-300 bg-gray-50 px-3 py-1.5 font-mono text-xs" />
+                      <button
+                        onClick={() => copy(`${link.id}|embed`, embedCode)}
+                        className="inline-flex items-center gap-1 px-3 py-1.5 rounded-md bg-gray-100 text-gray-700 hover:bg-gray-200"
+                      >
+                        <Copy className="w-4 h-4" />
+                        {copied === `${link.id}|embed` ? t('shareLinks.copied') : t('shareLinks.copyEmbed')}
+                      </button>
+                    </div>
+                  </div>
+                )}
+
+                {log?.linkId === link.id && (
+                  <div className="mt-4 border-t border-gray-100 pt-3">
+                    <h3 className="font-semibold text-gray-900 mb-2">{t('shareLinks.accessLog')}</h3>
+                    {log.views.length === 0 ? (
+                      <p className="text-gray-500">{t('shareLinks.notOpened')}</p>
+                    ) : (
+                      <table className="w-full text-xs">
+                        <thead className="text-left text-gray-500">
+                          <tr>
+                            <th className="py-1 pr-3">{t('shareLinks.when')}</th>
+                            <th className="py-1 pr-3">{t('shareLinks.view')}</th>
+                            <th className="py-1 pr-3">{t('shareLinks.ip')}</th>
+                            <th className="py-1 pr-3">{t('shareLinks.browser')}</th>
+                            <th className="py-1">{t('shareLinks.embeddedIn')}</th>
+                          </tr>
+                        </thead>
+                        <tbody className="text-gray-700">
+                          {log.views.map((view) => (
+                            <tr key={view.id} className="border-t border-gray-100">
+                              <td className="py-1 pr-3 whitespace-nowrap">{formatDateTime(new Date(view.viewed_at))}</td>
+                              <td className="py-1 pr-3">{view.view}</td>
+                              <td className="py-1 pr-3">{view.ip ?? '–'}</td>
+                              <td className="py-1 pr-3 max-w-xs truncate" title={view.user_agent ?? undefined}>{view.user_agent ?? '–'}</td>
+                              <td className="py-1 max-w-xs truncate" title={view.referer ?? undefined}>{view.referer ?? '–'}</td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    )}
+                  </div>
+                )}
+              </div>
+            )
+          })}
+        </div>
+
+        <form onSubmit={submit} className="bg-white rounded-lg shadow-sm p-6 space-y-4 text-sm">
+          <h2 className="text-lg font-semibold text-gray-900">{t('shareLinks.newLink')}</h2>
+          <label className="block">
+            <span className="text-gray-700">{t('shareLinks.name')}</span>
+            <input
+              required
+              value={draft.name}
+              onChange={(event) => update({ name: event.target.value })}
+              placeholder={t('shareLinks.namePlaceholder')}
+              className="mt-1 w-full rounded-md border border-gray-300 px-3 py-2"
+            />
+          </label>
+          <div>
+            <span className="block text-gray-700 mb-1">{t('shareLinks.pages')}</span>
+            <PageSelector pages={pages} selectedIds={draft.pageIds} onChange={(pageIds) => update({ pageIds })} />
+            <p className="mt-1 text-xs text-gray-500">{t('shareLinks.pagesHint')}</p>
+          </div>
+          <div className="flex flex-wrap items-end gap-6">
+            <div>
+              <span className="block text-gray-700 mb-1">{t('shareLinks.timeFrames')}</span>
+              <div className="flex gap-3">
+                {PRESET_TIME_FRAMES.map((timeFrame) => (
+                  <label key={timeFrame} className="flex items-center gap-2 text-gray-700">
+                    <input
+                      type="checkbox"
+                      checked={draft.timeFrames.includes(timeFrame)}
+                      onChange={() => toggleTimeFrame(timeFrame)}
+                    />
+                    {timeFrameLabel(timeFrame, labelRange)}
+                  </label>
+                ))}
+              </div>
+            </div>
+            <label className="block">
+              <span className="text-gray-700">{t('shareLinks.days')}</span>
+              <input
+                type="number"
+                required
+                min={1}
+                max={MAX_SHARE_DAYS}
+                value={draft.days}
+                onChange={(event) => update({ days: Number(event.target.value) })}
+                className="mt-1 block w-28 rounded-md border border-gray-300 px-3 py-2"
+              />
+            </label>
+            <label className="flex items-center gap-2 py-2 text-gray-700">
+              <input
+                type="checkbox"
+                checked={draft.includeFinance}
+                onChange={(event) => update({ includeFinance: event.target.checked })}
+              />
+              {t('shareLinks.includeFinance')}
+            </label>
+          </div>
+          <button
+            type="submit"
+            disabled={saving || draft.pageIds.length === 0 || draft.timeFrames.length === 0}
+            className="px-4 py-2 rounded-md bg-blue-600 text-white font-semibold hover:bg-blue-700 disabled:opacity-50"
+          >
+            {saving ? t('shareLinks.creating') : t('shareLinks.create')}
+          </button>
+        </form>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,31 @@
+import { headers } from 'next/headers'
+import { createServiceSupabase } from '@/lib/supabase-server'
+import { openShareLink } from '@/lib/shareLinks-server'
+import { isShareWidget } from '@/lib/shareLinks'
+import { type Locale, DEFAULT_PREFERENCES, LOCALES, translate } from '@/lib/i18n'
+import I18nProvider from '@/components/I18nProvider'
+import SharedDashboardView from '@/components/SharedDashboardView'
+
+type EmbedPageProps = {
+  params: Promise<{ token: string; widget: string }>
+  searchParams: Promise<{ range?: string; lang?: string }>
+}
+
+// One card (by its DEFAULT_LAYOUT id) or chart ('trend', 'funnel') of a share link, with no
+// page chrome, for an <iframe>. Framing is allowed by the headers in next.config.ts.
+export default async function EmbedPage({ params, searchParams }: EmbedPageProps) {
+  const { token, widget } = await params
+  const { range, lang } = await searchParams
+  const locale: Locale = LOCALES.includes(lang as Locale) ? lang as Locale : DEFAULT_PREFERENCES.locale
+  const link = isShareWidget(widget) ? await openShareLink(createServiceSupabase(), token, widget, await headers()) : null
+
+  if (!link) {
+    return <p className="p-4 text-sm text-gray-500">{translate(locale, 'share.unavailable')}</p>
+  }
+
+  return (
+    <I18nProvider initialPreferences={{ ...DEFAULT_PREFERENCES, locale }}>
+      <SharedDashboardView token={token} widget={widget} initialTimeFrame={range ?? null} />
+    </I18nProvider>
+  )
+}
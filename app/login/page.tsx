@@ -0,0 +1,122 @@
+'use client'
+
+import { useState, Suspense } from 'react'
+import { useRouter, useSearchParams } from 'next/navigation'
+import { supabase } from '@/lib/supabase'
+import { safeRedirectPath } from '@/lib/auth'
+
+const ERROR_MESSAGES: Record<string, string> = {
+  link_invalid: 'That sign-in link is invalid or has expired. Please request a new one.'
+}
+
+function LoginForm() {
+  const router = useRouter()
+  const searchParams = useSearchParams()
+  const next = safeRedirectPath(searchParams.get('next'))
+  const [email, setEmail] = useState('')
+  const [password, setPassword] = useState('')
+  const [submitting, setSubmitting] = useState(false)
+  const [message, setMessage] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(
+    ERROR_MESSAGES[searchParams.get('error') ?? ''] ?? null
+  )
+
+  const signInWithPassword = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setSubmitting(true)
+    setError(null)
+    const { error } = await supabase.auth.signInWithPassword({ email, password })
+    setSubmitting(false)
+    if (error) {
+      setError(error.message)
+      return
+    }
+    router.replace(next)
+    router.refresh()
+  }
+
+  const sendMagicLink = async () => {
+    if (!email) {
+      setError('Enter your email address first.')
+      return
+    }
+    setSubmitting(true)
+    setError(null)
+    const { error } = await supabase.auth.signInWithOtp({
+      email,
+      options: {
+        emailRedirectTo: `${window.location.origin}/auth/callback?next=${encodeURIComponent(next)}`,
+        // Accounts are provisioned by an admin, not by signing in
+        shouldCreateUser: false
+      }
+    })
+    setSubmitting(false)
+    if (error) {
+      setError(error.message)
+      return
+    }
+    setMessage(`We sent a sign-in link to ${email}.`)
+  }
+
+  return (
+    <form onSubmit={signInWithPassword} className="bg-white rounded-lg shadow-lg p-8 w-full max-w-md space-y-4">
+      <div>
+        <h1 className="text-3xl font-bold text-gray-900 mb-1">BMS Dashboard</h1>
+        <p className="text-gray-600">Sign in to continue</p>
+      </div>
+
+      {error && <p className="rounded-md bg-red-50 border border-red-200 px-3 py-2 text-sm text-red-700">{error}</p>}
+      {message && <p className="rounded-md bg-green-50 border border-green-200 px-3 py-2 text-sm text-green-700">{message}</p>}
+
+      <div>
+        <label htmlFor="email" className="block text-sm font-semibold text-gray-700 mb-1">Email</label>
+        <input
+          id="email"
+          type="email"
+          autoComplete="email"
+          required
+          value={email}
+          onChange={(e) => setEmail(e.target.value)}
+          className="w-full rounded-md border border-gray-300 px-3 py-2 text-gray-900"
+        />
+      </div>
+      <div>
+        <label htmlFor="password" className="block text-sm font-semibold text-gray-700 mb-1">Password</label>
+        <input
+          id="password"
+          type="password"
+          autoComplete="current-password"
+          value={password}
+          onChange={(e) => setPassword(e.target.value)}
+          className="w-full rounded-md border border-gray-300 px-3 py-2 text-gray-900"
+        />
+      </div>
+
+      <button
+        type="submit"
+        disabled={submitting || !password}
+        className="w-full px-6 py-3 rounded-md font-semibold bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-50"
+      >
+        Sign in
+      </button>
+      <button
+        type="button"
+        onClick={sendMagicLink}
+        disabled={submitting}
+        className="w-full px-6 py-3 rounded-md font-semibold bg-gray-100 text-gray-700 hover:bg-gray-200 disabled:opacity-50"
+      >
+        Email me a magic link
+      </button>
+    </form>
+  )
+}
+
+export default function LoginPage() {
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-gray-50 to-gray-100 p-6 flex items-center justify-center">
+      <Suspense>
+        <LoginForm />
+      </Suspense>
+    </div>
+  )
+}
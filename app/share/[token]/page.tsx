@@ -0,0 +1,37 @@
+import { headers } from 'next/headers'
+import { createServiceSupabase } from '@/lib/supabase-server'
+import { openShareLink } from '@/lib/shareLinks-server'
+import { DASHBOARD_VIEW } from '@/lib/shareLinks'
+import { type Locale, DEFAULT_PREFERENCES, LOCALES, translate } from '@/lib/i18n'
+import I18nProvider from '@/components/I18nProvider'
+import SharedDashboardView from '@/components/SharedDashboardView'
+
+type SharePageProps = {
+  params: Promise<{ token: string }>
+  searchParams: Promise<{ range?: string; lang?: string }>
+}
+
+// Public read-only dashboard for a share link; ?range=7days picks one of the link's
+// time frames and ?lang=th the language
+export default async function SharePage({ params, searchParams }: SharePageProps) {
+  const { token } = await params
+  const { range, lang } = await searchParams
+  const locale: Locale = LOCALES.includes(lang as Locale) ? lang as Locale : DEFAULT_PREFERENCES.locale
+  const link = await openShareLink(createServiceSupabase(), token, DASHBOARD_VIEW, await headers())
+
+  if (!link) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-gray-50 to-gray-100 p-6 flex items-center justify-center">
+        <div className="bg-white rounded-lg shadow-lg p-8 max-w-md text-center text-gray-600">
+          {translate(locale, 'share.unavailable')}
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <I18nProvider initialPreferences={{ ...DEFAULT_PREFERENCES, locale }}>
+      <SharedDashboardView token={token} initialTimeFrame={range ?? null} />
+    </I18nProvider>
+  )
+}
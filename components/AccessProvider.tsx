@@ -0,0 +1,19 @@
+'use client'
+
+import { createContext, useContext } from 'react'
+import type { UserAccess } from '@/lib/auth'
+
+const AccessContext = createContext<UserAccess | null>(null)
+
+export default function AccessProvider({ access, children }: {
+  access: UserAccess
+  children: React.ReactNode
+}) {
+  return <AccessContext.Provider value={access}>{children}</AccessContext.Provider>
+}
+
+export const useAccess = (): UserAccess => {
+  const access = useContext(AccessContext)
+  if (!access) throw new Error('useAccess must be used inside <AccessProvider>')
+  return access
+}
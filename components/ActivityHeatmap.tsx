@@ -0,0 +1,121 @@
+'use client'
+
+import { useState } from 'react'
+import {
+  type HeatmapData,
+  type HeatmapMeasure,
+  HEATMAP_MEASURES,
+  WEEKDAY_LABELS,
+  cellConversionRate
+} from '@/lib/heatmap'
+import { useI18n } from '@/components/I18nProvider'
+
+type HeatmapMode = 'count' | 'rate'
+
+const HOURS = Array.from({ length: 24 }, (_, hour) => hour)
+
+const cellColor = (value: number | null, max: number) => {
+  if (value === null) return '#F3F4F6'
+  return `rgba(59, 130, 246, ${max > 0 ? 0.08 + (value / max) * 0.87 : 0.08})`
+}
+
+export default function ActivityHeatmap({ data, loading }: {
+  data: HeatmapData
+  loading: boolean
+}) {
+  const { t, label, formatNumber } = useI18n()
+  const [mode, setMode] = useState<HeatmapMode>('count')
+  const [measure, setMeasure] = useState<HeatmapMeasure>('chats')
+  // Conversion rates are relative to chats, so chats themselves have no rate
+  const measures = HEATMAP_MEASURES.filter((option) => mode === 'count' || option.key !== 'chats')
+  const activeMeasure = measures.some((option) => option.key === measure) ? measure : measures[0].key
+
+  const valueOf = (cell: HeatmapData['cells'][number]) => {
+    if (mode === 'count' || activeMeasure === 'chats') return cell[activeMeasure]
+    return cellConversionRate(cell, activeMeasure)
+  }
+  const format = (value: number | null) => {
+    if (value === null) return '–'
+    return mode === 'rate' ? `${value.toFixed(1)}%` : formatNumber(value)
+  }
+  const values = data.cells.map(valueOf)
+  const max = Math.max(0, ...values.map((value) => value ?? 0))
+  const measureLabel = label(HEATMAP_MEASURES.find((option) => option.key === activeMeasure)?.label ?? '')
+
+  return (
+    <div>
+      <div className="flex flex-wrap items-center gap-4 mb-4">
+        <div className="flex rounded-md bg-gray-100 p-1">
+          {(['count', 'rate'] as HeatmapMode[]).map((key) => (
+            <button
+              key={key}
+              onClick={() => setMode(key)}
+              className={`px-3 py-1 rounded text-sm font-medium ${
+                mode === key ? 'bg-white text-gray-900 shadow-sm' : 'text-gray-600 hover:text-gray-900'
+              }`}
+            >
+              {key === 'count' ? t('heatmap.counts') : t('heatmap.rate')}
+            </button>
+          ))}
+        </div>
+        <div className="flex gap-2">
+          {measures.map((option) => (
+            <button
+              key={option.key}
+              onClick={() => setMeasure(option.key)}
+              className={`px-3 py-1 rounded-full text-sm font-medium border ${
+                activeMeasure === option.key
+                  ? 'bg-white border-gray-400 text-gray-900 shadow-sm'
+                  : 'bg-gray-100 border-transparent text-gray-500 hover:bg-gray-200'
+              }`}
+            >
+              {mode === 'rate' ? t('heatmap.chatTo', { measure: label(option.label) }) : label(option.label)}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {loading ? (
+        <div className="flex items-center justify-center h-64">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+        </div>
+      ) : (
+        <div className="overflow-x-auto">
+          <div className="grid min-w-[720px] gap-0.5" style={{ gridTemplateColumns: '3rem repeat(24, minmax(0, 1fr))' }}>
+            <div></div>
+            {HOURS.map((hour) => (
+              <div key={hour} className="pb-1 text-center text-xs text-gray-500">{String(hour).padStart(2, '0')}</div>
+            ))}
+            {WEEKDAY_LABELS.map((weekdayLabel, weekday) => (
+              <div key={weekdayLabel} className="contents">
+                <div className="pr-2 text-right text-xs leading-7 text-gray-600">{label(weekdayLabel)}</div>
+                {HOURS.map((hour) => {
+                  const index = weekday * 24 + hour
+                  // Cells are missing until the first response arrives
+                  const cell = data.cells.at(index)
+                  const value = cell ? values[index] : null
+                  const detail = cell
+                    ? t('heatmap.cellDetail', { chats: formatNumber(cell.chats), leads: formatNumber(cell.leads), purchases: formatNumber(cell.purchases) })
+                    : ''
+                  return (
+                    <div
+                      key={hour}
+                      title={`${label(weekdayLabel)} ${String(hour).padStart(2, '0')}:00 – ${measureLabel}: ${format(value)}\n${detail}`}
+                      className="h-7 rounded-sm"
+                      style={{ backgroundColor: cellColor(value, max) }}
+                    ></div>
+                  )
+                })}
+              </div>
+            ))}
+          </div>
+          <div className="flex items-center justify-end gap-2 mt-3 text-xs text-gray-500">
+            <span>{format(0)}</span>
+            <div className="h-2 w-32 rounded" style={{ background: `linear-gradient(to right, ${cellColor(0, 1)}, ${cellColor(1, 1)})` }}></div>
+            <span>{format(max)}</span>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,108 @@
+'use client'
+
+import { useState, useEffect, useRef, useCallback } from 'react'
+import Link from 'next/link'
+import { Bell, Check } from 'lucide-react'
+import type { AlertEvent } from '@/lib/alerts'
+import { acknowledgeAlert, getAlertEvents } from '@/lib/metricsApi'
+import { useI18n } from '@/components/I18nProvider'
+
+// Bell with the unacknowledged alert count and a dropdown of recent alerts.
+// `refreshKey` changes whenever the dashboard refreshes, so new alerts show up with new data.
+export default function AlertCenter({ refreshKey }: { refreshKey?: unknown }) {
+  const { t, formatDateTime } = useI18n()
+  const [open, setOpen] = useState(false)
+  const [events, setEvents] = useState<AlertEvent[]>([])
+  const [error, setError] = useState<string | null>(null)
+  const containerRef = useRef<HTMLDivElement>(null)
+
+  const loadEvents = useCallback(async () => {
+    try {
+      setEvents(await getAlertEvents({ limit: 20 }))
+      setError(null)
+    } catch (error) {
+      console.error('Error fetching alerts:', error)
+      setError(error instanceof Error ? error.message : '')
+    }
+  }, [])
+
+  useEffect(() => {
+    loadEvents()
+  }, [loadEvents, refreshKey])
+
+  useEffect(() => {
+    if (!open) return
+    const handleClick = (event: MouseEvent) => {
+      if (!containerRef.current?.contains(event.target as Node)) setOpen(false)
+    }
+    document.addEventListener('mousedown', handleClick)
+    return () => document.removeEventListener('mousedown', handleClick)
+  }, [open])
+
+  const acknowledge = async (id: number) => {
+    try {
+      const updated = await acknowledgeAlert(id)
+      setEvents((current) => current.map((event) => (event.id === id ? updated : event)))
+    } catch (error) {
+      console.error('Error acknowledging alert:', error)
+    }
+  }
+
+  const unacknowledged = events.filter((event) => !event.acknowledged_at).length
+
+  return (
+    <div ref={containerRef} className="relative inline-block text-left">
+      <button
+        onClick={() => setOpen(!open)}
+        className="relative p-2 rounded-full bg-white shadow-sm text-gray-700 hover:bg-gray-50"
+        aria-label={t('alerts.unacknowledged', { count: unacknowledged })}
+      >
+        <Bell className="w-5 h-5" />
+        {unacknowledged > 0 && (
+          <span className="absolute -top-1 -right-1 min-w-5 h-5 px-1 rounded-full bg-red-600 text-white text-xs font-bold flex items-center justify-center">
+            {unacknowledged > 9 ? '9+' : unacknowledged}
+          </span>
+        )}
+      </button>
+
+      {open && (
+        <div className="absolute right-0 z-20 mt-2 w-96 rounded-lg bg-white shadow-xl border border-gray-200 text-sm">
+          <div className="flex items-center justify-between px-4 py-3 border-b border-gray-100">
+            <span className="font-semibold text-gray-900">{t('alerts.title')}</span>
+            <Link href="/bms_dashboard/alerts" className="text-blue-600 hover:underline">
+              {t('alerts.rules')}
+            </Link>
+          </div>
+          <div className="max-h-96 overflow-y-auto">
+            {error !== null && <p className="px-4 py-3 text-red-700">{error || t('alerts.loadError')}</p>}
+            {error === null && events.length === 0 && <p className="px-4 py-6 text-center text-gray-500">{t('alerts.none')}</p>}
+            {events.map((event) => (
+              <div
+                key={event.id}
+                className={`flex items-start gap-3 px-4 py-3 border-b border-gray-50 ${event.acknowledged_at ? 'opacity-60' : ''}`}
+              >
+                <div className={`mt-1.5 w-2 h-2 shrink-0 rounded-full ${event.acknowledged_at ? 'bg-gray-300' : 'bg-red-500'}`}></div>
+                <div className="flex-1 text-left">
+                  <p className="font-medium text-gray-900">{event.rule_name}</p>
+                  <p className="text-gray-600">{event.message}</p>
+                  <p className="text-xs text-gray-400 mt-1">
+                    {formatDateTime(new Date(event.created_at))}
+                  </p>
+                </div>
+                {!event.acknowledged_at && (
+                  <button
+                    onClick={() => acknowledge(event.id)}
+                    className="p-1 rounded text-gray-500 hover:bg-gray-100 hover:text-gray-900"
+                    title={t('alerts.acknowledge')}
+                  >
+                    <Check className="w-4 h-4" />
+                  </button>
+                )}
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,231 @@
+'use client'
+
+import { useState } from 'react'
+import { Plus, Trash2 } from 'lucide-react'
+import { type DateRange, fromDateTimeInput, previousRange, toDateTimeInput } from '@/lib/dateRange'
+import { type Annotation, MAX_TITLE_LENGTH, overlapsRange } from '@/lib/annotations'
+import { hasPermission } from '@/lib/auth'
+import type { Page } from '@/lib/pages'
+import { createAnnotation, deleteAnnotation } from '@/lib/metricsApi'
+import { useAccess } from '@/components/AccessProvider'
+import { useI18n } from '@/components/I18nProvider'
+import PageSelector from '@/components/PageSelector'
+
+interface Draft {
+  title: string
+  note: string
+  start: string
+  end: string
+  pageIds: string[]
+}
+
+// Annotations for the selected window, numbered as on the trend chart, then those for the
+// comparison period so a delta on the cards can be read against what changed
+export default function AnnotationPanel({ annotations, range, periodLabel, pages, defaultPageIds, onChange }: {
+  // Everything overlapping the window or the period before it, ordered by start
+  annotations: Annotation[]
+  range: DateRange
+  periodLabel: string
+  pages: Page[]
+  // The dashboard's page filter, preselected for new annotations
+  defaultPageIds: string[]
+  // Called after a create or delete so the dashboard reloads its copy
+  onChange: () => void
+}) {
+  const access = useAccess()
+  const { t, formatDateTime } = useI18n()
+  const canAnnotate = hasPermission(access, 'annotate')
+  const [draft, setDraft] = useState<Draft | null>(null)
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const current = annotations.filter((annotation) => overlapsRange(annotation, range))
+  const previous = annotations.filter(
+    (annotation) => !overlapsRange(annotation, range) && overlapsRange(annotation, previousRange(range))
+  )
+
+  const run = async (action: () => Promise<void>) => {
+    setError(null)
+    try {
+      await action()
+      onChange()
+    } catch (error) {
+      console.error('Annotation request failed:', error)
+      setError(t('annotations.error', { message: error instanceof Error ? error.message : String(error) }))
+    }
+  }
+
+  const openForm = () => {
+    // Start inside the window so the new marker is visible straight away
+    const now = new Date()
+    const start = now < range.to ? now : range.from
+    setDraft({ title: '', note: '', start: toDateTimeInput(start), end: '', pageIds: defaultPageIds })
+  }
+
+  const submit = async (event: React.FormEvent) => {
+    event.preventDefault()
+    if (!draft) return
+    const startsAt = fromDateTimeInput(draft.start)
+    if (!startsAt) return
+    const endsAt = draft.end ? fromDateTimeInput(draft.end) : null
+    setSaving(true)
+    await run(async () => {
+      await createAnnotation({
+        title: draft.title,
+        note: draft.note || null,
+        starts_at: startsAt.toISOString(),
+        ends_at: endsAt?.toISOString() ?? null,
+        page_ids: draft.pageIds.length ? draft.pageIds : null
+      })
+      setDraft(null)
+    })
+    setSaving(false)
+  }
+
+  const remove = (annotation: Annotation) => {
+    if (!window.confirm(t('annotations.confirmDelete', { title: annotation.title }))) return
+    run(() => deleteAnnotation(annotation.id).then(() => undefined))
+  }
+
+  const pageNames = (pageIds: string[] | null) => {
+    if (!pageIds?.length) return t('pages.all')
+    return pageIds.map((id) => pages.find((page) => page.id === id)?.name ?? id).join(', ')
+  }
+
+  const renderItem = (annotation: Annotation, number?: number) => (
+    <li key={annotation.id} className="flex items-start gap-3 py-3">
+      {number !== undefined && (
+        <span className="flex-none inline-flex h-5 w-5 items-center justify-center rounded-full bg-pink-600 text-xs font-semibold text-white">
+          {number}
+        </span>
+      )}
+      <div className="min-w-0 flex-1">
+        <p className="font-medium text-gray-900">{annotation.title}</p>
+        <p className="text-xs text-gray-500">
+          {formatDateTime(new Date(annotation.starts_at))}
+          {annotation.ends_at && ` – ${formatDateTime(new Date(annotation.ends_at))}`}
+          {' · '}{pageNames(annotation.page_ids)}
+          {annotation.author_email && ` · ${t('annotations.by', { author: annotation.author_email })}`}
+        </p>
+        {annotation.note && <p className="mt-1 whitespace-pre-line text-gray-600">{annotation.note}</p>}
+      </div>
+      {(annotation.created_by === access.userId || hasPermission(access, 'manage')) && (
+        <button
+          onClick={() => remove(annotation)}
+          className="p-1.5 rounded-md text-gray-400 hover:bg-red-50 hover:text-red-700"
+          title={t('annotations.delete')}
+        >
+          <Trash2 className="w-4 h-4" />
+        </button>
+      )}
+    </li>
+  )
+
+  const inputClass = 'mt-1 block w-full rounded-md border border-gray-300 px-3 py-2'
+
+  return (
+    <div className="text-sm">
+      <div className="flex items-start justify-between gap-2 mb-2">
+        <div>
+          <h3 className="text-lg font-semibold text-gray-900">{t('annotations.title')}</h3>
+          <p className="text-xs text-gray-500">{t('annotations.hint')}</p>
+        </div>
+        {canAnnotate && !draft && (
+          <button
+            onClick={openForm}
+            className="inline-flex items-center gap-1 whitespace-nowrap rounded-md px-2 py-1 text-blue-600 hover:bg-blue-50"
+          >
+            <Plus className="w-4 h-4" />
+            {t('annotations.add')}
+          </button>
+        )}
+      </div>
+
+      {error && (
+        <div className="mb-3 rounded-md border border-red-200 bg-red-50 px-3 py-2 text-red-700">{error}</div>
+      )}
+
+      {draft && (
+        <form onSubmit={submit} className="mb-4 space-y-3 rounded-md border border-gray-200 bg-gray-50 p-3">
+          <label className="block">
+            <span className="text-gray-700">{t('annotations.name')}</span>
+            <input
+              required
+              maxLength={MAX_TITLE_LENGTH}
+              value={draft.title}
+              placeholder={t('annotations.namePlaceholder')}
+              onChange={(event) => setDraft({ ...draft, title: event.target.value })}
+              className={inputClass}
+            />
+          </label>
+          <div className="grid grid-cols-2 gap-3">
+            <label className="block">
+              <span className="text-gray-700">{t('annotations.start')}</span>
+              <input
+                type="datetime-local"
+                required
+                value={draft.start}
+                onChange={(event) => setDraft({ ...draft, start: event.target.value })}
+                className={inputClass}
+              />
+            </label>
+            <label className="block">
+              <span className="text-gray-700">{t('annotations.end')}</span>
+              <input
+                type="datetime-local"
+                min={draft.start}
+                value={draft.end}
+                onChange={(event) => setDraft({ ...draft, end: event.target.value })}
+                className={inputClass}
+              />
+            </label>
+          </div>
+          <label className="block">
+            <span className="text-gray-700">{t('annotations.note')}</span>
+            <textarea
+              rows={2}
+              value={draft.note}
+              onChange={(event) => setDraft({ ...draft, note: event.target.value })}
+              className={inputClass}
+            />
+          </label>
+          {pages.length > 1 && (
+            <PageSelector pages={pages} selectedIds={draft.pageIds} onChange={(pageIds) => setDraft({ ...draft, pageIds })} />
+          )}
+          <div className="flex gap-2">
+            <button
+              type="submit"
+              disabled={saving || !draft.title.trim()}
+              className="px-3 py-1.5 rounded-md bg-blue-600 text-white font-semibold hover:bg-blue-700 disabled:opacity-50"
+            >
+              {t('annotations.save')}
+            </button>
+            <button
+              type="button"
+              onClick={() => setDraft(null)}
+              className="px-3 py-1.5 rounded-md text-gray-600 hover:bg-gray-100"
+            >
+              {t('annotations.cancel')}
+            </button>
+          </div>
+        </form>
+      )}
+
+      <p className="mt-2 text-xs font-semibold uppercase tracking-wide text-gray-500">{t('annotations.thisPeriod')}</p>
+      {current.length ? (
+        <ul className="divide-y divide-gray-100">{current.map((annotation, index) => renderItem(annotation, index + 1))}</ul>
+      ) : (
+        <p className="py-3 text-gray-400">{t('annotations.none')}</p>
+      )}
+
+      <p className="mt-2 text-xs font-semibold uppercase tracking-wide text-gray-500">
+        {t('annotations.previousPeriod', { period: periodLabel })}
+      </p>
+      {previous.length ? (
+        <ul className="divide-y divide-gray-100">{previous.map((annotation) => renderItem(annotation))}</ul>
+      ) : (
+        <p className="py-3 text-gray-400">{t('annotations.none')}</p>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,85 @@
+'use client'
+
+import { useState } from 'react'
+import { type CohortWeek, COHORT_WEEKS } from '@/lib/cohorts'
+import type { MessageKey } from '@/lib/messages'
+import { useI18n } from '@/components/I18nProvider'
+
+type CohortMeasure = 'retention' | 'conversion'
+
+const MEASURE_LABELS: Record<CohortMeasure, MessageKey> = {
+  retention: 'cohorts.retention',
+  conversion: 'cohorts.conversion'
+}
+
+// Darker cells for higher shares, so strong and weak cohorts stand out at a glance
+const cellStyle = (value: number) => ({ backgroundColor: `rgba(59, 130, 246, ${Math.min(1, value / 100) * 0.8 + 0.05})` })
+
+export default function CohortTable({ cohorts, loading }: {
+  cohorts: CohortWeek[]
+  loading: boolean
+}) {
+  const { t, formatNumber } = useI18n()
+  const [measure, setMeasure] = useState<CohortMeasure>('conversion')
+  const offsets = Array.from({ length: COHORT_WEEKS + 1 }, (_, offset) => offset)
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-48">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+      </div>
+    )
+  }
+
+  return (
+    <div>
+      <div className="flex gap-2 mb-4">
+        {(Object.keys(MEASURE_LABELS) as CohortMeasure[]).map((key) => (
+          <button
+            key={key}
+            onClick={() => setMeasure(key)}
+            className={`px-3 py-1 rounded-md text-sm font-medium ${
+              measure === key ? 'bg-blue-600 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+            }`}
+          >
+            {t(MEASURE_LABELS[key])}
+          </button>
+        ))}
+      </div>
+      {cohorts.length === 0 ? (
+        <p className="py-8 text-center text-gray-500">{t('cohorts.none')}</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="min-w-full text-sm">
+            <thead>
+              <tr className="border-b border-gray-200 text-left text-xs uppercase tracking-wide text-gray-500">
+                <th className="py-2 pr-4">{t('cohorts.week')}</th>
+                <th className="py-2 pr-4 text-right">{t('cohorts.customers')}</th>
+                {offsets.map((offset) => (
+                  <th key={offset} className="py-2 px-1 text-center">{t('cohorts.offset', { offset })}</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {cohorts.map((cohort) => (
+                <tr key={cohort.weekStart} className="border-b border-gray-100">
+                  <td className="py-1.5 pr-4 text-gray-800">{cohort.weekStart}</td>
+                  <td className="py-1.5 pr-4 text-right font-semibold text-gray-900">{formatNumber(cohort.customers)}</td>
+                  {cohort[measure].map((value, offset) => (
+                    <td key={offset} className="py-1 px-1">
+                      {value !== null && (
+                        <div className={`rounded px-2 py-1 text-center text-xs ${value >= 50 ? 'text-white' : 'text-gray-900'}`} style={cellStyle(value)}>
+                          {value}%
+                        </div>
+                      )}
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  )
+}
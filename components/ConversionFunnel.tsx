@@ -0,0 +1,135 @@
+'use client'
+
+import { useState, useEffect, useMemo } from 'react'
+import { ChevronDown, ChevronUp, Settings2 } from 'lucide-react'
+import type { MetricData } from '@/lib/metrics'
+import type { IntentDefinition } from '@/lib/intents'
+import { type FunnelStageKey, buildFunnel, funnelStages, parseFunnelOrder, worstDropOffIndex } from '@/lib/funnel'
+import { useI18n } from '@/components/I18nProvider'
+
+const STORAGE_KEY = 'bms.funnelOrder'
+
+const formatRate = (rate: number | null) => (rate === null ? '–' : `${rate.toFixed(1)}%`)
+
+export default function ConversionFunnel({ metrics, registry, loading }: {
+  metrics: MetricData
+  registry: IntentDefinition[]
+  loading: boolean
+}) {
+  const { t, label, formatNumber } = useI18n()
+  const stages = useMemo(() => funnelStages(registry), [registry])
+  const defaultOrder = stages.map((stage) => stage.key)
+  const [savedOrder, setSavedOrder] = useState<string | null>(null)
+  const [editing, setEditing] = useState(false)
+  // Re-validated whenever the registry changes
+  const order = parseFunnelOrder(savedOrder, stages) ?? defaultOrder
+  const stageLabel = (key: FunnelStageKey) => label(stages.find((stage) => stage.key === key)?.label ?? key)
+
+  // Stage order is a per-browser preference
+  useEffect(() => {
+    setSavedOrder(window.localStorage.getItem(STORAGE_KEY))
+  }, [])
+
+  const saveOrder = (next: FunnelStageKey[]) => {
+    const raw = JSON.stringify(next)
+    setSavedOrder(raw)
+    window.localStorage.setItem(STORAGE_KEY, raw)
+  }
+
+  const moveStage = (index: number, direction: -1 | 1) => {
+    const target = index + direction
+    if (target < 0 || target >= order.length) return
+    const next = [...order]
+    ;[next[index], next[target]] = [next[target], next[index]]
+    saveOrder(next)
+  }
+
+  const toggleStage = (key: FunnelStageKey) => {
+    if (order.includes(key)) {
+      // A funnel needs at least two stages
+      if (order.length > 2) saveOrder(order.filter((item) => item !== key))
+    } else {
+      saveOrder([...order, key])
+    }
+  }
+
+  const steps = buildFunnel(metrics, order.map((key) => ({ key, label: stageLabel(key) })))
+  const worstIndex = worstDropOffIndex(steps)
+  const maxCount = Math.max(1, ...steps.map((step) => step.count))
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-lg font-semibold text-gray-700">{t('funnel.title')}</h3>
+        <button
+          onClick={() => setEditing(!editing)}
+          className="flex items-center gap-1 px-3 py-1 rounded-md text-sm font-medium bg-gray-100 text-gray-700 hover:bg-gray-200"
+        >
+          <Settings2 className="w-4 h-4" />
+          {editing ? t('funnel.done') : t('funnel.stages')}
+        </button>
+      </div>
+
+      {editing && (
+        <div className="mb-6 rounded-lg border border-gray-200 p-4 space-y-2">
+          {order.map((key, index) => (
+            <div key={key} className="flex items-center gap-2 text-sm">
+              <input type="checkbox" checked onChange={() => toggleStage(key)} />
+              <span className="flex-1 text-gray-800">{stageLabel(key)}</span>
+              <button onClick={() => moveStage(index, -1)} disabled={index === 0} className="p-1 rounded hover:bg-gray-100 disabled:opacity-30">
+                <ChevronUp className="w-4 h-4" />
+              </button>
+              <button onClick={() => moveStage(index, 1)} disabled={index === order.length - 1} className="p-1 rounded hover:bg-gray-100 disabled:opacity-30">
+                <ChevronDown className="w-4 h-4" />
+              </button>
+            </div>
+          ))}
+          {defaultOrder.filter((key) => !order.includes(key)).map((key) => (
+            <div key={key} className="flex items-center gap-2 text-sm text-gray-400">
+              <input type="checkbox" checked={false} onChange={() => toggleStage(key)} />
+              <span className="flex-1">{stageLabel(key)}</span>
+            </div>
+          ))}
+          <button onClick={() => saveOrder(defaultOrder)} className="text-sm text-blue-600 hover:underline">
+            {t('funnel.reset')}
+          </button>
+        </div>
+      )}
+
+      {loading ? (
+        <div className="flex items-center justify-center h-48">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+        </div>
+      ) : (
+        <div className="space-y-3">
+          {steps.map((step, index) => (
+            <div key={step.key}>
+              {index > 0 && (
+                <div className={`flex items-center gap-3 pl-4 py-1 text-xs ${
+                  index === worstIndex ? 'text-red-600 font-semibold' : 'text-gray-500'
+                }`}>
+                  <span>{t('funnel.continue', { rate: formatRate(step.stepConversion) })}</span>
+                  <span>{t('funnel.dropped', { count: formatNumber(step.dropOff), rate: formatRate(step.dropOffRate) })}</span>
+                  {index === worstIndex && (
+                    <span className="px-2 py-0.5 rounded-full bg-red-100 text-red-700">{t('funnel.biggestDropOff')}</span>
+                  )}
+                </div>
+              )}
+              <div className="flex items-center gap-4">
+                <span className="w-36 text-sm font-semibold text-gray-700">{step.label}</span>
+                <div className="flex-1 bg-gray-100 rounded h-8">
+                  <div
+                    className={`h-8 rounded ${index === worstIndex ? 'bg-red-500' : 'bg-blue-500'} transition-all duration-300`}
+                    style={{ width: `${(step.count / maxCount) * 100}%` }}
+                  ></div>
+                </div>
+                <span className="w-28 text-right text-sm font-bold text-gray-900">{formatNumber(step.count)}</span>
+                <span className="w-20 text-right text-xs text-gray-500">{formatRate(step.overallConversion)}</span>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
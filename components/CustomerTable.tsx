@@ -0,0 +1,197 @@
+'use client'
+
+import { useState, useMemo } from 'react'
+import {
+  type ColumnDef,
+  type SortingState,
+  flexRender,
+  getCoreRowModel,
+  getFilteredRowModel,
+  getPaginationRowModel,
+  getSortedRowModel,
+  useReactTable
+} from '@tanstack/react-table'
+import { ArrowDown, ArrowUp, ArrowUpDown, ExternalLink } from 'lucide-react'
+import { toBangkokDateTime } from '@/lib/dateRange'
+import type { CustomerJourney } from '@/lib/cohorts'
+import { conversationUrl } from '@/lib/drilldown'
+import type { Page } from '@/lib/pages'
+import { useI18n } from '@/components/I18nProvider'
+
+const PAGE_SIZES = [25, 50, 100]
+
+// Sorts "never" after every real duration in both directions
+const durationSort = (a: number | null, b: number | null) => (a ?? Infinity) - (b ?? Infinity)
+
+export default function CustomerTable({ customers, pages, showFinance }: {
+  customers: CustomerJourney[]
+  pages: Page[]
+  showFinance: boolean
+}) {
+  const { t, formatCurrency, formatDuration, formatNumber } = useI18n()
+  const [sorting, setSorting] = useState<SortingState>([{ id: showFinance ? 'lifetimeValue' : 'purchases', desc: true }])
+  const [globalFilter, setGlobalFilter] = useState('')
+  const pageNames = useMemo(() => new Map(pages.map((page) => [page.id, page.name])), [pages])
+
+  const columns = useMemo<ColumnDef<CustomerJourney>[]>(() => {
+    const all: (ColumnDef<CustomerJourney> & { finance?: boolean })[] = [
+      { id: 'psid', accessorKey: 'psid', header: t('column.psid') },
+      { id: 'page', accessorFn: (row) => pageNames.get(row.pageId) ?? row.pageId, header: t('column.page') },
+      {
+        id: 'firstContact',
+        accessorKey: 'firstContact',
+        header: t('column.firstContact'),
+        cell: ({ getValue }) => toBangkokDateTime(new Date(getValue<string>()))
+      },
+      {
+        id: 'timeToLead',
+        accessorKey: 'timeToLead',
+        header: t('column.timeToLead'),
+        sortingFn: (a, b) => durationSort(a.original.timeToLead, b.original.timeToLead),
+        cell: ({ getValue }) => {
+          const value = getValue<number | null>()
+          return value === null ? '–' : formatDuration(value)
+        }
+      },
+      {
+        id: 'timeToPurchase',
+        accessorKey: 'timeToPurchase',
+        header: t('column.timeToPurchase'),
+        sortingFn: (a, b) => durationSort(a.original.timeToPurchase, b.original.timeToPurchase),
+        cell: ({ getValue }) => {
+          const value = getValue<number | null>()
+          return value === null ? '–' : formatDuration(value)
+        }
+      },
+      { id: 'purchases', accessorKey: 'purchases', header: t('column.purchases'), cell: ({ getValue }) => formatNumber(getValue<number>()) },
+      {
+        id: 'lifetimeValue',
+        accessorKey: 'lifetimeValue',
+        header: t('column.lifetimeValue'),
+        finance: true,
+        cell: ({ getValue }) => formatCurrency(getValue<number>())
+      },
+      {
+        id: 'conversation',
+        header: t('column.conversation'),
+        enableSorting: false,
+        enableGlobalFilter: false,
+        cell: ({ row }) => {
+          const url = conversationUrl(row.original.pageId, row.original.psid)
+          return url ? (
+            <a href={url} target="_blank" rel="noopener noreferrer" className="inline-flex items-center gap-1 text-blue-600 hover:underline">
+              {t('table.open')} <ExternalLink className="w-3 h-3" />
+            </a>
+          ) : '–'
+        }
+      }
+    ]
+    return all.filter((column) => showFinance || !column.finance)
+  }, [pageNames, showFinance, t, formatCurrency, formatDuration, formatNumber])
+
+  const table = useReactTable({
+    data: customers,
+    columns,
+    state: { sorting, globalFilter },
+    onSortingChange: setSorting,
+    onGlobalFilterChange: setGlobalFilter,
+    getCoreRowModel: getCoreRowModel(),
+    getSortedRowModel: getSortedRowModel(),
+    getFilteredRowModel: getFilteredRowModel(),
+    getPaginationRowModel: getPaginationRowModel(),
+    initialState: { pagination: { pageSize: PAGE_SIZES[0] } }
+  })
+
+  const filteredCount = table.getFilteredRowModel().rows.length
+  const { pageIndex, pageSize } = table.getState().pagination
+
+  return (
+    <div className="text-sm">
+      <input
+        value={globalFilter}
+        onChange={(event) => setGlobalFilter(event.target.value)}
+        placeholder={t('customers.filter')}
+        className="mb-3 w-full max-w-sm rounded-md border border-gray-300 px-3 py-2"
+      />
+      <div className="overflow-x-auto">
+        <table className="min-w-full">
+          <thead>
+            {table.getHeaderGroups().map((headerGroup) => (
+              <tr key={headerGroup.id} className="border-b border-gray-200 text-left text-xs uppercase tracking-wide text-gray-500">
+                {headerGroup.headers.map((header) => {
+                  const sorted = header.column.getIsSorted()
+                  const SortIcon = sorted === 'asc' ? ArrowUp : sorted === 'desc' ? ArrowDown : ArrowUpDown
+                  return (
+                    <th key={header.id} className="py-2 pr-4">
+                      {header.column.getCanSort() ? (
+                        <button onClick={header.column.getToggleSortingHandler()} className="inline-flex items-center gap-1 uppercase">
+                          {flexRender(header.column.columnDef.header, header.getContext())}
+                          <SortIcon className="w-3 h-3" />
+                        </button>
+                      ) : (
+                        flexRender(header.column.columnDef.header, header.getContext())
+                      )}
+                    </th>
+                  )
+                })}
+              </tr>
+            ))}
+          </thead>
+          <tbody>
+            {table.getRowModel().rows.map((row) => (
+              <tr key={row.original.psid} className="border-b border-gray-100 hover:bg-gray-50">
+                {row.getVisibleCells().map((cell) => (
+                  <td key={cell.id} className="py-2 pr-4 text-gray-800">
+                    {flexRender(cell.column.columnDef.cell, cell.getContext())}
+                  </td>
+                ))}
+              </tr>
+            ))}
+            {filteredCount === 0 && (
+              <tr>
+                <td colSpan={columns.length} className="py-8 text-center text-gray-500">{t('customers.none')}</td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="flex flex-wrap items-center justify-between gap-3 pt-4 text-gray-600">
+        <span>
+          {filteredCount === 0
+            ? t('customers.zero')
+            : t('table.range', {
+              first: formatNumber(pageIndex * pageSize + 1),
+              last: formatNumber(Math.min((pageIndex + 1) * pageSize, filteredCount)),
+              total: formatNumber(filteredCount)
+            })}
+        </span>
+        <div className="flex items-center gap-2">
+          <select
+            value={pageSize}
+            onChange={(event) => table.setPageSize(Number(event.target.value))}
+            className="rounded-md border border-gray-300 px-2 py-1"
+          >
+            {PAGE_SIZES.map((size) => (
+              <option key={size} value={size}>{t('table.perPage', { size })}</option>
+            ))}
+          </select>
+          <button
+            onClick={() => table.previousPage()}
+            disabled={!table.getCanPreviousPage()}
+            className="px-3 py-1 rounded-md bg-gray-100 text-gray-700 hover:bg-gray-200 disabled:opacity-50"
+          >
+            {t('table.previous')}
+          </button>
+          <button
+            onClick={() => table.nextPage()}
+            disabled={!table.getCanNextPage()}
+            className="px-3 py-1 rounded-md bg-gray-100 text-gray-700 hover:bg-gray-200 disabled:opacity-50"
+          >
+            {t('table.next')}
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,88 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import {
+  type DateRange,
+  type TimeFrame,
+  PRESET_TIME_FRAMES,
+  addDays,
+  customRange,
+  fromDateParam,
+  presetRange,
+  toDateParam
+} from '@/lib/dateRange'
+import { useI18n } from '@/components/I18nProvider'
+
+export default function DateRangePicker({ timeFrame, range, onChange }: {
+  timeFrame: TimeFrame
+  range: DateRange
+  onChange: (timeFrame: TimeFrame, range: DateRange) => void
+}) {
+  const { t, timeFrameLabel } = useI18n()
+  const rangeFrom = toDateParam(range.from)
+  const rangeTo = toDateParam(addDays(range.to, -1))
+  const [fromValue, setFromValue] = useState(rangeFrom)
+  const [toValue, setToValue] = useState(rangeTo)
+
+  // Keep the inputs in step with presets and URL navigation
+  useEffect(() => {
+    setFromValue(rangeFrom)
+    setToValue(rangeTo)
+  }, [rangeFrom, rangeTo])
+
+  const from = fromDateParam(fromValue)
+  const to = fromDateParam(toValue)
+
+  const applyCustomRange = () => {
+    if (!from || !to) return
+    onChange('custom', customRange(from, to))
+  }
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 bg-white p-2 rounded-lg shadow-sm">
+      {PRESET_TIME_FRAMES.map((tf) => (
+        <button
+          key={tf}
+          onClick={() => onChange(tf, presetRange(tf))}
+          className={`px-6 py-3 rounded-md font-semibold transition-all duration-200 ${
+            timeFrame === tf
+              ? 'bg-blue-600 text-white shadow-md transform scale-105'
+              : 'bg-gray-100 text-gray-700 hover:bg-gray-200 hover:scale-105'
+          }`}
+        >
+          {timeFrameLabel(tf, presetRange(tf))}
+        </button>
+      ))}
+
+      <div className={`flex flex-wrap items-center gap-2 px-3 py-2 rounded-md ${
+        timeFrame === 'custom' ? 'bg-blue-50 ring-2 ring-blue-600' : 'bg-gray-100'
+      }`}>
+        <label className="text-sm font-semibold text-gray-700" htmlFor="range-from">{t('dateRange.from')}</label>
+        <input
+          id="range-from"
+          type="date"
+          value={fromValue}
+          max={toValue}
+          onChange={(e) => setFromValue(e.target.value)}
+          className="rounded border border-gray-300 px-2 py-1 text-sm text-gray-900"
+        />
+        <label className="text-sm font-semibold text-gray-700" htmlFor="range-to">{t('dateRange.to')}</label>
+        <input
+          id="range-to"
+          type="date"
+          value={toValue}
+          min={fromValue}
+          onChange={(e) => setToValue(e.target.value)}
+          className="rounded border border-gray-300 px-2 py-1 text-sm text-gray-900"
+        />
+        <button
+          onClick={applyCustomRange}
+          disabled={!from || !to}
+          className="px-4 py-1 rounded-md text-sm font-semibold bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-50"
+        >
+          {t('dateRange.apply')}
+        </button>
+      </div>
+    </div>
+  )
+}
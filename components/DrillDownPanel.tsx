@@ -0,0 +1,274 @@
+'use client'
+
+import { useState, useEffect, useMemo } from 'react'
+import {
+  type ColumnDef,
+  type SortingState,
+  type VisibilityState,
+  flexRender,
+  getCoreRowModel,
+  getFilteredRowModel,
+  getPaginationRowModel,
+  getSortedRowModel,
+  useReactTable
+} from '@tanstack/react-table'
+import { ArrowDown, ArrowUp, ArrowUpDown, ExternalLink, X } from 'lucide-react'
+import { type DateRange, toBangkokDateTime } from '@/lib/dateRange'
+import type { MetricFilters } from '@/lib/metrics'
+import {
+  type DrillDownResult,
+  type DrillDownRow,
+  type DrillDownTarget,
+  MAX_DRILLDOWN_ROWS,
+  conversationUrl,
+  drillDownSource
+} from '@/lib/drilldown'
+import type { Page } from '@/lib/pages'
+import { getDrillDown } from '@/lib/metricsApi'
+import { useI18n } from '@/components/I18nProvider'
+
+const PAGE_SIZES = [25, 50, 100]
+
+// Lists the chats, intents or purchases behind a metric card for the selected window
+export default function DrillDownPanel({ target, title, range, filters, pages, periodLabel, onClose }: {
+  target: DrillDownTarget
+  title: string
+  range: DateRange
+  filters: MetricFilters
+  pages: Page[]
+  periodLabel: string
+  onClose: () => void
+}) {
+  const { t, formatCurrency, formatNumber } = useI18n()
+  const source = drillDownSource(target)
+  const [result, setResult] = useState<DrillDownResult | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [sorting, setSorting] = useState<SortingState>([{ id: 'created_at', desc: true }])
+  const [globalFilter, setGlobalFilter] = useState('')
+  const [columnVisibility, setColumnVisibility] = useState<VisibilityState>({})
+
+  useEffect(() => {
+    const controller = new AbortController()
+    setResult(null)
+    setError(null)
+    getDrillDown(target, range, filters, { signal: controller.signal })
+      .then(setResult)
+      .catch((error) => {
+        if (controller.signal.aborted) return
+        console.error('Error fetching drill-down rows:', error)
+        setError(error instanceof Error ? error.message : '')
+      })
+    return () => controller.abort()
+  }, [target, range, filters])
+
+  useEffect(() => {
+    const handleKey = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') onClose()
+    }
+    document.addEventListener('keydown', handleKey)
+    return () => document.removeEventListener('keydown', handleKey)
+  }, [onClose])
+
+  const pageNames = useMemo(() => new Map(pages.map((page) => [page.id, page.name])), [pages])
+
+  const columns = useMemo<ColumnDef<DrillDownRow>[]>(() => {
+    const all: (ColumnDef<DrillDownRow> & { sources?: string[] })[] = [
+      {
+        id: 'created_at',
+        accessorKey: 'created_at',
+        header: t('column.timeBangkok'),
+        cell: ({ getValue }) => toBangkokDateTime(new Date(getValue<string>()))
+      },
+      {
+        id: 'page',
+        accessorFn: (row) => pageNames.get(row.page_id) ?? row.page_id,
+        header: t('column.page')
+      },
+      { id: 'psid', accessorKey: 'psid', header: t('column.psid'), cell: ({ getValue }) => getValue<string | null>() ?? '–' },
+      { id: 'intent_type', accessorKey: 'intent_type', header: t('column.intent'), sources: ['intent'] },
+      {
+        id: 'value',
+        accessorKey: 'value',
+        header: t('column.value'),
+        sources: ['purchase'],
+        cell: ({ row }) => row.original.value === null ? '–' : formatCurrency(row.original.value, row.original.currency ?? undefined)
+      },
+      {
+        id: 'value_thb',
+        accessorKey: 'value_thb',
+        header: t('column.valueThb'),
+        sources: ['purchase'],
+        cell: ({ getValue }) => {
+          const value = getValue<number | null>()
+          return value === null ? <span className="text-red-600">{t('column.noRate')}</span> : formatCurrency(value)
+        }
+      },
+      {
+        id: 'conversation',
+        header: t('column.conversation'),
+        enableSorting: false,
+        enableGlobalFilter: false,
+        cell: ({ row }) => {
+          const url = conversationUrl(row.original.page_id, row.original.psid)
+          return url ? (
+            <a href={url} target="_blank" rel="noopener noreferrer" className="inline-flex items-center gap-1 text-blue-600 hover:underline">
+              {t('table.open')} <ExternalLink className="w-3 h-3" />
+            </a>
+          ) : '–'
+        }
+      }
+    ]
+    return all.filter((column) => !column.sources || (source && column.sources.includes(source)))
+  }, [pageNames, source, t, formatCurrency])
+
+  const table = useReactTable({
+    data: result?.rows ?? [],
+    columns,
+    state: { sorting, globalFilter, columnVisibility },
+    onSortingChange: setSorting,
+    onGlobalFilterChange: setGlobalFilter,
+    onColumnVisibilityChange: setColumnVisibility,
+    getCoreRowModel: getCoreRowModel(),
+    getSortedRowModel: getSortedRowModel(),
+    getFilteredRowModel: getFilteredRowModel(),
+    getPaginationRowModel: getPaginationRowModel(),
+    initialState: { pagination: { pageSize: PAGE_SIZES[0] } }
+  })
+
+  const filteredCount = table.getFilteredRowModel().rows.length
+  const { pageIndex, pageSize } = table.getState().pagination
+
+  return (
+    <div className="fixed inset-0 z-40 flex items-start justify-center overflow-y-auto bg-black/40 p-6" onMouseDown={onClose}>
+      <div
+        className="w-full max-w-5xl rounded-lg bg-white shadow-xl"
+        onMouseDown={(event) => event.stopPropagation()}
+        role="dialog"
+        aria-modal="true"
+      >
+        <div className="flex items-start justify-between border-b border-gray-200 px-6 py-4">
+          <div>
+            <h2 className="text-xl font-bold text-gray-900">{title}</h2>
+            <p className="text-sm text-gray-500">{periodLabel}</p>
+          </div>
+          <button onClick={onClose} className="p-1 rounded text-gray-500 hover:bg-gray-100" aria-label={t('table.close')}>
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-4 px-6 py-3 text-sm">
+          <input
+            value={globalFilter}
+            onChange={(event) => setGlobalFilter(event.target.value)}
+            placeholder={t('drilldown.filter')}
+            className="flex-1 min-w-48 rounded-md border border-gray-300 px-3 py-2"
+          />
+          <div className="flex flex-wrap gap-3 text-gray-700">
+            {table.getAllLeafColumns().map((column) => (
+              <label key={column.id} className="flex items-center gap-1">
+                <input type="checkbox" checked={column.getIsVisible()} onChange={column.getToggleVisibilityHandler()} />
+                {String(column.columnDef.header)}
+              </label>
+            ))}
+          </div>
+        </div>
+
+        {error !== null && <p className="px-6 py-4 text-sm text-red-700">{error || t('table.loadError')}</p>}
+        {error === null && !result && (
+          <div className="flex items-center justify-center h-48">
+            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+          </div>
+        )}
+
+        {result && (
+          <>
+            {result.truncated && (
+              <p className="mx-6 mb-2 rounded-md bg-amber-50 px-3 py-2 text-sm text-amber-800">
+                {t('drilldown.truncated', { count: formatNumber(MAX_DRILLDOWN_ROWS) })}
+              </p>
+            )}
+            <div className="overflow-x-auto px-6">
+              <table className="min-w-full text-sm">
+                <thead>
+                  {table.getHeaderGroups().map((headerGroup) => (
+                    <tr key={headerGroup.id} className="border-b border-gray-200 text-left text-xs uppercase tracking-wide text-gray-500">
+                      {headerGroup.headers.map((header) => {
+                        const sorted = header.column.getIsSorted()
+                        const SortIcon = sorted === 'asc' ? ArrowUp : sorted === 'desc' ? ArrowDown : ArrowUpDown
+                        return (
+                          <th key={header.id} className="py-2 pr-4">
+                            {header.column.getCanSort() ? (
+                              <button onClick={header.column.getToggleSortingHandler()} className="inline-flex items-center gap-1 uppercase">
+                                {flexRender(header.column.columnDef.header, header.getContext())}
+                                <SortIcon className="w-3 h-3" />
+                              </button>
+                            ) : (
+                              flexRender(header.column.columnDef.header, header.getContext())
+                            )}
+                          </th>
+                        )
+                      })}
+                    </tr>
+                  ))}
+                </thead>
+                <tbody>
+                  {table.getRowModel().rows.map((row) => (
+                    <tr key={row.original.id} className="border-b border-gray-100 hover:bg-gray-50">
+                      {row.getVisibleCells().map((cell) => (
+                        <td key={cell.id} className="py-2 pr-4 text-gray-800">
+                          {flexRender(cell.column.columnDef.cell, cell.getContext())}
+                        </td>
+                      ))}
+                    </tr>
+                  ))}
+                  {filteredCount === 0 && (
+                    <tr>
+                      <td colSpan={columns.length} className="py-8 text-center text-gray-500">{t('table.noRows')}</td>
+                    </tr>
+                  )}
+                </tbody>
+              </table>
+            </div>
+
+            <div className="flex flex-wrap items-center justify-between gap-3 px-6 py-4 text-sm text-gray-600">
+              <span>
+                {filteredCount === 0
+                  ? t('table.zeroRows')
+                  : t('table.range', {
+                    first: formatNumber(pageIndex * pageSize + 1),
+                    last: formatNumber(Math.min((pageIndex + 1) * pageSize, filteredCount)),
+                    total: formatNumber(filteredCount)
+                  })}
+              </span>
+              <div className="flex items-center gap-2">
+                <select
+                  value={pageSize}
+                  onChange={(event) => table.setPageSize(Number(event.target.value))}
+                  className="rounded-md border border-gray-300 px-2 py-1"
+                >
+                  {PAGE_SIZES.map((size) => (
+                    <option key={size} value={size}>{t('table.perPage', { size })}</option>
+                  ))}
+                </select>
+                <button
+                  onClick={() => table.previousPage()}
+                  disabled={!table.getCanPreviousPage()}
+                  className="px-3 py-1 rounded-md bg-gray-100 text-gray-700 hover:bg-gray-200 disabled:opacity-50"
+                >
+                  {t('table.previous')}
+                </button>
+                <button
+                  onClick={() => table.nextPage()}
+                  disabled={!table.getCanNextPage()}
+                  className="px-3 py-1 rounded-md bg-gray-100 text-gray-700 hover:bg-gray-200 disabled:opacity-50"
+                >
+                  {t('table.next')}
+                </button>
+              </div>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,116 @@
+'use client'
+
+import { useState, useRef, useEffect } from 'react'
+import { Download, FileSpreadsheet, FileText, Printer } from 'lucide-react'
+import {
+  type DashboardSnapshot,
+  buildConversionTable,
+  buildSummaryTable,
+  buildTrendTable,
+  downloadCsv,
+  downloadXlsx,
+  exportFileName
+} from '@/lib/export'
+import { useI18n } from '@/components/I18nProvider'
+
+export default function ExportMenu({ snapshot, reportHref, disabled = false }: {
+  snapshot: DashboardSnapshot
+  reportHref: string
+  disabled?: boolean
+}) {
+  const { t, timeFrameLabel } = useI18n()
+  const [open, setOpen] = useState(false)
+  const [exporting, setExporting] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const containerRef = useRef<HTMLDivElement>(null)
+
+  useEffect(() => {
+    if (!open) return
+    const handleClick = (event: MouseEvent) => {
+      if (!containerRef.current?.contains(event.target as Node)) setOpen(false)
+    }
+    document.addEventListener('mousedown', handleClick)
+    return () => document.removeEventListener('mousedown', handleClick)
+  }, [open])
+
+  // The menu closes either way; a failure stays on screen until the next export
+  const runExport = async (download: () => void | Promise<void>) => {
+    setExporting(true)
+    setError(null)
+    try {
+      await download()
+    } catch (error) {
+      console.error('Error exporting dashboard:', error)
+      setError(error instanceof Error ? error.message : String(error))
+    } finally {
+      setExporting(false)
+      setOpen(false)
+    }
+  }
+
+  const exportXlsx = () => runExport(() => {
+    return downloadXlsx(snapshot, exportFileName(snapshot, '', 'xlsx'), timeFrameLabel(snapshot.timeFrame, snapshot.range))
+  })
+
+  const csvItems = [
+    { label: t('export.summaryCsv'), build: buildSummaryTable, suffix: 'summary' },
+    { label: t('export.conversionsCsv'), build: buildConversionTable, suffix: 'conversions' },
+    { label: t('export.trendCsv'), build: buildTrendTable, suffix: 'trend' }
+  ]
+
+  return (
+    <div ref={containerRef} className="relative">
+      <button
+        onClick={() => setOpen(!open)}
+        disabled={disabled || exporting}
+        className="flex items-center gap-2 px-4 py-3 rounded-md bg-white shadow-sm font-semibold text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+      >
+        <Download className="w-4 h-4" />
+        {exporting ? t('export.exporting') : t('export.button')}
+      </button>
+
+      {error && !open && (
+        <div
+          role="alert"
+          className="absolute right-0 z-20 mt-2 w-64 rounded-lg border border-red-200 bg-red-50 px-3 py-2 text-xs text-red-700 shadow-sm"
+        >
+          {t('export.failed', { message: error })}
+          <button onClick={() => setError(null)} className="ml-2 font-semibold hover:underline">
+            {t('export.dismiss')}
+          </button>
+        </div>
+      )}
+
+      {open && (
+        <div className="absolute right-0 z-20 mt-2 w-56 rounded-lg bg-white shadow-xl border border-gray-200 py-2 text-sm">
+          {csvItems.map((item) => (
+            <button
+              key={item.suffix}
+              onClick={() => runExport(() => downloadCsv(item.build(snapshot), exportFileName(snapshot, item.suffix, 'csv')))}
+              className="flex w-full items-center gap-2 px-4 py-2 text-left text-gray-700 hover:bg-gray-50"
+            >
+              <FileText className="w-4 h-4" />
+              {item.label}
+            </button>
+          ))}
+          <button
+            onClick={exportXlsx}
+            className="flex w-full items-center gap-2 px-4 py-2 text-left text-gray-700 hover:bg-gray-50"
+          >
+            <FileSpreadsheet className="w-4 h-4" />
+            {t('export.xlsx')}
+          </button>
+          <a
+            href={reportHref}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="flex w-full items-center gap-2 px-4 py-2 text-gray-700 hover:bg-gray-50 border-t border-gray-100"
+          >
+            <Printer className="w-4 h-4" />
+            {t('export.report')}
+          </a>
+        </div>
+      )}
+    </div>
+  )
+}
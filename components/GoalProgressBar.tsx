@@ -0,0 +1,73 @@
+'use client'
+
+import type { GoalPeriod, GoalProgress, GoalStatus } from '@/lib/goals'
+import { isRatioMetric } from '@/lib/alerts'
+import { CURRENCY_METRICS } from '@/lib/metrics'
+import type { MessageKey } from '@/lib/messages'
+import { useI18n } from '@/components/I18nProvider'
+
+const STATUS_STYLES: Record<GoalStatus, { bar: string; text: string }> = {
+  achieved: { bar: 'bg-green-500', text: 'text-green-700' },
+  on_track: { bar: 'bg-blue-500', text: 'text-blue-700' },
+  behind: { bar: 'bg-amber-500', text: 'text-amber-700' },
+  missed: { bar: 'bg-red-500', text: 'text-red-700' },
+  no_data: { bar: 'bg-gray-300', text: 'text-gray-500' }
+}
+
+const PERIOD_MESSAGES: Record<GoalPeriod, MessageKey> = {
+  daily: 'goal.daily',
+  weekly: 'goal.weekly',
+  monthly: 'goal.monthly'
+}
+
+// Progress towards one goal: a bar filled to actual / target with a tick where an even pace
+// would be by now, the status ("on track", "behind by 40") and the end-of-period projection
+export default function GoalProgressBar({ progress }: { progress: GoalProgress }) {
+  const { t, formatCurrency, formatDate, formatNumber } = useI18n()
+  const { goal, actual, projected, expected, status, gap } = progress
+  const isRatio = isRatioMetric(goal.metric)
+
+  const format = (value: number) => {
+    if (isRatioMetric(goal.metric)) return `${value.toFixed(1)}%`
+    if (CURRENCY_METRICS.includes(goal.metric)) return formatCurrency(value)
+    return formatNumber(Math.round(value))
+  }
+
+  const fill = actual === null ? 0 : Math.min(100, (actual / goal.target) * 100)
+  const pace = Math.min(100, (expected / goal.target) * 100)
+  const style = STATUS_STYLES[status]
+  // Gaps on ratios are percentage points rather than a share of the ratio
+  const gapText = isRatio ? t('card.percentPoints', { value: gap.toFixed(1) }) : format(gap)
+  const statusText = {
+    achieved: t('goal.achieved'),
+    on_track: t('goal.onTrack'),
+    behind: t(goal.direction === 'at_least' ? 'goal.behindBy' : 'goal.overPaceBy', { gap: gapText }),
+    missed: t('goal.overBy', { gap: gapText }),
+    no_data: t('goal.noData')
+  }[status]
+  const lastDay = new Date(new Date(progress.periodTo).getTime() - 1)
+
+  return (
+    <div className="mt-3 text-xs">
+      <div className="flex items-center justify-between gap-2 mb-1 text-gray-600">
+        <span>
+          <span className="font-semibold text-gray-700 mr-1">{t(PERIOD_MESSAGES[goal.period])}:</span>
+          {t(goal.direction === 'at_least' ? 'goal.atLeast' : 'goal.atMost', {
+            actual: actual === null ? '–' : format(actual),
+            target: format(goal.target)
+          })}
+        </span>
+        <span className={`font-semibold ${style.text}`}>{statusText}</span>
+      </div>
+      <div className="relative h-2 rounded-full bg-gray-200">
+        <div className={`h-2 rounded-full ${style.bar}`} style={{ width: `${fill}%` }}></div>
+        {!isRatio && (
+          <div className="absolute -top-0.5 h-3 w-0.5 bg-gray-500" style={{ left: `${pace}%` }}></div>
+        )}
+      </div>
+      {!isRatio && projected !== null && status !== 'achieved' && (
+        <p className="mt-1 text-gray-500">{t('goal.projected', { value: format(projected), end: formatDate(lastDay) })}</p>
+      )}
+    </div>
+  )
+}
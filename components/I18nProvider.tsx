@@ -0,0 +1,114 @@
+'use client'
+
+import { createContext, useContext, useState, useEffect, useCallback, useMemo } from 'react'
+import {
+  type Locale,
+  type MessageParams,
+  type UserPreferences,
+  intlLocale,
+  translate,
+  translateLabel
+} from '@/lib/i18n'
+import type { MessageKey } from '@/lib/messages'
+import { type DateRange, type Granularity, type TimeFrame, addDays, previousRange, rangeDays } from '@/lib/dateRange'
+import { savePreferences } from '@/lib/metricsApi'
+import {
+  formatBucket,
+  formatCurrency,
+  formatDate,
+  formatDateTime,
+  formatDuration,
+  formatNumber,
+  formatTime
+} from '@/lib/format'
+
+export interface I18n {
+  preferences: UserPreferences
+  locale: Locale
+  // Applied straight away and saved for the user; resolves false when saving failed
+  setPreferences: (next: UserPreferences) => Promise<boolean>
+  error: string | null
+  t: (key: MessageKey, params?: MessageParams) => string
+  label: (text: string) => string
+  formatNumber: (num: number) => string
+  formatCurrency: (num: number, currency?: string) => string
+  formatDuration: (ms: number) => string
+  formatDate: (date: Date) => string
+  formatDateTime: (date: Date) => string
+  formatTime: (date: Date) => string
+  formatBucket: (time: number, granularity: Granularity, long?: boolean) => string
+  timeFrameLabel: (timeFrame: TimeFrame, range: DateRange) => string
+  previousPeriodLabel: (timeFrame: TimeFrame, range: DateRange) => string
+}
+
+const I18nContext = createContext<I18n | null>(null)
+
+export default function I18nProvider({ initialPreferences, children }: {
+  initialPreferences: UserPreferences
+  children: React.ReactNode
+}) {
+  const [preferences, setCurrent] = useState(initialPreferences)
+  const [error, setError] = useState<string | null>(null)
+  const { locale } = preferences
+
+  useEffect(() => {
+    document.documentElement.lang = locale
+  }, [locale])
+
+  const setPreferences = useCallback(async (next: UserPreferences) => {
+    const previous = preferences
+    setCurrent(next)
+    try {
+      await savePreferences(next)
+      setError(null)
+      return true
+    } catch (error) {
+      console.error('Error saving preferences:', error)
+      setCurrent(previous)
+      setError(translate(next.locale, 'preferences.saveError'))
+      return false
+    }
+  }, [preferences])
+
+  const value = useMemo<I18n>(() => {
+    const tag = intlLocale(preferences)
+    const t = (key: MessageKey, params?: MessageParams) => translate(locale, key, params)
+    // Custom windows are inclusive calendar days
+    const dayRange = (range: DateRange) => {
+      const first = formatDate(range.from, tag)
+      const last = formatDate(addDays(range.to, -1), tag)
+      return first === last ? first : `${first} – ${last}`
+    }
+    return {
+      preferences,
+      locale,
+      setPreferences,
+      error,
+      t,
+      label: (text) => translateLabel(locale, text),
+      formatNumber: (num) => formatNumber(num, tag),
+      formatCurrency: (num, currency) => formatCurrency(num, currency, tag),
+      formatDuration: (ms) => formatDuration(ms, tag),
+      formatDate: (date) => formatDate(date, tag),
+      formatDateTime: (date) => formatDateTime(date, tag),
+      formatTime: (date) => formatTime(date, tag),
+      formatBucket: (time, granularity, long) => formatBucket(time, granularity, long, tag),
+      timeFrameLabel: (timeFrame, range) => {
+        return timeFrame === 'custom' ? dayRange(range) : t(`timeFrame.${timeFrame}`)
+      },
+      previousPeriodLabel: (timeFrame, range) => {
+        if (timeFrame === 'today') return t('previous.today')
+        if (timeFrame === 'custom' && rangeDays(range) === 1) return dayRange(previousRange(range))
+        return t('previous.days', { days: rangeDays(range) })
+      }
+    }
+  }, [preferences, locale, setPreferences, error])
+
+  return <I18nContext.Provider value={value}>{children}</I18nContext.Provider>
+}
+
+export const useI18n = (): I18n => {
+  const i18n = useContext(I18nContext)
+  if (!i18n) throw new Error('useI18n must be used inside <I18nProvider>')
+  return i18n
+}
@@ -0,0 +1,36 @@
+'use client'
+
+import { Languages } from 'lucide-react'
+import { type CalendarEra, type Locale, CALENDAR_ERAS, LOCALES, LOCALE_LABELS } from '@/lib/i18n'
+import { useI18n } from '@/components/I18nProvider'
+
+export default function LanguageSwitcher() {
+  const { preferences, setPreferences, error, t } = useI18n()
+
+  return (
+    <div className="flex items-center justify-end gap-2 text-xs text-gray-600">
+      <Languages className="w-4 h-4 text-gray-500" />
+      <select
+        aria-label={t('preferences.language')}
+        value={preferences.locale}
+        onChange={(event) => setPreferences({ ...preferences, locale: event.target.value as Locale })}
+        className="rounded border border-gray-300 bg-white px-2 py-1"
+      >
+        {LOCALES.map((locale) => (
+          <option key={locale} value={locale}>{LOCALE_LABELS[locale]}</option>
+        ))}
+      </select>
+      <select
+        aria-label={t('preferences.calendar')}
+        value={preferences.calendar}
+        onChange={(event) => setPreferences({ ...preferences, calendar: event.target.value as CalendarEra })}
+        className="rounded border border-gray-300 bg-white px-2 py-1"
+      >
+        {CALENDAR_ERAS.map((calendar) => (
+          <option key={calendar} value={calendar}>{t(`preferences.${calendar}`)}</option>
+        ))}
+      </select>
+      {error && <span className="text-red-600">{error}</span>}
+    </div>
+  )
+}
@@ -0,0 +1,380 @@
+'use client'
+
+import { useState } from 'react'
+import { ArrowDown, ArrowUp, Plus, Trash2, X } from 'lucide-react'
+import {
+  type CardColor,
+  type CardSpec,
+  type DashboardLayout,
+  type LayoutRow,
+  type RatioFormat,
+  CARD_COLORS,
+  RATIO_FORMAT_LABELS,
+  cardTitle,
+  newCardId
+} from '@/lib/layout'
+import { type NumericMetricKey, FINANCE_METRICS, METRIC_LABELS } from '@/lib/metrics'
+import {
+  type IntentCatalog,
+  type IntentCategory,
+  INTENT_CATEGORY_LABELS,
+  catalogIntentTypes,
+  describeIntent,
+  intentTypesIn
+} from '@/lib/intents'
+import type { MessageKey } from '@/lib/messages'
+import { useI18n } from '@/components/I18nProvider'
+
+type Grouping = 'good' | 'bad' | 'none'
+
+const COLOR_LABELS: Record<CardColor, MessageKey> = {
+  blue: 'layout.blue',
+  green: 'layout.green',
+  emerald: 'layout.emerald',
+  red: 'layout.red'
+}
+
+const move = <T,>(items: T[], index: number, offset: number): T[] => {
+  const target = index + offset
+  if (target < 0 || target >= items.length) return items
+  const next = [...items]
+  ;[next[index], next[target]] = [next[target], next[index]]
+  return next
+}
+
+const inputClass = 'rounded-md border border-gray-300 px-2 py-1'
+
+// Edits a copy of the layout; nothing changes on the dashboard until Save
+export default function LayoutEditor({ layout, catalog, showFinance, onSave, onReset, onClose }: {
+  layout: DashboardLayout
+  catalog: IntentCatalog
+  showFinance: boolean
+  onSave: (layout: DashboardLayout) => Promise<boolean>
+  onReset: () => Promise<boolean>
+  onClose: () => void
+}) {
+  const { t, label } = useI18n()
+  const [draft, setDraft] = useState<DashboardLayout>(layout)
+  const [saving, setSaving] = useState(false)
+  const [newCard, setNewCard] = useState({
+    rowId: layout.rows[0]?.id ?? '',
+    kind: 'metric' as CardSpec['kind'],
+    metric: 'totalChat' as NumericMetricKey,
+    intentType: catalogIntentTypes(catalog)[0] ?? '',
+    title: '',
+    numerator: 'totalBuy' as NumericMetricKey,
+    denominator: 'totalChat' as NumericMetricKey,
+    format: 'percent' as RatioFormat,
+    color: 'blue' as CardColor,
+    invertDelta: false
+  })
+
+  const metricOptions = (Object.keys(METRIC_LABELS) as NumericMetricKey[])
+    .filter((metric) => showFinance || !FINANCE_METRICS.includes(metric))
+
+  const updateRow = (rowId: string, update: (row: LayoutRow) => LayoutRow) => {
+    setDraft({ ...draft, rows: draft.rows.map((row) => (row.id === rowId ? update(row) : row)) })
+  }
+
+  const addRow = () => {
+    const row = { id: newCardId(), title: t('layout.newRow'), cards: [] }
+    setDraft({ ...draft, rows: [...draft.rows, row] })
+    setNewCard({ ...newCard, rowId: row.id })
+  }
+
+  const addCard = () => {
+    const rowId = draft.rows.some((row) => row.id === newCard.rowId) ? newCard.rowId : draft.rows[0]?.id
+    if (!rowId) return
+    const common = { id: newCardId(), color: newCard.color, invertDelta: newCard.invertDelta || undefined }
+    const card: CardSpec = newCard.kind === 'metric'
+      ? { ...common, kind: 'metric', metric: newCard.metric, title: newCard.title.trim() || undefined }
+      : newCard.kind === 'intent'
+      ? { ...common, kind: 'intent', intentType: newCard.intentType, title: newCard.title.trim() || undefined }
+      : {
+          ...common,
+          kind: 'ratio',
+          title: newCard.title.trim() || `${label(METRIC_LABELS[newCard.numerator])} / ${label(METRIC_LABELS[newCard.denominator])}`,
+          numerator: newCard.numerator,
+          denominator: newCard.denominator,
+          format: newCard.format
+        }
+    updateRow(rowId, (row) => ({ ...row, cards: [...row.cards, card] }))
+    setNewCard({ ...newCard, title: '' })
+  }
+
+  // Without an override of their own, users see the registry categories
+  const currentGood = draft.goodIntents ?? intentTypesIn(catalog, 'good')
+  const currentBad = draft.badIntents ?? intentTypesIn(catalog, 'bad')
+
+  const grouping = (intentType: string): Grouping => {
+    if (currentGood.includes(intentType)) return 'good'
+    if (currentBad.includes(intentType)) return 'bad'
+    return 'none'
+  }
+
+  const setGrouping = (intentType: string, next: Grouping) => {
+    const goodIntents = currentGood.filter((item) => item !== intentType)
+    const badIntents = currentBad.filter((item) => item !== intentType)
+    if (next === 'good') goodIntents.push(intentType)
+    if (next === 'bad') badIntents.push(intentType)
+    setDraft({ ...draft, goodIntents, badIntents })
+  }
+
+  const finish = async (action: () => Promise<boolean>) => {
+    setSaving(true)
+    const succeeded = await action()
+    setSaving(false)
+    if (succeeded) onClose()
+  }
+
+  return (
+    <div className="bg-white rounded-lg shadow-lg p-6 mb-6 text-sm">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-xl font-bold text-gray-900">{t('layout.title')}</h2>
+        <button onClick={onClose} className="p-1 rounded text-gray-500 hover:bg-gray-100" aria-label={t('table.close')}>
+          <X className="w-5 h-5" />
+        </button>
+      </div>
+
+      <div className="space-y-4">
+        {draft.rows.map((row, rowIndex) => (
+          <div key={row.id} className="rounded-md border border-gray-200 p-3">
+            <div className="flex items-center gap-2 mb-2">
+              <input
+                value={row.title ?? ''}
+                onChange={(event) => updateRow(row.id, (current) => ({ ...current, title: event.target.value }))}
+                placeholder={t('layout.rowPlaceholder', { number: rowIndex + 1 })}
+                className={`${inputClass} flex-1 font-semibold`}
+              />
+              <button onClick={() => setDraft({ ...draft, rows: move(draft.rows, rowIndex, -1) })} className="p-1 rounded hover:bg-gray-100" title={t('layout.moveRowUp')}>
+                <ArrowUp className="w-4 h-4" />
+              </button>
+              <button onClick={() => setDraft({ ...draft, rows: move(draft.rows, rowIndex, 1) })} className="p-1 rounded hover:bg-gray-100" title={t('layout.moveRowDown')}>
+                <ArrowDown className="w-4 h-4" />
+              </button>
+              <button
+                onClick={() => setDraft({ ...draft, rows: draft.rows.filter((item) => item.id !== row.id) })}
+                className="p-1 rounded text-gray-500 hover:bg-red-50 hover:text-red-700"
+                title={t('layout.removeRow')}
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </div>
+            {row.cards.length === 0 && !row.autoIntents && <p className="text-gray-400">{t('layout.noCards')}</p>}
+            <ul className="space-y-1">
+              {row.cards.map((card, cardIndex) => (
+                <li key={card.id} className="flex items-center gap-2 rounded bg-gray-50 px-2 py-1">
+                  <span className="flex-1 text-gray-800">
+                    {label(cardTitle(card, catalog))}
+                    {card.kind === 'ratio' && (
+                      <span className="ml-2 text-xs text-gray-500">
+                        {label(METRIC_LABELS[card.numerator])} ÷ {label(METRIC_LABELS[card.denominator])} ({label(RATIO_FORMAT_LABELS[card.format])})
+                      </span>
+                    )}
+                  </span>
+                  <button
+                    onClick={() => updateRow(row.id, (current) => ({ ...current, cards: move(current.cards, cardIndex, -1) }))}
+                    className="p-1 rounded hover:bg-gray-200"
+                    title={t('layout.moveLeft')}
+                  >
+                    <ArrowUp className="w-4 h-4" />
+                  </button>
+                  <button
+                    onClick={() => updateRow(row.id, (current) => ({ ...current, cards: move(current.cards, cardIndex, 1) }))}
+                    className="p-1 rounded hover:bg-gray-200"
+                    title={t('layout.moveRight')}
+                  >
+                    <ArrowDown className="w-4 h-4" />
+                  </button>
+                  <button
+                    onClick={() => updateRow(row.id, (current) => ({ ...current, cards: current.cards.filter((item) => item.id !== card.id) }))}
+                    className="p-1 rounded text-gray-500 hover:bg-red-50 hover:text-red-700"
+                    title={t('layout.removeCard')}
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </li>
+              ))}
+            </ul>
+            <label className="mt-2 flex items-center gap-2 text-gray-600">
+              {t('layout.alsoShow')}
+              <select
+                value={row.autoIntents ?? ''}
+                onChange={(event) => updateRow(row.id, (current) => ({
+                  ...current,
+                  autoIntents: (event.target.value || undefined) as IntentCategory | undefined
+                }))}
+                className={inputClass}
+              >
+                <option value="">{t('layout.noOtherIntents')}</option>
+                {(Object.keys(INTENT_CATEGORY_LABELS) as IntentCategory[]).map((category) => (
+                  <option key={category} value={category}>{t('layout.otherIntents', { category: label(INTENT_CATEGORY_LABELS[category]).toLowerCase() })}</option>
+                ))}
+              </select>
+            </label>
+          </div>
+        ))}
+        <button onClick={addRow} className="flex items-center gap-1 px-3 py-1 rounded-md bg-gray-100 text-gray-700 hover:bg-gray-200">
+          <Plus className="w-4 h-4" />
+          {t('layout.addRow')}
+        </button>
+      </div>
+
+      <div className="mt-6 rounded-md border border-gray-200 p-3">
+        <h3 className="font-semibold text-gray-900 mb-2">{t('layout.addCard')}</h3>
+        <div className="flex flex-wrap items-center gap-2">
+          <select value={newCard.rowId} onChange={(event) => setNewCard({ ...newCard, rowId: event.target.value })} className={inputClass}>
+            {draft.rows.map((row, index) => (
+              <option key={row.id} value={row.id}>{row.title ? label(row.title) : t('layout.row', { number: index + 1 })}</option>
+            ))}
+          </select>
+          <select
+            value={newCard.kind}
+            onChange={(event) => setNewCard({ ...newCard, kind: event.target.value as CardSpec['kind'] })}
+            className={inputClass}
+          >
+            <option value="metric">{t('layout.metric')}</option>
+            <option value="intent">{t('layout.intentCount')}</option>
+            <option value="ratio">{t('layout.ratio')}</option>
+          </select>
+          {newCard.kind === 'intent' ? (
+            <select
+              value={newCard.intentType}
+              onChange={(event) => setNewCard({ ...newCard, intentType: event.target.value })}
+              className={inputClass}
+            >
+              {catalogIntentTypes(catalog).map((intentType) => (
+                <option key={intentType} value={intentType}>{label(describeIntent(catalog, intentType).label)}</option>
+              ))}
+            </select>
+          ) : newCard.kind === 'metric' ? (
+            <select
+              value={newCard.metric}
+              onChange={(event) => setNewCard({ ...newCard, metric: event.target.value as NumericMetricKey })}
+              className={inputClass}
+            >
+              {metricOptions.map((metric) => <option key={metric} value={metric}>{label(METRIC_LABELS[metric])}</option>)}
+            </select>
+          ) : (
+            <>
+              <select
+                value={newCard.numerator}
+                onChange={(event) => setNewCard({ ...newCard, numerator: event.target.value as NumericMetricKey })}
+                className={inputClass}
+              >
+                {metricOptions.map((metric) => <option key={metric} value={metric}>{label(METRIC_LABELS[metric])}</option>)}
+              </select>
+              <span className="text-gray-500">÷</span>
+              <select
+                value={newCard.denominator}
+                onChange={(event) => setNewCard({ ...newCard, denominator: event.target.value as NumericMetricKey })}
+                className={inputClass}
+              >
+                {metricOptions.map((metric) => <option key={metric} value={metric}>{label(METRIC_LABELS[metric])}</option>)}
+              </select>
+              <select
+                value={newCard.format}
+                onChange={(event) => setNewCard({ ...newCard, format: event.target.value as RatioFormat })}
+                className={inputClass}
+              >
+                {(Object.keys(RATIO_FORMAT_LABELS) as RatioFormat[]).map((format) => (
+                  <option key={format} value={format}>{label(RATIO_FORMAT_LABELS[format])}</option>
+                ))}
+              </select>
+            </>
+          )}
+          <input
+            value={newCard.title}
+            onChange={(event) => setNewCard({ ...newCard, title: event.target.value })}
+            placeholder={t('layout.cardTitle')}
+            className={inputClass}
+          />
+          <select
+            value={newCard.color}
+            onChange={(event) => setNewCard({ ...newCard, color: event.target.value as CardColor })}
+            className={inputClass}
+          >
+            {CARD_COLORS.map((color) => <option key={color} value={color}>{t(COLOR_LABELS[color])}</option>)}
+          </select>
+          <label className="flex items-center gap-1 text-gray-700">
+            <input
+              type="checkbox"
+              checked={newCard.invertDelta}
+              onChange={(event) => setNewCard({ ...newCard, invertDelta: event.target.checked })}
+            />
+            {t('layout.invertDelta')}
+          </label>
+          <button
+            onClick={addCard}
+            disabled={draft.rows.length === 0}
+            className="flex items-center gap-1 px-3 py-1 rounded-md bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-50"
+          >
+            <Plus className="w-4 h-4" />
+            {t('layout.add')}
+          </button>
+        </div>
+      </div>
+
+      <div className="mt-6 rounded-md border border-gray-200 p-3">
+        <div className="flex items-center justify-between mb-2">
+          <h3 className="font-semibold text-gray-900">{t('layout.totals')}</h3>
+          {(draft.goodIntents || draft.badIntents) && (
+            <button
+              onClick={() => setDraft({ ...draft, goodIntents: undefined, badIntents: undefined })}
+              className="text-xs text-blue-600 hover:underline"
+            >
+              {t('layout.useRegistry')}
+            </button>
+          )}
+        </div>
+        <table className="text-sm">
+          <thead>
+            <tr className="text-left text-xs uppercase tracking-wide text-gray-500">
+              <th className="pr-6 py-1">{t('layout.intent')}</th>
+              <th className="px-3 py-1">{t('layout.good')}</th>
+              <th className="px-3 py-1">{t('layout.bad')}</th>
+              <th className="px-3 py-1">{t('layout.neither')}</th>
+            </tr>
+          </thead>
+          <tbody>
+            {catalogIntentTypes(catalog).map((intentType) => (
+              <tr key={intentType}>
+                <td className="pr-6 py-1 text-gray-800">{label(describeIntent(catalog, intentType).label)}</td>
+                {(['good', 'bad', 'none'] as Grouping[]).map((option) => (
+                  <td key={option} className="px-3 py-1 text-center">
+                    <input
+                      type="radio"
+                      name={`grouping-${intentType}`}
+                      checked={grouping(intentType) === option}
+                      onChange={() => setGrouping(intentType, option)}
+                    />
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="mt-6 flex flex-wrap justify-end gap-2">
+        <button
+          onClick={() => finish(onReset)}
+          disabled={saving}
+          className="px-4 py-2 rounded-md bg-gray-100 text-gray-700 hover:bg-gray-200 disabled:opacity-50"
+        >
+          {t('layout.reset')}
+        </button>
+        <button onClick={onClose} className="px-4 py-2 rounded-md bg-gray-100 text-gray-700 hover:bg-gray-200">
+          {t('layout.cancel')}
+        </button>
+        <button
+          onClick={() => finish(() => onSave(draft))}
+          disabled={saving}
+          className="px-4 py-2 rounded-md bg-blue-600 text-white font-semibold hover:bg-blue-700 disabled:opacity-50"
+        >
+          {saving ? t('layout.saving') : t('layout.save')}
+        </button>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,118 @@
+'use client'
+
+import { Minus, TrendingDown, TrendingUp } from 'lucide-react'
+import type { DateRange, TimeFrame } from '@/lib/dateRange'
+import { percentChange } from '@/lib/metrics'
+import type { CardColor } from '@/lib/layout'
+import type { GoalProgress } from '@/lib/goals'
+import { useI18n } from '@/components/I18nProvider'
+import GoalProgressBar from '@/components/GoalProgressBar'
+
+const COLOR_CLASSES: Record<CardColor, { card: string; dot: string }> = {
+  blue: { card: 'border-blue-500 bg-blue-50', dot: 'bg-blue-500' },
+  green: { card: 'border-green-500 bg-green-50', dot: 'bg-green-500' },
+  emerald: { card: 'border-emerald-500 bg-emerald-50', dot: 'bg-emerald-500' },
+  red: { card: 'border-red-500 bg-red-50', dot: 'bg-red-500' }
+}
+
+// One KPI for the selected window with its change against the previous equivalent period.
+// Used by the dashboard, the read-only share page and embedded widgets.
+export default function MetricCard({
+  title,
+  value,
+  previousValue,
+  invertDelta = false,
+  isPercentage = false,
+  isCurrency = false,
+  color = 'blue',
+  accent,
+  loading = false,
+  timeFrame,
+  range,
+  goal,
+  onClick,
+  children
+}: {
+  title: string
+  value: number
+  // Value for the previous equivalent period; omit to hide the comparison
+  previousValue?: number
+  // Set for metrics where an increase is bad (spam, blocking, ban)
+  invertDelta?: boolean
+  isPercentage?: boolean
+  isCurrency?: boolean
+  color?: CardColor
+  // Registry colour of an intent card, used for the legend dot
+  accent?: string
+  loading?: boolean
+  timeFrame: TimeFrame
+  range: DateRange
+  goal?: GoalProgress
+  // Opens the rows behind the card
+  onClick?: () => void
+  children?: React.ReactNode
+}) {
+  const { t, formatCurrency, formatNumber, timeFrameLabel, previousPeriodLabel } = useI18n()
+
+  const formatValue = (amount: number) => {
+    return isCurrency ? formatCurrency(amount) :
+      isPercentage ? `${amount}%` :
+      formatNumber(amount)
+  }
+
+  const renderDelta = (previous: number) => {
+    const difference = value - previous
+    // Ratios compare in percentage points, counts and money in relative change
+    const change = isPercentage ? difference : percentChange(value, previous)
+    const isGood = invertDelta ? difference < 0 : difference > 0
+    const Icon = difference > 0 ? TrendingUp : difference < 0 ? TrendingDown : Minus
+
+    return (
+      <div className="flex items-center gap-2 text-xs">
+        <span className={`inline-flex items-center gap-1 font-semibold ${
+          difference === 0 ? 'text-gray-500' : isGood ? 'text-green-600' : 'text-red-600'
+        }`}>
+          <Icon className="w-4 h-4" />
+          {change === null ? t('card.new') :
+           isPercentage ? t('card.percentPoints', { value: `${change > 0 ? '+' : ''}${change}` }) :
+           `${change > 0 ? '+' : ''}${change.toFixed(1)}%`}
+        </span>
+        <span className="text-gray-500">
+          {t('card.versus', { value: formatValue(previous), period: previousPeriodLabel(timeFrame, range) })}
+        </span>
+      </div>
+    )
+  }
+
+  return (
+    <div
+      className={`bg-white rounded-lg shadow-lg p-6 border-l-4 ${COLOR_CLASSES[color].card} hover:shadow-xl transition-shadow duration-200 ${
+        onClick ? 'cursor-pointer' : ''
+      }`}
+      onClick={onClick}
+      role={onClick ? 'button' : undefined}
+      title={onClick ? t('card.showRows', { title }) : undefined}
+    >
+      <h3 className="text-sm font-semibold text-gray-700 mb-3 uppercase tracking-wide">{title}</h3>
+      <p className="text-3xl font-bold text-gray-900 mb-1">
+        {loading ? (
+          <span className="animate-pulse">...</span>
+        ) : (
+          formatValue(value)
+        )}
+      </p>
+      {!loading && previousValue !== undefined && renderDelta(previousValue)}
+      {!loading && (
+        <div className="flex items-center text-xs text-gray-500 mt-2">
+          <span
+            style={accent ? { backgroundColor: accent } : undefined}
+            className={`inline-block w-2 h-2 rounded-full mr-2 ${accent ? '' : COLOR_CLASSES[color].dot}`}
+          ></span>
+          {t('card.periodData', { period: timeFrameLabel(timeFrame, range) })}
+        </div>
+      )}
+      {!loading && goal && <GoalProgressBar progress={goal} />}
+      {!loading && children}
+    </div>
+  )
+}
@@ -0,0 +1,93 @@
+'use client'
+
+import { useMemo } from 'react'
+import { ComposedChart, Bar, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts'
+import type { IntentDefinition } from '@/lib/intents'
+import { type ModerationReport, badRate } from '@/lib/moderation'
+import { useI18n } from '@/components/I18nProvider'
+
+const RATE_KEY = 'badRate'
+const RATE_COLOR = '#111827'
+
+// Bad-customer events per bucket, stacked by intent type, with their share of Total Chat
+// as a line on the right-hand percent axis
+export default function ModerationChart({ report, definitions, loading }: {
+  report: ModerationReport | null
+  // One per report.intentTypes, in the same order
+  definitions: IntentDefinition[]
+  loading: boolean
+}) {
+  const { t, label, formatBucket, formatNumber } = useI18n()
+  const rateName = t('moderation.badRate')
+
+  const rows = useMemo(() => (report?.series ?? []).map((point) => ({
+    ...point.counts,
+    time: point.time,
+    [RATE_KEY]: point.chats > 0 ? badRate(point.bad, point.chats) : null
+  })), [report])
+  const granularity = report?.granularity ?? 'day'
+
+  return (
+    <div className="h-96">
+      {loading || !report ? (
+        <div className="flex items-center justify-center h-full">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+        </div>
+      ) : (
+        <ResponsiveContainer width="100%" height="100%">
+          <ComposedChart data={rows} margin={{ top: 10, right: 20, bottom: 10, left: 0 }}>
+            <CartesianGrid strokeDasharray="3 3" stroke="#E5E7EB" />
+            <XAxis
+              dataKey="time"
+              tickFormatter={(time: number) => formatBucket(time, granularity)}
+              minTickGap={20}
+              tick={{ fontSize: 12 }}
+            />
+            <YAxis yAxisId="count" allowDecimals={false} tickFormatter={(value: number) => formatNumber(value)} tick={{ fontSize: 12 }} />
+            <YAxis
+              yAxisId="rate"
+              orientation="right"
+              tickFormatter={(value: number) => `${value}%`}
+              tick={{ fontSize: 12 }}
+            />
+            <Tooltip
+              contentStyle={{
+                backgroundColor: 'rgba(255, 255, 255, 0.95)',
+                border: '1px solid #ccc',
+                borderRadius: '4px',
+                boxShadow: '0 4px 6px -1px rgba(0, 0, 0, 0.1)'
+              }}
+              labelFormatter={(time) => formatBucket(Number(time), granularity, true)}
+              formatter={(value, name) => {
+                if (name === rateName) return [value === null ? '–' : `${Number(value).toFixed(2)}%`, name]
+                return [formatNumber(Number(value)), name]
+              }}
+            />
+            <Legend wrapperStyle={{ paddingTop: '20px' }} />
+            {definitions.map((definition) => (
+              <Bar
+                key={definition.intent_type}
+                yAxisId="count"
+                stackId="bad"
+                dataKey={definition.intent_type}
+                name={label(definition.label)}
+                fill={definition.color}
+              />
+            ))}
+            <Line
+              yAxisId="rate"
+              type="monotone"
+              dataKey={RATE_KEY}
+              name={rateName}
+              stroke={RATE_COLOR}
+              strokeWidth={2}
+              dot={false}
+              connectNulls
+              activeDot={{ r: 5 }}
+            />
+          </ComposedChart>
+        </ResponsiveContainer>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,72 @@
+'use client'
+
+import type { PageMetrics } from '@/lib/pages'
+import { type MetricData, returnOnAdSpend } from '@/lib/metrics'
+import { type I18n, useI18n } from '@/components/I18nProvider'
+
+const formatRate = (numerator: number, denominator: number) => {
+  return denominator > 0 ? `${((numerator / denominator) * 100).toFixed(1)}%` : '–'
+}
+
+const COLUMNS: { label: string; render: (metrics: MetricData, i18n: I18n) => string; finance?: boolean }[] = [
+  { label: 'Chat', render: (m, i18n) => i18n.formatNumber(m.totalChat) },
+  { label: 'Lead', render: (m, i18n) => i18n.formatNumber(m.totalLead) },
+  { label: 'Buy', render: (m, i18n) => i18n.formatNumber(m.totalBuy) },
+  { label: 'Buy Value', render: (m, i18n) => i18n.formatCurrency(m.totalBuyValue), finance: true },
+  { label: 'Ad Spend', render: (m, i18n) => i18n.formatCurrency(m.totalAdSpend), finance: true },
+  { label: 'ROAS', render: (m) => (m.totalAdSpend > 0 ? returnOnAdSpend(m).toFixed(2) : '–'), finance: true },
+  { label: 'Chat → Lead', render: (m) => formatRate(m.totalLead, m.totalChat) },
+  { label: 'Chat → Buy', render: (m) => formatRate(m.totalBuy, m.totalChat) },
+  { label: 'Good', render: (m, i18n) => i18n.formatNumber(m.totalGoodCustomer) },
+  { label: 'Bad', render: (m, i18n) => i18n.formatNumber(m.totalBadCustomer) }
+]
+
+export default function PageBreakdownTable({ rows, loading, showFinance = true }: {
+  rows: PageMetrics[]
+  loading: boolean
+  showFinance?: boolean
+}) {
+  const i18n = useI18n()
+  const columns = COLUMNS.filter((column) => showFinance || !column.finance)
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-32">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+      </div>
+    )
+  }
+
+  // Busiest pages first
+  const sorted = [...rows].sort((a, b) => b.metrics.totalChat - a.metrics.totalChat)
+
+  return (
+    <div className="overflow-x-auto">
+      <table className="min-w-full text-sm">
+        <thead>
+          <tr className="border-b border-gray-200 text-left text-xs uppercase tracking-wide text-gray-500">
+            <th className="py-2 pr-4">{i18n.t('breakdown.page')}</th>
+            {columns.map((column) => (
+              <th key={column.label} className="py-2 px-3 text-right">{i18n.label(column.label)}</th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {sorted.map(({ page, metrics }) => (
+            <tr key={page.id} className="border-b border-gray-100 hover:bg-gray-50">
+              <td className="py-2 pr-4 font-semibold text-gray-800">
+                {page.name}
+                {page.ad_account_name && (
+                  <span className="block text-xs font-normal text-gray-400">{page.ad_account_name}</span>
+                )}
+              </td>
+              {columns.map((column) => (
+                <td key={column.label} className="py-2 px-3 text-right text-gray-900">{column.render(metrics, i18n)}</td>
+              ))}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  )
+}
@@ -0,0 +1,103 @@
+'use client'
+
+import { useState, useRef, useEffect } from 'react'
+import { ChevronDown } from 'lucide-react'
+import { type Page, groupByAdAccount } from '@/lib/pages'
+import { useI18n } from '@/components/I18nProvider'
+
+export default function PageSelector({ pages, selectedIds, onChange }: {
+  pages: Page[]
+  selectedIds: string[]
+  onChange: (pageIds: string[]) => void
+}) {
+  const { t } = useI18n()
+  const [open, setOpen] = useState(false)
+  const containerRef = useRef<HTMLDivElement>(null)
+
+  // Close when clicking anywhere outside the dropdown
+  useEffect(() => {
+    if (!open) return
+    const handleClick = (event: MouseEvent) => {
+      if (!containerRef.current?.contains(event.target as Node)) setOpen(false)
+    }
+    document.addEventListener('mousedown', handleClick)
+    return () => document.removeEventListener('mousedown', handleClick)
+  }, [open])
+
+  const accounts = groupByAdAccount(pages)
+  const isAll = selectedIds.length === 0
+
+  const togglePage = (pageId: string) => {
+    const next = selectedIds.includes(pageId)
+      ? selectedIds.filter((id) => id !== pageId)
+      : [...selectedIds, pageId]
+    // Selecting every page is the same as "all"
+    onChange(next.length === pages.length ? [] : next)
+  }
+
+  const toggleAccount = (pageIds: string[]) => {
+    const allSelected = pageIds.every((id) => selectedIds.includes(id))
+    const next = allSelected
+      ? selectedIds.filter((id) => !pageIds.includes(id))
+      : Array.from(new Set([...selectedIds, ...pageIds]))
+    onChange(next.length === pages.length ? [] : next)
+  }
+
+  const summary = isAll
+    ? t('pages.all')
+    : selectedIds.length === 1
+      ? pages.find((page) => page.id === selectedIds[0])?.name ?? selectedIds[0]
+      : t('pages.count', { count: selectedIds.length })
+
+  return (
+    <div ref={containerRef} className="relative">
+      <button
+        onClick={() => setOpen(!open)}
+        className="flex items-center gap-2 px-4 py-3 rounded-md bg-white shadow-sm font-semibold text-gray-700 hover:bg-gray-50"
+      >
+        {summary}
+        <ChevronDown className="w-4 h-4" />
+      </button>
+
+      {open && (
+        <div className="absolute right-0 z-20 mt-2 w-72 max-h-96 overflow-y-auto rounded-lg bg-white shadow-xl border border-gray-200 p-3 space-y-3">
+          <label className="flex items-center gap-2 text-sm font-semibold text-gray-800">
+            <input type="checkbox" checked={isAll} onChange={() => onChange([])} />
+            {t('pages.all')}
+          </label>
+
+          {accounts.length > 0 && (
+            <div className="border-t border-gray-100 pt-3 space-y-1">
+              <p className="text-xs font-semibold uppercase tracking-wide text-gray-500">{t('pages.adAccounts')}</p>
+              {accounts.map((account) => (
+                <label key={account.id} className="flex items-center gap-2 text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={!isAll && account.pageIds.every((id) => selectedIds.includes(id))}
+                    onChange={() => toggleAccount(account.pageIds)}
+                  />
+                  {account.name}
+                  <span className="text-xs text-gray-400">({account.pageIds.length})</span>
+                </label>
+              ))}
+            </div>
+          )}
+
+          <div className="border-t border-gray-100 pt-3 space-y-1">
+            <p className="text-xs font-semibold uppercase tracking-wide text-gray-500">{t('pages.pages')}</p>
+            {pages.map((page) => (
+              <label key={page.id} className="flex items-center gap-2 text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={!isAll && selectedIds.includes(page.id)}
+                  onChange={() => togglePage(page.id)}
+                />
+                {page.name}
+              </label>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,61 @@
+'use client'
+
+import { AlertTriangle, History, RotateCw } from 'lucide-react'
+import type { SectionData } from '@/hooks/useSectionData'
+import { useI18n } from '@/components/I18nProvider'
+
+// Wraps one dashboard section: an error with a retry button instead of the content when
+// there is nothing to show, a "stale since" note over cached or outdated data, and an
+// explicit "no data" state when the window is genuinely empty.
+export default function SectionState({ section, isEmpty = false, children }: {
+  section: SectionData<unknown>
+  // Loaded fine but there is nothing to draw; leave unset where zeros are meaningful
+  isEmpty?: boolean
+  children: React.ReactNode
+}) {
+  const { t, formatDateTime } = useI18n()
+  const { error, hasData, loading, staleSince } = section
+
+  const retryButton = (
+    <button
+      onClick={() => section.refresh()}
+      className="inline-flex items-center gap-1 rounded px-2 py-0.5 font-semibold hover:bg-white/60"
+    >
+      <RotateCw className="w-3.5 h-3.5" />
+      {t('section.retry')}
+    </button>
+  )
+
+  if (error && !hasData) {
+    return (
+      <div className="flex flex-col items-center justify-center gap-3 rounded-lg border border-red-200 bg-red-50 px-4 py-10 text-sm text-red-700">
+        <AlertTriangle className="w-6 h-6" />
+        <p>
+          {t('section.loadError', { message: error.message })}
+          <span className="ml-2 text-xs text-red-500">({error.code})</span>
+        </p>
+        {retryButton}
+      </div>
+    )
+  }
+
+  return (
+    <>
+      {staleSince && (
+        <div className="mb-3 flex flex-wrap items-center gap-2 rounded-md border border-amber-200 bg-amber-50 px-3 py-1.5 text-xs text-amber-800">
+          <History className="w-3.5 h-3.5" />
+          <span>{t('section.staleSince', { time: formatDateTime(staleSince) })}</span>
+          {error && <span>· {t('section.refreshFailed', { message: error.message })}</span>}
+          {error && retryButton}
+        </div>
+      )}
+      {isEmpty && !loading ? (
+        <div className="flex items-center justify-center rounded-lg border border-dashed border-gray-200 px-4 py-10 text-sm text-gray-500">
+          {t('section.noData')}
+        </div>
+      ) : (
+        children
+      )}
+    </>
+  )
+}
@@ -0,0 +1,182 @@
+'use client'
+
+import { useState, useEffect, useMemo } from 'react'
+import type { DateRange, PresetTimeFrame } from '@/lib/dateRange'
+import { type CardSpec, type LayoutRow, DEFAULT_LAYOUT, cardFormat, cardTitle, cardValue, isFinanceCard, rowCards } from '@/lib/layout'
+import { describeIntent } from '@/lib/intents'
+import { type ChartWidget, type SharedDashboard, CHART_WIDGETS } from '@/lib/shareLinks'
+import { getSharedDashboard } from '@/lib/metricsApi'
+import { useI18n } from '@/components/I18nProvider'
+import MetricCard from '@/components/MetricCard'
+import TrendChart from '@/components/TrendChart'
+import ConversionFunnel from '@/components/ConversionFunnel'
+
+// Shared views have no realtime channel (there is no session to subscribe with), so they poll
+const REFRESH_MS = 5 * 60 * 1000
+
+const GRID_COLUMNS: Record<number, string> = {
+  1: '',
+  2: 'md:grid-cols-2',
+  3: 'md:grid-cols-3',
+  4: 'md:grid-cols-2 lg:grid-cols-4'
+}
+
+// The read-only dashboard behind a share link, or a single card or chart of it when
+// `widget` is set. Everything is scoped by the link on the server; the viewer can only
+// switch between the time frames it allows.
+export default function SharedDashboardView({ token, widget, initialTimeFrame }: {
+  token: string
+  widget?: string
+  initialTimeFrame: string | null
+}) {
+  const { t, label, formatDate, timeFrameLabel } = useI18n()
+  const [timeFrame, setTimeFrame] = useState(initialTimeFrame)
+  const [data, setData] = useState<SharedDashboard | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    const controller = new AbortController()
+    const load = async () => {
+      try {
+        setData(await getSharedDashboard(token, timeFrame ?? undefined, { signal: controller.signal }))
+        setError(null)
+      } catch (error) {
+        if (controller.signal.aborted) return
+        console.error('Error fetching shared dashboard:', error)
+        setError(error instanceof Error ? error.message : String(error))
+      } finally {
+        if (!controller.signal.aborted) setLoading(false)
+      }
+    }
+    setLoading(true)
+    load()
+    const interval = setInterval(load, REFRESH_MS)
+    return () => {
+      controller.abort()
+      clearInterval(interval)
+    }
+  }, [token, timeFrame])
+
+  const range = useMemo<DateRange | null>(
+    () => data && { from: new Date(data.from), to: new Date(data.to) },
+    [data]
+  )
+
+  if (!data || !range) {
+    return (
+      <p className="p-6 text-sm text-gray-500">
+        {error ? t('share.loadError', { message: error }) : <span className="animate-pulse">...</span>}
+      </p>
+    )
+  }
+
+  // Shared views always use the default layout; saved layouts belong to their users
+  const cardsFor = (row: LayoutRow) => {
+    return rowCards(row, DEFAULT_LAYOUT, data.catalog).filter((card) => data.includeFinance || !isFinanceCard(card))
+  }
+
+  const renderCard = (card: CardSpec) => (
+    <MetricCard
+      key={card.id}
+      title={label(cardTitle(card, data.catalog))}
+      value={cardValue(card, data.metrics)}
+      previousValue={cardValue(card, data.previous)}
+      invertDelta={card.invertDelta}
+      isPercentage={cardFormat(card) === 'percent'}
+      isCurrency={cardFormat(card) === 'currency'}
+      color={card.color}
+      accent={card.kind === 'intent' ? describeIntent(data.catalog, card.intentType).color : undefined}
+      loading={loading}
+      timeFrame={data.timeFrame}
+      range={range}
+    />
+  )
+
+  const trendChart = (
+    <TrendChart
+      data={data.trends}
+      loading={loading}
+      series={data.trends.series.filter((series) => data.includeFinance || series.axis !== 'value')}
+      range={range}
+    />
+  )
+
+  const funnel = <ConversionFunnel metrics={data.metrics} registry={data.catalog.registry} loading={loading} />
+
+  const timeFrameSwitcher = data.timeFrames.length > 1 && (
+    <div className="inline-flex rounded-md border border-gray-200 bg-white p-0.5 text-sm">
+      {data.timeFrames.map((item: PresetTimeFrame) => (
+        <button
+          key={item}
+          onClick={() => setTimeFrame(item)}
+          className={`px-3 py-1 rounded ${
+            item === data.timeFrame ? 'bg-blue-600 text-white font-semibold' : 'text-gray-600 hover:bg-gray-100'
+          }`}
+        >
+          {timeFrameLabel(item, range)}
+        </button>
+      ))}
+    </div>
+  )
+
+  if (widget) {
+    const card = DEFAULT_LAYOUT.rows.flatMap(cardsFor).find((item) => item.id === widget)
+    if (!card && !CHART_WIDGETS.includes(widget as ChartWidget)) {
+      return <p className="p-4 text-sm text-gray-500">{t('share.unknownWidget', { widget })}</p>
+    }
+    return (
+      <div className="p-2 space-y-2">
+        {timeFrameSwitcher}
+        {card ? renderCard(card) : widget === 'trend' ? (
+          <div className="bg-white rounded-lg shadow-lg p-4">{trendChart}</div>
+        ) : (
+          <div className="bg-white rounded-lg shadow-lg p-4">{funnel}</div>
+        )}
+      </div>
+    )
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-gray-50 to-gray-100 p-6">
+      <div className="max-w-7xl mx-auto">
+        <div className="mb-8 flex flex-wrap items-end justify-between gap-4">
+          <div>
+            <h1 className="text-4xl font-bold text-gray-900 mb-2">{data.name}</h1>
+            <p className="text-gray-600">{t('share.pages', { pages: data.pageNames.join(', ') })}</p>
+            <p className="text-xs text-gray-500 mt-1">{t('share.readOnly', { date: formatDate(new Date(data.expiresAt)) })}</p>
+          </div>
+          {timeFrameSwitcher}
+        </div>
+
+        {error && (
+          <div className="mb-4 rounded-lg border border-red-200 bg-red-50 px-4 py-3 text-sm text-red-700">
+            {t('share.loadError', { message: error })}
+          </div>
+        )}
+
+        <div className="mb-8 space-y-6">
+          {DEFAULT_LAYOUT.rows.map((row) => {
+            const cards = cardsFor(row)
+            if (cards.length === 0) return null
+            return (
+              <div key={row.id}>
+                {row.title && <h2 className="text-lg font-semibold text-gray-800 mb-3">{label(row.title)}</h2>}
+                <div className={`grid grid-cols-1 gap-6 ${GRID_COLUMNS[Math.min(cards.length, 4)]}`}>
+                  {cards.map((card) => renderCard(card))}
+                </div>
+              </div>
+            )
+          })}
+        </div>
+
+        <div className="mb-8 bg-white rounded-lg shadow-lg p-6">
+          <h2 className="text-2xl font-bold text-gray-900 mb-6">{t('dashboard.trendAnalysis')}</h2>
+          {trendChart}
+        </div>
+
+        <div className="mb-8 bg-white rounded-lg shadow-lg p-6">{funnel}</div>
+      </div>
+    </div>
+  )
+}
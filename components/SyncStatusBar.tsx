@@ -0,0 +1,51 @@
+'use client'
+
+import { Pause, Play, RefreshCw } from 'lucide-react'
+import { type DataSync, type SyncStatus, DEFAULT_POLL_INTERVAL_MS } from '@/hooks/useDataSync'
+import type { MessageKey } from '@/lib/messages'
+import { useI18n } from '@/components/I18nProvider'
+
+const STATUS_STYLES: Record<SyncStatus, { dot: string; label: MessageKey }> = {
+  connecting: { dot: 'bg-gray-400 animate-pulse', label: 'sync.connecting' },
+  live: { dot: 'bg-green-500', label: 'sync.live' },
+  polling: { dot: 'bg-amber-500', label: 'sync.polling' },
+  paused: { dot: 'bg-gray-400', label: 'sync.paused' }
+}
+
+export default function SyncStatusBar({ sync }: { sync: DataSync }) {
+  const { t, formatTime } = useI18n()
+  const { dot, label } = STATUS_STYLES[sync.status]
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm p-6">
+      <div className="flex flex-wrap items-center justify-center gap-4 text-sm text-gray-500">
+        <div className="flex items-center">
+          <div className={`w-2 h-2 rounded-full mr-2 ${dot}`}></div>
+          <span>{t(label, { minutes: DEFAULT_POLL_INTERVAL_MS / 60000 })}</span>
+        </div>
+        <div className="flex items-center">
+          <div className="w-2 h-2 bg-blue-500 rounded-full mr-2"></div>
+          <span>{t('dashboard.bangkokTime')}</span>
+        </div>
+        <div className="flex items-center">
+          <div className="w-2 h-2 bg-gray-400 rounded-full mr-2"></div>
+          <span>{t('sync.lastUpdated', { time: sync.lastUpdated ? formatTime(sync.lastUpdated) : '--:--:--' })}</span>
+        </div>
+        <button
+          onClick={() => sync.setPaused(!sync.paused)}
+          className="flex items-center gap-1 px-3 py-1 rounded-md bg-gray-100 text-gray-700 hover:bg-gray-200"
+        >
+          {sync.paused ? <Play className="w-4 h-4" /> : <Pause className="w-4 h-4" />}
+          {sync.paused ? t('sync.resume') : t('sync.pause')}
+        </button>
+        <button
+          onClick={sync.refreshNow}
+          className="flex items-center gap-1 px-3 py-1 rounded-md bg-gray-100 text-gray-700 hover:bg-gray-200"
+        >
+          <RefreshCw className="w-4 h-4" />
+          {t('sync.refresh')}
+        </button>
+      </div>
+    </div>
+  )
+}
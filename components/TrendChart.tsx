@@ -0,0 +1,134 @@
+'use client'
+
+import { useState } from 'react'
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer, ReferenceArea, ReferenceLine } from 'recharts'
+import { type TrendData, type TrendSeries, type TrendSeriesKey, DEFAULT_TREND_SERIES } from '@/lib/trends'
+import type { DateRange } from '@/lib/dateRange'
+import { type Annotation, annotationBuckets } from '@/lib/annotations'
+import { useI18n } from '@/components/I18nProvider'
+
+export const ANNOTATION_COLOR = '#DB2777'
+
+export default function TrendChart({ data, loading, series: availableSeries = data.series, range, annotations = [] }: {
+  data: TrendData
+  loading: boolean
+  // Series the viewer may pick from; defaults to all of them
+  series?: TrendSeries[]
+  // The charted window, to place annotations that start or end outside it
+  range: DateRange
+  // Drawn as numbered markers, 1 for the first, matching the annotation list
+  annotations?: Annotation[]
+}) {
+  const { label, formatBucket, formatCurrency, formatNumber } = useI18n()
+  const [selected, setSelected] = useState<TrendSeriesKey[]>(DEFAULT_TREND_SERIES)
+
+  const toggleSeries = (key: TrendSeriesKey) => {
+    setSelected((current) =>
+      current.includes(key) ? current.filter((item) => item !== key) : [...current, key]
+    )
+  }
+
+  const visibleSeries = availableSeries.filter((series) => selected.includes(series.key))
+  const showValueAxis = visibleSeries.some((series) => series.axis === 'value')
+
+  return (
+    <div>
+      {/* Series selector */}
+      <div className="flex flex-wrap gap-2 mb-4">
+        {availableSeries.map((series) => {
+          const active = selected.includes(series.key)
+          return (
+            <button
+              key={series.key}
+              onClick={() => toggleSeries(series.key)}
+              className={`flex items-center gap-2 px-3 py-1 rounded-full text-sm font-medium border transition-colors duration-200 ${
+                active ? 'bg-white border-gray-400 text-gray-900 shadow-sm' : 'bg-gray-100 border-transparent text-gray-500 hover:bg-gray-200'
+              }`}
+            >
+              <span
+                className="inline-block w-3 h-3 rounded-full"
+                style={{ backgroundColor: active ? series.color : '#D1D5DB' }}
+              ></span>
+              {label(series.label)}
+            </button>
+          )
+        })}
+      </div>
+
+      <div className="h-96">
+        {loading ? (
+          <div className="flex items-center justify-center h-full">
+            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+          </div>
+        ) : (
+          <ResponsiveContainer width="100%" height="100%">
+            <LineChart data={data.points} margin={{ top: 10, right: 20, bottom: 10, left: 0 }}>
+              <CartesianGrid strokeDasharray="3 3" stroke="#E5E7EB" />
+              <XAxis
+                dataKey="time"
+                tickFormatter={(time: number) => formatBucket(time, data.granularity)}
+                minTickGap={20}
+                tick={{ fontSize: 12 }}
+              />
+              <YAxis yAxisId="count" allowDecimals={false} tickFormatter={(value: number) => formatNumber(value)} tick={{ fontSize: 12 }} />
+              {showValueAxis && (
+                <YAxis
+                  yAxisId="value"
+                  orientation="right"
+                  tickFormatter={(value: number) => formatNumber(Math.round(value))}
+                  tick={{ fontSize: 12 }}
+                />
+              )}
+              <Tooltip
+                contentStyle={{
+                  backgroundColor: 'rgba(255, 255, 255, 0.95)',
+                  border: '1px solid #ccc',
+                  borderRadius: '4px',
+                  boxShadow: '0 4px 6px -1px rgba(0, 0, 0, 0.1)'
+                }}
+                labelFormatter={(time) => formatBucket(Number(time), data.granularity, true)}
+                formatter={(value, name) => {
+                  const series = availableSeries.find((item) => label(item.label) === name)
+                  return [series?.axis === 'value' ? formatCurrency(Number(value)) : formatNumber(Number(value)), name]
+                }}
+              />
+              <Legend wrapperStyle={{ paddingTop: '20px' }} />
+              {data.points.length > 0 && annotations.map((annotation, index) => {
+                const { x1, x2 } = annotationBuckets(annotation, range, data.granularity)
+                const marker = { value: String(index + 1), position: 'insideTop' as const, fill: ANNOTATION_COLOR, fontSize: 11, fontWeight: 600 }
+                return x1 === x2 ? (
+                  <ReferenceLine key={annotation.id} yAxisId="count" x={x1} stroke={ANNOTATION_COLOR} strokeDasharray="4 3" label={marker} />
+                ) : (
+                  <ReferenceArea
+                    key={annotation.id}
+                    yAxisId="count"
+                    x1={x1}
+                    x2={x2}
+                    fill={ANNOTATION_COLOR}
+                    fillOpacity={0.08}
+                    stroke={ANNOTATION_COLOR}
+                    strokeOpacity={0.3}
+                    label={marker}
+                  />
+                )
+              })}
+              {visibleSeries.map((series) => (
+                <Line
+                  key={series.key}
+                  yAxisId={series.axis}
+                  type="monotone"
+                  dataKey={series.key}
+                  name={label(series.label)}
+                  stroke={series.color}
+                  strokeWidth={2}
+                  dot={false}
+                  activeDot={{ r: 5 }}
+                />
+              ))}
+            </LineChart>
+          </ResponsiveContainer>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,47 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { type DashboardLayout, DEFAULT_LAYOUT } from '@/lib/layout'
+import { getLayout, resetLayout, saveLayout } from '@/lib/metricsApi'
+
+export interface DashboardLayoutState {
+  layout: DashboardLayout
+  loading: boolean
+  error: string | null
+  save: (layout: DashboardLayout) => Promise<boolean>
+  reset: () => Promise<boolean>
+}
+
+// Loads the signed-in user's saved layout; the default layout is shown until it arrives
+export const useDashboardLayout = (): DashboardLayoutState => {
+  const [layout, setLayout] = useState<DashboardLayout>(DEFAULT_LAYOUT)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    getLayout()
+      .then(setLayout)
+      .catch((error) => {
+        console.error('Error fetching dashboard layout:', error)
+        setError(error instanceof Error ? error.message : 'Could not load your layout')
+      })
+      .finally(() => setLoading(false))
+  }, [])
+
+  const persist = useCallback(async (request: () => Promise<DashboardLayout>) => {
+    try {
+      setLayout(await request())
+      setError(null)
+      return true
+    } catch (error) {
+      console.error('Error saving dashboard layout:', error)
+      setError(error instanceof Error ? error.message : 'Could not save your layout')
+      return false
+    }
+  }, [])
+
+  const save = useCallback((next: DashboardLayout) => persist(() => saveLayout(next)), [persist])
+  const reset = useCallback(() => persist(resetLayout), [persist])
+
+  return { layout, loading, error, save, reset }
+}
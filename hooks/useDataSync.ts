@@ -0,0 +1,129 @@
+'use client'
+
+import { useState, useEffect, useRef, useCallback } from 'react'
+import { supabase } from '@/lib/supabase'
+
+export type SyncStatus = 'connecting' | 'live' | 'polling' | 'paused'
+
+export type RefreshReason = 'initial' | 'change' | 'poll' | 'manual'
+
+// Tables the dashboard numbers are computed from, so any change to them can move one.
+// Intents include moderators' false-positive marks. Each must be in the supabase_realtime
+// publication (supabase/migrations/20250920000000_realtime_sync.sql).
+const SYNC_TABLES = ['psid_inputs', 'intents', 'purchase', 'ad_spend'] as const
+
+export const DEFAULT_DEBOUNCE_MS = 2000
+export const DEFAULT_POLL_INTERVAL_MS = 5 * 60 * 1000
+
+export interface DataSync {
+  status: SyncStatus
+  lastUpdated: Date | null
+  paused: boolean
+  setPaused: (paused: boolean) => void
+  refreshNow: () => void
+}
+
+// Keeps dashboard data fresh: refreshes when `syncKey` changes, on debounced realtime
+// events, and by polling while the realtime socket is down.
+export const useDataSync = ({
+  syncKey,
+  pageIds,
+  onRefresh,
+  debounceMs = DEFAULT_DEBOUNCE_MS,
+  pollIntervalMs = DEFAULT_POLL_INTERVAL_MS
+}: {
+  // Anything that changes what is being shown, e.g. the window and page filter
+  syncKey: string
+  pageIds?: string[]
+  // Resolve to false when the refresh failed so lastUpdated is left alone
+  onRefresh: (reason: RefreshReason) => Promise<boolean | void> | boolean | void
+  debounceMs?: number
+  pollIntervalMs?: number
+}): DataSync => {
+  const [status, setStatus] = useState<SyncStatus>('connecting')
+  const [lastUpdated, setLastUpdated] = useState<Date | null>(null)
+  const [paused, setPaused] = useState(false)
+
+  // Always call the latest callback without resubscribing on every render
+  const onRefreshRef = useRef(onRefresh)
+  onRefreshRef.current = onRefresh
+
+  const refresh = useCallback(async (reason: RefreshReason) => {
+    try {
+      const succeeded = await onRefreshRef.current(reason)
+      if (succeeded !== false) setLastUpdated(new Date())
+    } catch (error) {
+      console.error('Error refreshing dashboard data:', error)
+    }
+  }, [])
+
+  useEffect(() => {
+    refresh('initial')
+  }, [syncKey, refresh])
+
+  const pageFilter = pageIds?.length ? `page_id=in.(${pageIds.join(',')})` : undefined
+
+  useEffect(() => {
+    if (paused) {
+      setStatus('paused')
+      return
+    }
+
+    let debounceTimer: ReturnType<typeof setTimeout> | undefined
+    let pollTimer: ReturnType<typeof setInterval> | undefined
+
+    const stopPolling = () => {
+      if (pollTimer) clearInterval(pollTimer)
+      pollTimer = undefined
+    }
+
+    // Collapse bursts of change events into a single refresh
+    const scheduleRefresh = () => {
+      if (debounceTimer) clearTimeout(debounceTimer)
+      debounceTimer = setTimeout(() => refresh('change'), debounceMs)
+    }
+
+    setStatus('connecting')
+    let channel = supabase.channel(`dashboard-sync:${pageFilter ?? 'all'}`)
+    SYNC_TABLES.forEach((table) => {
+      channel = channel.on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table, filter: pageFilter },
+        scheduleRefresh
+      )
+    })
+
+    let wasDisconnected = false
+    channel.subscribe((state) => {
+      if (state === 'SUBSCRIBED') {
+        stopPolling()
+        setStatus('live')
+        // Catch up on anything missed while the socket was down
+        if (wasDisconnected) refresh('change')
+        wasDisconnected = false
+      } else {
+        wasDisconnected = true
+        setStatus('polling')
+        if (!pollTimer) pollTimer = setInterval(() => refresh('poll'), pollIntervalMs)
+      }
+    })
+
+    return () => {
+      if (debounceTimer) clearTimeout(debounceTimer)
+      stopPolling()
+      supabase.removeChannel(channel)
+    }
+  }, [paused, pageFilter, debounceMs, pollIntervalMs, refresh])
+
+  const changePaused = useCallback((next: boolean) => {
+    setPaused(next)
+    // Resuming shows fresh numbers straight away
+    if (!next) refresh('manual')
+  }, [refresh])
+
+  const refreshNow = useCallback(() => {
+    refresh('manual')
+  }, [refresh])
+
+  return { status, lastUpdated, paused, setPaused: changePaused, refreshNow }
+}
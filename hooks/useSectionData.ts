@@ -0,0 +1,99 @@
+'use client'
+
+import { useState, useEffect, useRef, useCallback } from 'react'
+import { type ApiError, toApiError } from '@/lib/apiError'
+import { readLastKnown, writeLastKnown } from '@/lib/lastKnownCache'
+
+export interface SectionData<T> {
+  data: T
+  // True for a section's first request while there is nothing, not even cached data, to show
+  loading: boolean
+  // The last request failed; whatever data is on screen is older
+  error: ApiError | null
+  // False until the section has data for the current key, fetched or cached
+  hasData: boolean
+  // When the data on screen was fetched, if it did not come from the latest request
+  staleSince: Date | null
+  // Resolves false when the request failed or was replaced by a newer one
+  refresh: (background?: boolean) => Promise<boolean>
+}
+
+// One independently loading part of the dashboard. Shows the last known data for `cacheKey`
+// straight away (stale-while-revalidate) and aborts a request in flight when a newer one
+// starts or the key changes, so a slow response for an old window can't overwrite a newer one.
+export const useSectionData = <T>({
+  name,
+  cacheKey,
+  empty,
+  load
+}: {
+  // For console errors, e.g. 'metrics'
+  name: string
+  cacheKey: string
+  // Shown when there is no data for the key yet
+  empty: T
+  load: (signal: AbortSignal) => Promise<T>
+}): SectionData<T> => {
+  const [data, setData] = useState<T>(empty)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<ApiError | null>(null)
+  const [updatedAt, setUpdatedAt] = useState<number | null>(null)
+  const [fresh, setFresh] = useState(false)
+
+  // Always use the latest loader and key without re-creating refresh on every render
+  const loadRef = useRef(load)
+  loadRef.current = load
+  const keyRef = useRef(cacheKey)
+  keyRef.current = cacheKey
+  const emptyRef = useRef(empty)
+  const hasDataRef = useRef(false)
+  const controllerRef = useRef<AbortController | null>(null)
+
+  useEffect(() => {
+    controllerRef.current?.abort()
+    const cached = readLastKnown<T>(cacheKey)
+    hasDataRef.current = Boolean(cached)
+    setData(cached ? cached.data : emptyRef.current)
+    setUpdatedAt(cached ? cached.savedAt : null)
+    setFresh(false)
+    setError(null)
+    setLoading(!cached)
+  }, [cacheKey])
+
+  useEffect(() => () => controllerRef.current?.abort(), [])
+
+  const refresh = useCallback(async (background = false) => {
+    controllerRef.current?.abort()
+    const controller = new AbortController()
+    controllerRef.current = controller
+    if (!background) setLoading(!hasDataRef.current)
+    try {
+      const next = await loadRef.current(controller.signal)
+      if (controller.signal.aborted) return false
+      hasDataRef.current = true
+      setData(next)
+      setUpdatedAt(Date.now())
+      setFresh(true)
+      setError(null)
+      writeLastKnown(keyRef.current, next)
+      return true
+    } catch (error) {
+      if (controller.signal.aborted) return false
+      console.error(`Error fetching ${name}:`, error)
+      setError(toApiError(error))
+      setFresh(false)
+      return false
+    } finally {
+      if (!controller.signal.aborted) setLoading(false)
+    }
+  }, [name])
+
+  return {
+    data,
+    loading,
+    error,
+    hasData: updatedAt !== null,
+    staleSince: !fresh && updatedAt !== null ? new Date(updatedAt) : null,
+    refresh
+  }
+}
@@ -0,0 +1,240 @@
+import type { DbClient } from '@/lib/supabase'
+import type { Json, Tables } from '@/lib/database.types'
+import type { MetricFilters } from '@/lib/metrics'
+import { type DateRange, addDays, fromDateParam, startOfBangkokDay, toDateParam } from '@/lib/dateRange'
+import { normalizeCurrency, toThb } from '@/lib/currency'
+import { ApiError } from '@/lib/apiError'
+
+export type AdSpendSource = 'csv' | 'marketing_api'
+
+export type AdSpendImport = Omit<Tables<'ad_spend_imports'>, 'source'> & { source: AdSpendSource }
+
+// One day of spend for one campaign on one page
+export interface AdSpendRecord {
+  page_id: string
+  // Bangkok calendar day, 'YYYY-MM-DD'
+  date: string
+  campaign_name: string
+  spend: number
+  currency: string
+  impressions: number | null
+  clicks: number | null
+}
+
+// Anything that can produce daily spend rows. The CSV upload is the only one today; a Meta
+// Marketing API connector would implement the same interface and reuse importAdSpend.
+export interface AdSpendImporter {
+  source: AdSpendSource
+  // Shown in the import history, e.g. the uploaded file name
+  label: string
+  load: () => Promise<AdSpendRecord[]>
+}
+
+export const AD_SPEND_SOURCE_LABELS: Record<AdSpendSource, string> = {
+  csv: 'CSV upload',
+  marketing_api: 'Marketing API'
+}
+
+// Uploads larger than this are almost certainly not a daily campaign export
+export const MAX_AD_SPEND_ROWS = 20000
+
+const invalid = (message: string): never => {
+  throw new ApiError(400, 'bad_request', `Invalid ad spend export: ${message}`)
+}
+
+// RFC 4180: quoted fields may contain commas, newlines and doubled quotes
+const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = []
+  let row: string[] = []
+  let field = ''
+  let quoted = false
+  const input = text.replace(/^\uFEFF/, '')
+
+  for (let index = 0; index < input.length; index += 1) {
+    const char = input[index]
+    if (quoted) {
+      if (char === '"' && input[index + 1] === '"') {
+        field += '"'
+        index += 1
+      } else if (char === '"') {
+        quoted = false
+      } else {
+        field += char
+      }
+    } else if (char === '"') {
+      quoted = true
+    } else if (char === ',') {
+      row.push(field)
+      field = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[index + 1] === '\n') index += 1
+      row.push(field)
+      rows.push(row)
+      row = []
+      field = ''
+    } else {
+      field += char
+    }
+  }
+  if (field || row.length) {
+    row.push(field)
+    rows.push(row)
+  }
+  return rows.filter((cells) => cells.some((cell) => cell.trim()))
+}
+
+// Ads Manager column names vary with the report settings, so each field accepts a few
+const COLUMNS = {
+  day: ['day', 'date'],
+  starts: ['reporting starts'],
+  ends: ['reporting ends'],
+  campaign: ['campaign name', 'campaign'],
+  spend: ['amount spent', 'spend'],
+  currency: ['currency'],
+  impressions: ['impressions'],
+  clicks: ['link clicks', 'clicks (all)', 'clicks']
+}
+
+// "Amount spent (THB)" carries the account currency in the header
+const headerCurrency = (header: string): string | null => {
+  return header.match(/\(([A-Za-z]{3})\)\s*$/)?.[1]?.toUpperCase() ?? null
+}
+
+const columnIndex = (headers: string[], names: string[]): number => {
+  const normalized = headers.map((header) => header.trim().toLowerCase().replace(/\s*\([^)]*\)\s*$/, ''))
+  return normalized.findIndex((header) => names.includes(header))
+}
+
+const parseAmount = (value: string | undefined): number | null => {
+  const cleaned = value?.replace(/[,\s]/g, '') ?? ''
+  if (!cleaned) return null
+  const amount = Number(cleaned)
+  return Number.isFinite(amount) ? amount : null
+}
+
+// Parses a Meta Ads Manager export with a daily breakdown. Rows for the same day and
+// campaign (e.g. an ad set breakdown) are summed, since spend is stored per campaign.
+export const parseMetaAdsCsv = (csv: string, pageId: string): AdSpendRecord[] => {
+  const [headers, ...rows] = parseCsv(csv)
+  if (!headers) return invalid('the file is empty')
+  if (rows.length > MAX_AD_SPEND_ROWS) invalid(`more than ${MAX_AD_SPEND_ROWS} rows`)
+
+  const column = Object.fromEntries(
+    Object.entries(COLUMNS).map(([key, names]) => [key, columnIndex(headers, names)])
+  ) as Record<keyof typeof COLUMNS, number>
+  if (column.spend === -1) invalid('no "Amount spent" column')
+  if (column.day === -1 && column.starts === -1) invalid('no "Day" or "Reporting starts" column')
+  const fallbackCurrency = headerCurrency(headers[column.spend]) ?? undefined
+
+  const records = new Map<string, AdSpendRecord>()
+  rows.forEach((cells, index) => {
+    const line = index + 2
+    const spend = parseAmount(cells[column.spend])
+    // Rows without spend are Ads Manager's blank or summary lines
+    if (spend === null) return
+    if (spend < 0) invalid(`negative spend on line ${line}`)
+
+    const date = (column.day !== -1 ? cells[column.day] : cells[column.starts])?.trim() ?? ''
+    if (!fromDateParam(date)) invalid(`line ${line} has no YYYY-MM-DD date`)
+    if (column.day === -1 && column.ends !== -1 && cells[column.ends]?.trim() !== date) {
+      invalid(`line ${line} covers several days; export with the "Day" breakdown`)
+    }
+
+    const campaignName = column.campaign === -1 ? '' : cells[column.campaign]?.trim() ?? ''
+    const currency = normalizeCurrency(column.currency === -1 ? fallbackCurrency : cells[column.currency])
+    const key = `${date}|${campaignName}`
+    const existing = records.get(key)
+    if (existing && existing.currency !== currency) invalid(`line ${line} mixes currencies for one campaign`)
+
+    const impressions = parseAmount(cells[column.impressions])
+    const clicks = parseAmount(cells[column.clicks])
+    records.set(key, {
+      page_id: pageId,
+      date,
+      campaign_name: campaignName,
+      spend: (existing?.spend ?? 0) + spend,
+      currency,
+      impressions: impressions === null ? existing?.impressions ?? null : (existing?.impressions ?? 0) + impressions,
+      clicks: clicks === null ? existing?.clicks ?? null : (existing?.clicks ?? 0) + clicks
+    })
+  })
+
+  if (records.size === 0) invalid('no rows with spend')
+  return Array.from(records.values())
+}
+
+export const createCsvImporter = (csv: string, pageId: string, fileName: string): AdSpendImporter => ({
+  source: 'csv',
+  label: fileName,
+  load: async () => parseMetaAdsCsv(csv, pageId)
+})
+
+// Stores everything the importer loads and records the import in one transaction through
+// import_ad_spend(). Rows already stored for the same page, day and campaign are replaced and
+// point at the new import from then on.
+export const importAdSpend = async (client: DbClient, importer: AdSpendImporter, importedBy: string | null): Promise<AdSpendImport> => {
+  const records = await importer.load()
+  if (records.length === 0) invalid('no rows with spend')
+  const pageIds = Array.from(new Set(records.map((record) => record.page_id)))
+  if (pageIds.length > 1) invalid('one import can only cover one page')
+
+  const { data, error } = await client.rpc('import_ad_spend', {
+    target_page_id: pageIds[0],
+    import_source: importer.source,
+    import_label: importer.label,
+    records: records as unknown as Json,
+    importer_id: importedBy ?? undefined
+  })
+  if (error) throw error
+  return data[0] as AdSpendImport
+}
+
+export const fetchAdSpendImports = async (client: DbClient, filters: MetricFilters = {}): Promise<AdSpendImport[]> => {
+  let query = client.from('ad_spend_imports').select('*').order('created_at', { ascending: false }).limit(100)
+  if (filters.pageIds?.length) query = query.in('page_id', filters.pageIds)
+  const { data, error } = await query
+  if (error) throw error
+  return (data ?? []) as AdSpendImport[]
+}
+
+// PostgREST caps responses at 1000 rows by default
+const PAGE_SIZE = 1000
+
+// Spend is reported per day, so a window counts every Bangkok day that starts inside it.
+// Hour-level windows shorter than a day therefore see no spend.
+const spendDays = (range: DateRange): { first: string; last: string } | null => {
+  const dayStart = startOfBangkokDay(range.from)
+  const first = dayStart < range.from ? addDays(dayStart, 1) : dayStart
+  if (first >= range.to) return null
+  return { first: toDateParam(first), last: toDateParam(new Date(range.to.getTime() - 1)) }
+}
+
+export const fetchAdSpendRows = async (
+  client: DbClient,
+  range: DateRange,
+  filters: MetricFilters = {}
+): Promise<Tables<'ad_spend'>[]> => {
+  const days = spendDays(range)
+  if (!days) return []
+
+  const rows: Tables<'ad_spend'>[] = []
+  for (let offset = 0; ; offset += PAGE_SIZE) {
+    let query = client.from('ad_spend').select('*').gte('date', days.first).lte('date', days.last)
+    if (filters.pageIds?.length) query = query.in('page_id', filters.pageIds)
+    const { data, error } = await query.order('date').order('id').range(offset, offset + PAGE_SIZE - 1)
+    if (error) throw error
+    rows.push(...(data ?? []))
+    if (!data || data.length < PAGE_SIZE) return rows
+  }
+}
+
+// Spend converted to THB; currencies without a rate are left out, as with purchases
+export const fetchAdSpendTotal = async (client: DbClient, range: DateRange, filters: MetricFilters = {}): Promise<number> => {
+  const rows = await fetchAdSpendRows(client, range, filters)
+  const byCurrency: Record<string, number> = {}
+  rows.forEach((row) => {
+    const currency = normalizeCurrency(row.currency)
+    byCurrency[currency] = (byCurrency[currency] || 0) + Number(row.spend)
+  })
+  return Object.entries(byCurrency).reduce((sum, [currency, value]) => sum + (toThb(value, currency) ?? 0), 0)
+}
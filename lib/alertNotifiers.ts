@@ -0,0 +1,53 @@
+import { toBangkokDateTime } from '@/lib/dateRange'
+import { type ChannelMessage, type ChannelRecipients, type ChannelSenders, createChannelSenders } from '@/lib/channels'
+
+// What a rule reports when it fires
+export interface AlertNotification {
+  ruleId: string
+  ruleName: string
+  message: string
+  metric: string
+  value: number
+  threshold: number
+  pageIds: string[] | null
+  windowFrom: Date
+  windowTo: Date
+  triggeredAt: Date
+}
+
+// Alerts go to the team, so every rule shares one set of recipients
+export interface AlertDelivery {
+  senders: ChannelSenders
+  recipients: ChannelRecipients
+}
+
+export const alertMessage = (notification: AlertNotification): ChannelMessage => {
+  const subject = `[BMS Alert] ${notification.ruleName}`
+  return {
+    source: 'alert',
+    subject,
+    text: [
+      subject,
+      notification.message,
+      `Window: ${toBangkokDateTime(notification.windowFrom)} – ${toBangkokDateTime(notification.windowTo)} (Bangkok)`,
+      `Pages: ${notification.pageIds?.join(', ') ?? 'All pages'}`
+    ].join('\n'),
+    data: { ...notification }
+  }
+}
+
+// Reads the team's channels from the environment. ALERT_DELIVERY=stub swaps every channel for
+// a stub so rules can be exercised without sending anything.
+export const alertDeliveryFromEnv = (env: Record<string, string | undefined> = process.env): AlertDelivery => ({
+  senders: createChannelSenders({
+    stub: env.ALERT_DELIVERY === 'stub',
+    resendApiKey: env.RESEND_API_KEY,
+    emailFrom: env.ALERT_EMAIL_FROM
+  }),
+  recipients: {
+    email_to: (env.ALERT_EMAIL_TO ?? '').split(',').map((address) => address.trim()).filter(Boolean),
+    webhook_url: env.ALERT_WEBHOOK_URL || null,
+    webhook_secret: env.ALERT_WEBHOOK_SECRET || null,
+    line_token: env.LINE_NOTIFY_TOKEN || null
+  }
+})
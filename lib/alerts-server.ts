@@ -0,0 +1,110 @@
+import type { DbClient } from '@/lib/supabase'
+import type { Json } from '@/lib/database.types'
+import { fetchMetricData } from '@/lib/metrics'
+import {
+  type AlertEvent,
+  type AlertRule,
+  type RuleEvaluation,
+  describeRule,
+  isCoolingDown,
+  isRatioMetric,
+  isTriggered,
+  measureRule,
+  ruleWindow
+} from '@/lib/alerts'
+import { type AlertDelivery, alertMessage } from '@/lib/alertNotifiers'
+import { deliverMessage } from '@/lib/channels'
+
+export const fetchAlertRules = async (client: DbClient, { enabledOnly = false } = {}): Promise<AlertRule[]> => {
+  let query = client.from('alert_rules').select('*').order('created_at')
+  if (enabledOnly) query = query.eq('enabled', true)
+  const { data, error } = await query
+  if (error) throw error
+  return (data ?? []) as AlertRule[]
+}
+
+const formatValue = (rule: AlertRule, value: number) => {
+  return isRatioMetric(rule.metric) ? `${value.toFixed(2)}%` : value.toLocaleString('en-US')
+}
+
+// Evaluates every enabled rule against the same numbers the dashboard shows, records an
+// alert_events row for each one that fires and hands it to the rule's channels. A rule that
+// fails is reported as 'failed' without stopping the others.
+// Needs a client that can write alert_events, i.e. the service role.
+export const evaluateAlertRules = async (
+  client: DbClient,
+  { senders, recipients }: AlertDelivery,
+  now = new Date()
+): Promise<RuleEvaluation[]> => {
+  const rules = await fetchAlertRules(client, { enabledOnly: true })
+
+  // Rules sharing a window and page scope reuse one metrics fetch
+  const metricsByScope = new Map<string, ReturnType<typeof fetchMetricData>>()
+
+  const results = await Promise.allSettled(rules.map(async (rule): Promise<RuleEvaluation> => {
+    const result = { ruleId: rule.id, name: rule.name }
+    if (isCoolingDown(rule, now)) return { ...result, value: null, status: 'cooldown' }
+
+    const range = ruleWindow(rule, now)
+    const pageIds = rule.page_ids?.length ? rule.page_ids : undefined
+    const scopeKey = `${range.from.toISOString()}|${range.to.toISOString()}|${pageIds?.join(',') ?? ''}`
+    if (!metricsByScope.has(scopeKey)) metricsByScope.set(scopeKey, fetchMetricData(client, range, { pageIds }))
+    const value = measureRule(rule.metric, await metricsByScope.get(scopeKey)!)
+
+    if (value === null) return { ...result, value, status: 'no_data' }
+    if (!isTriggered(rule.operator, value, rule.threshold)) return { ...result, value, status: 'ok' }
+
+    const message = `${describeRule(rule)} (now ${formatValue(rule, value)})`
+    const delivery = await deliverMessage(senders, rule.channels, recipients, alertMessage({
+      ruleId: rule.id,
+      ruleName: rule.name,
+      message,
+      metric: rule.metric,
+      value,
+      threshold: rule.threshold,
+      pageIds: rule.page_ids,
+      windowFrom: range.from,
+      windowTo: range.to,
+      triggeredAt: now
+    }))
+
+    const { error: insertError } = await client.from('alert_events').insert({
+      rule_id: rule.id,
+      rule_name: rule.name,
+      metric: rule.metric,
+      value,
+      threshold: rule.threshold,
+      message,
+      page_ids: rule.page_ids,
+      window_from: range.from.toISOString(),
+      window_to: range.to.toISOString(),
+      delivery: delivery as Json
+    })
+    if (insertError) throw insertError
+
+    const { error: updateError } = await client
+      .from('alert_rules')
+      .update({ last_triggered_at: now.toISOString() })
+      .eq('id', rule.id)
+    if (updateError) throw updateError
+
+    return { ...result, value, status: 'triggered', delivery }
+  }))
+
+  return results.map((settled, index): RuleEvaluation => {
+    if (settled.status === 'fulfilled') return settled.value
+    const rule = rules[index]
+    console.error(`Evaluating alert rule ${rule.id} failed:`, settled.reason)
+    const error = settled.reason instanceof Error ? settled.reason.message : 'unknown error'
+    return { ruleId: rule.id, name: rule.name, value: null, status: 'failed', error }
+  })
+}
+
+// Acknowledges an alert for everyone through acknowledge_alert(), which checks visibility and
+// records the caller; null when the alert is not visible
+export const acknowledgeAlertEvent = async (client: DbClient, eventId: number): Promise<AlertEvent | null> => {
+  const { data, error } = await client.rpc('acknowledge_alert', { target_alert_id: eventId })
+  if (error) throw error
+  const [row] = data ?? []
+  return row ?? null
+}
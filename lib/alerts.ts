@@ -0,0 +1,205 @@
+import { type DateRange, type PresetTimeFrame, presetRange } from '@/lib/dateRange'
+import {
+  type ConversionRatioKey,
+  type MetricData,
+  type NumericMetricKey,
+  CONVERSION_RATIOS,
+  FINANCE_METRICS,
+  METRIC_LABELS
+} from '@/lib/metrics'
+import type { Tables } from '@/lib/database.types'
+import { ApiError } from '@/lib/apiError'
+
+export type AlertMetric = NumericMetricKey | ConversionRatioKey
+
+export type AlertOperator = '>' | '>=' | '<' | '<='
+
+// Presets are Bangkok calendar periods, as on the dashboard: 'today' runs from today's 00:00 to
+// midnight, '7days' and '30days' end at the same midnight. 'hours' is a trailing window of
+// window_hours ending now.
+export type AlertWindow = PresetTimeFrame | 'hours'
+
+export type AlertChannel = 'webhook' | 'line' | 'email'
+
+export type AlertRule = Omit<Tables<'alert_rules'>, 'metric' | 'operator' | 'window' | 'channels'> & {
+  metric: AlertMetric
+  operator: AlertOperator
+  window: AlertWindow
+  channels: AlertChannel[]
+}
+
+export type AlertEvent = Tables<'alert_events'>
+
+// Fields a user can set when creating or editing a rule
+export type AlertRuleInput = Pick<
+  AlertRule,
+  'name' | 'metric' | 'operator' | 'threshold' | 'window' | 'window_hours' | 'page_ids' | 'channels' | 'cooldown_minutes' | 'enabled'
+>
+
+export interface RuleEvaluation {
+  ruleId: string
+  name: string
+  // null when the metric could not be measured, e.g. a ratio with no denominator
+  value: number | null
+  status: 'triggered' | 'ok' | 'cooldown' | 'no_data' | 'failed'
+  delivery?: Record<string, string>
+  // Why a failed rule could not be evaluated or recorded
+  error?: string
+}
+
+export const ALERT_OPERATORS: AlertOperator[] = ['>', '>=', '<', '<=']
+
+export const ALERT_WINDOW_LABELS: Record<AlertWindow, string> = {
+  today: 'today',
+  '7days': 'over 7 days',
+  '30days': 'over 30 days',
+  hours: 'in the last N hours'
+}
+
+export const ALERT_CHANNEL_LABELS: Record<AlertChannel, string> = {
+  webhook: 'Webhook',
+  line: 'LINE Notify',
+  email: 'Email'
+}
+
+export const ALERT_WINDOWS = Object.keys(ALERT_WINDOW_LABELS) as AlertWindow[]
+
+export const ALERT_CHANNELS = Object.keys(ALERT_CHANNEL_LABELS) as AlertChannel[]
+
+const RATIO_BY_KEY = Object.fromEntries(CONVERSION_RATIOS.map((ratio) => [ratio.key, ratio])) as Record<
+  ConversionRatioKey,
+  (typeof CONVERSION_RATIOS)[number]
+>
+
+export const isRatioMetric = (metric: AlertMetric): metric is ConversionRatioKey => {
+  return CONVERSION_RATIOS.some((ratio) => ratio.key === metric)
+}
+
+export const alertMetricLabel = (metric: AlertMetric): string => {
+  return isRatioMetric(metric) ? RATIO_BY_KEY[metric].label : METRIC_LABELS[metric]
+}
+
+export const ALERT_METRICS: AlertMetric[] = [
+  ...(Object.keys(METRIC_LABELS) as NumericMetricKey[]),
+  ...CONVERSION_RATIOS.map((ratio) => ratio.key)
+]
+
+export const isFinanceAlertMetric = (metric: AlertMetric): boolean => {
+  return !isRatioMetric(metric) && FINANCE_METRICS.includes(metric)
+}
+
+// The window a rule is measured over at `now`; see AlertWindow
+export const ruleWindow = (rule: Pick<AlertRule, 'window' | 'window_hours'>, now = new Date()): DateRange => {
+  if (rule.window === 'hours') {
+    return { from: new Date(now.getTime() - (rule.window_hours ?? 1) * 60 * 60 * 1000), to: now }
+  }
+  return presetRange(rule.window, now)
+}
+
+// Ratios are unrounded percentages; null when the denominator is zero so the rule is skipped
+export const measureRule = (metric: AlertMetric, metrics: MetricData): number | null => {
+  if (!isRatioMetric(metric)) return metrics[metric]
+  const ratio = RATIO_BY_KEY[metric]
+  const denominator = metrics[ratio.denominator]
+  return denominator > 0 ? (metrics[ratio.numerator] / denominator) * 100 : null
+}
+
+export const isTriggered = (operator: AlertOperator, value: number, threshold: number): boolean => {
+  switch (operator) {
+    case '>': return value > threshold
+    case '>=': return value >= threshold
+    case '<': return value < threshold
+    case '<=': return value <= threshold
+  }
+}
+
+// "Ban count > 20 today", "Chat to Buy % < 2 over 7 days"
+export const describeRule = (rule: Pick<AlertRule, 'metric' | 'operator' | 'threshold' | 'window' | 'window_hours'>): string => {
+  const window = rule.window === 'hours' ? `in the last ${rule.window_hours ?? 1} hours` : ALERT_WINDOW_LABELS[rule.window]
+  const unit = isRatioMetric(rule.metric) ? '%' : ''
+  return `${alertMetricLabel(rule.metric)} ${rule.operator} ${rule.threshold}${unit} ${window}`
+}
+
+export const isCoolingDown = (rule: Pick<AlertRule, 'last_triggered_at' | 'cooldown_minutes'>, now = new Date()): boolean => {
+  if (!rule.last_triggered_at) return false
+  return now.getTime() - new Date(rule.last_triggered_at).getTime() < rule.cooldown_minutes * 60 * 1000
+}
+
+const invalid = (message: string): never => {
+  throw new ApiError(400, 'bad_request', message)
+}
+
+const isStringArray = (value: unknown): value is string[] => {
+  return Array.isArray(value) && value.every((item) => typeof item === 'string')
+}
+
+// Validates a JSON request body; `partial` allows PATCH bodies with only some fields
+export function parseAlertRuleInput(body: unknown, partial: true): Partial<AlertRuleInput>
+export function parseAlertRuleInput(body: unknown, partial?: false): AlertRuleInput
+export function parseAlertRuleInput(body: unknown, partial = false): Partial<AlertRuleInput> {
+  if (typeof body !== 'object' || body === null) return invalid('Request body must be a JSON object')
+  const input = body as Record<string, unknown>
+  const has = (key: keyof AlertRuleInput) => input[key] !== undefined
+  const result: Partial<AlertRuleInput> = {}
+
+  const required: (keyof AlertRuleInput)[] = ['name', 'metric', 'operator', 'threshold', 'window']
+  if (!partial) {
+    const missing = required.filter((key) => !has(key))
+    if (missing.length) invalid(`Missing fields: ${missing.join(', ')}`)
+  }
+
+  if (has('name')) {
+    if (typeof input.name !== 'string' || !input.name.trim()) invalid('"name" must be a non-empty string')
+    result.name = (input.name as string).trim()
+  }
+  if (has('metric')) {
+    if (!ALERT_METRICS.includes(input.metric as AlertMetric)) invalid(`Unknown metric "${input.metric}"`)
+    result.metric = input.metric as AlertMetric
+  }
+  if (has('operator')) {
+    if (!ALERT_OPERATORS.includes(input.operator as AlertOperator)) invalid(`Unknown operator "${input.operator}"`)
+    result.operator = input.operator as AlertOperator
+  }
+  if (has('threshold')) {
+    if (typeof input.threshold !== 'number' || !Number.isFinite(input.threshold)) invalid('"threshold" must be a number')
+    result.threshold = input.threshold as number
+  }
+  if (has('window')) {
+    if (!ALERT_WINDOWS.includes(input.window as AlertWindow)) invalid(`Unknown window "${input.window}"`)
+    result.window = input.window as AlertWindow
+  }
+  if (input.window_hours !== undefined && input.window_hours !== null) {
+    const hours = input.window_hours
+    if (typeof hours !== 'number' || !Number.isInteger(hours) || hours < 1 || hours > 168) {
+      invalid('"window_hours" must be a whole number of hours between 1 and 168')
+    }
+    result.window_hours = hours as number
+  } else if (input.window_hours === null) {
+    result.window_hours = null
+  }
+  if (result.window === 'hours' && !result.window_hours) invalid('"window_hours" is required for the hours window')
+  if (has('page_ids') || input.page_ids === null) {
+    if (input.page_ids !== null && !isStringArray(input.page_ids)) invalid('"page_ids" must be an array of page ids or null')
+    const pageIds = input.page_ids as string[] | null
+    result.page_ids = pageIds?.length ? pageIds : null
+  }
+  if (has('channels')) {
+    if (!isStringArray(input.channels) || input.channels.some((channel) => !ALERT_CHANNELS.includes(channel as AlertChannel))) {
+      invalid(`"channels" must be a list of ${ALERT_CHANNELS.join(', ')}`)
+    }
+    result.channels = input.channels as AlertChannel[]
+  }
+  if (has('cooldown_minutes')) {
+    const cooldown = input.cooldown_minutes
+    if (typeof cooldown !== 'number' || !Number.isInteger(cooldown) || cooldown < 0) {
+      invalid('"cooldown_minutes" must be a whole number of minutes')
+    }
+    result.cooldown_minutes = cooldown as number
+  }
+  if (has('enabled')) {
+    if (typeof input.enabled !== 'boolean') invalid('"enabled" must be true or false')
+    result.enabled = input.enabled as boolean
+  }
+
+  return result
+}
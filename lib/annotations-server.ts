@@ -0,0 +1,23 @@
+import type { DbClient } from '@/lib/supabase'
+import type { DateRange } from '@/lib/dateRange'
+import type { MetricFilters } from '@/lib/metrics'
+import { type Annotation, appliesToPages } from '@/lib/annotations'
+
+// Annotations overlapping the window for the selected pages, oldest first. Row-level security
+// already hides annotations for pages the user cannot see.
+export const fetchAnnotations = async (
+  client: DbClient,
+  range: DateRange,
+  filters: MetricFilters = {}
+): Promise<Annotation[]> => {
+  const from = range.from.toISOString()
+  const { data, error } = await client
+    .from('annotations')
+    .select('*')
+    .lt('starts_at', range.to.toISOString())
+    .or(`ends_at.gte."${from}",and(ends_at.is.null,starts_at.gte."${from}")`)
+    .order('starts_at')
+  if (error) throw error
+  // Few rows per window, so the page match is simpler here than as an array filter in SQL
+  return ((data ?? []) as Annotation[]).filter((annotation) => appliesToPages(annotation, filters.pageIds))
+}
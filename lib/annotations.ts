@@ -0,0 +1,100 @@
+import { type DateRange, type Granularity, startOfBucket } from '@/lib/dateRange'
+import type { Tables } from '@/lib/database.types'
+import { ApiError } from '@/lib/apiError'
+
+// Context for a moment or a stretch of time: an ad launch, a bot script change, an outage
+export type Annotation = Tables<'annotations'>
+
+// Fields a user can set when creating or editing an annotation
+export type AnnotationInput = Pick<Annotation, 'title' | 'note' | 'starts_at' | 'ends_at' | 'page_ids'>
+
+export const MAX_TITLE_LENGTH = 120
+
+// Single-moment annotations end where they start
+export const annotationEnd = (annotation: Pick<Annotation, 'starts_at' | 'ends_at'>): Date => {
+  return new Date(annotation.ends_at ?? annotation.starts_at)
+}
+
+// True when any part of the annotation falls inside the half-open window
+export const overlapsRange = (annotation: Pick<Annotation, 'starts_at' | 'ends_at'>, range: DateRange): boolean => {
+  return new Date(annotation.starts_at) < range.to && annotationEnd(annotation) >= range.from
+}
+
+// Annotations for every page apply everywhere; page annotations apply when any of their
+// pages is selected, or to the all-pages view
+export const appliesToPages = (annotation: Pick<Annotation, 'page_ids'>, pageIds: string[] = []): boolean => {
+  if (!annotation.page_ids?.length || pageIds.length === 0) return true
+  return annotation.page_ids.some((id) => pageIds.includes(id))
+}
+
+// Where an annotation sits on a chart of `range`: the buckets its start and end fall in,
+// clamped to the window. x2 equals x1 for a single moment or one bucket.
+export const annotationBuckets = (
+  annotation: Pick<Annotation, 'starts_at' | 'ends_at'>,
+  range: DateRange,
+  granularity: Granularity
+): { x1: number; x2: number } => {
+  const last = new Date(range.to.getTime() - 1)
+  const clamp = (date: Date) => new Date(Math.min(Math.max(date.getTime(), range.from.getTime()), last.getTime()))
+  return {
+    x1: startOfBucket(clamp(new Date(annotation.starts_at)), granularity).getTime(),
+    x2: startOfBucket(clamp(annotationEnd(annotation)), granularity).getTime()
+  }
+}
+
+const invalid = (message: string): never => {
+  throw new ApiError(400, 'bad_request', message)
+}
+
+const isStringArray = (value: unknown): value is string[] => {
+  return Array.isArray(value) && value.every((item) => typeof item === 'string')
+}
+
+const parseTimestamp = (value: unknown, name: string): string => {
+  if (typeof value !== 'string' || Number.isNaN(Date.parse(value))) return invalid(`"${name}" must be an ISO date-time`)
+  return new Date(value).toISOString()
+}
+
+// Validates a JSON request body; `partial` allows PATCH bodies with only some fields
+export function parseAnnotationInput(body: unknown, partial: true): Partial<AnnotationInput>
+export function parseAnnotationInput(body: unknown, partial?: false): AnnotationInput
+export function parseAnnotationInput(body: unknown, partial = false): Partial<AnnotationInput> {
+  if (typeof body !== 'object' || body === null) return invalid('Request body must be a JSON object')
+  const input = body as Record<string, unknown>
+  const has = (key: keyof AnnotationInput) => input[key] !== undefined
+  const result: Partial<AnnotationInput> = {}
+
+  const required: (keyof AnnotationInput)[] = ['title', 'starts_at']
+  if (!partial) {
+    const missing = required.filter((key) => !has(key))
+    if (missing.length) invalid(`Missing fields: ${missing.join(', ')}`)
+  }
+
+  if (has('title')) {
+    if (typeof input.title !== 'string' || !input.title.trim()) invalid('"title" must be a non-empty string')
+    const title = (input.title as string).trim()
+    if (title.length > MAX_TITLE_LENGTH) invalid(`"title" must be at most ${MAX_TITLE_LENGTH} characters`)
+    result.title = title
+  }
+  if (has('note') || input.note === null) {
+    if (input.note !== null && typeof input.note !== 'string') invalid('"note" must be a string or null')
+    result.note = (input.note as string | null)?.trim() || null
+  }
+  if (has('starts_at')) {
+    result.starts_at = parseTimestamp(input.starts_at, 'starts_at')
+  }
+  if (has('ends_at') || input.ends_at === null) {
+    result.ends_at = input.ends_at === null ? null : parseTimestamp(input.ends_at, 'ends_at')
+  }
+  // Checked here when both are sent; a PATCH of one side is left to the table's check
+  if (result.starts_at && result.ends_at && result.ends_at < result.starts_at) {
+    invalid('"ends_at" must not be before "starts_at"')
+  }
+  if (has('page_ids') || input.page_ids === null) {
+    if (input.page_ids !== null && !isStringArray(input.page_ids)) invalid('"page_ids" must be an array of page ids or null')
+    const pageIds = input.page_ids as string[] | null
+    result.page_ids = pageIds?.length ? pageIds : null
+  }
+
+  return result
+}
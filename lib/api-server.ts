@@ -0,0 +1,87 @@
+import { type NextRequest, NextResponse } from 'next/server'
+import type { DateRange } from '@/lib/dateRange'
+import type { DbClient } from '@/lib/supabase'
+import { createServerSupabase } from '@/lib/supabase-server'
+import { getSessionAccess } from '@/lib/auth-server'
+import { type Permission, type UserAccess, hasPermission, scopePageIds } from '@/lib/auth'
+import type { MetricFilters } from '@/lib/metrics'
+import { parsePageIds } from '@/lib/pages'
+import { ApiError, toApiError } from '@/lib/apiError'
+
+const MAX_WINDOW_DAYS = 366
+
+export interface MetricsContext {
+  client: DbClient
+  access: UserAccess
+  range: DateRange
+  // Already narrowed to the pages the user may see
+  filters: MetricFilters
+}
+
+const parseTimestamp = (value: string | null, name: string): Date => {
+  const date = value ? new Date(value) : null
+  if (!date || Number.isNaN(date.getTime())) {
+    throw new ApiError(400, 'bad_request', `Query parameter "${name}" must be an ISO timestamp`)
+  }
+  return date
+}
+
+// ?from=<ISO>&to=<ISO>, half-open like every DateRange
+export const parseWindow = (searchParams: URLSearchParams): DateRange => {
+  const from = parseTimestamp(searchParams.get('from'), 'from')
+  const to = parseTimestamp(searchParams.get('to'), 'to')
+  if (from >= to) {
+    throw new ApiError(400, 'bad_request', '"from" must be before "to"')
+  }
+  if (to.getTime() - from.getTime() > MAX_WINDOW_DAYS * 24 * 60 * 60 * 1000) {
+    throw new ApiError(400, 'bad_request', `Windows are limited to ${MAX_WINDOW_DAYS} days`)
+  }
+  return { from, to }
+}
+
+export const requireAccess = async (): Promise<UserAccess> => {
+  const session = await getSessionAccess()
+  if (!session) throw new ApiError(401, 'unauthorized', 'Sign in to use the metrics API')
+  if (!session.access) throw new ApiError(403, 'forbidden', 'No dashboard role or pages assigned')
+  return session.access
+}
+
+export const requirePermission = (access: UserAccess, permission: Permission) => {
+  if (!hasPermission(access, permission)) {
+    throw new ApiError(403, 'forbidden', `Your role does not have the "${permission}" permission`)
+  }
+}
+
+// Parses a JSON request body, rejecting anything that is not valid JSON
+export const readJson = async (request: Request): Promise<unknown> => {
+  try {
+    return await request.json()
+  } catch {
+    throw new ApiError(400, 'bad_request', 'Request body must be valid JSON')
+  }
+}
+
+export const errorResponse = (error: unknown) => {
+  const apiError = toApiError(error)
+  if (apiError.status >= 500) console.error('Metrics API error:', error)
+  return NextResponse.json(apiError.toBody(), { status: apiError.status })
+}
+
+// Wraps a GET handler with session, access and window parsing plus structured errors
+export const withMetricsContext = <T>(handler: (context: MetricsContext, searchParams: URLSearchParams) => Promise<T>) => {
+  return async (request: NextRequest) => {
+    try {
+      const access = await requireAccess()
+      const { searchParams } = request.nextUrl
+      const context: MetricsContext = {
+        client: await createServerSupabase(),
+        access,
+        range: parseWindow(searchParams),
+        filters: { pageIds: scopePageIds(access, parsePageIds(searchParams.get('pages'))) }
+      }
+      return NextResponse.json(await handler(context, searchParams))
+    } catch (error) {
+      return errorResponse(error)
+    }
+  }
+}
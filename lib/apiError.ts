@@ -0,0 +1,39 @@
+export type ApiErrorCode = 'bad_request' | 'unauthorized' | 'forbidden' | 'not_found' | 'query_failed' | 'internal'
+
+// JSON body of every non-2xx response from /api/*
+export interface ApiErrorBody {
+  error: {
+    code: ApiErrorCode
+    message: string
+    details?: unknown
+  }
+}
+
+export class ApiError extends Error {
+  constructor(
+    public readonly status: number,
+    public readonly code: ApiErrorCode,
+    message: string,
+    public readonly details?: unknown
+  ) {
+    super(message)
+    this.name = 'ApiError'
+  }
+
+  toBody(): ApiErrorBody {
+    return { error: { code: this.code, message: this.message, details: this.details } }
+  }
+}
+
+const isPostgrestError = (error: unknown): error is { message: string; code: string; details: string | null; hint: string | null } => {
+  return typeof error === 'object' && error !== null && 'message' in error && 'code' in error && 'details' in error
+}
+
+// Maps anything thrown while serving a request onto an ApiError
+export const toApiError = (error: unknown): ApiError => {
+  if (error instanceof ApiError) return error
+  if (isPostgrestError(error)) {
+    return new ApiError(502, 'query_failed', error.message, { code: error.code, details: error.details, hint: error.hint })
+  }
+  return new ApiError(500, 'internal', error instanceof Error ? error.message : 'Unexpected error')
+}
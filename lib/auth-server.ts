@@ -0,0 +1,43 @@
+import { createServerSupabase } from '@/lib/supabase-server'
+import { type Role, type UserAccess, ROLE_PERMISSIONS } from '@/lib/auth'
+
+export interface SessionAccess {
+  userId: string
+  email: string | null
+  // null when the user is signed in but has no usable role or page assignment
+  access: UserAccess | null
+}
+
+// Resolves the signed-in user and their role; null when there is no session
+export const getSessionAccess = async (): Promise<SessionAccess | null> => {
+  const supabase = await createServerSupabase()
+  const { data: { user } } = await supabase.auth.getUser()
+  if (!user) return null
+
+  const session = { userId: user.id, email: user.email ?? null }
+
+  const { data: roleRow, error: roleError } = await supabase
+    .from('user_roles')
+    .select('role')
+    .eq('user_id', user.id)
+    .maybeSingle()
+
+  if (roleError) throw roleError
+  const role = roleRow?.role as Role | undefined
+  if (!role || !(role in ROLE_PERMISSIONS)) return { ...session, access: null }
+
+  if (ROLE_PERMISSIONS[role].includes('view_all_pages')) {
+    return { ...session, access: { ...session, role, pageIds: null } }
+  }
+
+  const { data: pageRows, error: pageError } = await supabase
+    .from('user_pages')
+    .select('page_id')
+    .eq('user_id', user.id)
+
+  if (pageError) throw pageError
+  const pageIds = (pageRows ?? []).map((row) => row.page_id as string)
+  if (pageIds.length === 0) return { ...session, access: null }
+
+  return { ...session, access: { ...session, role, pageIds } }
+}
@@ -0,0 +1,54 @@
+export type Role = 'admin' | 'manager' | 'analyst' | 'client_viewer'
+
+export type Permission = 'view_all_pages' | 'view_finance' | 'moderate' | 'annotate' | 'manage'
+
+// Keep in sync with can_view_page() / can_view_finance() / can_moderate() / can_annotate() in supabase/migrations
+export const ROLE_PERMISSIONS: Record<Role, Permission[]> = {
+  admin: ['view_all_pages', 'view_finance', 'moderate', 'annotate', 'manage'],
+  manager: ['view_all_pages', 'view_finance', 'moderate', 'annotate'],
+  analyst: ['view_all_pages', 'annotate'],
+  client_viewer: []
+}
+
+export const ROLE_LABELS: Record<Role, string> = {
+  admin: 'Admin',
+  manager: 'Manager',
+  analyst: 'Analyst',
+  client_viewer: 'Client Viewer'
+}
+
+export interface UserAccess {
+  userId: string
+  email: string | null
+  role: Role
+  // Pages assigned to the user; null when the role can see every page
+  pageIds: string[] | null
+}
+
+export const hasPermission = (access: UserAccess, permission: Permission): boolean => {
+  return ROLE_PERMISSIONS[access.role].includes(permission)
+}
+
+// Narrows a requested page selection to what the user may see. An empty request means
+// "all pages", which for restricted users is their assigned list.
+export const scopePageIds = (access: UserAccess, requested: string[]): string[] => {
+  if (access.pageIds === null) return requested
+  const allowed = requested.filter((id) => access.pageIds?.includes(id))
+  return allowed.length ? allowed : access.pageIds
+}
+
+// Resolves relative paths only; never requested as a page
+const REDIRECT_BASE = 'http://redirect.invalid'
+
+// Only same-origin paths are allowed as post-login destinations. Browsers read `/\evil.com`
+// as `//evil.com`, so backslashes and control characters are refused outright, and what is
+// left must still resolve to the same origin.
+export const safeRedirectPath = (value: string | null, fallback = '/bms_dashboard'): string => {
+  if (!value || !value.startsWith('/') || /[\\\u0000-\u001f\u007f]/.test(value)) return fallback
+  try {
+    const url = new URL(value, REDIRECT_BASE)
+    return url.origin === REDIRECT_BASE ? `${url.pathname}${url.search}${url.hash}` : fallback
+  } catch {
+    return fallback
+  }
+}
@@ -0,0 +1,153 @@
+import type { AlertChannel } from '@/lib/alerts'
+
+// Where a message goes on each channel. Alerts go to the team's, set in the environment;
+// report schedules store their own in report_recipients.
+export interface ChannelRecipients {
+  email_to: string[]
+  webhook_url: string | null
+  // Sent as X-BMS-Alert-Secret or X-BMS-Report-Secret so the receiver can check the sender
+  webhook_secret: string | null
+  line_token: string | null
+}
+
+// What every channel receives. LINE gets the text, email the HTML when there is one (with the
+// text as the fallback), and webhooks `data` as JSON alongside the subject, text and HTML.
+export interface ChannelMessage {
+  source: 'alert' | 'report'
+  subject: string
+  text: string
+  html?: string
+  data: Record<string, unknown>
+}
+
+export interface ChannelSender {
+  channel: AlertChannel
+  send: (recipients: ChannelRecipients, message: ChannelMessage) => Promise<void>
+}
+
+export type ChannelSenders = Partial<Record<AlertChannel, ChannelSender>>
+
+const SECRET_HEADERS: Record<ChannelMessage['source'], string> = {
+  alert: 'X-BMS-Alert-Secret',
+  report: 'X-BMS-Report-Secret'
+}
+
+// Channels that have nowhere to send to
+export const channelsWithoutRecipients = (channels: AlertChannel[], recipients: ChannelRecipients): AlertChannel[] => {
+  return channels.filter((channel) => {
+    switch (channel) {
+      case 'email': return recipients.email_to.length === 0
+      case 'webhook': return !recipients.webhook_url
+      case 'line': return !recipients.line_token
+    }
+  })
+}
+
+const ensureOk = async (response: Response, channel: AlertChannel) => {
+  if (!response.ok) {
+    const detail = await response.text().catch(() => '')
+    throw new Error(`${channel} delivery failed with ${response.status}${detail ? `: ${detail}` : ''}`)
+  }
+}
+
+// POSTs the message as JSON, e.g. to Slack/Discord bridges or an internal service
+export const createWebhookSender = (): ChannelSender => ({
+  channel: 'webhook',
+  send: async ({ webhook_url: url, webhook_secret: secret }, message) => {
+    const response = await fetch(url!, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(secret ? { [SECRET_HEADERS[message.source]]: secret } : {})
+      },
+      body: JSON.stringify({ ...message.data, subject: message.subject, text: message.text, html: message.html })
+    })
+    await ensureOk(response, 'webhook')
+  }
+})
+
+export const createLineSender = (): ChannelSender => ({
+  channel: 'line',
+  send: async ({ line_token: token }, message) => {
+    const response = await fetch('https://notify-api.line.me/api/notify', {
+      method: 'POST',
+      headers: { Authorization: `Bearer ${token}`, 'Content-Type': 'application/x-www-form-urlencoded' },
+      body: new URLSearchParams({ message: `\n${message.text}` })
+    })
+    await ensureOk(response, 'line')
+  }
+})
+
+// Sends through Resend's HTTP API so no SMTP client is needed in the serverless runtime
+export const createEmailSender = ({ apiKey, from }: { apiKey: string; from: string }): ChannelSender => ({
+  channel: 'email',
+  send: async ({ email_to: to }, message) => {
+    const response = await fetch('https://api.resend.com/emails', {
+      method: 'POST',
+      headers: { Authorization: `Bearer ${apiKey}`, 'Content-Type': 'application/json' },
+      body: JSON.stringify({ from, to, subject: message.subject, text: message.text, html: message.html })
+    })
+    await ensureOk(response, 'email')
+  }
+})
+
+const describeRecipient = (channel: AlertChannel, recipients: ChannelRecipients): string => {
+  switch (channel) {
+    case 'email': return recipients.email_to.join(', ')
+    case 'webhook': return recipients.webhook_url ?? ''
+    case 'line': return 'LINE Notify'
+  }
+}
+
+// Records deliveries instead of sending them; used locally and in tests
+export const createStubSender = (channel: AlertChannel, sent: ChannelMessage[] = []) => {
+  const sender: ChannelSender & { sent: ChannelMessage[] } = {
+    channel,
+    sent,
+    send: async (recipients, message) => {
+      sent.push(message)
+      console.info(`[${message.source}s:${channel} → ${describeRecipient(channel, recipients)}] ${message.text}`)
+    }
+  }
+  return sender
+}
+
+// Every channel, or stubs for all of them. Email also needs a Resend key and sender address.
+export const createChannelSenders = (
+  { stub = false, resendApiKey, emailFrom }: { stub?: boolean; resendApiKey?: string; emailFrom?: string }
+): ChannelSenders => {
+  if (stub) {
+    return { webhook: createStubSender('webhook'), line: createStubSender('line'), email: createStubSender('email') }
+  }
+
+  const senders: ChannelSenders = { webhook: createWebhookSender(), line: createLineSender() }
+  if (resendApiKey && emailFrom) senders.email = createEmailSender({ apiKey: resendApiKey, from: emailFrom })
+  return senders
+}
+
+// Sends the message on each channel and returns what happened per channel: 'sent', 'not
+// configured' or 'failed: <reason>'. A failing channel does not stop the others.
+export const deliverMessage = async (
+  senders: ChannelSenders,
+  channels: AlertChannel[],
+  recipients: ChannelRecipients,
+  message: ChannelMessage
+): Promise<Record<string, string>> => {
+  const unreachable = channelsWithoutRecipients(channels, recipients)
+  const delivery: Record<string, string> = {}
+  await Promise.all(channels.map(async (channel) => {
+    const sender = senders[channel]
+    if (!sender || unreachable.includes(channel)) {
+      delivery[channel] = 'not configured'
+      return
+    }
+    try {
+      await sender.send(recipients, message)
+      delivery[channel] = 'sent'
+    } catch (error) {
+      console.error(`${message.source === 'alert' ? 'Alert' : 'Report'} delivery via ${channel} failed:`, error)
+      delivery[channel] = `failed: ${error instanceof Error ? error.message : 'unknown error'}`
+    }
+  }))
+  return delivery
+}
@@ -0,0 +1,157 @@
+import type { DbClient } from '@/lib/supabase'
+import { type DateRange, addDays, toDateParam } from '@/lib/dateRange'
+import type { MetricFilters } from '@/lib/metrics'
+import { THB_RATES } from '@/lib/currency'
+
+// Weeks of follow-up after each cohort's first-chat week
+export const COHORT_WEEKS = 8
+
+// The customer list is capped like drill-downs; the summary and cohorts still cover everyone
+export const MAX_CUSTOMER_ROWS = 5000
+
+const WEEK_MS = 7 * 24 * 60 * 60 * 1000
+
+// One PSID whose first chat falls inside the selected window
+export interface CustomerJourney {
+  psid: string
+  pageId: string
+  firstContact: string
+  // Milliseconds from first contact; null when it has not happened by the horizon
+  timeToLead: number | null
+  timeToPurchase: number | null
+  // Purchase intents, the same events behind Total Buy
+  purchases: number
+  // Purchase value in THB up to the horizon; currencies without a rate are left out
+  lifetimeValue: number
+}
+
+export interface CustomerSummary {
+  customers: number
+  leads: number
+  buyers: number
+  repeatBuyers: number
+  // Share of buyers who bought more than once, in percent; null without buyers
+  repeatPurchaseRate: number | null
+  medianTimeToLead: number | null
+  medianTimeToPurchase: number | null
+  totalValue: number
+  // Average lifetime value per buyer
+  averageLifetimeValue: number
+}
+
+export interface CohortWeek {
+  // Monday of the first-chat week, 'YYYY-MM-DD'
+  weekStart: string
+  customers: number
+  // Index N is week N after the first-chat week (0 = that week). Null once the week is
+  // past the horizon, so young cohorts show fewer columns.
+  // Share of the cohort that chatted in week N, in percent
+  retention: (number | null)[]
+  // Share of the cohort that had purchased by the end of week N, in percent
+  conversion: (number | null)[]
+}
+
+export interface CohortReport {
+  summary: CustomerSummary
+  cohorts: CohortWeek[]
+  customers: CustomerJourney[]
+  truncated: boolean
+  // Follow-up events are counted up to here: now, or COHORT_WEEKS after the window
+  horizon: string
+}
+
+const percent = (numerator: number, denominator: number): number | null => {
+  return denominator > 0 ? Math.round((numerator / denominator) * 1000) / 10 : null
+}
+
+// Shape of the cohort_report() result
+interface CohortReportResult {
+  summary: {
+    customers: number
+    leads: number
+    buyers: number
+    repeat_buyers: number
+    median_time_to_lead: number | null
+    median_time_to_purchase: number | null
+    total_value: number
+  }
+  cohorts: { week_start: number; customers: number; retained: number[]; converted: number[] }[]
+  customers: {
+    psid: string
+    page_id: string
+    first_contact: number
+    time_to_lead: number | null
+    time_to_purchase: number | null
+    purchases: number
+    lifetime_value: number
+  }[]
+}
+
+// Customers are PSIDs whose first ever chat falls inside `range`; their later chats, leads and
+// purchases are followed up to the horizon. The cohorts and their return weeks are worked out
+// by cohort_report() in the database.
+export const fetchCohortReport = async (
+  client: DbClient,
+  range: DateRange,
+  filters: MetricFilters = {},
+  now: Date = new Date()
+): Promise<CohortReport> => {
+  const horizon = new Date(Math.min(now.getTime(), addDays(range.to, COHORT_WEEKS * 7).getTime()))
+
+  const { data, error } = await client.rpc('cohort_report', {
+    range_from: range.from.toISOString(),
+    range_to: range.to.toISOString(),
+    horizon: horizon.toISOString(),
+    thb_rates: THB_RATES,
+    cohort_weeks: COHORT_WEEKS,
+    customer_limit: MAX_CUSTOMER_ROWS,
+    filter_page_ids: filters.pageIds?.length ? filters.pageIds : undefined
+  })
+  if (error) throw error
+  const result = data as unknown as CohortReportResult
+
+  const { summary: counts } = result
+  const summary: CustomerSummary = {
+    customers: counts.customers,
+    leads: counts.leads,
+    buyers: counts.buyers,
+    repeatBuyers: counts.repeat_buyers,
+    repeatPurchaseRate: percent(counts.repeat_buyers, counts.buyers),
+    medianTimeToLead: counts.median_time_to_lead,
+    medianTimeToPurchase: counts.median_time_to_purchase,
+    totalValue: counts.total_value,
+    averageLifetimeValue: counts.buyers ? counts.total_value / counts.buyers : 0
+  }
+
+  const cohorts: CohortWeek[] = result.cohorts.map(({ week_start: week, customers, retained, converted }) => {
+    // Weeks that have not started by the horizon stay empty
+    const started = (offset: number) => week + offset * WEEK_MS < horizon.getTime()
+    return {
+      weekStart: toDateParam(new Date(week)),
+      customers,
+      retention: retained.map((count, offset) => (started(offset) ? percent(count, customers) : null)),
+      conversion: converted.map((count, offset) => (started(offset) ? percent(count, customers) : null))
+    }
+  })
+
+  const customers: CustomerJourney[] = result.customers.map((customer) => ({
+    psid: customer.psid,
+    pageId: customer.page_id,
+    firstContact: new Date(customer.first_contact).toISOString(),
+    timeToLead: customer.time_to_lead,
+    timeToPurchase: customer.time_to_purchase,
+    purchases: customer.purchases,
+    lifetimeValue: customer.lifetime_value
+  }))
+
+  return { summary, cohorts, customers, truncated: counts.customers > MAX_CUSTOMER_ROWS, horizon: horizon.toISOString() }
+}
+
+// Strips purchase value for roles without finance permission
+export const cohortsWithoutFinance = (report: CohortReport): CohortReport => {
+  return {
+    ...report,
+    summary: { ...report.summary, totalValue: 0, averageLifetimeValue: 0 },
+    customers: report.customers.map((customer) => ({ ...customer, lifetimeValue: 0 }))
+  }
+}
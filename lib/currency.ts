@@ -0,0 +1,37 @@
+export const BASE_CURRENCY = 'THB'
+
+// THB per one unit of each currency. Override with NEXT_PUBLIC_THB_RATES, e.g. {"USD":36.5,"EUR":39.2}
+const DEFAULT_THB_RATES: Record<string, number> = {
+  THB: 1,
+  USD: 36.5
+}
+
+const parseRateOverrides = (raw: string | undefined): Record<string, number> => {
+  if (!raw) return {}
+  try {
+    const parsed = JSON.parse(raw) as Record<string, unknown>
+    return Object.fromEntries(
+      Object.entries(parsed)
+        .filter(([, rate]) => typeof rate === 'number' && rate > 0)
+        .map(([currency, rate]) => [currency.toUpperCase(), rate as number])
+    )
+  } catch (error) {
+    console.error('Invalid NEXT_PUBLIC_THB_RATES:', error)
+    return {}
+  }
+}
+
+export const THB_RATES: Record<string, number> = {
+  ...DEFAULT_THB_RATES,
+  ...parseRateOverrides(process.env.NEXT_PUBLIC_THB_RATES)
+}
+
+export const normalizeCurrency = (currency: string | null | undefined): string => {
+  return currency?.trim().toUpperCase() || BASE_CURRENCY
+}
+
+// Returns null when there is no rate for the currency so callers can flag it instead of guessing
+export const toThb = (amount: number, currency: string, rates: Record<string, number> = THB_RATES): number | null => {
+  const rate = rates[normalizeCurrency(currency)]
+  return rate === undefined ? null : amount * rate
+}
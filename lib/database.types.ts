@@ -0,0 +1,851 @@
+// Maintained by hand to match supabase/migrations: update it in the same change as the
+// migration. Kept in the shape `supabase gen types typescript --local` emits, so it can be
+// regenerated and diffed against a local database at any time.
+
+export type Json =
+  | string
+  | number
+  | boolean
+  | null
+  | { [key: string]: Json | undefined }
+  | Json[]
+
+export type Database = {
+  public: {
+    Tables: {
+      ad_spend: {
+        Row: {
+          campaign_name: string
+          clicks: number | null
+          currency: string
+          date: string
+          id: number
+          import_id: string | null
+          impressions: number | null
+          page_id: string
+          spend: number
+          updated_at: string
+        }
+        Insert: {
+          campaign_name?: string
+          clicks?: number | null
+          currency?: string
+          date: string
+          id?: number
+          import_id?: string | null
+          impressions?: number | null
+          page_id: string
+          spend: number
+          updated_at?: string
+        }
+        Update: {
+          campaign_name?: string
+          clicks?: number | null
+          currency?: string
+          date?: string
+          id?: number
+          import_id?: string | null
+          impressions?: number | null
+          page_id?: string
+          spend?: number
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "ad_spend_import_id_fkey"
+            columns: ["import_id"]
+            isOneToOne: false
+            referencedRelation: "ad_spend_imports"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      ad_spend_imports: {
+        Row: {
+          created_at: string
+          date_from: string
+          date_to: string
+          id: string
+          imported_by: string | null
+          label: string
+          page_id: string
+          row_count: number
+          source: string
+        }
+        Insert: {
+          created_at?: string
+          date_from: string
+          date_to: string
+          id?: string
+          imported_by?: string | null
+          label: string
+          page_id: string
+          row_count: number
+          source: string
+        }
+        Update: {
+          created_at?: string
+          date_from?: string
+          date_to?: string
+          id?: string
+          imported_by?: string | null
+          label?: string
+          page_id?: string
+          row_count?: number
+          source?: string
+        }
+        Relationships: []
+      }
+      alert_events: {
+        Row: {
+          acknowledged_at: string | null
+          acknowledged_by: string | null
+          created_at: string
+          delivery: Json
+          id: number
+          message: string
+          metric: string
+          page_ids: string[] | null
+          rule_id: string | null
+          rule_name: string
+          threshold: number
+          value: number
+          window_from: string
+          window_to: string
+        }
+        Insert: {
+          acknowledged_at?: string | null
+          acknowledged_by?: string | null
+          created_at?: string
+          delivery?: Json
+          id?: number
+          message: string
+          metric: string
+          page_ids?: string[] | null
+          rule_id?: string | null
+          rule_name: string
+          threshold: number
+          value: number
+          window_from: string
+          window_to: string
+        }
+        Update: {
+          acknowledged_at?: string | null
+          acknowledged_by?: string | null
+          created_at?: string
+          delivery?: Json
+          id?: number
+          message?: string
+          metric?: string
+          page_ids?: string[] | null
+          rule_id?: string | null
+          rule_name?: string
+          threshold?: number
+          value?: number
+          window_from?: string
+          window_to?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "alert_events_rule_id_fkey"
+            columns: ["rule_id"]
+            isOneToOne: false
+            referencedRelation: "alert_rules"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      alert_rules: {
+        Row: {
+          channels: string[]
+          cooldown_minutes: number
+          created_at: string
+          created_by: string | null
+          enabled: boolean
+          id: string
+          last_triggered_at: string | null
+          metric: string
+          name: string
+          operator: string
+          page_ids: string[] | null
+          threshold: number
+          window: string
+          window_hours: number | null
+        }
+        Insert: {
+          channels?: string[]
+          cooldown_minutes?: number
+          created_at?: string
+          created_by?: string | null
+          enabled?: boolean
+          id?: string
+          last_triggered_at?: string | null
+          metric: string
+          name: string
+          operator: string
+          page_ids?: string[] | null
+          threshold: number
+          window: string
+          window_hours?: number | null
+        }
+        Update: {
+          channels?: string[]
+          cooldown_minutes?: number
+          created_at?: string
+          created_by?: string | null
+          enabled?: boolean
+          id?: string
+          last_triggered_at?: string | null
+          metric?: string
+          name?: string
+          operator?: string
+          page_ids?: string[] | null
+          threshold?: number
+          window?: string
+          window_hours?: number | null
+        }
+        Relationships: []
+      }
+      annotations: {
+        Row: {
+          author_email: string | null
+          created_at: string
+          created_by: string | null
+          ends_at: string | null
+          id: string
+          note: string | null
+          page_ids: string[] | null
+          starts_at: string
+          title: string
+        }
+        Insert: {
+          author_email?: string | null
+          created_at?: string
+          created_by?: string | null
+          ends_at?: string | null
+          id?: string
+          note?: string | null
+          page_ids?: string[] | null
+          starts_at: string
+          title: string
+        }
+        Update: {
+          author_email?: string | null
+          created_at?: string
+          created_by?: string | null
+          ends_at?: string | null
+          id?: string
+          note?: string | null
+          page_ids?: string[] | null
+          starts_at?: string
+          title?: string
+        }
+        Relationships: []
+      }
+      dashboard_layouts: {
+        Row: {
+          layout: Json
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          layout: Json
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          layout?: Json
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      goals: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          direction: string
+          id: string
+          metric: string
+          page_ids: string[] | null
+          period: string
+          target: number
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          direction?: string
+          id?: string
+          metric: string
+          page_ids?: string[] | null
+          period: string
+          target: number
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          direction?: string
+          id?: string
+          metric?: string
+          page_ids?: string[] | null
+          period?: string
+          target?: number
+        }
+        Relationships: []
+      }
+      intent_registry: {
+        Row: {
+          category: string
+          color: string
+          funnel_position: number | null
+          intent_type: string
+          label: string
+        }
+        Insert: {
+          category?: string
+          color?: string
+          funnel_position?: number | null
+          intent_type: string
+          label: string
+        }
+        Update: {
+          category?: string
+          color?: string
+          funnel_position?: number | null
+          intent_type?: string
+          label?: string
+        }
+        Relationships: []
+      }
+      intent_statistics: {
+        Row: {
+          id: number
+          intent_type: string
+          monthly_count: number
+          page_id: string
+          today_count: number
+          updated_at: string
+          weekly_count: number
+        }
+        Insert: {
+          id?: number
+          intent_type: string
+          monthly_count?: number
+          page_id: string
+          today_count?: number
+          updated_at?: string
+          weekly_count?: number
+        }
+        Update: {
+          id?: number
+          intent_type?: string
+          monthly_count?: number
+          page_id?: string
+          today_count?: number
+          updated_at?: string
+          weekly_count?: number
+        }
+        Relationships: []
+      }
+      intents: {
+        Row: {
+          created_at: string
+          false_positive_at: string | null
+          false_positive_by: string | null
+          id: number
+          intent_type: string
+          page_id: string
+          psid: string
+          reason: string | null
+        }
+        Insert: {
+          created_at?: string
+          false_positive_at?: string | null
+          false_positive_by?: string | null
+          id?: number
+          intent_type: string
+          page_id: string
+          psid: string
+          reason?: string | null
+        }
+        Update: {
+          created_at?: string
+          false_positive_at?: string | null
+          false_positive_by?: string | null
+          id?: number
+          intent_type?: string
+          page_id?: string
+          psid?: string
+          reason?: string | null
+        }
+        Relationships: []
+      }
+      pages: {
+        Row: {
+          ad_account_id: string | null
+          ad_account_name: string | null
+          id: string
+          name: string
+        }
+        Insert: {
+          ad_account_id?: string | null
+          ad_account_name?: string | null
+          id: string
+          name: string
+        }
+        Update: {
+          ad_account_id?: string | null
+          ad_account_name?: string | null
+          id?: string
+          name?: string
+        }
+        Relationships: []
+      }
+      psid_inputs: {
+        Row: {
+          created_at: string
+          id: number
+          page_id: string
+          psid: string
+        }
+        Insert: {
+          created_at?: string
+          id?: number
+          page_id: string
+          psid: string
+        }
+        Update: {
+          created_at?: string
+          id?: number
+          page_id?: string
+          psid?: string
+        }
+        Relationships: []
+      }
+      psid_inputs_statistics: {
+        Row: {
+          id: number
+          metric_type: string
+          monthly_count: number
+          page_id: string
+          today_count: number
+          updated_at: string
+          weekly_count: number
+        }
+        Insert: {
+          id?: number
+          metric_type: string
+          monthly_count?: number
+          page_id: string
+          today_count?: number
+          updated_at?: string
+          weekly_count?: number
+        }
+        Update: {
+          id?: number
+          metric_type?: string
+          monthly_count?: number
+          page_id?: string
+          today_count?: number
+          updated_at?: string
+          weekly_count?: number
+        }
+        Relationships: []
+      }
+      purchase: {
+        Row: {
+          created_at: string
+          currency: string | null
+          id: number
+          page_id: string
+          psid: string | null
+          value: number | null
+        }
+        Insert: {
+          created_at?: string
+          currency?: string | null
+          id?: number
+          page_id: string
+          psid?: string | null
+          value?: number | null
+        }
+        Update: {
+          created_at?: string
+          currency?: string | null
+          id?: number
+          page_id?: string
+          psid?: string | null
+          value?: number | null
+        }
+        Relationships: []
+      }
+      report_recipients: {
+        Row: {
+          email_to: string[]
+          line_token: string | null
+          schedule_id: string
+          updated_at: string
+          webhook_secret: string | null
+          webhook_url: string | null
+        }
+        Insert: {
+          email_to?: string[]
+          line_token?: string | null
+          schedule_id: string
+          updated_at?: string
+          webhook_secret?: string | null
+          webhook_url?: string | null
+        }
+        Update: {
+          email_to?: string[]
+          line_token?: string | null
+          schedule_id?: string
+          updated_at?: string
+          webhook_secret?: string | null
+          webhook_url?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "report_recipients_schedule_id_fkey"
+            columns: ["schedule_id"]
+            isOneToOne: true
+            referencedRelation: "report_schedules"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      report_schedules: {
+        Row: {
+          channels: string[]
+          created_at: string
+          created_by: string | null
+          enabled: boolean
+          frequency: string
+          id: string
+          include_finance: boolean
+          last_delivery: Json | null
+          last_sent_at: string | null
+          name: string
+          page_ids: string[] | null
+          send_hour: number
+        }
+        Insert: {
+          channels?: string[]
+          created_at?: string
+          created_by?: string | null
+          enabled?: boolean
+          frequency: string
+          id?: string
+          include_finance?: boolean
+          last_delivery?: Json | null
+          last_sent_at?: string | null
+          name: string
+          page_ids?: string[] | null
+          send_hour?: number
+        }
+        Update: {
+          channels?: string[]
+          created_at?: string
+          created_by?: string | null
+          enabled?: boolean
+          frequency?: string
+          id?: string
+          include_finance?: boolean
+          last_delivery?: Json | null
+          last_sent_at?: string | null
+          name?: string
+          page_ids?: string[] | null
+          send_hour?: number
+        }
+        Relationships: []
+      }
+      share_link_views: {
+        Row: {
+          id: number
+          ip: string | null
+          referer: string | null
+          share_link_id: string
+          user_agent: string | null
+          view: string
+          viewed_at: string
+        }
+        Insert: {
+          id?: number
+          ip?: string | null
+          referer?: string | null
+          share_link_id: string
+          user_agent?: string | null
+          view: string
+          viewed_at?: string
+        }
+        Update: {
+          id?: number
+          ip?: string | null
+          referer?: string | null
+          share_link_id?: string
+          user_agent?: string | null
+          view?: string
+          viewed_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "share_link_views_share_link_id_fkey"
+            columns: ["share_link_id"]
+            isOneToOne: false
+            referencedRelation: "share_links"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      share_links: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          expires_at: string
+          id: string
+          include_finance: boolean
+          name: string
+          page_ids: string[]
+          revoked_at: string | null
+          time_frames: string[]
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          expires_at: string
+          id?: string
+          include_finance?: boolean
+          name: string
+          page_ids: string[]
+          revoked_at?: string | null
+          time_frames: string[]
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          expires_at?: string
+          id?: string
+          include_finance?: boolean
+          name?: string
+          page_ids?: string[]
+          revoked_at?: string | null
+          time_frames?: string[]
+        }
+        Relationships: []
+      }
+      user_pages: {
+        Row: {
+          page_id: string
+          user_id: string
+        }
+        Insert: {
+          page_id: string
+          user_id: string
+        }
+        Update: {
+          page_id?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      user_preferences: {
+        Row: {
+          calendar: string
+          locale: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          calendar?: string
+          locale?: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          calendar?: string
+          locale?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      user_roles: {
+        Row: {
+          role: string
+          user_id: string
+        }
+        Insert: {
+          role: string
+          user_id: string
+        }
+        Update: {
+          role?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+    }
+    Views: {
+      [_ in never]: never
+    }
+    Functions: {
+      acknowledge_alert: {
+        Args: { target_alert_id: number }
+        Returns: {
+          acknowledged_at: string | null
+          acknowledged_by: string | null
+          created_at: string
+          delivery: Json
+          id: number
+          message: string
+          metric: string
+          page_ids: string[] | null
+          rule_id: string | null
+          rule_name: string
+          threshold: number
+          value: number
+          window_from: string
+          window_to: string
+        }[]
+      }
+      bangkok_bucket: {
+        Args: { ts: string; granularity: string }
+        Returns: string
+      }
+      can_annotate: {
+        Args: Record<PropertyKey, never>
+        Returns: boolean
+      }
+      can_moderate: {
+        Args: Record<PropertyKey, never>
+        Returns: boolean
+      }
+      can_view_alert: {
+        Args: { alert_page_ids: string[]; alert_metric: string }
+        Returns: boolean
+      }
+      can_view_annotation: {
+        Args: { annotation_page_ids: string[] }
+        Returns: boolean
+      }
+      can_view_finance: {
+        Args: Record<PropertyKey, never>
+        Returns: boolean
+      }
+      can_view_page: {
+        Args: { target_page_id: string }
+        Returns: boolean
+      }
+      can_view_report: {
+        Args: { report_page_ids: string[]; report_include_finance: boolean }
+        Returns: boolean
+      }
+      cohort_report: {
+        Args: {
+          range_from: string
+          range_to: string
+          horizon: string
+          thb_rates: Json
+          cohort_weeks: number
+          customer_limit: number
+          filter_page_ids?: string[]
+        }
+        Returns: Json
+      }
+      current_role_name: {
+        Args: Record<PropertyKey, never>
+        Returns: string
+      }
+      heatmap_counts: {
+        Args: {
+          range_from: string
+          range_to: string
+          filter_page_ids?: string[]
+        }
+        Returns: {
+          weekday: number
+          hour: number
+          chats: number
+          leads: number
+          purchases: number
+        }[]
+      }
+      import_ad_spend: {
+        Args: {
+          target_page_id: string
+          import_source: string
+          import_label: string
+          records: Json
+          importer_id?: string
+        }
+        Returns: {
+          created_at: string
+          date_from: string
+          date_to: string
+          id: string
+          imported_by: string | null
+          label: string
+          page_id: string
+          row_count: number
+          source: string
+        }[]
+      }
+      moderation_summary: {
+        Args: {
+          range_from: string
+          range_to: string
+          bad_intent_types: string[]
+          granularity: string
+          filter_page_ids?: string[]
+          top_offenders?: number
+        }
+        Returns: Json
+      }
+      normalize_reason: {
+        Args: { reason: string }
+        Returns: string
+      }
+      set_intent_false_positive: {
+        Args: { target_intent_id: number; is_false_positive: boolean }
+        Returns: {
+          created_at: string
+          false_positive_at: string | null
+          false_positive_by: string | null
+          id: number
+          intent_type: string
+          page_id: string
+          psid: string
+          reason: string | null
+        }[]
+      }
+      trend_buckets: {
+        Args: {
+          range_from: string
+          range_to: string
+          granularity: string
+          filter_page_ids?: string[]
+        }
+        Returns: {
+          bucket_time: number
+          chats: number
+          intents: Json
+          revenue: Json
+        }[]
+      }
+    }
+    Enums: {
+      [_ in never]: never
+    }
+    CompositeTypes: {
+      [_ in never]: never
+    }
+  }
+}
+
+type PublicSchema = Database['public']
+
+export type Tables<T extends keyof PublicSchema['Tables']> = PublicSchema['Tables'][T]['Row']
+
+export type TablesInsert<T extends keyof PublicSchema['Tables']> = PublicSchema['Tables'][T]['Insert']
+
+export type TablesUpdate<T extends keyof PublicSchema['Tables']> = PublicSchema['Tables'][T]['Update']
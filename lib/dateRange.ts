@@ -0,0 +1,155 @@
+export type TimeFrame = 'today' | '7days' | '30days' | 'custom'
+
+export type PresetTimeFrame = Exclude<TimeFrame, 'custom'>
+
+// Half-open window [from, to) used by every range query
+export interface DateRange {
+  from: Date
+  to: Date
+}
+
+export const BANGKOK_TIME_ZONE = 'Asia/Bangkok'
+
+export const PRESET_TIME_FRAMES: PresetTimeFrame[] = ['today', '7days', '30days']
+
+const HOUR_MS = 60 * 60 * 1000
+const DAY_MS = 24 * HOUR_MS
+// Thailand has no daylight saving, so a fixed offset is safe
+const BANGKOK_OFFSET_MS = 7 * HOUR_MS
+
+const PRESET_DAYS: Record<PresetTimeFrame, number> = {
+  today: 1,
+  '7days': 7,
+  '30days': 30
+}
+
+export const startOfBangkokDay = (date: Date): Date => {
+  const shifted = date.getTime() + BANGKOK_OFFSET_MS
+  return new Date(shifted - (shifted % DAY_MS) - BANGKOK_OFFSET_MS)
+}
+
+// Monday 00:00 Bangkok time of the week containing `date`
+export const startOfBangkokWeek = (date: Date): Date => {
+  const day = startOfBangkokDay(date)
+  const weekday = new Date(day.getTime() + BANGKOK_OFFSET_MS).getUTCDay()
+  return new Date(day.getTime() - ((weekday + 6) % 7) * DAY_MS)
+}
+
+// 00:00 Bangkok time on the first of the month containing `date`, or `months` months later
+export const startOfBangkokMonth = (date: Date, months = 0): Date => {
+  const shifted = new Date(date.getTime() + BANGKOK_OFFSET_MS)
+  return new Date(Date.UTC(shifted.getUTCFullYear(), shifted.getUTCMonth() + months, 1) - BANGKOK_OFFSET_MS)
+}
+
+export const addDays = (date: Date, days: number): Date => {
+  return new Date(date.getTime() + days * DAY_MS)
+}
+
+export const rangeDays = (range: DateRange): number => {
+  return Math.max(1, Math.round((range.to.getTime() - range.from.getTime()) / DAY_MS))
+}
+
+// The window of equal length immediately before `range`
+export const previousRange = (range: DateRange): DateRange => {
+  return { from: addDays(range.from, -rangeDays(range)), to: range.from }
+}
+
+export const presetRange = (timeFrame: PresetTimeFrame, now: Date = new Date()): DateRange => {
+  const to = addDays(startOfBangkokDay(now), 1)
+  return { from: addDays(to, -PRESET_DAYS[timeFrame]), to }
+}
+
+// Windows the user is likely to switch to next: the other presets, or the equal-length
+// windows either side of a custom one (never past today)
+export const neighbourRanges = (timeFrame: TimeFrame, range: DateRange, now: Date = new Date()): DateRange[] => {
+  if (timeFrame !== 'custom') {
+    return PRESET_TIME_FRAMES.filter((preset) => preset !== timeFrame).map((preset) => presetRange(preset, now))
+  }
+  const next = { from: range.to, to: addDays(range.to, rangeDays(range)) }
+  return next.to <= presetRange('today', now).to ? [previousRange(range), next] : [previousRange(range)]
+}
+
+export type Granularity = 'hour' | 'day'
+
+// Single-day windows are charted by hour, anything longer by day
+export const rangeGranularity = (range: DateRange): Granularity => {
+  return rangeDays(range) === 1 ? 'hour' : 'day'
+}
+
+export const startOfBucket = (date: Date, granularity: Granularity): Date => {
+  // Bangkok is a whole-hour offset, so UTC hours line up with local hours
+  return granularity === 'day'
+    ? startOfBangkokDay(date)
+    : new Date(date.getTime() - (date.getTime() % HOUR_MS))
+}
+
+export const bucketStarts = (range: DateRange, granularity: Granularity): Date[] => {
+  const step = granularity === 'day' ? DAY_MS : HOUR_MS
+  const starts: Date[] = []
+  for (let time = startOfBucket(range.from, granularity).getTime(); time < range.to.getTime(); time += step) {
+    starts.push(new Date(time))
+  }
+  return starts
+}
+
+// 'YYYY-MM-DD' of the Bangkok calendar day containing `date`
+export const toDateParam = (date: Date): string => {
+  return new Date(date.getTime() + BANGKOK_OFFSET_MS).toISOString().slice(0, 10)
+}
+
+// 'YYYY-MM-DD HH:mm' in Bangkok time, for exports
+export const toBangkokDateTime = (date: Date): string => {
+  return new Date(date.getTime() + BANGKOK_OFFSET_MS).toISOString().slice(0, 16).replace('T', ' ')
+}
+
+// Value for an <input type="datetime-local">, which has no time zone, on the Bangkok clock
+export const toDateTimeInput = (date: Date): string => {
+  return toBangkokDateTime(date).replace(' ', 'T')
+}
+
+// Reads a datetime-local value as Bangkok time, whatever the browser's zone; null when malformed
+export const fromDateTimeInput = (value: string): Date | null => {
+  if (!/^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}$/.test(value)) return null
+  const time = Date.parse(`${value}:00Z`)
+  return Number.isNaN(time) ? null : new Date(time - BANGKOK_OFFSET_MS)
+}
+
+// Bangkok midnight of a 'YYYY-MM-DD' string, or null when it is malformed
+export const fromDateParam = (value: string | null): Date | null => {
+  if (!value || !/^\d{4}-\d{2}-\d{2}$/.test(value)) return null
+  const utcMidnight = Date.parse(`${value}T00:00:00Z`)
+  if (Number.isNaN(utcMidnight)) return null
+  return new Date(utcMidnight - BANGKOK_OFFSET_MS)
+}
+
+// Custom ranges are inclusive calendar days in the URL (?from=2025-07-01&to=2025-07-07)
+export const customRange = (fromDay: Date, toDay: Date): DateRange => {
+  const [start, end] = fromDay <= toDay ? [fromDay, toDay] : [toDay, fromDay]
+  return { from: startOfBangkokDay(start), to: addDays(startOfBangkokDay(end), 1) }
+}
+
+export const parseRangeParams = (
+  params: URLSearchParams,
+  now: Date = new Date()
+): { timeFrame: TimeFrame; range: DateRange } => {
+  const from = fromDateParam(params.get('from'))
+  const to = fromDateParam(params.get('to'))
+  if (from && to) {
+    return { timeFrame: 'custom', range: customRange(from, to) }
+  }
+
+  const preset = params.get('range') as PresetTimeFrame | null
+  const timeFrame = preset && PRESET_TIME_FRAMES.includes(preset) ? preset : 'today'
+  return { timeFrame, range: presetRange(timeFrame, now) }
+}
+
+export const rangeSearchParams = (timeFrame: TimeFrame, range: DateRange): URLSearchParams => {
+  const params = new URLSearchParams()
+  if (timeFrame === 'custom') {
+    params.set('from', toDateParam(range.from))
+    params.set('to', toDateParam(addDays(range.to, -1)))
+  } else if (timeFrame !== 'today') {
+    params.set('range', timeFrame)
+  }
+  return params
+}
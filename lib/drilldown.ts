@@ -0,0 +1,140 @@
+import type { DbClient } from '@/lib/supabase'
+import type { DateRange } from '@/lib/dateRange'
+import type { Tables } from '@/lib/database.types'
+import {
+  type IntentType,
+  type MetricFilters,
+  type NumericMetricKey,
+  CHAT_TABLE,
+  INTENT_METRICS,
+  INTENT_TABLE,
+  PURCHASE_TABLE,
+  fetchAllInRange
+} from '@/lib/metrics'
+import { normalizeCurrency, toThb } from '@/lib/currency'
+import { fetchIntentCatalog, intentTypesIn } from '@/lib/intents'
+
+// Drill-downs load the newest rows first and stop here; the table pages through them client-side
+export const MAX_DRILLDOWN_ROWS = 5000
+
+export type DrillDownSource = 'chat' | 'intent' | 'purchase'
+
+// One event behind a metric card. Fields that do not apply to the source are null.
+export interface DrillDownRow {
+  id: string
+  source: DrillDownSource
+  created_at: string
+  page_id: string
+  psid: string | null
+  intent_type: string | null
+  value: number | null
+  currency: string | null
+  // null when the currency has no THB rate
+  value_thb: number | null
+}
+
+export interface DrillDownResult {
+  rows: DrillDownRow[]
+  // More rows exist than MAX_DRILLDOWN_ROWS
+  truncated: boolean
+}
+
+// What a drill-down lists: the rows behind a metric card, or explicit intent types
+// (a custom good/bad grouping, or the card of a single intent)
+export interface DrillDownTarget {
+  metric?: NumericMetricKey
+  intentTypes?: string[]
+}
+
+const ROLLUP_CATEGORIES = { totalGoodCustomer: 'good', totalBadCustomer: 'bad' } as const
+
+const fixedIntentsFor = (metric: NumericMetricKey): string[] => {
+  return (Object.keys(INTENT_METRICS) as IntentType[]).filter((intentType) => INTENT_METRICS[intentType] === metric)
+}
+
+// Which table sits behind each card; anything else (ratios, averages) has no drill-down
+export const drillDownSource = (target: DrillDownTarget): DrillDownSource | null => {
+  if (target.intentTypes) return 'intent'
+  if (!target.metric) return null
+  if (target.metric === 'totalChat') return 'chat'
+  if (target.metric === 'totalBuyValue' || target.metric === 'totalOrders') return 'purchase'
+  return target.metric in ROLLUP_CATEGORIES || fixedIntentsFor(target.metric).length ? 'intent' : null
+}
+
+const intentsFor = async (client: DbClient, target: DrillDownTarget, filters: MetricFilters): Promise<string[]> => {
+  if (target.intentTypes) return target.intentTypes
+  if (target.metric === 'totalGoodCustomer' || target.metric === 'totalBadCustomer') {
+    return intentTypesIn(await fetchIntentCatalog(client, filters.pageIds), ROLLUP_CATEGORIES[target.metric])
+  }
+  return target.metric ? fixedIntentsFor(target.metric) : []
+}
+
+const emptyRow = { psid: null, intent_type: null, value: null, currency: null, value_thb: null }
+
+export const fetchDrillDownRows = async (
+  client: DbClient,
+  target: DrillDownTarget,
+  range: DateRange,
+  filters: MetricFilters = {}
+): Promise<DrillDownResult> => {
+  // One extra row tells us whether the list was cut off
+  const options = { limit: MAX_DRILLDOWN_ROWS + 1, newestFirst: true }
+  let rows: DrillDownRow[]
+
+  switch (drillDownSource(target)) {
+    case 'chat': {
+      const data = await fetchAllInRange<Pick<Tables<'psid_inputs'>, 'id' | 'psid' | 'page_id' | 'created_at'>>(
+        client, CHAT_TABLE, 'id, psid, page_id, created_at', range, filters, options
+      )
+      rows = data.map((row) => ({ ...emptyRow, ...row, id: `chat-${row.id}`, source: 'chat' }))
+      break
+    }
+    case 'intent': {
+      const intentTypes = await intentsFor(client, target, filters)
+      // An empty rollup would otherwise match every intent
+      if (!intentTypes.length) {
+        rows = []
+        break
+      }
+      const data = await fetchAllInRange<Pick<Tables<'intents'>, 'id' | 'psid' | 'page_id' | 'intent_type' | 'created_at'>>(
+        client, INTENT_TABLE, 'id, psid, page_id, intent_type, created_at', range, filters,
+        { ...options, intentTypes }
+      )
+      rows = data.map((row) => ({ ...emptyRow, ...row, id: `intent-${row.id}`, source: 'intent' }))
+      break
+    }
+    case 'purchase': {
+      const data = await fetchAllInRange<Pick<Tables<'purchase'>, 'id' | 'psid' | 'page_id' | 'value' | 'currency' | 'created_at'>>(
+        client, PURCHASE_TABLE, 'id, psid, page_id, value, currency, created_at', range, filters, options
+      )
+      rows = data.map((row) => {
+        const currency = normalizeCurrency(row.currency)
+        return {
+          ...emptyRow,
+          ...row,
+          id: `purchase-${row.id}`,
+          source: 'purchase',
+          currency,
+          value_thb: toThb(row.value ?? 0, currency)
+        }
+      })
+      break
+    }
+    default:
+      rows = []
+  }
+
+  return { rows: rows.slice(0, MAX_DRILLDOWN_ROWS), truncated: rows.length > MAX_DRILLDOWN_ROWS }
+}
+
+// Meta Business Suite inbox by default; override with NEXT_PUBLIC_CONVERSATION_URL_TEMPLATE
+// using {pageId} and {psid} placeholders
+const CONVERSATION_URL_TEMPLATE = process.env.NEXT_PUBLIC_CONVERSATION_URL_TEMPLATE
+  || 'https://business.facebook.com/latest/inbox/all?asset_id={pageId}&selected_item_id={psid}'
+
+export const conversationUrl = (pageId: string, psid: string | null): string | null => {
+  if (!psid) return null
+  return CONVERSATION_URL_TEMPLATE
+    .replace('{pageId}', encodeURIComponent(pageId))
+    .replace('{psid}', encodeURIComponent(psid))
+}
@@ -0,0 +1,161 @@
+import { type DateRange, type TimeFrame, addDays, toBangkokDateTime, toDateParam } from '@/lib/dateRange'
+import {
+  type MetricData,
+  type NumericMetricKey,
+  AD_SPEND_KPIS,
+  CONVERSION_RATIOS,
+  FINANCE_METRICS,
+  METRIC_LABELS,
+  averageOrderValue,
+  percentChange,
+  revenuePerChat
+} from '@/lib/metrics'
+import type { TrendData } from '@/lib/trends'
+
+// Everything on screen for the selected window, as handed to the exporters
+export interface DashboardSnapshot {
+  timeFrame: TimeFrame
+  range: DateRange
+  pageNames: string[]
+  metrics: MetricData
+  previousMetrics: MetricData
+  trends: TrendData
+  showFinance: boolean
+}
+
+export type ExportCell = string | number | null
+
+export interface ExportTable {
+  name: string
+  header: string[]
+  rows: ExportCell[][]
+}
+
+const SUMMARY_METRICS: NumericMetricKey[] = [
+  'totalChat', 'totalLead', 'totalBuy', 'totalBuyValue', 'totalOrders',
+  'totalGoodCustomer', 'totalViewContent', 'totalAddToCart', 'totalInitiateCheckout',
+  'totalBadCustomer', 'totalSpam', 'totalBlocking', 'totalBan', 'totalAdSpend'
+]
+
+const roundChange = (current: number, previous: number): number | null => {
+  const change = percentChange(current, previous)
+  return change === null ? null : Math.round(change * 10) / 10
+}
+
+const ratioPercent = (numerator: number, denominator: number): number | null => {
+  return denominator > 0 ? Math.round((numerator / denominator) * 1000) / 10 : null
+}
+
+export const buildSummaryTable = (snapshot: DashboardSnapshot): ExportTable => {
+  const { metrics, previousMetrics, showFinance } = snapshot
+  const rows: ExportCell[][] = SUMMARY_METRICS
+    .filter((key) => showFinance || !FINANCE_METRICS.includes(key))
+    .map((key) => [METRIC_LABELS[key], metrics[key], previousMetrics[key], roundChange(metrics[key], previousMetrics[key])])
+
+  if (showFinance) {
+    const aov = averageOrderValue(metrics)
+    const previousAov = averageOrderValue(previousMetrics)
+    const rpc = revenuePerChat(metrics)
+    const previousRpc = revenuePerChat(previousMetrics)
+    rows.push(['Average Order Value', aov, previousAov, roundChange(aov, previousAov)])
+    rows.push(['Revenue per Chat', rpc, previousRpc, roundChange(rpc, previousRpc)])
+    AD_SPEND_KPIS.forEach((kpi) => {
+      const value = kpi.value(metrics)
+      const previousValue = kpi.value(previousMetrics)
+      rows.push([kpi.label, value, previousValue, roundChange(value, previousValue)])
+    })
+  }
+
+  return { name: 'Summary', header: ['Metric', 'Value', 'Previous Period', 'Change %'], rows }
+}
+
+export const buildConversionTable = (snapshot: DashboardSnapshot): ExportTable => {
+  const { metrics, previousMetrics } = snapshot
+  return {
+    name: 'Conversions',
+    header: ['Ratio', 'Numerator', 'Denominator', 'Value %', 'Previous Period %'],
+    rows: CONVERSION_RATIOS.map((ratio) => [
+      ratio.label,
+      metrics[ratio.numerator],
+      metrics[ratio.denominator],
+      ratioPercent(metrics[ratio.numerator], metrics[ratio.denominator]),
+      ratioPercent(previousMetrics[ratio.numerator], previousMetrics[ratio.denominator])
+    ])
+  }
+}
+
+export const buildTrendTable = (snapshot: DashboardSnapshot): ExportTable => {
+  const series = snapshot.trends.series.filter((item) => snapshot.showFinance || item.axis !== 'value')
+  return {
+    name: 'Trend',
+    header: ['Time (Bangkok)', ...series.map((item) => item.label)],
+    rows: snapshot.trends.points.map((point) => [
+      snapshot.trends.granularity === 'day' ? toDateParam(new Date(point.time)) : toBangkokDateTime(new Date(point.time)),
+      ...series.map((item) => point[item.key])
+    ])
+  }
+}
+
+export const buildExportTables = (snapshot: DashboardSnapshot): ExportTable[] => {
+  return [buildSummaryTable(snapshot), buildConversionTable(snapshot), buildTrendTable(snapshot)]
+}
+
+const escapeCsv = (cell: ExportCell): string => {
+  if (cell === null) return ''
+  const text = String(cell)
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+export const toCsv = (table: ExportTable): string => {
+  return [table.header, ...table.rows].map((row) => row.map(escapeCsv).join(',')).join('\r\n')
+}
+
+// bms-7days-2025-07-01_2025-07-07-summary.csv
+export const exportFileName = (snapshot: DashboardSnapshot, suffix: string, extension: string): string => {
+  const window = `${toDateParam(snapshot.range.from)}_${toDateParam(addDays(snapshot.range.to, -1))}`
+  return `bms-${snapshot.timeFrame}-${window}${suffix ? `-${suffix}` : ''}.${extension}`
+}
+
+const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob)
+  const link = document.createElement('a')
+  link.href = url
+  link.download = fileName
+  link.click()
+  // Some browsers start the download after click() returns, so the URL has to outlive it
+  setTimeout(() => URL.revokeObjectURL(url), 1000)
+}
+
+export const downloadCsv = (table: ExportTable, fileName: string) => {
+  // The BOM makes Excel read Thai text as UTF-8
+  downloadBlob(new Blob(['\uFEFF', toCsv(table)], { type: 'text/csv;charset=utf-8' }), fileName)
+}
+
+// `windowLabel` names the window in the viewer's language, e.g. timeFrameLabel from useI18n
+export const downloadXlsx = async (snapshot: DashboardSnapshot, fileName: string, windowLabel: string) => {
+  // Only pulled into the bundle when someone actually exports
+  const { default: writeXlsxFile } = await import('write-excel-file/browser')
+
+  const info: ExportTable = {
+    name: 'Info',
+    header: ['Field', 'Value'],
+    rows: [
+      ['Window', windowLabel],
+      ['From (Bangkok)', toBangkokDateTime(snapshot.range.from)],
+      ['To (Bangkok, exclusive)', toBangkokDateTime(snapshot.range.to)],
+      ['Pages', snapshot.pageNames.length ? snapshot.pageNames.join(', ') : 'All pages'],
+      ['Generated (Bangkok)', toBangkokDateTime(new Date())]
+    ]
+  }
+
+  const sheets = [info, ...buildExportTables(snapshot)].map((table) => ({
+    sheet: table.name,
+    data: [
+      table.header.map((value) => ({ value, fontWeight: 'bold' as const })),
+      ...table.rows.map((row) => row.map((value) => (value === null ? null : { value })))
+    ],
+    columns: table.header.map((_, index) => ({ width: index === 0 ? 28 : 16 }))
+  }))
+
+  await writeXlsxFile(sheets).toFile(fileName)
+}
@@ -0,0 +1,51 @@
+import { BANGKOK_TIME_ZONE, type Granularity } from '@/lib/dateRange'
+import { BASE_CURRENCY } from '@/lib/currency'
+
+// Server-side output (exports, notifications) and anything outside the dashboard's I18nProvider.
+// In the dashboard, take the formatters from useI18n() so they follow the user's language.
+export const DEFAULT_INTL_LOCALE = 'th-TH'
+
+export const formatNumber = (num: number, locale: string = DEFAULT_INTL_LOCALE) => {
+  return new Intl.NumberFormat(locale).format(num)
+}
+
+export const formatCurrency = (num: number, currency: string = BASE_CURRENCY, locale: string = DEFAULT_INTL_LOCALE) => {
+  return new Intl.NumberFormat(locale, {
+    style: 'currency',
+    currency,
+    // ฿ rather than "THB" in English too
+    currencyDisplay: 'narrowSymbol'
+  }).format(num)
+}
+
+// Elapsed time such as time-to-lead: minutes under an hour, hours under two days, then days
+export const formatDuration = (ms: number, locale: string = DEFAULT_INTL_LOCALE) => {
+  const minutes = ms / 60000
+  const [value, unit] = minutes < 60 ? [Math.round(minutes), 'minute'] :
+    minutes < 48 * 60 ? [minutes / 60, 'hour'] :
+    [minutes / 1440, 'day']
+  return new Intl.NumberFormat(locale, { style: 'unit', unit, unitDisplay: 'short', maximumFractionDigits: 1 }).format(value)
+}
+
+// Date and time in Bangkok, e.g. for "created at" columns and the header clock
+export const formatDateTime = (date: Date, locale: string = DEFAULT_INTL_LOCALE) => {
+  return new Intl.DateTimeFormat(locale, { timeZone: BANGKOK_TIME_ZONE, dateStyle: 'medium', timeStyle: 'medium' }).format(date)
+}
+
+export const formatDate = (date: Date, locale: string = DEFAULT_INTL_LOCALE) => {
+  return new Intl.DateTimeFormat(locale, { timeZone: BANGKOK_TIME_ZONE, dateStyle: 'medium' }).format(date)
+}
+
+export const formatTime = (date: Date, locale: string = DEFAULT_INTL_LOCALE) => {
+  return new Intl.DateTimeFormat(locale, { timeZone: BANGKOK_TIME_ZONE, timeStyle: 'medium' }).format(date)
+}
+
+// Axis/tooltip label for a bucket start, always in Bangkok time
+export const formatBucket = (time: number, granularity: Granularity, long = false, locale: string = DEFAULT_INTL_LOCALE) => {
+  return new Intl.DateTimeFormat(locale, {
+    timeZone: BANGKOK_TIME_ZONE,
+    ...(granularity === 'hour'
+      ? { hour: '2-digit', minute: '2-digit', ...(long ? { day: 'numeric', month: 'short' } : {}) }
+      : { day: 'numeric', month: 'short', ...(long ? { weekday: 'short', year: 'numeric' } : {}) })
+  }).format(new Date(time))
+}
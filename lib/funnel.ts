@@ -0,0 +1,80 @@
+import type { MetricData } from '@/lib/metrics'
+import { type IntentDefinition, funnelIntents } from '@/lib/intents'
+
+// 'Chat', or an intent_type from the registry
+export type FunnelStageKey = string
+
+export interface FunnelStage {
+  key: FunnelStageKey
+  label: string
+}
+
+const CHAT_STAGE: FunnelStage = { key: 'Chat', label: 'Chat' }
+
+// Chat followed by every registry intent with a funnel position; this is also the default order
+export const funnelStages = (registry: IntentDefinition[]): FunnelStage[] => {
+  return [CHAT_STAGE, ...funnelIntents(registry).map((definition) => ({ key: definition.intent_type, label: definition.label }))]
+}
+
+const stageCount = (metrics: MetricData, key: FunnelStageKey): number => {
+  return key === CHAT_STAGE.key ? metrics.totalChat : metrics.intentCounts[key] ?? 0
+}
+
+export interface FunnelStep {
+  key: FunnelStageKey
+  label: string
+  count: number
+  // Share of the previous stage that reached this one; null for the first stage or an empty previous stage
+  stepConversion: number | null
+  // Share of the first stage that reached this one
+  overallConversion: number | null
+  // People lost between the previous stage and this one
+  dropOff: number
+  dropOffRate: number | null
+}
+
+const ratio = (numerator: number, denominator: number): number | null => {
+  return denominator > 0 ? (numerator / denominator) * 100 : null
+}
+
+export const buildFunnel = (metrics: MetricData, stages: FunnelStage[]): FunnelStep[] => {
+  const counts = stages.map((stage) => stageCount(metrics, stage.key))
+
+  return stages.map(({ key, label }, index) => {
+    const count = counts[index]
+    const previous = index > 0 ? counts[index - 1] : null
+    const stepConversion = previous === null ? null : ratio(count, previous)
+
+    return {
+      key,
+      label,
+      count,
+      stepConversion,
+      overallConversion: ratio(count, counts[0]),
+      dropOff: previous === null ? 0 : Math.max(0, previous - count),
+      dropOffRate: stepConversion === null ? null : Math.max(0, 100 - stepConversion)
+    }
+  })
+}
+
+// Index of the step losing the largest share of its previous stage, or -1 when nothing drops
+export const worstDropOffIndex = (steps: FunnelStep[]): number => {
+  return steps.reduce((worst, step, index) => {
+    if (step.dropOffRate === null || step.dropOffRate <= 0) return worst
+    if (worst === -1 || step.dropOffRate > (steps[worst].dropOffRate ?? 0)) return index
+    return worst
+  }, -1)
+}
+
+// Stages no longer in the registry are dropped from a saved order
+export const parseFunnelOrder = (raw: string | null, stages: FunnelStage[]): FunnelStageKey[] | null => {
+  if (!raw) return null
+  try {
+    const parsed = JSON.parse(raw)
+    if (!Array.isArray(parsed)) return null
+    const keys = parsed.filter((key): key is FunnelStageKey => stages.some((stage) => stage.key === key))
+    return keys.length >= 2 ? Array.from(new Set(keys)) : null
+  } catch {
+    return null
+  }
+}
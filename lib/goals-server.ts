@@ -0,0 +1,49 @@
+import type { DbClient } from '@/lib/supabase'
+import { type MetricData, fetchMetricData } from '@/lib/metrics'
+import { type Goal, type GoalInput, type GoalProgress, evaluateGoal, goalPeriodRange } from '@/lib/goals'
+import { ApiError } from '@/lib/apiError'
+
+// goals_scope_idx allows one goal per metric, period and page set
+const UNIQUE_VIOLATION = '23505'
+
+const duplicateGoal = (error: { code?: string }) => {
+  return error.code === UNIQUE_VIOLATION
+    ? new ApiError(400, 'bad_request', 'A goal for this metric, period and pages already exists')
+    : error
+}
+
+export const fetchGoals = async (client: DbClient): Promise<Goal[]> => {
+  const { data, error } = await client.from('goals').select('*').order('created_at')
+  if (error) throw error
+  return (data ?? []) as Goal[]
+}
+
+export const insertGoal = async (client: DbClient, input: GoalInput, createdBy: string): Promise<Goal> => {
+  const { data, error } = await client.from('goals').insert({ ...input, created_by: createdBy }).select().single()
+  if (error) throw duplicateGoal(error)
+  return data as Goal
+}
+
+export const updateGoalById = async (client: DbClient, id: string, input: Partial<GoalInput>): Promise<Goal> => {
+  const { data, error } = await client.from('goals').update(input).eq('id', id).select().maybeSingle()
+  if (error) throw duplicateGoal(error)
+  if (!data) throw new ApiError(404, 'not_found', 'Goal not found')
+  return data as Goal
+}
+
+// Each goal is measured from the start of its current period until `now` with the same
+// fetchMetricData as the cards. Goals sharing a period and page set share one measurement.
+export const fetchGoalProgress = async (client: DbClient, goals: Goal[], now: Date = new Date()): Promise<GoalProgress[]> => {
+  const measurements = new Map<string, Promise<MetricData>>()
+  const measure = (goal: Goal) => {
+    const key = `${goal.period}|${(goal.page_ids ?? []).join(',')}`
+    let metrics = measurements.get(key)
+    if (!metrics) {
+      const { from } = goalPeriodRange(goal.period, now)
+      metrics = fetchMetricData(client, { from, to: now }, { pageIds: goal.page_ids ?? undefined })
+      measurements.set(key, metrics)
+    }
+    return metrics
+  }
+  return Promise.all(goals.map(async (goal) => evaluateGoal(goal, await measure(goal), now)))
+}
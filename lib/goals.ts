@@ -0,0 +1,197 @@
+import {
+  type DateRange,
+  type TimeFrame,
+  addDays,
+  startOfBangkokDay,
+  startOfBangkokMonth,
+  startOfBangkokWeek
+} from '@/lib/dateRange'
+import { type MetricData, CONVERSION_RATIOS } from '@/lib/metrics'
+import { type AlertMetric, ALERT_METRICS, isRatioMetric, measureRule } from '@/lib/alerts'
+import type { CardSpec } from '@/lib/layout'
+import type { Tables } from '@/lib/database.types'
+import { ApiError } from '@/lib/apiError'
+
+// Goals cover the same metrics as alert rules: MetricData fields and conversion ratios
+export type GoalMetric = AlertMetric
+
+export type GoalPeriod = 'daily' | 'weekly' | 'monthly'
+
+// at_most goals are ceilings, e.g. for bans or ad spend
+export type GoalDirection = 'at_least' | 'at_most'
+
+export type Goal = Omit<Tables<'goals'>, 'metric' | 'period' | 'direction'> & {
+  metric: GoalMetric
+  period: GoalPeriod
+  direction: GoalDirection
+}
+
+// Fields an admin can set when creating or editing a goal
+export type GoalInput = Pick<Goal, 'metric' | 'period' | 'direction' | 'target' | 'page_ids'>
+
+// achieved: a count goal already reached. missed: a ceiling already exceeded.
+export type GoalStatus = 'achieved' | 'on_track' | 'behind' | 'missed' | 'no_data'
+
+// A goal measured over its current period, from the period start until now
+export interface GoalProgress {
+  goal: Goal
+  periodFrom: string
+  periodTo: string
+  // Share of the period that has passed, 0–1
+  elapsed: number
+  // Ratios are percentages; null for a ratio with no denominator yet
+  actual: number | null
+  // Counts: actual extrapolated at the current pace to the end of the period. Ratios: actual.
+  projected: number | null
+  // Where a count goal should be by now at an even pace; the target itself for ratios
+  expected: number
+  status: GoalStatus
+  // Distance from `expected` (or from the target once achieved or missed) on the wrong side, else 0
+  gap: number
+}
+
+export const GOAL_PERIOD_LABELS: Record<GoalPeriod, string> = {
+  daily: 'Daily',
+  weekly: 'Weekly',
+  monthly: 'Monthly'
+}
+
+export const GOAL_DIRECTION_LABELS: Record<GoalDirection, string> = {
+  at_least: 'At least',
+  at_most: 'At most'
+}
+
+export const GOAL_PERIODS = Object.keys(GOAL_PERIOD_LABELS) as GoalPeriod[]
+
+export const GOAL_DIRECTIONS = Object.keys(GOAL_DIRECTION_LABELS) as GoalDirection[]
+
+export const GOAL_METRICS: GoalMetric[] = ALERT_METRICS
+
+// A card shows the goal whose period matches the selected preset, else the longest one
+const TIME_FRAME_PERIODS: Partial<Record<TimeFrame, GoalPeriod>> = {
+  today: 'daily',
+  '7days': 'weekly',
+  '30days': 'monthly'
+}
+
+const PERIOD_PREFERENCE: GoalPeriod[] = ['monthly', 'weekly', 'daily']
+
+// The Bangkok day, Monday–Sunday week or calendar month containing `now`
+export const goalPeriodRange = (period: GoalPeriod, now: Date = new Date()): DateRange => {
+  if (period === 'daily') {
+    const from = startOfBangkokDay(now)
+    return { from, to: addDays(from, 1) }
+  }
+  if (period === 'weekly') {
+    const from = startOfBangkokWeek(now)
+    return { from, to: addDays(from, 7) }
+  }
+  return { from: startOfBangkokMonth(now), to: startOfBangkokMonth(now, 1) }
+}
+
+// Counts are judged against an even pace through the period; ratios against the target as they stand
+export const evaluateGoal = (goal: Goal, metrics: MetricData, now: Date = new Date()): GoalProgress => {
+  const period = goalPeriodRange(goal.period, now)
+  const length = period.to.getTime() - period.from.getTime()
+  const elapsed = Math.min(1, Math.max(0, (now.getTime() - period.from.getTime()) / length))
+  const actual = measureRule(goal.metric, metrics)
+  const atLeast = goal.direction === 'at_least'
+  const base = { goal, periodFrom: period.from.toISOString(), periodTo: period.to.toISOString(), elapsed, actual }
+
+  if (isRatioMetric(goal.metric)) {
+    if (actual === null) return { ...base, projected: null, expected: goal.target, status: 'no_data', gap: 0 }
+    const gap = Math.max(0, atLeast ? goal.target - actual : actual - goal.target)
+    return { ...base, projected: actual, expected: goal.target, status: gap > 0 ? 'behind' : 'on_track', gap }
+  }
+
+  const value = actual ?? 0
+  const expected = goal.target * elapsed
+  const projected = elapsed > 0 ? value / elapsed : value
+  if (atLeast) {
+    if (value >= goal.target) return { ...base, projected, expected, status: 'achieved', gap: 0 }
+    const gap = Math.max(0, expected - value)
+    return { ...base, projected, expected, status: gap > 0 ? 'behind' : 'on_track', gap }
+  }
+  if (value > goal.target) return { ...base, projected, expected, status: 'missed', gap: value - goal.target }
+  const gap = Math.max(0, value - expected)
+  return { ...base, projected, expected, status: gap > 0 ? 'behind' : 'on_track', gap }
+}
+
+// The goal metric a card displays: its MetricData field, or the conversion ratio it shows
+export const cardGoalMetric = (card: CardSpec): GoalMetric | null => {
+  if (card.kind === 'metric') return card.metric
+  if (card.kind !== 'ratio' || card.format !== 'percent') return null
+  const ratio = CONVERSION_RATIOS.find((item) => item.numerator === card.numerator && item.denominator === card.denominator)
+  return ratio?.key ?? null
+}
+
+const samePages = (goalPageIds: string[] | null, pageIds: string[]): boolean => {
+  const goalPages = goalPageIds ?? []
+  return goalPages.length === pageIds.length && goalPages.every((id) => pageIds.includes(id))
+}
+
+// Progress to show on a card for the dashboard's page filter; only goals set for exactly
+// those pages apply, since a goal for one page says nothing about the sum of several
+export const goalForCard = (
+  progress: GoalProgress[],
+  card: CardSpec,
+  pageIds: string[],
+  timeFrame: TimeFrame
+): GoalProgress | undefined => {
+  const metric = cardGoalMetric(card)
+  if (!metric) return undefined
+  const candidates = progress.filter((item) => item.goal.metric === metric && samePages(item.goal.page_ids, pageIds))
+  const preferred = TIME_FRAME_PERIODS[timeFrame]
+  return candidates.find((item) => item.goal.period === preferred)
+    ?? PERIOD_PREFERENCE.map((period) => candidates.find((item) => item.goal.period === period)).find(Boolean)
+}
+
+const invalid = (message: string): never => {
+  throw new ApiError(400, 'bad_request', message)
+}
+
+const isStringArray = (value: unknown): value is string[] => {
+  return Array.isArray(value) && value.every((item) => typeof item === 'string')
+}
+
+// Validates a JSON request body; `partial` allows PATCH bodies with only some fields
+export function parseGoalInput(body: unknown, partial: true): Partial<GoalInput>
+export function parseGoalInput(body: unknown, partial?: false): GoalInput
+export function parseGoalInput(body: unknown, partial = false): Partial<GoalInput> {
+  if (typeof body !== 'object' || body === null) return invalid('Request body must be a JSON object')
+  const input = body as Record<string, unknown>
+  const has = (key: keyof GoalInput) => input[key] !== undefined
+  const result: Partial<GoalInput> = {}
+
+  const required: (keyof GoalInput)[] = ['metric', 'period', 'target']
+  if (!partial) {
+    const missing = required.filter((key) => !has(key))
+    if (missing.length) invalid(`Missing fields: ${missing.join(', ')}`)
+  }
+
+  if (has('metric')) {
+    if (!GOAL_METRICS.includes(input.metric as GoalMetric)) invalid(`Unknown metric "${input.metric}"`)
+    result.metric = input.metric as GoalMetric
+  }
+  if (has('period')) {
+    if (!GOAL_PERIODS.includes(input.period as GoalPeriod)) invalid(`Unknown period "${input.period}"`)
+    result.period = input.period as GoalPeriod
+  }
+  if (has('direction')) {
+    if (!GOAL_DIRECTIONS.includes(input.direction as GoalDirection)) invalid(`Unknown direction "${input.direction}"`)
+    result.direction = input.direction as GoalDirection
+  }
+  if (has('target')) {
+    if (typeof input.target !== 'number' || !Number.isFinite(input.target) || input.target <= 0) {
+      invalid('"target" must be a number above zero')
+    }
+    result.target = input.target as number
+  }
+  if (has('page_ids') || input.page_ids === null) {
+    if (input.page_ids !== null && !isStringArray(input.page_ids)) invalid('"page_ids" must be an array of page ids or null')
+    const pageIds = input.page_ids as string[] | null
+    result.page_ids = pageIds?.length ? [...pageIds].sort() : null
+  }
+
+  return result
+}
@@ -0,0 +1,52 @@
+import type { DateRange } from '@/lib/dateRange'
+import type { DbClient } from '@/lib/supabase'
+import type { MetricFilters } from '@/lib/metrics'
+
+export type HeatmapMeasure = 'chats' | 'leads' | 'purchases'
+
+export const HEATMAP_MEASURES: { key: HeatmapMeasure; label: string }[] = [
+  { key: 'chats', label: 'Chats' },
+  { key: 'leads', label: 'Leads' },
+  { key: 'purchases', label: 'Purchases' }
+]
+
+export const WEEKDAY_LABELS = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun']
+
+// One hour-of-week slot on the Bangkok clock, summed over every week in the window
+export type HeatmapCell = { weekday: number; hour: number } & Record<HeatmapMeasure, number>
+
+export interface HeatmapData {
+  // 7 × 24 cells, Monday 00:00 first
+  cells: HeatmapCell[]
+}
+
+// Share of the slot's chats that led to `measure`, in percent; null for slots without chats
+export const cellConversionRate = (cell: HeatmapCell, measure: Exclude<HeatmapMeasure, 'chats'>): number | null => {
+  return cell.chats > 0 ? (cell[measure] / cell.chats) * 100 : null
+}
+
+// Slots are counted by heatmap_counts() in the database
+export const fetchHeatmapData = async (
+  client: DbClient,
+  range: DateRange,
+  filters: MetricFilters = {}
+): Promise<HeatmapData> => {
+  const { data, error } = await client.rpc('heatmap_counts', {
+    range_from: range.from.toISOString(),
+    range_to: range.to.toISOString(),
+    filter_page_ids: filters.pageIds?.length ? filters.pageIds : undefined
+  })
+  if (error) throw error
+
+  const cells: HeatmapCell[] = []
+  for (let weekday = 0; weekday < 7; weekday++) {
+    for (let hour = 0; hour < 24; hour++) {
+      cells.push({ weekday, hour, chats: 0, leads: 0, purchases: 0 })
+    }
+  }
+  ;(data ?? []).forEach(({ weekday, hour, chats, leads, purchases }) => {
+    cells[weekday * 24 + hour] = { weekday, hour, chats, leads, purchases }
+  })
+
+  return { cells }
+}
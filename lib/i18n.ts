@@ -0,0 +1,85 @@
+import type { DbClient } from '@/lib/supabase'
+import { ApiError } from '@/lib/apiError'
+import { type MessageKey, EN_MESSAGES, TH_LABELS, TH_MESSAGES } from '@/lib/messages'
+
+export type Locale = 'en' | 'th'
+
+// Which year dates are shown in: 2025 (Gregorian) or 2568 (Buddhist era)
+export type CalendarEra = 'gregorian' | 'buddhist'
+
+export interface UserPreferences {
+  locale: Locale
+  calendar: CalendarEra
+}
+
+export const LOCALES: Locale[] = ['en', 'th']
+
+export const CALENDAR_ERAS: CalendarEra[] = ['gregorian', 'buddhist']
+
+// Each language is named in itself so it can be found without reading the current one
+export const LOCALE_LABELS: Record<Locale, string> = {
+  en: 'English',
+  th: 'ไทย'
+}
+
+// Used until a user saves preferences of their own
+export const DEFAULT_PREFERENCES: UserPreferences = { locale: 'en', calendar: 'gregorian' }
+
+const MESSAGES: Record<Locale, Record<MessageKey, string>> = { en: EN_MESSAGES, th: TH_MESSAGES }
+
+export type MessageParams = Record<string, string | number>
+
+// Message for `key` with {placeholders} filled in from `params`
+export const translate = (locale: Locale, key: MessageKey, params: MessageParams = {}): string => {
+  return MESSAGES[locale][key].replace(/\{(\w+)\}/g, (placeholder, name: string) => {
+    const value = params[name]
+    return value === undefined ? placeholder : String(value)
+  })
+}
+
+// Labels kept in English in code and data; unknown text, e.g. a custom card title, is left alone
+export const translateLabel = (locale: Locale, text: string): string => {
+  return locale === 'th' ? TH_LABELS[text] ?? text : text
+}
+
+// BCP 47 tag for Intl formatters, with the calendar pinned so both languages honour the choice
+export const intlLocale = ({ locale, calendar }: UserPreferences): string => {
+  return `${locale === 'th' ? 'th-TH' : 'en-GB'}-u-ca-${calendar === 'buddhist' ? 'buddhist' : 'gregory'}`
+}
+
+const invalid = (message: string): never => {
+  throw new ApiError(400, 'bad_request', `Invalid preferences: ${message}`)
+}
+
+export const parsePreferences = (value: unknown): UserPreferences => {
+  if (typeof value !== 'object' || value === null) return invalid('expected an object')
+  const { locale, calendar } = value as Record<string, unknown>
+  if (!LOCALES.includes(locale as Locale)) invalid(`unknown locale "${locale}"`)
+  if (!CALENDAR_ERAS.includes(calendar as CalendarEra)) invalid(`unknown calendar "${calendar}"`)
+  return { locale: locale as Locale, calendar: calendar as CalendarEra }
+}
+
+export const fetchUserPreferences = async (client: DbClient, userId: string): Promise<UserPreferences> => {
+  const { data, error } = await client
+    .from('user_preferences')
+    .select('locale, calendar')
+    .eq('user_id', userId)
+    .maybeSingle()
+  if (error) throw error
+  return data ? parsePreferences(data) : DEFAULT_PREFERENCES
+}
+
+export const saveUserPreferences = async (
+  client: DbClient,
+  userId: string,
+  preferences: UserPreferences
+): Promise<UserPreferences> => {
+  const { error } = await client.from('user_preferences').upsert({
+    user_id: userId,
+    locale: preferences.locale,
+    calendar: preferences.calendar,
+    updated_at: new Date().toISOString()
+  })
+  if (error) throw error
+  return preferences
+}
@@ -0,0 +1,81 @@
+import type { DbClient } from '@/lib/supabase'
+import type { Tables } from '@/lib/database.types'
+
+export type IntentCategory = 'good' | 'bad' | 'neutral'
+
+// How one raw intent_type emitted by the bot is presented and rolled up
+export type IntentDefinition = Omit<Tables<'intent_registry'>, 'category'> & {
+  category: IntentCategory
+}
+
+// Registry plus the intent types actually present in intent_statistics
+export interface IntentCatalog {
+  registry: IntentDefinition[]
+  // Seen in intent_statistics but missing from the registry
+  unmapped: string[]
+}
+
+export const INTENT_CATEGORY_LABELS: Record<IntentCategory, string> = {
+  good: 'Good',
+  bad: 'Bad',
+  neutral: 'Neutral'
+}
+
+// Used when the intent_registry table is empty; mirrors its seed rows
+export const DEFAULT_INTENT_REGISTRY: IntentDefinition[] = [
+  { intent_type: 'VC', label: 'ViewContent', category: 'good', color: '#14B8A6', funnel_position: 1 },
+  { intent_type: 'ATC', label: 'AddToCart', category: 'good', color: '#06B6D4', funnel_position: 2 },
+  { intent_type: 'IC', label: 'Initiate Checkout', category: 'good', color: '#6366F1', funnel_position: 3 },
+  { intent_type: 'Lead', label: 'Lead', category: 'good', color: '#10B981', funnel_position: 4 },
+  { intent_type: 'Purchase', label: 'Purchase', category: 'good', color: '#F59E0B', funnel_position: 5 },
+  { intent_type: 'Move to Spam', label: 'Spam', category: 'bad', color: '#F97316', funnel_position: null },
+  { intent_type: 'Blocking', label: 'Blocking', category: 'bad', color: '#EF4444', funnel_position: null },
+  { intent_type: 'Ban', label: 'Ban', category: 'bad', color: '#991B1B', funnel_position: null }
+]
+
+const UNMAPPED_COLOR = '#6B7280'
+
+export const fetchIntentRegistry = async (client: DbClient): Promise<IntentDefinition[]> => {
+  const { data, error } = await client.from('intent_registry').select('*').order('intent_type')
+  if (error) throw error
+  return data?.length ? (data as IntentDefinition[]) : DEFAULT_INTENT_REGISTRY
+}
+
+// Distinct intent_type values in intent_statistics for the given pages
+export const fetchSeenIntentTypes = async (client: DbClient, pageIds?: string[]): Promise<string[]> => {
+  let query = client.from('intent_statistics').select('intent_type')
+  if (pageIds?.length) query = query.in('page_id', pageIds)
+  const { data, error } = await query
+  if (error) throw error
+  return Array.from(new Set((data ?? []).map((row) => row.intent_type))).sort()
+}
+
+export const fetchIntentCatalog = async (client: DbClient, pageIds?: string[]): Promise<IntentCatalog> => {
+  const [registry, seen] = await Promise.all([fetchIntentRegistry(client), fetchSeenIntentTypes(client, pageIds)])
+  const known = new Set(registry.map((definition) => definition.intent_type))
+  return { registry, unmapped: seen.filter((intentType) => !known.has(intentType)) }
+}
+
+// Every intent type worth counting: the registry first, then anything unmapped
+export const catalogIntentTypes = (catalog: IntentCatalog): string[] => {
+  return [...catalog.registry.map((definition) => definition.intent_type), ...catalog.unmapped]
+}
+
+// Unmapped intents are shown with their raw name and no category
+export const describeIntent = (catalog: IntentCatalog, intentType: string): IntentDefinition => {
+  return catalog.registry.find((definition) => definition.intent_type === intentType)
+    ?? { intent_type: intentType, label: intentType, category: 'neutral', color: UNMAPPED_COLOR, funnel_position: null }
+}
+
+export const intentTypesIn = (catalog: IntentCatalog, category: IntentCategory): string[] => {
+  return catalogIntentTypes(catalog).filter((intentType) => describeIntent(catalog, intentType).category === category)
+}
+
+// Intents with a funnel position, in funnel order
+export const funnelIntents = (registry: IntentDefinition[]): IntentDefinition[] => {
+  return registry
+    .filter((definition) => definition.funnel_position !== null)
+    .sort((a, b) => (a.funnel_position ?? 0) - (b.funnel_position ?? 0))
+}
+
+export const DEFAULT_INTENT_CATALOG: IntentCatalog = { registry: DEFAULT_INTENT_REGISTRY, unmapped: [] }
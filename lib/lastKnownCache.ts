@@ -0,0 +1,65 @@
+// Last successful dashboard responses, kept in localStorage so a failed or slow request still
+// has real numbers to show (marked stale) instead of zeros. Keys should include the user,
+// the window and the page filter.
+
+const PREFIX = 'bms:lastKnown:v1:'
+// Oldest entries are dropped beyond this, so browsing many windows can't fill the quota
+const MAX_ENTRIES = 40
+
+export interface LastKnown<T> {
+  data: T
+  // Epoch ms of the response
+  savedAt: number
+}
+
+const storage = (): Storage | null => {
+  try {
+    return typeof window === 'undefined' ? null : window.localStorage
+  } catch {
+    // Blocked in some private browsing modes
+    return null
+  }
+}
+
+export const readLastKnown = <T>(key: string): LastKnown<T> | null => {
+  const raw = storage()?.getItem(PREFIX + key)
+  if (!raw) return null
+  try {
+    const entry = JSON.parse(raw) as LastKnown<T>
+    return typeof entry?.savedAt === 'number' ? entry : null
+  } catch {
+    return null
+  }
+}
+
+const prune = (store: Storage) => {
+  const entries: { key: string; savedAt: number }[] = []
+  for (let index = 0; index < store.length; index++) {
+    const key = store.key(index)
+    if (!key?.startsWith(PREFIX)) continue
+    const savedAt = Number(/"savedAt":(\d+)/.exec(store.getItem(key) ?? '')?.[1] ?? 0)
+    entries.push({ key, savedAt })
+  }
+  entries
+    .sort((a, b) => b.savedAt - a.savedAt)
+    .slice(MAX_ENTRIES)
+    .forEach((entry) => store.removeItem(entry.key))
+}
+
+export const writeLastKnown = <T>(key: string, data: T, savedAt = Date.now()) => {
+  const store = storage()
+  if (!store) return
+  const value = JSON.stringify({ savedAt, data })
+  try {
+    store.setItem(PREFIX + key, value)
+    prune(store)
+  } catch (error) {
+    // Over quota: make room once, then give up quietly since the cache is only a fallback
+    try {
+      prune(store)
+      store.setItem(PREFIX + key, value)
+    } catch {
+      console.warn('Could not cache dashboard data:', error)
+    }
+  }
+}
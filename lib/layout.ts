@@ -0,0 +1,294 @@
+import {
+  type IntentType,
+  type MetricData,
+  type NumericMetricKey,
+  CURRENCY_METRICS,
+  FINANCE_METRICS,
+  INTENT_METRICS,
+  METRIC_LABELS,
+  calculatePercentage
+} from '@/lib/metrics'
+import { type IntentCatalog, type IntentCategory, catalogIntentTypes, describeIntent } from '@/lib/intents'
+import { ApiError } from '@/lib/apiError'
+
+export type CardColor = 'blue' | 'green' | 'emerald' | 'red'
+
+export type RatioFormat = 'percent' | 'currency' | 'number'
+
+// A plain MetricData number
+export interface MetricCardSpec {
+  id: string
+  kind: 'metric'
+  metric: NumericMetricKey
+  title?: string
+  color?: CardColor
+  // Set for metrics where an increase is bad (spam, blocking, ban)
+  invertDelta?: boolean
+}
+
+// numerator / denominator, shown as a percentage, money or a plain number
+export interface RatioCardSpec {
+  id: string
+  kind: 'ratio'
+  title: string
+  numerator: NumericMetricKey
+  denominator: NumericMetricKey
+  format: RatioFormat
+  color?: CardColor
+  invertDelta?: boolean
+}
+
+// The count of one raw intent_type, including intents without a MetricData field
+export interface IntentCardSpec {
+  id: string
+  kind: 'intent'
+  intentType: string
+  title?: string
+  color?: CardColor
+  invertDelta?: boolean
+}
+
+export type CardSpec = MetricCardSpec | RatioCardSpec | IntentCardSpec
+
+export interface LayoutRow {
+  id: string
+  title?: string
+  cards: CardSpec[]
+  // Also show a card for every intent in this registry category that has no card elsewhere
+  autoIntents?: IntentCategory
+}
+
+export interface DashboardLayout {
+  rows: LayoutRow[]
+  // Intent types summed into Total Good Customer / Total Bad Customer; the registry
+  // categories apply when these are not set
+  goodIntents?: string[]
+  badIntents?: string[]
+}
+
+export const CARD_COLORS: CardColor[] = ['blue', 'green', 'emerald', 'red']
+
+export const RATIO_FORMAT_LABELS: Record<RatioFormat, string> = {
+  percent: 'Percentage',
+  currency: 'Money (THB)',
+  number: 'Number'
+}
+
+// Shown to users who have not saved a layout of their own
+export const DEFAULT_LAYOUT: DashboardLayout = {
+  rows: [
+    {
+      id: 'overview',
+      cards: [
+        { id: 'chat', kind: 'metric', metric: 'totalChat' },
+        { id: 'lead', kind: 'metric', metric: 'totalLead' },
+        { id: 'buy', kind: 'metric', metric: 'totalBuy' },
+        { id: 'buy-value', kind: 'metric', metric: 'totalBuyValue' }
+      ]
+    },
+    {
+      id: 'revenue',
+      cards: [
+        { id: 'aov', kind: 'ratio', title: 'Average Order Value', numerator: 'totalBuyValue', denominator: 'totalOrders', format: 'currency' },
+        { id: 'revenue-per-chat', kind: 'ratio', title: 'Revenue per Chat', numerator: 'totalBuyValue', denominator: 'totalChat', format: 'currency' }
+      ]
+    },
+    {
+      id: 'ad-spend',
+      cards: [
+        { id: 'ad-spend', kind: 'metric', metric: 'totalAdSpend' },
+        { id: 'cost-per-chat', kind: 'ratio', title: 'Cost per Chat', numerator: 'totalAdSpend', denominator: 'totalChat', format: 'currency', invertDelta: true },
+        { id: 'cost-per-lead', kind: 'ratio', title: 'Cost per Lead', numerator: 'totalAdSpend', denominator: 'totalLead', format: 'currency', invertDelta: true },
+        { id: 'cost-per-purchase', kind: 'ratio', title: 'Cost per Purchase', numerator: 'totalAdSpend', denominator: 'totalBuy', format: 'currency', invertDelta: true },
+        { id: 'roas', kind: 'ratio', title: 'ROAS', numerator: 'totalBuyValue', denominator: 'totalAdSpend', format: 'number' }
+      ]
+    },
+    {
+      id: 'conversion',
+      cards: [
+        { id: 'chat-to-lead', kind: 'ratio', title: 'Chat to Lead %', numerator: 'totalLead', denominator: 'totalChat', format: 'percent', color: 'green' },
+        { id: 'lead-to-buy', kind: 'ratio', title: 'Lead to Buy %', numerator: 'totalBuy', denominator: 'totalLead', format: 'percent', color: 'green' },
+        { id: 'chat-to-buy', kind: 'ratio', title: 'Chat to Buy %', numerator: 'totalBuy', denominator: 'totalChat', format: 'percent', color: 'green' }
+      ]
+    },
+    {
+      id: 'good',
+      autoIntents: 'good',
+      cards: [
+        { id: 'good-customer', kind: 'metric', metric: 'totalGoodCustomer', color: 'emerald' },
+        { id: 'view-content', kind: 'metric', metric: 'totalViewContent', color: 'emerald' },
+        { id: 'add-to-cart', kind: 'metric', metric: 'totalAddToCart', color: 'emerald' },
+        { id: 'initiate-checkout', kind: 'metric', metric: 'totalInitiateCheckout', color: 'emerald' }
+      ]
+    },
+    {
+      id: 'bad',
+      autoIntents: 'bad',
+      cards: [
+        { id: 'bad-customer', kind: 'metric', metric: 'totalBadCustomer', color: 'red', invertDelta: true },
+        { id: 'spam', kind: 'metric', metric: 'totalSpam', color: 'red', invertDelta: true },
+        { id: 'blocking', kind: 'metric', metric: 'totalBlocking', color: 'red', invertDelta: true },
+        { id: 'ban', kind: 'metric', metric: 'totalBan', color: 'red', invertDelta: true }
+      ]
+    },
+    { id: 'other-intents', title: 'Other intents', autoIntents: 'neutral', cards: [] }
+  ]
+}
+
+const CATEGORY_COLORS: Record<IntentCategory, CardColor> = {
+  good: 'emerald',
+  bad: 'red',
+  neutral: 'blue'
+}
+
+export const cardTitle = (card: CardSpec, catalog: IntentCatalog): string => {
+  if (card.kind === 'ratio') return card.title
+  if (card.kind === 'intent') return card.title || describeIntent(catalog, card.intentType).label
+  return card.title || METRIC_LABELS[card.metric]
+}
+
+export const isFinanceCard = (card: CardSpec): boolean => {
+  if (card.kind === 'intent') return false
+  return card.kind === 'metric'
+    ? FINANCE_METRICS.includes(card.metric)
+    : FINANCE_METRICS.includes(card.numerator) || FINANCE_METRICS.includes(card.denominator)
+}
+
+// How a card's number is shown: ratios by their own format, metric cards by the metric
+export const cardFormat = (card: CardSpec): RatioFormat => {
+  if (card.kind === 'ratio') return card.format
+  return card.kind === 'metric' && CURRENCY_METRICS.includes(card.metric) ? 'currency' : 'number'
+}
+
+// Percent ratios are rounded like the original conversion cards; the rest keep their decimals
+export const cardValue = (card: CardSpec, metrics: MetricData): number => {
+  if (card.kind === 'metric') return metrics[card.metric]
+  if (card.kind === 'intent') return metrics.intentCounts[card.intentType] ?? 0
+  if (card.format === 'percent') return calculatePercentage(metrics[card.numerator], metrics[card.denominator])
+  const denominator = metrics[card.denominator]
+  return denominator > 0 ? metrics[card.numerator] / denominator : 0
+}
+
+// Cards of a row, with the automatic intent cards appended. An intent is skipped when the
+// layout already shows it, either as an intent card or through its MetricData field.
+export const rowCards = (row: LayoutRow, layout: DashboardLayout, catalog: IntentCatalog): CardSpec[] => {
+  if (!row.autoIntents) return row.cards
+
+  const allCards = layout.rows.flatMap((item) => item.cards)
+  const shown = (intentType: string) => allCards.some((card) => {
+    if (card.kind === 'intent') return card.intentType === intentType
+    return card.kind === 'metric' && card.metric === INTENT_METRICS[intentType as IntentType]
+  })
+
+  const category = row.autoIntents
+  const autoCards = catalogIntentTypes(catalog)
+    .filter((intentType) => describeIntent(catalog, intentType).category === category && !shown(intentType))
+    .map((intentType): IntentCardSpec => ({
+      id: `auto-${intentType}`,
+      kind: 'intent',
+      intentType,
+      color: CATEGORY_COLORS[category],
+      invertDelta: category === 'bad' || undefined
+    }))
+  return [...row.cards, ...autoCards]
+}
+
+// Applies the user's own good/bad grouping on top of the registry-based totals
+export const applyRollups = (metrics: MetricData, layout: Pick<DashboardLayout, 'goodIntents' | 'badIntents'>): MetricData => {
+  const sum = (intentTypes: string[]) => {
+    return intentTypes.reduce((total, intentType) => total + (metrics.intentCounts[intentType] ?? 0), 0)
+  }
+  return {
+    ...metrics,
+    totalGoodCustomer: layout.goodIntents ? sum(layout.goodIntents) : metrics.totalGoodCustomer,
+    totalBadCustomer: layout.badIntents ? sum(layout.badIntents) : metrics.totalBadCustomer
+  }
+}
+
+export const newCardId = (): string => Math.random().toString(36).slice(2, 10)
+
+const METRIC_KEYS = Object.keys(METRIC_LABELS) as NumericMetricKey[]
+const INTENT_CATEGORIES: IntentCategory[] = ['good', 'bad', 'neutral']
+
+const invalid = (message: string): never => {
+  throw new ApiError(400, 'bad_request', `Invalid layout: ${message}`)
+}
+
+const isMetricKey = (value: unknown): value is NumericMetricKey => METRIC_KEYS.includes(value as NumericMetricKey)
+
+const parseCard = (value: unknown): CardSpec => {
+  if (typeof value !== 'object' || value === null) return invalid('cards must be objects')
+  const card = value as Record<string, unknown>
+  if (typeof card.id !== 'string' || !card.id) invalid('every card needs an id')
+  const color = CARD_COLORS.includes(card.color as CardColor) ? (card.color as CardColor) : undefined
+  const common = {
+    id: card.id as string,
+    color,
+    invertDelta: card.invertDelta === true || undefined
+  }
+
+  if (card.kind === 'metric') {
+    if (!isMetricKey(card.metric)) invalid(`unknown metric "${card.metric}"`)
+    const title = typeof card.title === 'string' && card.title.trim() ? card.title.trim() : undefined
+    return { ...common, kind: 'metric', metric: card.metric as NumericMetricKey, title }
+  }
+  if (card.kind === 'intent') {
+    if (typeof card.intentType !== 'string' || !card.intentType) invalid('intent cards need an intentType')
+    const title = typeof card.title === 'string' && card.title.trim() ? card.title.trim() : undefined
+    return { ...common, kind: 'intent', intentType: card.intentType as string, title }
+  }
+  if (card.kind === 'ratio') {
+    if (!isMetricKey(card.numerator) || !isMetricKey(card.denominator)) invalid('ratio cards need a numerator and denominator metric')
+    if (typeof card.title !== 'string' || !card.title.trim()) invalid('ratio cards need a title')
+    if (!(['percent', 'currency', 'number'] as unknown[]).includes(card.format)) invalid(`unknown ratio format "${card.format}"`)
+    return {
+      ...common,
+      kind: 'ratio',
+      title: (card.title as string).trim(),
+      numerator: card.numerator as NumericMetricKey,
+      denominator: card.denominator as NumericMetricKey,
+      format: card.format as RatioFormat
+    }
+  }
+  return invalid(`unknown card kind "${card.kind}"`)
+}
+
+// Intent types are free-form: the bot may emit intents the registry does not know yet
+const parseIntents = (value: unknown, name: string): string[] | undefined => {
+  if (value === undefined || value === null) return undefined
+  if (!Array.isArray(value) || value.some((intentType) => typeof intentType !== 'string')) {
+    invalid(`${name} must be a list of intent types`)
+  }
+  return value as string[]
+}
+
+// Validates a layout from a request body or the database
+export const parseLayout = (value: unknown): DashboardLayout => {
+  if (typeof value !== 'object' || value === null) return invalid('expected an object')
+  const layout = value as Record<string, unknown>
+  if (!Array.isArray(layout.rows)) invalid('rows must be a list')
+
+  const rows = (layout.rows as unknown[]).map((row): LayoutRow => {
+    if (typeof row !== 'object' || row === null) return invalid('rows must be objects')
+    const { id, title, cards, autoIntents } = row as Record<string, unknown>
+    if (typeof id !== 'string' || !id) invalid('every row needs an id')
+    if (!Array.isArray(cards)) invalid('row cards must be a list')
+    if (autoIntents !== undefined && !INTENT_CATEGORIES.includes(autoIntents as IntentCategory)) {
+      invalid(`unknown intent category "${autoIntents}"`)
+    }
+    return {
+      id: id as string,
+      title: typeof title === 'string' && title.trim() ? title.trim() : undefined,
+      cards: (cards as unknown[]).map(parseCard),
+      autoIntents: autoIntents as IntentCategory | undefined
+    }
+  })
+
+  const goodIntents = parseIntents(layout.goodIntents, 'goodIntents')
+  const badIntents = parseIntents(layout.badIntents, 'badIntents')
+  if (goodIntents?.some((intentType) => badIntents?.includes(intentType))) {
+    invalid('an intent cannot be both good and bad')
+  }
+
+  return { rows, goodIntents, badIntents }
+}
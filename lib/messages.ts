@@ -0,0 +1,973 @@
+// UI message catalogs. English is the source of truth for the set of keys; Thai must cover
+// every one of them, which the Record type enforces.
+
+export const EN_MESSAGES = {
+  'dashboard.title': 'BMS Dashboard',
+  'dashboard.subtitle': 'Business Metrics & Analytics',
+  'dashboard.bangkokTime': 'Bangkok Time (GMT+7)',
+  'dashboard.signOut': 'Sign out',
+  'dashboard.loadError': 'Could not load dashboard data: {message}',
+  'dashboard.trendAnalysis': 'Trend Analysis',
+  'dashboard.activityByHour': 'Activity by Hour',
+  'dashboard.activityByHourHint': 'Weekday and hour of day in Bangkok time, summed over the selected window',
+  'dashboard.pageBreakdown': 'Page Breakdown',
+  'dashboard.customers': 'Customers',
+  'dashboard.moderation': 'Moderation',
+  'dashboard.goals': 'Goals',
+  'dashboard.sharing': 'Share links',
+  'dashboard.adSpend': 'Ad spend',
+  'dashboard.scheduledReports': 'Scheduled reports',
+  'dashboard.customize': 'Customize',
+  'dashboard.unmappedIntents': 'Not in the intent registry yet, shown under Other intents:',
+  'dashboard.noActivity': 'No chats, intents or purchases in this window. The zeros below are real, not a loading problem.',
+
+  'card.periodData': '{period} data',
+  'card.showRows': 'Show the rows behind {title}',
+  'card.new': 'new',
+  'card.versus': 'vs {value} {period}',
+  'card.percentPoints': '{value} pt',
+  'card.noRate': 'no rate, excluded',
+
+  'goal.daily': 'Daily goal',
+  'goal.weekly': 'Weekly goal',
+  'goal.monthly': 'Monthly goal',
+  'goal.atLeast': '{actual} of {target}',
+  'goal.atMost': '{actual} of at most {target}',
+  'goal.achieved': 'Achieved',
+  'goal.onTrack': 'On track',
+  'goal.behindBy': 'Behind by {gap}',
+  'goal.overPaceBy': 'Over pace by {gap}',
+  'goal.overBy': 'Over the limit by {gap}',
+  'goal.noData': 'No data yet',
+  'goal.projected': 'Projected {value} by {end}',
+
+  'timeFrame.today': 'Today',
+  'timeFrame.7days': '7 Days',
+  'timeFrame.30days': '30 Days',
+  'previous.today': 'yesterday',
+  'previous.days': 'prior {days} days',
+  'dateRange.from': 'From',
+  'dateRange.to': 'To',
+  'dateRange.apply': 'Apply',
+
+  'pages.all': 'All pages',
+  'pages.count': '{count} pages',
+  'pages.adAccounts': 'Ad accounts',
+  'pages.pages': 'Pages',
+
+  'sync.connecting': 'Connecting…',
+  'sync.live': 'Live Data',
+  'sync.polling': 'Connection lost, refreshing every {minutes} minutes',
+  'sync.paused': 'Live updates paused',
+  'sync.lastUpdated': 'Last updated {time}',
+  'sync.resume': 'Resume live updates',
+  'sync.pause': 'Pause live updates',
+  'sync.refresh': 'Refresh now',
+
+  'funnel.title': 'Conversion Funnel',
+  'funnel.stages': 'Stages',
+  'funnel.done': 'Done',
+  'funnel.reset': 'Reset to default',
+  'funnel.continue': '↓ {rate} continue',
+  'funnel.dropped': '−{count} dropped ({rate})',
+  'funnel.biggestDropOff': 'Biggest drop-off',
+
+  'section.loadError': 'Could not load this section: {message}',
+  'section.retry': 'Retry',
+  'section.staleSince': 'Stale since {time}',
+  'section.refreshFailed': 'refresh failed: {message}',
+  'section.noData': 'No data for this window',
+
+  'breakdown.page': 'Page',
+
+  'table.open': 'Open',
+  'table.close': 'Close',
+  'table.noRows': 'No rows',
+  'table.zeroRows': '0 rows',
+  'table.range': '{first}–{last} of {total}',
+  'table.perPage': '{size} / page',
+  'table.previous': 'Previous',
+  'table.next': 'Next',
+  'table.loadError': 'Could not load rows',
+
+  'column.timeBangkok': 'Time (Bangkok)',
+  'column.page': 'Page',
+  'column.psid': 'PSID',
+  'column.intent': 'Intent',
+  'column.value': 'Value',
+  'column.valueThb': 'Value (THB)',
+  'column.noRate': 'no rate',
+  'column.conversation': 'Conversation',
+  'column.firstContact': 'First contact',
+  'column.timeToLead': 'Time to lead',
+  'column.timeToPurchase': 'Time to purchase',
+  'column.purchases': 'Purchases',
+  'column.lifetimeValue': 'Lifetime value',
+
+  'drilldown.filter': 'Filter by PSID, page, intent…',
+  'drilldown.truncated': 'Showing the newest {count} rows. Narrow the window or pages to see the rest.',
+
+  'customers.filter': 'Filter by PSID or page…',
+  'customers.none': 'No customers',
+  'customers.zero': '0 customers',
+
+  'cohorts.retention': 'Chatted that week',
+  'cohorts.conversion': 'Purchased by then',
+  'cohorts.none': 'No new customers in this window',
+  'cohorts.week': 'First-chat week',
+  'cohorts.customers': 'Customers',
+  'cohorts.offset': 'W{offset}',
+
+  'layout.title': 'Customize dashboard',
+  'layout.rowPlaceholder': 'Row {number} (no heading)',
+  'layout.row': 'Row {number}',
+  'layout.newRow': 'New row',
+  'layout.moveRowUp': 'Move row up',
+  'layout.moveRowDown': 'Move row down',
+  'layout.removeRow': 'Remove row',
+  'layout.noCards': 'No cards in this row',
+  'layout.moveLeft': 'Move left',
+  'layout.moveRight': 'Move right',
+  'layout.removeCard': 'Remove card',
+  'layout.alsoShow': 'Also show',
+  'layout.noOtherIntents': 'no other intents',
+  'layout.otherIntents': 'every other {category} intent',
+  'layout.addRow': 'Add row',
+  'layout.addCard': 'Add a card',
+  'layout.metric': 'Metric',
+  'layout.intentCount': 'Intent count',
+  'layout.ratio': 'Custom ratio KPI',
+  'layout.cardTitle': 'Title (optional)',
+  'layout.blue': 'blue',
+  'layout.green': 'green',
+  'layout.emerald': 'emerald',
+  'layout.red': 'red',
+  'layout.invertDelta': 'Increase is bad',
+  'layout.add': 'Add',
+  'layout.totals': 'Good and bad customer totals',
+  'layout.useRegistry': 'Use the intent registry',
+  'layout.intent': 'Intent',
+  'layout.good': 'Good',
+  'layout.bad': 'Bad',
+  'layout.neither': 'Neither',
+  'layout.reset': 'Reset to default',
+  'layout.cancel': 'Cancel',
+  'layout.saving': 'Saving…',
+  'layout.save': 'Save layout',
+
+  'share.readOnly': 'Read-only view · valid until {date}',
+  'share.pages': 'Pages: {pages}',
+  'share.unavailable': 'This link is invalid, has expired or was revoked. Ask whoever shared it for a new one.',
+  'share.unknownWidget': 'There is no widget called "{widget}".',
+  'share.loadError': 'Could not load the data: {message}',
+
+  'annotations.title': 'Annotations',
+  'annotations.hint': 'What was going on, numbered as on the trend chart',
+  'annotations.thisPeriod': 'This period',
+  'annotations.previousPeriod': 'Previous period ({period})',
+  'annotations.none': 'Nothing noted',
+  'annotations.add': 'Add annotation',
+  'annotations.name': 'Title',
+  'annotations.namePlaceholder': 'New ad set launched',
+  'annotations.note': 'Note',
+  'annotations.start': 'From (Bangkok time)',
+  'annotations.end': 'Until (optional)',
+  'annotations.save': 'Save',
+  'annotations.cancel': 'Cancel',
+  'annotations.delete': 'Delete annotation',
+  'annotations.confirmDelete': 'Delete the annotation "{title}"?',
+  'annotations.by': 'by {author}',
+  'annotations.error': 'Could not save the annotation: {message}',
+
+  'heatmap.counts': 'Counts',
+  'heatmap.rate': 'Conversion rate',
+  'heatmap.chatTo': 'Chat → {measure}',
+  'heatmap.cellDetail': '{chats} chats · {leads} leads · {purchases} purchases',
+
+  'export.button': 'Export',
+  'export.exporting': 'Exporting…',
+  'export.summaryCsv': 'Summary (CSV)',
+  'export.conversionsCsv': 'Conversions (CSV)',
+  'export.trendCsv': 'Trend (CSV)',
+  'export.xlsx': 'Excel workbook (XLSX)',
+  'export.report': 'Printable report (PDF)',
+  'export.failed': 'Export failed: {message}',
+  'export.dismiss': 'Dismiss',
+
+  'alerts.title': 'Alerts',
+  'alerts.rules': 'Alert rules',
+  'alerts.none': 'No alerts yet',
+  'alerts.acknowledge': 'Acknowledge',
+  'alerts.unacknowledged': 'Alerts ({count} unacknowledged)',
+
+  'common.back': 'Back to dashboard',
+  'common.requestFailed': 'Request failed',
+  'common.saving': 'Saving…',
+  'common.page': 'Page',
+  'common.allPages': 'All pages',
+
+  'customers.title': 'Customers',
+  'customers.subtitle': 'PSIDs whose first chat falls in the selected window, followed until they lead and buy.',
+  'customers.loadError': 'Could not load customers',
+  'customers.share': '{percent}% of customers',
+  'customers.new': 'New customers',
+  'customers.leads': 'Became leads',
+  'customers.bought': 'Bought',
+  'customers.repeatRate': 'Repeat purchase rate',
+  'customers.repeatBuyers': '{count} bought more than once',
+  'customers.medianToLead': 'Median time to lead',
+  'customers.medianToPurchase': 'Median time to purchase',
+  'customers.value': 'Customer value',
+  'customers.averageValue': 'Avg lifetime value',
+  'customers.perBuyer': 'Per buyer',
+  'customers.cohorts': 'Weekly Cohorts',
+  'customers.cohortsHint': 'Customers grouped by the week of their first chat (Monday, Bangkok time)',
+  'customers.horizon': ' · events counted up to {time}',
+  'customers.journeys': 'Customer Journeys',
+  'customers.truncated': 'Showing the top {count} customers; the summary and cohorts include everyone.',
+
+  'adSpend.title': 'Ad Spend',
+  'adSpend.subtitle': 'Daily spend per campaign, used for cost per result and ROAS on the dashboard.',
+  'adSpend.financeOnly': 'Ad spend is only available to roles with finance access.',
+  'adSpend.upload': 'Upload a Meta Ads Manager export',
+  'adSpend.uploadHint': 'Export the campaigns report as CSV with the Day breakdown and the Amount spent column. Days already imported for the same page and campaign are replaced.',
+  'adSpend.file': 'CSV file',
+  'adSpend.importing': 'Importing…',
+  'adSpend.import': 'Import',
+  'adSpend.columnImport': 'Import',
+  'adSpend.days': 'Days',
+  'adSpend.rows': 'Rows',
+  'adSpend.imported': 'Imported',
+  'adSpend.none': 'No ad spend imported yet',
+  'adSpend.delete': 'Remove from history',
+  'adSpend.confirmDelete': 'Remove "{label}" from the import history? The spend it imported stays until another export replaces it.',
+
+
+  'moderation.title': 'Moderation',
+  'moderation.subtitle': 'Bad-customer events in the selected window by reason, page, time and PSID. Events marked as false positives are left out of every count on the dashboard.',
+  'moderation.loadError': 'Could not load moderation data',
+  'moderation.updateError': 'Could not update the event',
+  'moderation.badCustomers': 'Bad customers',
+  'moderation.badRate': 'Bad-customer rate',
+  'moderation.ofChats': 'of {count} chats',
+  'moderation.falsePositives': 'False positives',
+  'moderation.excluded': 'Excluded from counts',
+  'moderation.overTime': 'Over Time',
+  'moderation.overTimeHint': 'Events per period, with the bad-customer rate against Total Chat',
+  'moderation.byReason': 'By Reason',
+  'moderation.reasonKeyword': 'Reason / keyword',
+  'moderation.events': 'Events',
+  'moderation.breakdown': 'Breakdown',
+  'moderation.noReason': 'No reason given',
+  'moderation.byPage': 'By Page',
+  'moderation.rate': 'Rate',
+  'moderation.topOffenders': 'Top Offending PSIDs',
+  'moderation.lastSeen': 'Last seen',
+  'moderation.truncated': 'Showing the newest {count} events; the totals above include everything.',
+  'moderation.time': 'Time',
+  'moderation.type': 'Type',
+  'moderation.reason': 'Reason',
+  'moderation.falsePositive': 'False positive',
+  'moderation.countAgain': 'Count again',
+  'moderation.none': 'No bad-customer events in this window.',
+
+
+  'alerts.rulesTitle': 'Alert Rules',
+  'alerts.subtitle': 'Rules are checked against the dashboard metrics on every scheduled run.',
+  'alerts.loadError': 'Could not load alerts',
+  'alerts.evaluate': 'Evaluate now',
+  'alerts.lastEvaluation': 'Last evaluation',
+  'alerts.noEnabled': 'No enabled rules',
+  'alerts.triggered': 'Triggered',
+  'alerts.ok': 'OK',
+  'alerts.cooldown': 'Cooling down',
+  'alerts.noData': 'No data',
+  'alerts.failed': 'Failed',
+  'alerts.value': ' (value {value})',
+  'alerts.rule': 'Rule',
+  'alerts.pages': 'Pages',
+  'alerts.channels': 'Channels',
+  'alerts.lastTriggered': 'Last triggered',
+  'alerts.noRules': 'No alert rules yet',
+  'alerts.inApp': 'In-app',
+  'alerts.enable': 'Enable',
+  'alerts.disable': 'Disable',
+  'alerts.delete': 'Delete rule',
+  'alerts.confirmDelete': 'Delete the alert rule "{name}"?',
+  'alerts.newRule': 'New rule',
+  'alerts.name': 'Name',
+  'alerts.namePlaceholder': 'Ban spike',
+  'alerts.metric': 'Metric',
+  'alerts.condition': 'Condition',
+  'alerts.threshold': 'Threshold',
+  'alerts.window': 'Window',
+  'alerts.hours': 'Hours',
+  'alerts.lastHours': 'in the last {hours} hours',
+  'alerts.describe': '{metric} {operator} {threshold} {window}',
+  'alerts.preview': 'Preview: {rule}',
+  'alerts.notify': 'Also notify via',
+  'alerts.cooldownMinutes': 'Cooldown (minutes)',
+  'alerts.create': 'Create rule',
+
+
+  'goals.title': 'Goals',
+  'goals.subtitle': 'Targets for the current Bangkok day, week and month. Counts are projected to the end of the period at the pace so far; ratios are compared with the target as they stand.',
+  'goals.none': 'No goals yet',
+  'goals.atLeast': 'At least {target} {metric} {per}',
+  'goals.atMost': 'At most {target} {metric} {per}',
+  'goals.perDay': 'a day',
+  'goals.perWeek': 'a week',
+  'goals.perMonth': 'a month',
+  'goals.promptTarget': 'New target for "{goal}"',
+  'goals.confirmDelete': 'Delete the goal "{goal}"?',
+  'goals.changeTarget': 'Change target',
+  'goals.delete': 'Delete goal',
+  'goals.newGoal': 'New goal',
+  'goals.metric': 'Metric',
+  'goals.period': 'Period',
+  'goals.direction': 'Direction',
+  'goals.target': 'Target',
+  'goals.targetPercent': 'Target (%)',
+  'goals.pages': 'Pages',
+  'goals.pagesHint': 'Cards show a goal when the dashboard is filtered to exactly these pages, or to none for all pages.',
+  'goals.create': 'Create goal',
+
+
+  'shareLinks.title': 'Share Links',
+  'shareLinks.subtitle': 'Read-only dashboards for people without a login, and single cards or charts to embed in other sites. Each link shows only its own pages and time frames, and stops working when it expires or is revoked.',
+  'shareLinks.adminOnly': 'Only admins can create and manage share links.',
+  'shareLinks.none': 'No share links yet',
+  'shareLinks.active': 'active',
+  'shareLinks.expired': 'expired',
+  'shareLinks.revoked': 'revoked',
+  'shareLinks.withRevenue': ' · with revenue',
+  'shareLinks.created': 'Created {date}',
+  'shareLinks.revokedAt': 'revoked {time}',
+  'shareLinks.expiredAt': 'expired {time}',
+  'shareLinks.expiresAt': 'expires {time}',
+  'shareLinks.accessLog': 'Access log',
+  'shareLinks.revoke': 'Revoke link',
+  'shareLinks.confirmRevoke': 'Revoke "{name}"? Anyone using the link or its embeds loses access straight away.',
+  'shareLinks.copied': 'Copied',
+  'shareLinks.copyLink': 'Copy link',
+  'shareLinks.copyEmbed': 'Copy embed',
+  'shareLinks.notOpened': 'Not opened yet',
+  'shareLinks.when': 'When',
+  'shareLinks.view': 'View',
+  'shareLinks.ip': 'IP',
+  'shareLinks.browser': 'Browser',
+  'shareLinks.embeddedIn': 'Embedded in',
+  'shareLinks.newLink': 'New share link',
+  'shareLinks.name': 'Name',
+  'shareLinks.namePlaceholder': 'Client A live numbers',
+  'shareLinks.pages': 'Pages',
+  'shareLinks.pagesHint': 'Pick at least one; a link never shows pages added later.',
+  'shareLinks.timeFrames': 'Time frames',
+  'shareLinks.days': 'Valid for (days)',
+  'shareLinks.includeFinance': 'Include revenue and ad spend',
+  'shareLinks.creating': 'Creating…',
+  'shareLinks.create': 'Create link',
+
+
+  'schedules.title': 'Scheduled Reports',
+  'schedules.subtitle': 'Summaries of the previous day or week, compared with the period before, sent at a set Bangkok time.',
+  'schedules.sendDue': 'Send due reports',
+  'schedules.lastRun': 'Last run',
+  'schedules.noEnabled': 'No enabled schedules',
+  'schedules.sent': 'Sent',
+  'schedules.notDue': 'Not due yet',
+  'schedules.noRecipients': 'No recipients',
+  'schedules.schedule': 'Schedule',
+  'schedules.pages': 'Pages',
+  'schedules.channels': 'Channels',
+  'schedules.lastSent': 'Last sent',
+  'schedules.none': 'No report schedules yet',
+  'schedules.dailyAt': 'Daily at {time}',
+  'schedules.weeklyAt': 'Mondays at {time}',
+  'schedules.withRevenue': ' · with revenue',
+  'schedules.paused': ' · paused',
+  'schedules.defaultRecipient': 'default recipient',
+  'schedules.noRecipient': 'no recipient',
+  'schedules.tokenSet': 'token set',
+  'schedules.preview': 'Preview the latest report',
+  'schedules.pause': 'Pause',
+  'schedules.resume': 'Resume',
+  'schedules.delete': 'Delete schedule',
+  'schedules.confirmDelete': 'Delete the report schedule "{name}"?',
+  'schedules.previewTitle': 'Preview: {name}',
+  'schedules.previewHint': 'Built from current data for the latest send time; nothing was sent.',
+  'schedules.email': 'Email',
+  'schedules.text': 'Text',
+  'schedules.closePreview': 'Close preview',
+  'schedules.emailPreview': 'Email preview',
+  'schedules.newSchedule': 'New schedule',
+  'schedules.name': 'Name',
+  'schedules.namePlaceholder': 'Client A morning summary',
+  'schedules.frequency': 'Frequency',
+  'schedules.sendAt': 'Send at (Bangkok)',
+  'schedules.includeFinance': 'Include revenue and ad spend',
+  'schedules.coversDay': '{schedule}, covering the previous day.',
+  'schedules.coversWeek': '{schedule}, covering the previous Monday–Sunday week.',
+  'schedules.sendVia': 'Send via',
+  'schedules.recipientsHint': 'Each schedule goes only to the recipients set here.',
+  'schedules.emailTo': 'Email to',
+  'schedules.webhookUrl': 'Webhook URL',
+  'schedules.webhookSecret': 'Webhook secret (optional)',
+  'schedules.lineToken': 'LINE Notify token for the client\'s group',
+  'schedules.create': 'Create schedule',
+
+
+  'report.title': 'BMS Performance Report',
+  'report.loadError': 'Could not load report data',
+  'report.comparedWith': 'Compared with {period}',
+  'report.generated': 'Generated {time}',
+  'report.print': 'Print / Save as PDF',
+  'report.summary': 'Summary',
+  'report.metric': 'Metric',
+  'report.value': 'Value',
+  'report.previous': 'Previous',
+  'report.change': 'Change',
+  'report.conversion': 'Conversion',
+  'report.ratio': 'Ratio',
+  'report.trend': 'Trend',
+  'report.hour': 'Hour',
+  'report.date': 'Date',
+
+
+  'preferences.language': 'Language',
+  'preferences.calendar': 'Calendar',
+  'preferences.gregorian': 'Gregorian (AD)',
+  'preferences.buddhist': 'Buddhist era (BE)',
+  'preferences.saveError': 'Could not save your preferences'
+}
+
+export type MessageKey = keyof typeof EN_MESSAGES
+
+export const TH_MESSAGES: Record<MessageKey, string> = {
+  'dashboard.title': 'แดชบอร์ด BMS',
+  'dashboard.subtitle': 'ตัวชี้วัดและการวิเคราะห์ธุรกิจ',
+  'dashboard.bangkokTime': 'เวลากรุงเทพฯ (GMT+7)',
+  'dashboard.signOut': 'ออกจากระบบ',
+  'dashboard.loadError': 'โหลดข้อมูลแดชบอร์ดไม่สำเร็จ: {message}',
+  'dashboard.trendAnalysis': 'วิเคราะห์แนวโน้ม',
+  'dashboard.activityByHour': 'กิจกรรมรายชั่วโมง',
+  'dashboard.activityByHourHint': 'วันในสัปดาห์และชั่วโมงตามเวลากรุงเทพฯ รวมตลอดช่วงเวลาที่เลือก',
+  'dashboard.pageBreakdown': 'แยกตามเพจ',
+  'dashboard.customers': 'ลูกค้า',
+  'dashboard.moderation': 'การกลั่นกรอง',
+  'dashboard.goals': 'เป้าหมาย',
+  'dashboard.sharing': 'ลิงก์แชร์',
+  'dashboard.adSpend': 'ค่าโฆษณา',
+  'dashboard.scheduledReports': 'รายงานตามกำหนดเวลา',
+  'dashboard.customize': 'ปรับแต่ง',
+  'dashboard.unmappedIntents': 'ยังไม่อยู่ในทะเบียน Intent แสดงในกลุ่ม Intent อื่นๆ:',
+  'dashboard.noActivity': 'ไม่มีแชท Intent หรือการซื้อในช่วงเวลานี้ ตัวเลขศูนย์ด้านล่างเป็นค่าจริง ไม่ใช่ปัญหาการโหลด',
+
+  'card.periodData': 'ข้อมูล{period}',
+  'card.showRows': 'แสดงรายการของ {title}',
+  'card.new': 'ใหม่',
+  'card.versus': 'เทียบกับ {value} {period}',
+  'card.percentPoints': '{value} จุด',
+  'card.noRate': 'ไม่มีอัตราแลกเปลี่ยน ไม่นับรวม',
+
+  'goal.daily': 'เป้าหมายรายวัน',
+  'goal.weekly': 'เป้าหมายรายสัปดาห์',
+  'goal.monthly': 'เป้าหมายรายเดือน',
+  'goal.atLeast': '{actual} จาก {target}',
+  'goal.atMost': '{actual} จากไม่เกิน {target}',
+  'goal.achieved': 'บรรลุเป้าหมายแล้ว',
+  'goal.onTrack': 'เป็นไปตามเป้า',
+  'goal.behindBy': 'ตามหลังเป้า {gap}',
+  'goal.overPaceBy': 'เร็วกว่าเพดาน {gap}',
+  'goal.overBy': 'เกินเพดาน {gap}',
+  'goal.noData': 'ยังไม่มีข้อมูล',
+  'goal.projected': 'คาดการณ์ {value} ภายใน {end}',
+
+  'timeFrame.today': 'วันนี้',
+  'timeFrame.7days': '7 วัน',
+  'timeFrame.30days': '30 วัน',
+  'previous.today': 'เมื่อวาน',
+  'previous.days': '{days} วันก่อนหน้า',
+  'dateRange.from': 'จาก',
+  'dateRange.to': 'ถึง',
+  'dateRange.apply': 'ตกลง',
+
+  'pages.all': 'ทุกเพจ',
+  'pages.count': '{count} เพจ',
+  'pages.adAccounts': 'บัญชีโฆษณา',
+  'pages.pages': 'เพจ',
+
+  'sync.connecting': 'กำลังเชื่อมต่อ…',
+  'sync.live': 'ข้อมูลสด',
+  'sync.polling': 'การเชื่อมต่อขาดหาย รีเฟรชทุก {minutes} นาที',
+  'sync.paused': 'หยุดอัปเดตสดชั่วคราว',
+  'sync.lastUpdated': 'อัปเดตล่าสุด {time}',
+  'sync.resume': 'อัปเดตสดต่อ',
+  'sync.pause': 'หยุดอัปเดตสด',
+  'sync.refresh': 'รีเฟรชตอนนี้',
+
+  'funnel.title': 'ฟันเนลการแปลง',
+  'funnel.stages': 'ขั้นตอน',
+  'funnel.done': 'เสร็จสิ้น',
+  'funnel.reset': 'คืนค่าเริ่มต้น',
+  'funnel.continue': '↓ {rate} ไปต่อ',
+  'funnel.dropped': '−{count} หลุด ({rate})',
+  'funnel.biggestDropOff': 'หลุดมากที่สุด',
+
+  'section.loadError': 'โหลดส่วนนี้ไม่สำเร็จ: {message}',
+  'section.retry': 'ลองอีกครั้ง',
+  'section.staleSince': 'ข้อมูลเก่าตั้งแต่ {time}',
+  'section.refreshFailed': 'รีเฟรชไม่สำเร็จ: {message}',
+  'section.noData': 'ไม่มีข้อมูลในช่วงเวลานี้',
+
+  'breakdown.page': 'เพจ',
+
+  'table.open': 'เปิด',
+  'table.close': 'ปิด',
+  'table.noRows': 'ไม่มีรายการ',
+  'table.zeroRows': '0 รายการ',
+  'table.range': '{first}–{last} จาก {total}',
+  'table.perPage': '{size} / หน้า',
+  'table.previous': 'ก่อนหน้า',
+  'table.next': 'ถัดไป',
+  'table.loadError': 'โหลดรายการไม่สำเร็จ',
+
+  'column.timeBangkok': 'เวลา (กรุงเทพฯ)',
+  'column.page': 'เพจ',
+  'column.psid': 'PSID',
+  'column.intent': 'Intent',
+  'column.value': 'มูลค่า',
+  'column.valueThb': 'มูลค่า (บาท)',
+  'column.noRate': 'ไม่มีอัตราแลกเปลี่ยน',
+  'column.conversation': 'บทสนทนา',
+  'column.firstContact': 'ติดต่อครั้งแรก',
+  'column.timeToLead': 'เวลาจนเป็นลีด',
+  'column.timeToPurchase': 'เวลาจนซื้อ',
+  'column.purchases': 'การซื้อ',
+  'column.lifetimeValue': 'มูลค่าตลอดอายุลูกค้า',
+
+  'drilldown.filter': 'กรองตาม PSID เพจ หรือ Intent…',
+  'drilldown.truncated': 'แสดง {count} รายการล่าสุด จำกัดช่วงเวลาหรือเพจให้แคบลงเพื่อดูส่วนที่เหลือ',
+
+  'customers.filter': 'กรองตาม PSID หรือเพจ…',
+  'customers.none': 'ไม่มีลูกค้า',
+  'customers.zero': 'ลูกค้า 0 ราย',
+
+  'cohorts.retention': 'แชทในสัปดาห์นั้น',
+  'cohorts.conversion': 'ซื้อแล้วภายในสัปดาห์นั้น',
+  'cohorts.none': 'ไม่มีลูกค้าใหม่ในช่วงเวลานี้',
+  'cohorts.week': 'สัปดาห์ที่แชทครั้งแรก',
+  'cohorts.customers': 'ลูกค้า',
+  'cohorts.offset': 'สัปดาห์ {offset}',
+
+  'layout.title': 'ปรับแต่งแดชบอร์ด',
+  'layout.rowPlaceholder': 'แถว {number} (ไม่มีหัวข้อ)',
+  'layout.row': 'แถว {number}',
+  'layout.newRow': 'แถวใหม่',
+  'layout.moveRowUp': 'เลื่อนแถวขึ้น',
+  'layout.moveRowDown': 'เลื่อนแถวลง',
+  'layout.removeRow': 'ลบแถว',
+  'layout.noCards': 'ไม่มีการ์ดในแถวนี้',
+  'layout.moveLeft': 'เลื่อนไปทางซ้าย',
+  'layout.moveRight': 'เลื่อนไปทางขวา',
+  'layout.removeCard': 'ลบการ์ด',
+  'layout.alsoShow': 'แสดงเพิ่ม',
+  'layout.noOtherIntents': 'ไม่แสดง Intent อื่น',
+  'layout.otherIntents': 'Intent กลุ่ม{category}อื่นๆ ทั้งหมด',
+  'layout.addRow': 'เพิ่มแถว',
+  'layout.addCard': 'เพิ่มการ์ด',
+  'layout.metric': 'ตัวชี้วัด',
+  'layout.intentCount': 'จำนวน Intent',
+  'layout.ratio': 'KPI อัตราส่วนกำหนดเอง',
+  'layout.cardTitle': 'หัวข้อ (ไม่บังคับ)',
+  'layout.blue': 'น้ำเงิน',
+  'layout.green': 'เขียว',
+  'layout.emerald': 'เขียวมรกต',
+  'layout.red': 'แดง',
+  'layout.invertDelta': 'เพิ่มขึ้นถือว่าแย่',
+  'layout.add': 'เพิ่ม',
+  'layout.totals': 'ยอดรวมลูกค้าคุณภาพและลูกค้าไม่พึงประสงค์',
+  'layout.useRegistry': 'ใช้ตามทะเบียน Intent',
+  'layout.intent': 'Intent',
+  'layout.good': 'ดี',
+  'layout.bad': 'ไม่ดี',
+  'layout.neither': 'ไม่นับ',
+  'layout.reset': 'คืนค่าเริ่มต้น',
+  'layout.cancel': 'ยกเลิก',
+  'layout.saving': 'กำลังบันทึก…',
+  'layout.save': 'บันทึกเลย์เอาต์',
+
+  'share.readOnly': 'มุมมองแบบอ่านอย่างเดียว · ใช้ได้ถึง {date}',
+  'share.pages': 'เพจ: {pages}',
+  'share.unavailable': 'ลิงก์นี้ไม่ถูกต้อง หมดอายุ หรือถูกยกเลิกแล้ว โปรดขอลิงก์ใหม่จากผู้ที่แชร์',
+  'share.unknownWidget': 'ไม่มีวิดเจ็ตชื่อ "{widget}"',
+  'share.loadError': 'โหลดข้อมูลไม่สำเร็จ: {message}',
+
+  'annotations.title': 'บันทึกเหตุการณ์',
+  'annotations.hint': 'สิ่งที่เกิดขึ้นในช่วงนั้น หมายเลขตรงกับกราฟแนวโน้ม',
+  'annotations.thisPeriod': 'ช่วงนี้',
+  'annotations.previousPeriod': 'ช่วงก่อนหน้า ({period})',
+  'annotations.none': 'ไม่มีบันทึก',
+  'annotations.add': 'เพิ่มบันทึก',
+  'annotations.name': 'หัวข้อ',
+  'annotations.namePlaceholder': 'เปิดชุดโฆษณาใหม่',
+  'annotations.note': 'รายละเอียด',
+  'annotations.start': 'ตั้งแต่ (เวลากรุงเทพฯ)',
+  'annotations.end': 'ถึง (ไม่บังคับ)',
+  'annotations.save': 'บันทึก',
+  'annotations.cancel': 'ยกเลิก',
+  'annotations.delete': 'ลบบันทึก',
+  'annotations.confirmDelete': 'ลบบันทึก "{title}" หรือไม่',
+  'annotations.by': 'โดย {author}',
+  'annotations.error': 'บันทึกไม่สำเร็จ: {message}',
+
+  'heatmap.counts': 'จำนวน',
+  'heatmap.rate': 'อัตราการแปลง',
+  'heatmap.chatTo': 'แชท → {measure}',
+  'heatmap.cellDetail': 'แชท {chats} · ลีด {leads} · ซื้อ {purchases}',
+
+  'export.button': 'ส่งออก',
+  'export.exporting': 'กำลังส่งออก…',
+  'export.summaryCsv': 'สรุป (CSV)',
+  'export.conversionsCsv': 'การแปลง (CSV)',
+  'export.trendCsv': 'แนวโน้ม (CSV)',
+  'export.xlsx': 'ไฟล์ Excel (XLSX)',
+  'export.report': 'รายงานสำหรับพิมพ์ (PDF)',
+  'export.failed': 'ส่งออกไม่สำเร็จ: {message}',
+  'export.dismiss': 'ปิด',
+
+  'alerts.title': 'การแจ้งเตือน',
+  'alerts.rules': 'กฎการแจ้งเตือน',
+  'alerts.none': 'ยังไม่มีการแจ้งเตือน',
+  'alerts.acknowledge': 'รับทราบ',
+  'alerts.unacknowledged': 'การแจ้งเตือน (ยังไม่รับทราบ {count})',
+
+  'common.back': 'กลับไปที่แดชบอร์ด',
+  'common.requestFailed': 'คำขอไม่สำเร็จ',
+  'common.saving': 'กำลังบันทึก…',
+  'common.page': 'เพจ',
+  'common.allPages': 'ทุกเพจ',
+
+  'customers.title': 'ลูกค้า',
+  'customers.subtitle': 'PSID ที่แชทครั้งแรกในช่วงเวลาที่เลือก ติดตามจนเป็นลีดและซื้อ',
+  'customers.loadError': 'โหลดข้อมูลลูกค้าไม่สำเร็จ',
+  'customers.share': '{percent}% ของลูกค้า',
+  'customers.new': 'ลูกค้าใหม่',
+  'customers.leads': 'กลายเป็นลีด',
+  'customers.bought': 'ซื้อแล้ว',
+  'customers.repeatRate': 'อัตราการซื้อซ้ำ',
+  'customers.repeatBuyers': '{count} รายซื้อมากกว่าหนึ่งครั้ง',
+  'customers.medianToLead': 'ค่ามัธยฐานของเวลาจนเป็นลีด',
+  'customers.medianToPurchase': 'ค่ามัธยฐานของเวลาจนซื้อ',
+  'customers.value': 'มูลค่าลูกค้า',
+  'customers.averageValue': 'มูลค่าตลอดอายุเฉลี่ย',
+  'customers.perBuyer': 'ต่อผู้ซื้อ',
+  'customers.cohorts': 'กลุ่มลูกค้ารายสัปดาห์',
+  'customers.cohortsHint': 'ลูกค้าจัดกลุ่มตามสัปดาห์ที่แชทครั้งแรก (เริ่มวันจันทร์ เวลากรุงเทพฯ)',
+  'customers.horizon': ' · นับเหตุการณ์ถึง {time}',
+  'customers.journeys': 'เส้นทางลูกค้า',
+  'customers.truncated': 'แสดงลูกค้า {count} รายแรก ส่วนสรุปและกลุ่มลูกค้านับรวมทุกคน',
+
+  'adSpend.title': 'ค่าโฆษณา',
+  'adSpend.subtitle': 'ค่าใช้จ่ายรายวันต่อแคมเปญ ใช้คำนวณต้นทุนต่อผลลัพธ์และ ROAS บนแดชบอร์ด',
+  'adSpend.financeOnly': 'ค่าโฆษณาดูได้เฉพาะบทบาทที่มีสิทธิ์ดูข้อมูลการเงิน',
+  'adSpend.upload': 'อัปโหลดไฟล์ส่งออกจาก Meta Ads Manager',
+  'adSpend.uploadHint': 'ส่งออกรายงานแคมเปญเป็น CSV โดยแยกตามวัน (Day) และมีคอลัมน์ Amount spent วันที่เคยนำเข้าแล้วของเพจและแคมเปญเดียวกันจะถูกแทนที่',
+  'adSpend.file': 'ไฟล์ CSV',
+  'adSpend.importing': 'กำลังนำเข้า…',
+  'adSpend.import': 'นำเข้า',
+  'adSpend.columnImport': 'การนำเข้า',
+  'adSpend.days': 'วันที่',
+  'adSpend.rows': 'แถว',
+  'adSpend.imported': 'นำเข้าเมื่อ',
+  'adSpend.none': 'ยังไม่มีการนำเข้าค่าโฆษณา',
+  'adSpend.delete': 'ลบออกจากประวัติ',
+  'adSpend.confirmDelete': 'ลบ "{label}" ออกจากประวัติการนำเข้าหรือไม่ ค่าใช้จ่ายที่นำเข้าไว้จะยังอยู่จนกว่าจะมีไฟล์ใหม่มาแทนที่',
+
+
+  'moderation.title': 'การกลั่นกรอง',
+  'moderation.subtitle': 'เหตุการณ์ลูกค้าไม่พึงประสงค์ในช่วงเวลาที่เลือก แยกตามเหตุผล เพจ เวลา และ PSID เหตุการณ์ที่ทำเครื่องหมายว่าตรวจจับผิดจะไม่ถูกนับในแดชบอร์ด',
+  'moderation.loadError': 'โหลดข้อมูลการกลั่นกรองไม่สำเร็จ',
+  'moderation.updateError': 'อัปเดตเหตุการณ์ไม่สำเร็จ',
+  'moderation.badCustomers': 'ลูกค้าไม่พึงประสงค์',
+  'moderation.badRate': 'อัตราลูกค้าไม่พึงประสงค์',
+  'moderation.ofChats': 'จาก {count} แชท',
+  'moderation.falsePositives': 'ตรวจจับผิด',
+  'moderation.excluded': 'ไม่นับรวม',
+  'moderation.overTime': 'ตามช่วงเวลา',
+  'moderation.overTimeHint': 'เหตุการณ์ต่อช่วงเวลา พร้อมอัตราลูกค้าไม่พึงประสงค์เทียบกับแชททั้งหมด',
+  'moderation.byReason': 'ตามเหตุผล',
+  'moderation.reasonKeyword': 'เหตุผล / คำสำคัญ',
+  'moderation.events': 'เหตุการณ์',
+  'moderation.breakdown': 'รายละเอียด',
+  'moderation.noReason': 'ไม่ระบุเหตุผล',
+  'moderation.byPage': 'ตามเพจ',
+  'moderation.rate': 'อัตรา',
+  'moderation.topOffenders': 'PSID ที่กระทำผิดมากที่สุด',
+  'moderation.lastSeen': 'พบล่าสุด',
+  'moderation.truncated': 'แสดง {count} เหตุการณ์ล่าสุด ยอดรวมด้านบนนับทั้งหมด',
+  'moderation.time': 'เวลา',
+  'moderation.type': 'ประเภท',
+  'moderation.reason': 'เหตุผล',
+  'moderation.falsePositive': 'ตรวจจับผิด',
+  'moderation.countAgain': 'นับอีกครั้ง',
+  'moderation.none': 'ไม่มีเหตุการณ์ลูกค้าไม่พึงประสงค์ในช่วงเวลานี้',
+
+
+  'alerts.rulesTitle': 'กฎการแจ้งเตือน',
+  'alerts.subtitle': 'กฎจะถูกตรวจสอบกับตัวชี้วัดของแดชบอร์ดทุกครั้งที่ระบบรันตามกำหนดเวลา',
+  'alerts.loadError': 'โหลดการแจ้งเตือนไม่สำเร็จ',
+  'alerts.evaluate': 'ตรวจสอบตอนนี้',
+  'alerts.lastEvaluation': 'ผลการตรวจสอบล่าสุด',
+  'alerts.noEnabled': 'ไม่มีกฎที่เปิดใช้งาน',
+  'alerts.triggered': 'ถูกกระตุ้น',
+  'alerts.ok': 'ปกติ',
+  'alerts.cooldown': 'อยู่ในช่วงพัก',
+  'alerts.noData': 'ไม่มีข้อมูล',
+  'alerts.failed': 'ล้มเหลว',
+  'alerts.value': ' (ค่า {value})',
+  'alerts.rule': 'กฎ',
+  'alerts.pages': 'เพจ',
+  'alerts.channels': 'ช่องทาง',
+  'alerts.lastTriggered': 'กระตุ้นล่าสุด',
+  'alerts.noRules': 'ยังไม่มีกฎการแจ้งเตือน',
+  'alerts.inApp': 'ในแอป',
+  'alerts.enable': 'เปิดใช้งาน',
+  'alerts.disable': 'ปิดใช้งาน',
+  'alerts.delete': 'ลบกฎ',
+  'alerts.confirmDelete': 'ลบกฎการแจ้งเตือน "{name}" หรือไม่',
+  'alerts.newRule': 'กฎใหม่',
+  'alerts.name': 'ชื่อ',
+  'alerts.namePlaceholder': 'การแบนพุ่งสูง',
+  'alerts.metric': 'ตัวชี้วัด',
+  'alerts.condition': 'เงื่อนไข',
+  'alerts.threshold': 'เกณฑ์',
+  'alerts.window': 'ช่วงเวลา',
+  'alerts.hours': 'ชั่วโมง',
+  'alerts.lastHours': 'ใน {hours} ชั่วโมงที่ผ่านมา',
+  'alerts.describe': '{metric} {operator} {threshold} {window}',
+  'alerts.preview': 'ตัวอย่าง: {rule}',
+  'alerts.notify': 'แจ้งเตือนเพิ่มเติมทาง',
+  'alerts.cooldownMinutes': 'ช่วงพัก (นาที)',
+  'alerts.create': 'สร้างกฎ',
+
+
+  'goals.title': 'เป้าหมาย',
+  'goals.subtitle': 'เป้าหมายของวัน สัปดาห์ และเดือนปัจจุบันตามเวลากรุงเทพฯ ตัวเลขจำนวนจะคาดการณ์ถึงสิ้นช่วงตามอัตราที่ผ่านมา ส่วนอัตราส่วนจะเทียบกับเป้าหมายตามค่าปัจจุบัน',
+  'goals.none': 'ยังไม่มีเป้าหมาย',
+  'goals.atLeast': 'อย่างน้อย {target} {metric} {per}',
+  'goals.atMost': 'ไม่เกิน {target} {metric} {per}',
+  'goals.perDay': 'ต่อวัน',
+  'goals.perWeek': 'ต่อสัปดาห์',
+  'goals.perMonth': 'ต่อเดือน',
+  'goals.promptTarget': 'เป้าหมายใหม่สำหรับ "{goal}"',
+  'goals.confirmDelete': 'ลบเป้าหมาย "{goal}" หรือไม่',
+  'goals.changeTarget': 'เปลี่ยนเป้าหมาย',
+  'goals.delete': 'ลบเป้าหมาย',
+  'goals.newGoal': 'เป้าหมายใหม่',
+  'goals.metric': 'ตัวชี้วัด',
+  'goals.period': 'ช่วงเวลา',
+  'goals.direction': 'ทิศทาง',
+  'goals.target': 'เป้าหมาย',
+  'goals.targetPercent': 'เป้าหมาย (%)',
+  'goals.pages': 'เพจ',
+  'goals.pagesHint': 'การ์ดจะแสดงเป้าหมายเมื่อกรองแดชบอร์ดตรงกับเพจเหล่านี้พอดี หรือไม่กรองเลยสำหรับทุกเพจ',
+  'goals.create': 'สร้างเป้าหมาย',
+
+
+  'shareLinks.title': 'ลิงก์แชร์',
+  'shareLinks.subtitle': 'แดชบอร์ดแบบอ่านอย่างเดียวสำหรับผู้ที่ไม่มีบัญชี และการ์ดหรือกราฟเดี่ยวสำหรับฝังในเว็บไซต์อื่น แต่ละลิงก์แสดงเฉพาะเพจและช่วงเวลาของตัวเอง และใช้ไม่ได้เมื่อหมดอายุหรือถูกยกเลิก',
+  'shareLinks.adminOnly': 'เฉพาะผู้ดูแลระบบเท่านั้นที่สร้างและจัดการลิงก์แชร์ได้',
+  'shareLinks.none': 'ยังไม่มีลิงก์แชร์',
+  'shareLinks.active': 'ใช้งานอยู่',
+  'shareLinks.expired': 'หมดอายุ',
+  'shareLinks.revoked': 'ถูกยกเลิก',
+  'shareLinks.withRevenue': ' · รวมรายได้',
+  'shareLinks.created': 'สร้างเมื่อ {date}',
+  'shareLinks.revokedAt': 'ยกเลิกเมื่อ {time}',
+  'shareLinks.expiredAt': 'หมดอายุเมื่อ {time}',
+  'shareLinks.expiresAt': 'หมดอายุ {time}',
+  'shareLinks.accessLog': 'ประวัติการเข้าถึง',
+  'shareLinks.revoke': 'ยกเลิกลิงก์',
+  'shareLinks.confirmRevoke': 'ยกเลิก "{name}" หรือไม่ ผู้ที่ใช้ลิงก์หรือส่วนที่ฝังไว้จะเข้าถึงไม่ได้ทันที',
+  'shareLinks.copied': 'คัดลอกแล้ว',
+  'shareLinks.copyLink': 'คัดลอกลิงก์',
+  'shareLinks.copyEmbed': 'คัดลอกโค้ดฝัง',
+  'shareLinks.notOpened': 'ยังไม่มีการเปิด',
+  'shareLinks.when': 'เมื่อ',
+  'shareLinks.view': 'มุมมอง',
+  'shareLinks.ip': 'IP',
+  'shareLinks.browser': 'เบราว์เซอร์',
+  'shareLinks.embeddedIn': 'ฝังอยู่ใน',
+  'shareLinks.newLink': 'ลิงก์แชร์ใหม่',
+  'shareLinks.name': 'ชื่อ',
+  'shareLinks.namePlaceholder': 'ตัวเลขสดของลูกค้า A',
+  'shareLinks.pages': 'เพจ',
+  'shareLinks.pagesHint': 'เลือกอย่างน้อยหนึ่งเพจ ลิงก์จะไม่แสดงเพจที่เพิ่มภายหลัง',
+  'shareLinks.timeFrames': 'ช่วงเวลา',
+  'shareLinks.days': 'ใช้ได้ (วัน)',
+  'shareLinks.includeFinance': 'รวมรายได้และค่าโฆษณา',
+  'shareLinks.creating': 'กำลังสร้าง…',
+  'shareLinks.create': 'สร้างลิงก์',
+
+
+  'schedules.title': 'รายงานตามกำหนดเวลา',
+  'schedules.subtitle': 'สรุปของวันหรือสัปดาห์ที่แล้ว เทียบกับช่วงก่อนหน้า ส่งตามเวลาที่กำหนด (เวลากรุงเทพฯ)',
+  'schedules.sendDue': 'ส่งรายงานที่ถึงกำหนด',
+  'schedules.lastRun': 'การรันล่าสุด',
+  'schedules.noEnabled': 'ไม่มีกำหนดการที่เปิดใช้งาน',
+  'schedules.sent': 'ส่งแล้ว',
+  'schedules.notDue': 'ยังไม่ถึงกำหนด',
+  'schedules.noRecipients': 'ไม่มีผู้รับ',
+  'schedules.schedule': 'กำหนดการ',
+  'schedules.pages': 'เพจ',
+  'schedules.channels': 'ช่องทาง',
+  'schedules.lastSent': 'ส่งล่าสุด',
+  'schedules.none': 'ยังไม่มีกำหนดการรายงาน',
+  'schedules.dailyAt': 'ทุกวันเวลา {time}',
+  'schedules.weeklyAt': 'ทุกวันจันทร์เวลา {time}',
+  'schedules.withRevenue': ' · รวมรายได้',
+  'schedules.paused': ' · หยุดชั่วคราว',
+  'schedules.defaultRecipient': 'ผู้รับค่าเริ่มต้น',
+  'schedules.noRecipient': 'ไม่มีผู้รับ',
+  'schedules.tokenSet': 'ตั้งค่าโทเคนแล้ว',
+  'schedules.preview': 'ดูตัวอย่างรายงานล่าสุด',
+  'schedules.pause': 'หยุดชั่วคราว',
+  'schedules.resume': 'ทำต่อ',
+  'schedules.delete': 'ลบกำหนดการ',
+  'schedules.confirmDelete': 'ลบกำหนดการรายงาน "{name}" หรือไม่',
+  'schedules.previewTitle': 'ตัวอย่าง: {name}',
+  'schedules.previewHint': 'สร้างจากข้อมูลปัจจุบันสำหรับเวลาส่งล่าสุด ยังไม่มีการส่งจริง',
+  'schedules.email': 'อีเมล',
+  'schedules.text': 'ข้อความ',
+  'schedules.closePreview': 'ปิดตัวอย่าง',
+  'schedules.emailPreview': 'ตัวอย่างอีเมล',
+  'schedules.newSchedule': 'กำหนดการใหม่',
+  'schedules.name': 'ชื่อ',
+  'schedules.namePlaceholder': 'สรุปยามเช้าของลูกค้า A',
+  'schedules.frequency': 'ความถี่',
+  'schedules.sendAt': 'ส่งเวลา (กรุงเทพฯ)',
+  'schedules.includeFinance': 'รวมรายได้และค่าโฆษณา',
+  'schedules.coversDay': '{schedule} ครอบคลุมวันก่อนหน้า',
+  'schedules.coversWeek': '{schedule} ครอบคลุมสัปดาห์ก่อนหน้า (จันทร์–อาทิตย์)',
+  'schedules.sendVia': 'ส่งทาง',
+  'schedules.recipientsHint': 'แต่ละกำหนดการจะส่งถึงเฉพาะผู้รับที่ตั้งไว้ที่นี่',
+  'schedules.emailTo': 'ส่งอีเมลถึง',
+  'schedules.webhookUrl': 'URL ของ Webhook',
+  'schedules.webhookSecret': 'รหัสลับ Webhook (ไม่บังคับ)',
+  'schedules.lineToken': 'โทเคน LINE Notify ของกลุ่มลูกค้า',
+  'schedules.create': 'สร้างกำหนดการ',
+
+
+  'report.title': 'รายงานผลการดำเนินงาน BMS',
+  'report.loadError': 'โหลดข้อมูลรายงานไม่สำเร็จ',
+  'report.comparedWith': 'เทียบกับ{period}',
+  'report.generated': 'สร้างเมื่อ {time}',
+  'report.print': 'พิมพ์ / บันทึกเป็น PDF',
+  'report.summary': 'สรุป',
+  'report.metric': 'ตัวชี้วัด',
+  'report.value': 'ค่า',
+  'report.previous': 'ก่อนหน้า',
+  'report.change': 'เปลี่ยนแปลง',
+  'report.conversion': 'การแปลง',
+  'report.ratio': 'อัตราส่วน',
+  'report.trend': 'แนวโน้ม',
+  'report.hour': 'ชั่วโมง',
+  'report.date': 'วันที่',
+
+
+  'preferences.language': 'ภาษา',
+  'preferences.calendar': 'ปฏิทิน',
+  'preferences.gregorian': 'คริสต์ศักราช (ค.ศ.)',
+  'preferences.buddhist': 'พุทธศักราช (พ.ศ.)',
+  'preferences.saveError': 'บันทึกการตั้งค่าไม่สำเร็จ'
+}
+
+// Labels that live in code or data in English (metric names, default layout titles, chart
+// series, the default intent registry). Anything not listed, such as a custom card title,
+// is shown as entered.
+export const TH_LABELS: Record<string, string> = {
+  'Total Chat': 'แชททั้งหมด',
+  'Total Lead': 'ลีดทั้งหมด',
+  'Total Buy': 'การซื้อทั้งหมด',
+  'Total Buy Value': 'มูลค่าการซื้อทั้งหมด',
+  'Total Orders': 'คำสั่งซื้อทั้งหมด',
+  'Total Good Customer': 'ลูกค้าคุณภาพทั้งหมด',
+  'Total ViewContent': 'ดูเนื้อหาทั้งหมด',
+  'Total AddToCart': 'เพิ่มลงตะกร้าทั้งหมด',
+  'Total Initiate Checkout': 'เริ่มชำระเงินทั้งหมด',
+  'Total Bad Customer': 'ลูกค้าไม่พึงประสงค์ทั้งหมด',
+  'Total Spam': 'สแปมทั้งหมด',
+  'Total Blocking': 'การบล็อกทั้งหมด',
+  'Total Ban': 'การแบนทั้งหมด',
+  'Total Ad Spend': 'ค่าโฆษณาทั้งหมด',
+
+  'Average Order Value': 'มูลค่าเฉลี่ยต่อคำสั่งซื้อ',
+  'Revenue per Chat': 'รายได้ต่อแชท',
+  'Cost per Chat': 'ต้นทุนต่อแชท',
+  'Cost per Lead': 'ต้นทุนต่อลีด',
+  'Cost per Purchase': 'ต้นทุนต่อการซื้อ',
+  'Chat to Lead %': 'แชทเป็นลีด %',
+  'Lead to Buy %': 'ลีดเป็นการซื้อ %',
+  'Chat to Buy %': 'แชทเป็นการซื้อ %',
+  'Other intents': 'Intent อื่นๆ',
+
+  Chat: 'แชท',
+  Chats: 'แชท',
+  Lead: 'ลีด',
+  Leads: 'ลีด',
+  Buy: 'ซื้อ',
+  Purchase: 'ซื้อ',
+  Purchases: 'การซื้อ',
+  'Buy Value': 'มูลค่าการซื้อ',
+  'Ad Spend': 'ค่าโฆษณา',
+  'Revenue (THB)': 'รายได้ (บาท)',
+  ViewContent: 'ดูเนื้อหา',
+  AddToCart: 'เพิ่มลงตะกร้า',
+  'Initiate Checkout': 'เริ่มชำระเงิน',
+  Spam: 'สแปม',
+  Blocking: 'บล็อก',
+  Ban: 'แบน',
+  'Chat → Lead': 'แชท → ลีด',
+  'Chat → Buy': 'แชท → ซื้อ',
+  Good: 'ดี',
+  Bad: 'ไม่ดี',
+  Neutral: 'กลาง',
+  Percentage: 'เปอร์เซ็นต์',
+  'Money (THB)': 'จำนวนเงิน (บาท)',
+  Number: 'ตัวเลข',
+
+  'CSV upload': 'อัปโหลด CSV',
+
+  today: 'วันนี้',
+  'over 7 days': 'ใน 7 วัน',
+  'over 30 days': 'ใน 30 วัน',
+  'in the last N hours': 'ใน N ชั่วโมงที่ผ่านมา',
+  Webhook: 'Webhook',
+  'LINE Notify': 'LINE Notify',
+  Email: 'อีเมล',
+  sent: 'ส่งแล้ว',
+  'not configured': 'ยังไม่ได้ตั้งค่า',
+
+  Daily: 'รายวัน',
+  Weekly: 'รายสัปดาห์',
+  Monthly: 'รายเดือน',
+  'At least': 'อย่างน้อย',
+  'At most': 'ไม่เกิน',
+
+  'Trend chart': 'กราฟแนวโน้ม',
+  'Conversion funnel': 'ฟันเนลการแปลง',
+
+  Admin: 'ผู้ดูแลระบบ',
+  Manager: 'ผู้จัดการ',
+  Analyst: 'นักวิเคราะห์',
+  'Client Viewer': 'ผู้ชมฝั่งลูกค้า',
+
+  Mon: 'จ.',
+  Tue: 'อ.',
+  Wed: 'พ.',
+  Thu: 'พฤ.',
+  Fri: 'ศ.',
+  Sat: 'ส.',
+  Sun: 'อา.'
+}
@@ -0,0 +1,332 @@
+import type { DbClient } from '@/lib/supabase'
+import type { DateRange } from '@/lib/dateRange'
+import { normalizeCurrency, toThb } from '@/lib/currency'
+import type { Tables } from '@/lib/database.types'
+import { type IntentCatalog, catalogIntentTypes, fetchIntentCatalog, intentTypesIn } from '@/lib/intents'
+import { fetchAdSpendTotal } from '@/lib/adSpend'
+
+export interface MetricData {
+  totalChat: number
+  totalLead: number
+  totalBuy: number
+  // Purchase value converted to THB; currencies without a rate are left out
+  totalBuyValue: number
+  // Purchase rows counted in totalBuyValue, the denominator for average order value
+  totalOrders: number
+  // Unconverted purchase value keyed by ISO currency code
+  buyValueByCurrency: Record<string, number>
+  totalGoodCustomer: number
+  totalViewContent: number
+  totalAddToCart: number
+  totalInitiateCheckout: number
+  totalBadCustomer: number
+  totalSpam: number
+  totalBlocking: number
+  totalBan: number
+  // Imported ad spend for the days in the window, in THB (see lib/adSpend.ts)
+  totalAdSpend: number
+  // Count per raw intent_type, for every intent in the registry or seen in intent_statistics
+  intentCounts: Record<string, number>
+}
+
+// Keys of the plain numeric MetricData fields
+export type NumericMetricKey = {
+  [K in keyof MetricData]: MetricData[K] extends number ? K : never
+}[keyof MetricData]
+
+export const METRIC_LABELS: Record<NumericMetricKey, string> = {
+  totalChat: 'Total Chat',
+  totalLead: 'Total Lead',
+  totalBuy: 'Total Buy',
+  totalBuyValue: 'Total Buy Value',
+  totalOrders: 'Total Orders',
+  totalGoodCustomer: 'Total Good Customer',
+  totalViewContent: 'Total ViewContent',
+  totalAddToCart: 'Total AddToCart',
+  totalInitiateCheckout: 'Total Initiate Checkout',
+  totalBadCustomer: 'Total Bad Customer',
+  totalSpam: 'Total Spam',
+  totalBlocking: 'Total Blocking',
+  totalBan: 'Total Ban',
+  totalAdSpend: 'Total Ad Spend'
+}
+
+// Fields hidden from roles without finance permission
+export const FINANCE_METRICS: NumericMetricKey[] = ['totalBuyValue', 'totalOrders', 'totalAdSpend']
+
+// Fields holding THB amounts rather than counts
+export const CURRENCY_METRICS: NumericMetricKey[] = ['totalBuyValue', 'totalAdSpend']
+
+export const emptyMetrics: MetricData = {
+  totalChat: 0,
+  totalLead: 0,
+  totalBuy: 0,
+  totalBuyValue: 0,
+  totalOrders: 0,
+  buyValueByCurrency: {},
+  totalGoodCustomer: 0,
+  totalViewContent: 0,
+  totalAddToCart: 0,
+  totalInitiateCheckout: 0,
+  totalBadCustomer: 0,
+  totalSpam: 0,
+  totalBlocking: 0,
+  totalBan: 0,
+  totalAdSpend: 0,
+  intentCounts: {}
+}
+
+// Intents with a dedicated MetricData field. Everything else, including intents the
+// bot starts emitting later, is only in intentCounts and described by lib/intents.ts.
+export const INTENT_METRICS = {
+  'Lead': 'totalLead',
+  'Purchase': 'totalBuy',
+  'VC': 'totalViewContent',
+  'ATC': 'totalAddToCart',
+  'IC': 'totalInitiateCheckout',
+  'Move to Spam': 'totalSpam',
+  'Blocking': 'totalBlocking',
+  'Ban': 'totalBan'
+} as const satisfies Record<string, keyof MetricData>
+
+export type IntentType = keyof typeof INTENT_METRICS
+
+// Event-level tables; the *_statistics tables only hold pre-rolled today/weekly/monthly counts
+export const CHAT_TABLE = 'psid_inputs'
+export const INTENT_TABLE = 'intents'
+export const PURCHASE_TABLE = 'purchase'
+
+type EventTable = typeof CHAT_TABLE | typeof INTENT_TABLE | typeof PURCHASE_TABLE
+
+// PostgREST caps responses at 1000 rows by default
+const PAGE_SIZE = 1000
+
+// Scope applied to every query; an empty or missing pageIds list means all pages
+export interface MetricFilters {
+  pageIds?: string[]
+}
+
+// Counts rows of `table` created inside the window without downloading them
+const countInRange = async (
+  client: DbClient,
+  table: EventTable,
+  range: DateRange,
+  filters: MetricFilters,
+  intentType?: string
+): Promise<number> => {
+  let query = client
+    .from(table)
+    .select('*', { count: 'exact', head: true })
+    .gte('created_at', range.from.toISOString())
+    .lt('created_at', range.to.toISOString())
+
+  if (filters.pageIds?.length) {
+    query = query.in('page_id', filters.pageIds)
+  }
+  if (intentType) {
+    query = query.eq('intent_type', intentType)
+  }
+  if (table === INTENT_TABLE) {
+    query = query.is('false_positive_at', null)
+  }
+
+  const { count, error } = await query
+  if (error) throw error
+  return count ?? 0
+}
+
+export interface FetchRowsOptions {
+  // Only intents rows with one of these intent_type values
+  intentTypes?: string[]
+  // Stop after this many rows
+  limit?: number
+  newestFirst?: boolean
+  // Keep intents a moderator marked as false positives; every count leaves them out
+  includeFalsePositives?: boolean
+}
+
+// Downloads every row of `table` created inside the window, a page at a time
+export const fetchAllInRange = async <T>(
+  client: DbClient,
+  table: EventTable,
+  columns: string,
+  range: DateRange,
+  filters: MetricFilters = {},
+  { intentTypes, limit = Infinity, newestFirst = false, includeFalsePositives = false }: FetchRowsOptions = {}
+): Promise<T[]> => {
+  const rows: T[] = []
+  for (let offset = 0; offset < limit; offset += PAGE_SIZE) {
+    let query = client
+      .from(table)
+      .select(columns)
+      .gte('created_at', range.from.toISOString())
+      .lt('created_at', range.to.toISOString())
+
+    if (filters.pageIds?.length) {
+      query = query.in('page_id', filters.pageIds)
+    }
+    if (intentTypes?.length) {
+      query = query.in('intent_type', intentTypes)
+    }
+    if (table === INTENT_TABLE && !includeFalsePositives) {
+      query = query.is('false_positive_at', null)
+    }
+
+    // created_at is not unique; the id tiebreak keeps the order stable from page to page
+    const { data, error } = await query
+      .order('created_at', { ascending: !newestFirst })
+      .order('id', { ascending: !newestFirst })
+      .range(offset, Math.min(offset + PAGE_SIZE, limit) - 1)
+
+    if (error) throw error
+    rows.push(...((data ?? []) as unknown as T[]))
+    if (!data || data.length < PAGE_SIZE) return rows
+  }
+  return rows
+}
+
+// Maps `items` through `task` at most `size` at a time, for fan-outs that would otherwise
+// fire one request per item at once; results keep the order of `items`
+export const mapInBatches = async <T, R>(items: T[], size: number, task: (item: T) => Promise<R>): Promise<R[]> => {
+  const results: R[] = []
+  for (let start = 0; start < items.length; start += size) {
+    results.push(...(await Promise.all(items.slice(start, start + size).map(task))))
+  }
+  return results
+}
+
+export const countChats = (client: DbClient, range: DateRange, filters: MetricFilters = {}): Promise<number> => {
+  return countInRange(client, CHAT_TABLE, range, filters)
+}
+
+export const countIntents = async (
+  client: DbClient,
+  range: DateRange,
+  filters: MetricFilters = {},
+  intentTypes: string[] = Object.keys(INTENT_METRICS)
+): Promise<Record<string, number>> => {
+  const counts = await Promise.all(
+    intentTypes.map((intentType) => countInRange(client, INTENT_TABLE, range, filters, intentType))
+  )
+  return Object.fromEntries(intentTypes.map((intentType, index) => [intentType, counts[index]]))
+}
+
+export interface PurchaseTotals {
+  totalBuyValue: number
+  totalOrders: number
+  buyValueByCurrency: Record<string, number>
+}
+
+export const fetchPurchaseTotals = async (
+  client: DbClient,
+  range: DateRange,
+  filters: MetricFilters = {}
+): Promise<PurchaseTotals> => {
+  const data = await fetchAllInRange<Pick<Tables<'purchase'>, 'value' | 'currency'>>(
+    client,
+    PURCHASE_TABLE, 'value, currency', range, filters
+  )
+
+  // Group by currency first so each total is converted once
+  const buyValueByCurrency: Record<string, number> = {}
+  let totalOrders = 0
+  data.forEach((item) => {
+    const currency = normalizeCurrency(item.currency)
+    buyValueByCurrency[currency] = (buyValueByCurrency[currency] || 0) + (item.value || 0)
+    if (toThb(0, currency) !== null) totalOrders += 1
+  })
+
+  const totalBuyValue = Object.entries(buyValueByCurrency)
+    .reduce((sum, [currency, value]) => sum + (toThb(value, currency) ?? 0), 0)
+
+  return { totalBuyValue, totalOrders, buyValueByCurrency }
+}
+
+// `catalog` can be passed in when fetching many windows or pages to avoid reloading it
+export const fetchMetricData = async (
+  client: DbClient,
+  range: DateRange,
+  filters: MetricFilters = {},
+  catalog?: IntentCatalog
+): Promise<MetricData> => {
+  const intentCatalog = catalog ?? await fetchIntentCatalog(client, filters.pageIds)
+  const [totalChat, intentCounts, purchaseTotals, totalAdSpend] = await Promise.all([
+    countChats(client, range, filters),
+    countIntents(client, range, filters, Array.from(new Set([...Object.keys(INTENT_METRICS), ...catalogIntentTypes(intentCatalog)]))),
+    fetchPurchaseTotals(client, range, filters),
+    fetchAdSpendTotal(client, range, filters)
+  ])
+
+  const metrics: MetricData = { ...emptyMetrics, totalChat, ...purchaseTotals, totalAdSpend, intentCounts }
+  ;(Object.keys(INTENT_METRICS) as IntentType[]).forEach((intentType) => {
+    metrics[INTENT_METRICS[intentType]] += intentCounts[intentType] ?? 0
+  })
+
+  // Good and bad customers follow the registry categories
+  const sum = (intentTypes: string[]) => intentTypes.reduce((total, intentType) => total + (intentCounts[intentType] ?? 0), 0)
+  metrics.totalGoodCustomer = sum(intentTypesIn(intentCatalog, 'good'))
+  metrics.totalBadCustomer = sum(intentTypesIn(intentCatalog, 'bad'))
+
+  return metrics
+}
+
+export const calculatePercentage = (numerator: number, denominator: number): number => {
+  if (denominator === 0) return 0
+  return Math.round((numerator / denominator) * 100)
+}
+
+// The Row 2 conversion ratios, shared by the cards, exports and reports
+export type ConversionRatioKey = 'chatToLead' | 'leadToBuy' | 'chatToBuy'
+
+export const CONVERSION_RATIOS: {
+  key: ConversionRatioKey
+  label: string
+  numerator: NumericMetricKey
+  denominator: NumericMetricKey
+}[] = [
+  { key: 'chatToLead', label: 'Chat to Lead %', numerator: 'totalLead', denominator: 'totalChat' },
+  { key: 'leadToBuy', label: 'Lead to Buy %', numerator: 'totalBuy', denominator: 'totalLead' },
+  { key: 'chatToBuy', label: 'Chat to Buy %', numerator: 'totalBuy', denominator: 'totalChat' }
+]
+
+export const averageOrderValue = (metrics: MetricData): number => {
+  return metrics.totalOrders > 0 ? metrics.totalBuyValue / metrics.totalOrders : 0
+}
+
+export const revenuePerChat = (metrics: MetricData): number => {
+  return metrics.totalChat > 0 ? metrics.totalBuyValue / metrics.totalChat : 0
+}
+
+// What one chat, lead or purchase cost in ad spend
+export const costPer = (metrics: MetricData, result: NumericMetricKey): number => {
+  return metrics[result] > 0 ? metrics.totalAdSpend / metrics[result] : 0
+}
+
+// Return on ad spend: purchase value per baht spent
+export const returnOnAdSpend = (metrics: MetricData): number => {
+  return metrics.totalAdSpend > 0 ? metrics.totalBuyValue / metrics.totalAdSpend : 0
+}
+
+// Ad spend KPIs, shared by the exports and the printable report
+export const AD_SPEND_KPIS: { label: string; value: (metrics: MetricData) => number; isCurrency: boolean }[] = [
+  { label: 'Cost per Chat', value: (metrics) => costPer(metrics, 'totalChat'), isCurrency: true },
+  { label: 'Cost per Lead', value: (metrics) => costPer(metrics, 'totalLead'), isCurrency: true },
+  { label: 'Cost per Purchase', value: (metrics) => costPer(metrics, 'totalBuy'), isCurrency: true },
+  { label: 'ROAS', value: returnOnAdSpend, isCurrency: false }
+]
+
+// Relative change in percent, or null when there is no previous value to compare against
+export const percentChange = (current: number, previous: number): number | null => {
+  if (previous === 0) return current === 0 ? 0 : null
+  return ((current - previous) / previous) * 100
+}
+
+// Strips revenue for roles without finance permission
+export const withoutFinance = (metrics: MetricData): MetricData => {
+  return { ...metrics, totalBuyValue: 0, totalOrders: 0, buyValueByCurrency: {}, totalAdSpend: 0 }
+}
+
+// A window with no chats, intents, purchases or spend at all, as opposed to one that failed to load
+export const isEmptyMetrics = (metrics: MetricData): boolean => {
+  return (Object.keys(METRIC_LABELS) as NumericMetricKey[]).every((key) => metrics[key] === 0)
+}
@@ -0,0 +1,255 @@
+import type { DateRange } from '@/lib/dateRange'
+import type { MetricData, MetricFilters } from '@/lib/metrics'
+import type { TrendData } from '@/lib/trends'
+import type { HeatmapData } from '@/lib/heatmap'
+import type { Page, PageMetrics } from '@/lib/pages'
+import type { DrillDownResult, DrillDownTarget } from '@/lib/drilldown'
+import type { DashboardLayout } from '@/lib/layout'
+import type { IntentCatalog } from '@/lib/intents'
+import type { UserPreferences } from '@/lib/i18n'
+import type { AdSpendImport } from '@/lib/adSpend'
+import type { CohortReport } from '@/lib/cohorts'
+import type { ModerationEvent, ModerationReport } from '@/lib/moderation'
+import type { AlertEvent, AlertRule, AlertRuleInput, RuleEvaluation } from '@/lib/alerts'
+import type { RenderedReport, ReportRun, ReportSchedule, ReportScheduleInput } from '@/lib/reports'
+import type { Goal, GoalInput, GoalProgress } from '@/lib/goals'
+import type { Annotation, AnnotationInput } from '@/lib/annotations'
+import type { ShareLink, ShareLinkInput, ShareLinkView, ShareLinkWithToken, SharedDashboard } from '@/lib/shareLinks'
+import { type ApiErrorBody, ApiError } from '@/lib/apiError'
+import { type QueryOptions, fetchQuery, prefetchQuery } from '@/lib/queryCache'
+
+// Browser-side client for the /api route handlers
+
+export const windowParams = (range: DateRange, filters: MetricFilters = {}): URLSearchParams => {
+  const params = new URLSearchParams({ from: range.from.toISOString(), to: range.to.toISOString() })
+  if (filters.pageIds?.length) params.set('pages', filters.pageIds.join(','))
+  return params
+}
+
+const apiFetch = async <T>(path: string, params?: URLSearchParams, init?: RequestInit): Promise<T> => {
+  const response = await fetch(params ? `${path}?${params}` : path, init)
+  const body = await response.json().catch(() => null)
+  if (!response.ok) {
+    const error = (body as ApiErrorBody | null)?.error
+    throw new ApiError(response.status, error?.code ?? 'internal', error?.message ?? response.statusText, error?.details)
+  }
+  return body as T
+}
+
+export const getMetrics = (range: DateRange, filters?: MetricFilters, init?: RequestInit) => {
+  return apiFetch<MetricData>('/api/metrics', windowParams(range, filters), init)
+}
+
+export const getTrends = (range: DateRange, filters?: MetricFilters, init?: RequestInit) => {
+  return apiFetch<TrendData>('/api/metrics/trends', windowParams(range, filters), init)
+}
+
+// Dashboard reads through the shared query cache, keyed by URL, so the cards, charts and
+// prefetches for the same window share one request
+const windowQuery = <T>(path: string) => {
+  const key = (range: DateRange, filters?: MetricFilters) => `${path}?${windowParams(range, filters)}`
+  const fetcher = (range: DateRange, filters?: MetricFilters) => (signal: AbortSignal) => {
+    return apiFetch<T>(path, windowParams(range, filters), { signal })
+  }
+  return {
+    fetch: (range: DateRange, filters?: MetricFilters, options?: QueryOptions) => {
+      return fetchQuery(key(range, filters), fetcher(range, filters), options)
+    },
+    prefetch: (range: DateRange, filters?: MetricFilters) => prefetchQuery(key(range, filters), fetcher(range, filters))
+  }
+}
+
+const metricsQuery = windowQuery<MetricData>('/api/metrics')
+const trendsQuery = windowQuery<TrendData>('/api/metrics/trends')
+
+export const queryMetrics = metricsQuery.fetch
+export const queryTrends = trendsQuery.fetch
+export const queryHeatmap = windowQuery<HeatmapData>('/api/metrics/heatmap').fetch
+export const queryPageBreakdown = windowQuery<PageMetrics[]>('/api/metrics/pages').fetch
+export const queryAnnotations = windowQuery<Annotation[]>('/api/annotations').fetch
+
+// What the cards and trend chart need for a window, fetched ahead of the user switching to it
+export const prefetchWindow = (range: DateRange, previous: DateRange, filters?: MetricFilters) => {
+  metricsQuery.prefetch(range, filters)
+  metricsQuery.prefetch(previous, filters)
+  trendsQuery.prefetch(range, filters)
+}
+
+export const getDrillDown = (target: DrillDownTarget, range: DateRange, filters?: MetricFilters, init?: RequestInit) => {
+  const params = windowParams(range, filters)
+  if (target.metric) params.set('metric', target.metric)
+  if (target.intentTypes) params.set('intents', target.intentTypes.join(','))
+  return apiFetch<DrillDownResult>('/api/metrics/drilldown', params, init)
+}
+
+export const getPages = (init?: RequestInit) => {
+  return apiFetch<Page[]>('/api/pages', undefined, init)
+}
+
+export const getCohorts = (range: DateRange, filters?: MetricFilters, init?: RequestInit) => {
+  return apiFetch<CohortReport>('/api/metrics/cohorts', windowParams(range, filters), init)
+}
+
+export const getModeration = (range: DateRange, filters?: MetricFilters, init?: RequestInit) => {
+  return apiFetch<ModerationReport>('/api/metrics/moderation', windowParams(range, filters), init)
+}
+
+export const markFalsePositive = (intentId: number) => {
+  return apiFetch<ModerationEvent>(`/api/moderation/false-positives/${intentId}`, undefined, { method: 'POST' })
+}
+
+export const clearFalsePositive = (intentId: number) => {
+  return apiFetch<ModerationEvent>(`/api/moderation/false-positives/${intentId}`, undefined, { method: 'DELETE' })
+}
+
+export const getIntentCatalog = (init?: RequestInit) => {
+  return apiFetch<IntentCatalog>('/api/intents', undefined, init)
+}
+
+const jsonBody = (method: string, body: unknown): RequestInit => ({
+  method,
+  headers: { 'Content-Type': 'application/json' },
+  body: JSON.stringify(body)
+})
+
+export const getAlertRules = (init?: RequestInit) => {
+  return apiFetch<AlertRule[]>('/api/alerts/rules', undefined, init)
+}
+
+export const createAlertRule = (input: AlertRuleInput) => {
+  return apiFetch<AlertRule>('/api/alerts/rules', undefined, jsonBody('POST', input))
+}
+
+export const updateAlertRule = (id: string, input: Partial<AlertRuleInput>) => {
+  return apiFetch<AlertRule>(`/api/alerts/rules/${id}`, undefined, jsonBody('PATCH', input))
+}
+
+export const deleteAlertRule = (id: string) => {
+  return apiFetch<null>(`/api/alerts/rules/${id}`, undefined, { method: 'DELETE' })
+}
+
+export const getAlertEvents = ({ unacknowledged = false, limit }: { unacknowledged?: boolean; limit?: number } = {}, init?: RequestInit) => {
+  const params = new URLSearchParams()
+  if (unacknowledged) params.set('unacknowledged', '1')
+  if (limit) params.set('limit', String(limit))
+  return apiFetch<AlertEvent[]>('/api/alerts/events', params, init)
+}
+
+export const acknowledgeAlert = (id: number) => {
+  return apiFetch<AlertEvent>(`/api/alerts/events/${id}`, undefined, { method: 'POST' })
+}
+
+export const evaluateAlerts = () => {
+  return apiFetch<RuleEvaluation[]>('/api/alerts/evaluate', undefined, { method: 'POST' })
+}
+
+export const getReportSchedules = (init?: RequestInit) => {
+  return apiFetch<ReportSchedule[]>('/api/reports/schedules', undefined, init)
+}
+
+export const createReportSchedule = (input: ReportScheduleInput) => {
+  return apiFetch<ReportSchedule>('/api/reports/schedules', undefined, jsonBody('POST', input))
+}
+
+export const updateReportSchedule = (id: string, input: Partial<ReportScheduleInput>) => {
+  return apiFetch<ReportSchedule>(`/api/reports/schedules/${id}`, undefined, jsonBody('PATCH', input))
+}
+
+export const deleteReportSchedule = (id: string) => {
+  return apiFetch<null>(`/api/reports/schedules/${id}`, undefined, { method: 'DELETE' })
+}
+
+export const previewReportSchedule = (id: string) => {
+  return apiFetch<RenderedReport>(`/api/reports/schedules/${id}/preview`)
+}
+
+export const runReportSchedules = () => {
+  return apiFetch<ReportRun[]>('/api/reports/run', undefined, { method: 'POST' })
+}
+
+export const createAnnotation = (input: AnnotationInput) => {
+  return apiFetch<Annotation>('/api/annotations', undefined, jsonBody('POST', input))
+}
+
+export const updateAnnotation = (id: string, input: Partial<AnnotationInput>) => {
+  return apiFetch<Annotation>(`/api/annotations/${id}`, undefined, jsonBody('PATCH', input))
+}
+
+export const deleteAnnotation = (id: string) => {
+  return apiFetch<null>(`/api/annotations/${id}`, undefined, { method: 'DELETE' })
+}
+
+export const getGoals = (init?: RequestInit) => {
+  return apiFetch<Goal[]>('/api/goals', undefined, init)
+}
+
+export const createGoal = (input: GoalInput) => {
+  return apiFetch<Goal>('/api/goals', undefined, jsonBody('POST', input))
+}
+
+export const updateGoal = (id: string, input: Partial<GoalInput>) => {
+  return apiFetch<Goal>(`/api/goals/${id}`, undefined, jsonBody('PATCH', input))
+}
+
+export const deleteGoal = (id: string) => {
+  return apiFetch<null>(`/api/goals/${id}`, undefined, { method: 'DELETE' })
+}
+
+export const getGoalProgress = (init?: RequestInit) => {
+  return apiFetch<GoalProgress[]>('/api/goals/progress', undefined, init)
+}
+
+// Progress does not depend on the dashboard window, so switching windows reuses it
+export const queryGoalProgress = (options?: QueryOptions) => {
+  return fetchQuery('/api/goals/progress', (signal) => getGoalProgress({ signal }), options)
+}
+
+export const getLayout = (init?: RequestInit) => {
+  return apiFetch<DashboardLayout>('/api/layout', undefined, init)
+}
+
+export const saveLayout = (layout: DashboardLayout) => {
+  return apiFetch<DashboardLayout>('/api/layout', undefined, jsonBody('PUT', layout))
+}
+
+export const resetLayout = () => {
+  return apiFetch<DashboardLayout>('/api/layout', undefined, { method: 'DELETE' })
+}
+
+export const savePreferences = (preferences: UserPreferences) => {
+  return apiFetch<UserPreferences>('/api/preferences', undefined, jsonBody('PUT', preferences))
+}
+
+export const getAdSpendImports = (init?: RequestInit) => {
+  return apiFetch<AdSpendImport[]>('/api/ad-spend/imports', undefined, init)
+}
+
+export const uploadAdSpend = (pageId: string, fileName: string, csv: string) => {
+  return apiFetch<AdSpendImport>('/api/ad-spend/imports', undefined, jsonBody('POST', { pageId, fileName, csv }))
+}
+
+export const deleteAdSpendImport = (id: string) => {
+  return apiFetch<null>(`/api/ad-spend/imports/${id}`, undefined, { method: 'DELETE' })
+}
+
+export const getShareLinks = (init?: RequestInit) => {
+  return apiFetch<ShareLinkWithToken[]>('/api/share-links', undefined, init)
+}
+
+export const createShareLink = (input: ShareLinkInput) => {
+  return apiFetch<ShareLinkWithToken>('/api/share-links', undefined, jsonBody('POST', input))
+}
+
+export const revokeShareLink = (id: string) => {
+  return apiFetch<ShareLink>(`/api/share-links/${id}`, undefined, { method: 'DELETE' })
+}
+
+export const getShareLinkViews = (id: string, init?: RequestInit) => {
+  return apiFetch<ShareLinkView[]>(`/api/share-links/${id}/views`, undefined, init)
+}
+
+// Used by the public /share and /embed pages, so it never goes through the per-user query cache
+export const getSharedDashboard = (token: string, timeFrame?: string, init?: RequestInit) => {
+  const params = timeFrame ? new URLSearchParams({ range: timeFrame }) : undefined
+  return apiFetch<SharedDashboard>(`/api/share/${encodeURIComponent(token)}`, params, init)
+}
@@ -0,0 +1,218 @@
+import type { DbClient } from '@/lib/supabase'
+import type { Tables } from '@/lib/database.types'
+import { type DateRange, type Granularity, bucketStarts, rangeGranularity } from '@/lib/dateRange'
+import { type MetricFilters, INTENT_TABLE, fetchAllInRange } from '@/lib/metrics'
+import { fetchIntentCatalog, intentTypesIn } from '@/lib/intents'
+
+// The event list shows the newest rows and stops here; every total still covers the whole window
+export const MAX_MODERATION_EVENTS = 500
+
+export const TOP_OFFENDERS = 20
+
+// One bad-customer intent (spam, blocking, ban, …), including those marked as false positives
+export type ModerationEvent = Pick<
+  Tables<'intents'>,
+  'id' | 'created_at' | 'page_id' | 'psid' | 'intent_type' | 'reason' | 'false_positive_at'
+>
+
+// Counts per bad intent type; false positives are left out
+export type ModerationCounts = Record<string, number>
+
+export interface ModerationPoint {
+  // Bucket start in epoch ms
+  time: number
+  chats: number
+  bad: number
+  counts: ModerationCounts
+}
+
+export interface ModerationReason {
+  reason: string
+  total: number
+  counts: ModerationCounts
+}
+
+export interface ModerationPage {
+  pageId: string
+  chats: number
+  bad: number
+  counts: ModerationCounts
+}
+
+export interface ModerationOffender {
+  psid: string
+  pageId: string
+  total: number
+  counts: ModerationCounts
+  lastSeen: string
+}
+
+export interface ModerationReport {
+  // Intent types in the 'bad' category of the registry, in registry order
+  intentTypes: string[]
+  totals: ModerationCounts
+  totalBad: number
+  totalChat: number
+  falsePositives: number
+  granularity: Granularity
+  series: ModerationPoint[]
+  byReason: ModerationReason[]
+  byPage: ModerationPage[]
+  topOffenders: ModerationOffender[]
+  // Newest first, false positives included so they can be restored
+  events: ModerationEvent[]
+  // More events exist than MAX_MODERATION_EVENTS
+  truncated: boolean
+}
+
+// Bad-customer events as a share of Total Chat, in percent. Unrounded, unlike
+// calculatePercentage, since the rate is usually well under 1%.
+export const badRate = (bad: number, chats: number): number => (chats > 0 ? (bad / chats) * 100 : 0)
+
+const emptyCounts = (intentTypes: string[]): ModerationCounts => {
+  return Object.fromEntries(intentTypes.map((intentType) => [intentType, 0]))
+}
+
+const sumCounts = (counts: ModerationCounts): number => {
+  return Object.values(counts).reduce((sum, count) => sum + count, 0)
+}
+
+const byTotal = <T extends { total: number }>(a: T, b: T) => b.total - a.total
+
+// Shape of the moderation_summary() result
+interface ModerationSummary {
+  chats_by_bucket: { time: number; total: number }[]
+  chats_by_page: { page_id: string; total: number }[]
+  bad_by_bucket: { time: number; intent_type: string; total: number }[]
+  bad_by_page: { page_id: string; intent_type: string; total: number }[]
+  bad_by_reason: { reason: string; intent_type: string; total: number }[]
+  offenders: { psid: string; page_id: string; last_seen: string; intent_type: string; total: number }[]
+  false_positives: number
+}
+
+// Totals are counted by moderation_summary() in the database; only the newest events are
+// downloaded, for the event list
+export const fetchModerationReport = async (
+  client: DbClient,
+  range: DateRange,
+  filters: MetricFilters = {}
+): Promise<ModerationReport> => {
+  const catalog = await fetchIntentCatalog(client, filters.pageIds)
+  const intentTypes = intentTypesIn(catalog, 'bad')
+  const granularity = rangeGranularity(range)
+
+  const [{ data, error }, events] = await Promise.all([
+    client.rpc('moderation_summary', {
+      range_from: range.from.toISOString(),
+      range_to: range.to.toISOString(),
+      bad_intent_types: intentTypes,
+      granularity,
+      filter_page_ids: filters.pageIds?.length ? filters.pageIds : undefined,
+      top_offenders: TOP_OFFENDERS
+    }),
+    intentTypes.length
+      ? fetchAllInRange<ModerationEvent>(
+        client, INTENT_TABLE, 'id, created_at, page_id, psid, intent_type, reason, false_positive_at', range, filters,
+        { intentTypes, includeFalsePositives: true, newestFirst: true, limit: MAX_MODERATION_EVENTS + 1 }
+      )
+      : Promise.resolve([])
+  ])
+  if (error) throw error
+  const summary = data as unknown as ModerationSummary
+
+  // Pre-fill every bucket so quiet periods plot as zero instead of gaps
+  const buckets = new Map<number, ModerationPoint>()
+  bucketStarts(range, granularity).forEach((start) => {
+    buckets.set(start.getTime(), { time: start.getTime(), chats: 0, bad: 0, counts: emptyCounts(intentTypes) })
+  })
+
+  const pages = new Map<string, ModerationPage>()
+  const pageFor = (pageId: string) => {
+    let page = pages.get(pageId)
+    if (!page) {
+      page = { pageId, chats: 0, bad: 0, counts: emptyCounts(intentTypes) }
+      pages.set(pageId, page)
+    }
+    return page
+  }
+
+  summary.chats_by_bucket.forEach(({ time, total }) => {
+    const point = buckets.get(time)
+    if (point) point.chats += total
+  })
+  summary.chats_by_page.forEach(({ page_id: pageId, total }) => {
+    pageFor(pageId).chats += total
+  })
+
+  const totals = emptyCounts(intentTypes)
+  summary.bad_by_bucket.forEach(({ time, intent_type: type, total }) => {
+    totals[type] += total
+    const point = buckets.get(time)
+    if (point) {
+      point.bad += total
+      point.counts[type] += total
+    }
+  })
+  summary.bad_by_page.forEach(({ page_id: pageId, intent_type: type, total }) => {
+    const page = pageFor(pageId)
+    page.bad += total
+    page.counts[type] += total
+  })
+
+  const reasons = new Map<string, ModerationReason>()
+  summary.bad_by_reason.forEach(({ reason: reasonKey, intent_type: type, total }) => {
+    const reason = reasons.get(reasonKey) ?? { reason: reasonKey, total: 0, counts: emptyCounts(intentTypes) }
+    reason.total += total
+    reason.counts[type] += total
+    reasons.set(reasonKey, reason)
+  })
+
+  const offenders = new Map<string, ModerationOffender>()
+  summary.offenders.forEach(({ psid, page_id: pageId, last_seen: lastSeen, intent_type: type, total }) => {
+    const offender = offenders.get(psid) ?? { psid, pageId, total: 0, counts: emptyCounts(intentTypes), lastSeen }
+    offender.total += total
+    offender.counts[type] += total
+    offenders.set(psid, offender)
+  })
+
+  return {
+    intentTypes,
+    totals,
+    totalBad: sumCounts(totals),
+    totalChat: summary.chats_by_page.reduce((sum, { total }) => sum + total, 0),
+    falsePositives: summary.false_positives,
+    granularity,
+    series: Array.from(buckets.values()),
+    byReason: Array.from(reasons.values()).sort(byTotal),
+    byPage: Array.from(pages.values()).filter((page) => page.bad > 0).sort((a, b) => b.bad - a.bad),
+    topOffenders: Array.from(offenders.values()).sort(byTotal),
+    events: events.slice(0, MAX_MODERATION_EVENTS),
+    truncated: events.length > MAX_MODERATION_EVENTS
+  }
+}
+
+// Marks or clears a false positive through set_intent_false_positive(), which checks the
+// moderate permission and page access; null when the intent is not visible
+export const setFalsePositive = async (
+  client: DbClient,
+  intentId: number,
+  isFalsePositive: boolean
+): Promise<ModerationEvent | null> => {
+  const { data, error } = await client.rpc('set_intent_false_positive', {
+    target_intent_id: intentId,
+    is_false_positive: isFalsePositive
+  })
+  if (error) throw error
+  const [row] = data ?? []
+  return row
+    ? {
+      id: row.id,
+      created_at: row.created_at,
+      page_id: row.page_id,
+      psid: row.psid,
+      intent_type: row.intent_type,
+      reason: row.reason,
+      false_positive_at: row.false_positive_at
+    }
+    : null
+}
@@ -0,0 +1,63 @@
+import type { DbClient } from '@/lib/supabase'
+import type { DateRange } from '@/lib/dateRange'
+import type { Tables } from '@/lib/database.types'
+import { type MetricData, fetchMetricData, mapInBatches } from '@/lib/metrics'
+import { fetchIntentCatalog } from '@/lib/intents'
+
+// A Facebook page connected to BMS and the ad account it advertises from
+export type Page = Tables<'pages'>
+
+export interface AdAccount {
+  id: string
+  name: string
+  pageIds: string[]
+}
+
+export interface PageMetrics {
+  page: Page
+  metrics: MetricData
+}
+
+export const fetchPages = async (client: DbClient): Promise<Page[]> => {
+  const { data, error } = await client
+    .from('pages')
+    .select('id, name, ad_account_id, ad_account_name')
+    .order('name')
+
+  if (error) throw error
+  return data ?? []
+}
+
+export const groupByAdAccount = (pages: Page[]): AdAccount[] => {
+  const accounts = new Map<string, AdAccount>()
+  pages.forEach((page) => {
+    if (!page.ad_account_id) return
+    const account = accounts.get(page.ad_account_id) ?? {
+      id: page.ad_account_id,
+      name: page.ad_account_name || page.ad_account_id,
+      pageIds: []
+    }
+    account.pageIds.push(page.id)
+    accounts.set(page.ad_account_id, account)
+  })
+  return Array.from(accounts.values())
+}
+
+// ?pages=123,456 — missing or empty means all pages
+export const parsePageIds = (value: string | null): string[] => {
+  if (!value) return []
+  return Array.from(new Set(value.split(',').map((id) => id.trim()).filter(Boolean)))
+}
+
+// Each page costs a full fetchMetricData (a dozen or so queries), so only a few run at once
+const BREAKDOWN_CONCURRENCY = 4
+
+// One MetricData per page for the side-by-side breakdown table
+export const fetchPageBreakdown = async (client: DbClient, range: DateRange, pages: Page[]): Promise<PageMetrics[]> => {
+  // One catalog for every page so the columns line up
+  const catalog = await fetchIntentCatalog(client, pages.map((page) => page.id))
+  return mapInBatches(pages, BREAKDOWN_CONCURRENCY, async (page) => ({
+    page,
+    metrics: await fetchMetricData(client, range, { pageIds: [page.id] }, catalog)
+  }))
+}
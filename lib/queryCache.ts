@@ -0,0 +1,115 @@
+// In-memory cache for browser API reads, shared by every component in the tab. Concurrent
+// requests for the same key share one fetch, results are reused for QUERY_MAX_AGE_MS, and
+// invalidateQueries() drops everything when realtime says the data changed.
+
+export const QUERY_MAX_AGE_MS = 5 * 60 * 1000
+
+export interface QueryOptions {
+  // Stops waiting; the request itself is cancelled once nobody is waiting for it
+  signal?: AbortSignal
+  maxAgeMs?: number
+}
+
+interface QueryEntry {
+  promise: Promise<unknown>
+  controller: AbortController
+  // Epoch ms of the response, null while in flight
+  fetchedAt: number | null
+  waiting: number
+  // Started by prefetchQuery, so it runs to completion even with no one waiting
+  keepAlive: boolean
+}
+
+const entries = new Map<string, QueryEntry>()
+
+const abortError = () => new DOMException('The request was cancelled', 'AbortError')
+
+const start = <T>(key: string, fetcher: (signal: AbortSignal) => Promise<T>, keepAlive: boolean): QueryEntry => {
+  const controller = new AbortController()
+  const entry: QueryEntry = { promise: Promise.resolve(), controller, fetchedAt: null, waiting: 0, keepAlive }
+  entry.promise = fetcher(controller.signal).then(
+    (data) => {
+      entry.fetchedAt = Date.now()
+      return data
+    },
+    (error) => {
+      // Failures are not cached; the next request tries again
+      if (entries.get(key) === entry) entries.delete(key)
+      throw error
+    }
+  )
+  // Waiters get the rejection; this only keeps an unobserved prefetch failure quiet
+  entry.promise.catch(() => {})
+  entries.set(key, entry)
+  return entry
+}
+
+const lookup = (key: string, maxAgeMs: number): QueryEntry | undefined => {
+  const entry = entries.get(key)
+  if (entry?.fetchedAt != null && Date.now() - entry.fetchedAt > maxAgeMs) {
+    entries.delete(key)
+    return undefined
+  }
+  return entry
+}
+
+const wait = <T>(key: string, entry: QueryEntry, signal?: AbortSignal): Promise<T> => {
+  if (!signal) return entry.promise as Promise<T>
+  if (signal.aborted) return Promise.reject(abortError())
+
+  entry.waiting++
+  return new Promise<T>((resolve, reject) => {
+    let done = false
+    const finish = () => {
+      done = true
+      entry.waiting--
+      signal.removeEventListener('abort', onAbort)
+    }
+    const onAbort = () => {
+      if (done) return
+      finish()
+      if (entry.waiting === 0 && entry.fetchedAt === null && !entry.keepAlive) {
+        entry.controller.abort()
+        if (entries.get(key) === entry) entries.delete(key)
+      }
+      reject(abortError())
+    }
+    signal.addEventListener('abort', onAbort)
+    entry.promise.then(
+      (data) => {
+        if (done) return
+        finish()
+        resolve(data as T)
+      },
+      (error) => {
+        if (done) return
+        finish()
+        reject(error)
+      }
+    )
+  })
+}
+
+export const fetchQuery = <T>(
+  key: string,
+  fetcher: (signal: AbortSignal) => Promise<T>,
+  { signal, maxAgeMs = QUERY_MAX_AGE_MS }: QueryOptions = {}
+): Promise<T> => {
+  const entry = lookup(key, maxAgeMs) ?? start(key, fetcher, false)
+  return wait<T>(key, entry, signal)
+}
+
+// Warms the cache for something the user is likely to open next; errors are ignored
+export const prefetchQuery = <T>(key: string, fetcher: (signal: AbortSignal) => Promise<T>) => {
+  const entry = lookup(key, QUERY_MAX_AGE_MS)
+  if (entry) {
+    entry.keepAlive = true
+    return
+  }
+  start(key, fetcher, true)
+}
+
+// Forgets every cached result. Requests in flight still resolve for whoever is waiting.
+export const invalidateQueries = () => {
+  entries.clear()
+}
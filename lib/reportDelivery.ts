@@ -0,0 +1,25 @@
+import { type ChannelMessage, type ChannelSenders, createChannelSenders } from '@/lib/channels'
+import { type ReportSchedule, type SummaryReport, renderReport } from '@/lib/reports'
+
+// The rendered report, with the raw figures for webhook receivers
+export const reportMessage = (schedule: Pick<ReportSchedule, 'id' | 'name'>, report: SummaryReport): ChannelMessage => ({
+  source: 'report',
+  ...renderReport(report),
+  data: {
+    scheduleId: schedule.id,
+    scheduleName: schedule.name,
+    periodFrom: report.period.from,
+    periodTo: report.period.to,
+    lines: report.lines
+  }
+})
+
+// Each schedule brings its own recipients; the Resend key and sender address come from the
+// environment. REPORT_DELIVERY=stub (or ALERT_DELIVERY=stub) logs reports instead of sending them.
+export const reportSendersFromEnv = (env: Record<string, string | undefined> = process.env): ChannelSenders => {
+  return createChannelSenders({
+    stub: (env.REPORT_DELIVERY ?? env.ALERT_DELIVERY) === 'stub',
+    resendApiKey: env.RESEND_API_KEY,
+    emailFrom: env.REPORT_EMAIL_FROM ?? env.ALERT_EMAIL_FROM
+  })
+}
@@ -0,0 +1,142 @@
+import type { DbClient } from '@/lib/supabase'
+import type { Json } from '@/lib/database.types'
+import { previousRange } from '@/lib/dateRange'
+import { fetchMetricData } from '@/lib/metrics'
+import { fetchIntentCatalog } from '@/lib/intents'
+import { fetchPages } from '@/lib/pages'
+import {
+  type ReportRecipients,
+  type ReportRun,
+  type ReportSchedule,
+  type ReportScheduleInput,
+  type SummaryReport,
+  EMPTY_RECIPIENTS,
+  assertRecipients,
+  buildReportLines,
+  isReportDue,
+  latestSendTime,
+  reportPeriod
+} from '@/lib/reports'
+import { reportMessage } from '@/lib/reportDelivery'
+import { type ChannelSenders, deliverMessage } from '@/lib/channels'
+import { ApiError } from '@/lib/apiError'
+
+// Recipients come back null for anyone but admins (and the service role): row-level security
+// hides report_recipients from everyone else
+const SCHEDULE_COLUMNS = '*, recipients:report_recipients(email_to, webhook_url, webhook_secret, line_token)'
+
+export const fetchReportSchedules = async (client: DbClient, { enabledOnly = false } = {}): Promise<ReportSchedule[]> => {
+  let query = client.from('report_schedules').select(SCHEDULE_COLUMNS).order('created_at')
+  if (enabledOnly) query = query.eq('enabled', true)
+  const { data, error } = await query
+  if (error) throw error
+  return (data ?? []) as ReportSchedule[]
+}
+
+export const fetchReportSchedule = async (client: DbClient, id: string): Promise<ReportSchedule> => {
+  const { data, error } = await client.from('report_schedules').select(SCHEDULE_COLUMNS).eq('id', id).maybeSingle()
+  if (error) throw error
+  if (!data) throw new ApiError(404, 'not_found', 'Report schedule not found')
+  return data as ReportSchedule
+}
+
+const saveRecipients = async (client: DbClient, scheduleId: string, recipients: ReportRecipients) => {
+  const { error } = await client
+    .from('report_recipients')
+    .upsert({ ...recipients, schedule_id: scheduleId, updated_at: new Date().toISOString() })
+  if (error) throw error
+}
+
+export const insertReportSchedule = async (
+  client: DbClient,
+  { recipients, ...input }: ReportScheduleInput,
+  createdBy: string
+): Promise<ReportSchedule> => {
+  const { data, error } = await client.from('report_schedules').insert({ ...input, created_by: createdBy }).select().single()
+  if (error) throw error
+  try {
+    await saveRecipients(client, data.id, recipients)
+  } catch (error) {
+    // A schedule without recipients has nowhere to send to, so it is not kept
+    await client.from('report_schedules').delete().eq('id', data.id)
+    throw error
+  }
+  return { ...(data as Omit<ReportSchedule, 'recipients'>), recipients }
+}
+
+// A change to only the channels or only the recipients is checked against the other as stored
+export const updateReportSchedule = async (
+  client: DbClient,
+  id: string,
+  { recipients, ...input }: Partial<ReportScheduleInput>
+): Promise<ReportSchedule> => {
+  if (Boolean(input.channels) !== Boolean(recipients)) {
+    const current = await fetchReportSchedule(client, id)
+    assertRecipients(input.channels ?? current.channels, recipients ?? current.recipients ?? EMPTY_RECIPIENTS)
+  }
+  if (Object.keys(input).length) {
+    const { data, error } = await client.from('report_schedules').update(input).eq('id', id).select('id').maybeSingle()
+    if (error) throw error
+    if (!data) throw new ApiError(404, 'not_found', 'Report schedule not found')
+  }
+  if (recipients) await saveRecipients(client, id, recipients)
+  return fetchReportSchedule(client, id)
+}
+
+// The report a schedule sends at `sendAt`, measured with the same fetchMetricData as the
+// dashboard cards. `includeFinance` can only narrow what the schedule asks for.
+export const buildScheduledReport = async (
+  client: DbClient,
+  schedule: ReportSchedule,
+  sendAt: Date,
+  { includeFinance = schedule.include_finance } = {}
+): Promise<SummaryReport> => {
+  const period = reportPeriod(schedule.frequency, sendAt)
+  const previousPeriod = previousRange(period)
+  const pageIds = schedule.page_ids?.length ? schedule.page_ids : undefined
+  const catalog = await fetchIntentCatalog(client, pageIds)
+  const [metrics, previous, pages] = await Promise.all([
+    fetchMetricData(client, period, { pageIds }, catalog),
+    fetchMetricData(client, previousPeriod, { pageIds }, catalog),
+    pageIds ? fetchPages(client) : Promise.resolve([])
+  ])
+
+  return {
+    scheduleName: schedule.name,
+    frequency: schedule.frequency,
+    period,
+    previousPeriod,
+    pageNames: (pageIds ?? []).map((id) => pages.find((page) => page.id === id)?.name ?? id),
+    lines: buildReportLines(metrics, previous, includeFinance && schedule.include_finance)
+  }
+}
+
+// Sends every enabled schedule whose send time has passed since it last went out, each to its
+// own recipients, and records the per-channel result on the schedule. Needs a client that can
+// read every page and recipient and update report_schedules, i.e. the service role.
+export const runReportSchedules = async (
+  client: DbClient,
+  senders: ChannelSenders,
+  now = new Date()
+): Promise<ReportRun[]> => {
+  const schedules = await fetchReportSchedules(client, { enabledOnly: true })
+
+  return Promise.all(schedules.map(async (schedule): Promise<ReportRun> => {
+    const result = { scheduleId: schedule.id, name: schedule.name }
+    if (!isReportDue(schedule, now)) return { ...result, status: 'not_due' }
+    // Only schedules from before recipients were required can lack them; they are switched off
+    // until an admin adds some
+    if (!schedule.recipients) return { ...result, status: 'no_recipients' }
+
+    const report = await buildScheduledReport(client, schedule, latestSendTime(schedule, now))
+    const delivery = await deliverMessage(senders, schedule.channels, schedule.recipients, reportMessage(schedule, report))
+
+    const { error } = await client
+      .from('report_schedules')
+      .update({ last_sent_at: now.toISOString(), last_delivery: delivery as Json })
+      .eq('id', schedule.id)
+    if (error) throw error
+
+    return { ...result, status: 'sent', delivery }
+  }))
+}
@@ -0,0 +1,360 @@
+import { type DateRange, addDays, startOfBangkokDay, startOfBangkokWeek, toDateParam } from '@/lib/dateRange'
+import {
+  type MetricData,
+  type NumericMetricKey,
+  AD_SPEND_KPIS,
+  CONVERSION_RATIOS,
+  METRIC_LABELS,
+  averageOrderValue,
+  percentChange
+} from '@/lib/metrics'
+import { type AlertChannel, ALERT_CHANNELS } from '@/lib/alerts'
+import { channelsWithoutRecipients } from '@/lib/channels'
+import { formatCurrency, formatNumber } from '@/lib/format'
+import type { Tables } from '@/lib/database.types'
+import { ApiError } from '@/lib/apiError'
+
+// Daily reports cover the previous Bangkok day, weekly ones the previous Monday–Sunday week
+export type ReportFrequency = 'daily' | 'weekly'
+
+// Where one schedule's report goes on each channel. Only admins can read it, since it holds
+// LINE tokens and webhook secrets.
+export type ReportRecipients = Pick<Tables<'report_recipients'>, 'email_to' | 'webhook_url' | 'webhook_secret' | 'line_token'>
+
+// Reports go out through the same channels as alerts
+export type ReportSchedule = Omit<Tables<'report_schedules'>, 'frequency' | 'channels'> & {
+  frequency: ReportFrequency
+  channels: AlertChannel[]
+  // null for users who are not admins; every schedule has recipients otherwise
+  recipients: ReportRecipients | null
+}
+
+// Fields a user can set when creating or editing a schedule. Recipients are replaced as a whole.
+export type ReportScheduleInput = Pick<
+  ReportSchedule,
+  'name' | 'frequency' | 'send_hour' | 'page_ids' | 'channels' | 'include_finance' | 'enabled'
+> & {
+  recipients: ReportRecipients
+}
+
+// How a report line is formatted; 'percent' lines change by percentage points
+export type ReportLineKind = 'count' | 'currency' | 'percent' | 'multiple'
+
+export interface ReportLine {
+  label: string
+  kind: ReportLineKind
+  // null when there is nothing to measure, e.g. a ratio with no denominator
+  value: number | null
+  previous: number | null
+}
+
+export interface SummaryReport {
+  scheduleName: string
+  frequency: ReportFrequency
+  period: DateRange
+  previousPeriod: DateRange
+  // Empty when the schedule covers every page
+  pageNames: string[]
+  lines: ReportLine[]
+}
+
+export interface RenderedReport {
+  subject: string
+  text: string
+  html: string
+}
+
+export interface ReportRun {
+  scheduleId: string
+  name: string
+  status: 'sent' | 'not_due' | 'no_recipients'
+  delivery?: Record<string, string>
+}
+
+export const REPORT_FREQUENCY_LABELS: Record<ReportFrequency, string> = {
+  daily: 'Daily',
+  weekly: 'Weekly'
+}
+
+export const REPORT_FREQUENCIES = Object.keys(REPORT_FREQUENCY_LABELS) as ReportFrequency[]
+
+export const EMPTY_RECIPIENTS: ReportRecipients = { email_to: [], webhook_url: null, webhook_secret: null, line_token: null }
+
+// Keeps one schedule from mailing a whole client list
+export const MAX_REPORT_EMAILS = 20
+
+const HOUR_MS = 60 * 60 * 1000
+
+// The most recent time the schedule was meant to go out, at or before `now`
+export const latestSendTime = (schedule: Pick<ReportSchedule, 'frequency' | 'send_hour'>, now = new Date()): Date => {
+  const weekly = schedule.frequency === 'weekly'
+  const start = weekly ? startOfBangkokWeek(now) : startOfBangkokDay(now)
+  const sendAt = new Date(start.getTime() + schedule.send_hour * HOUR_MS)
+  return sendAt <= now ? sendAt : addDays(sendAt, weekly ? -7 : -1)
+}
+
+// The day or week before the send time
+export const reportPeriod = (frequency: ReportFrequency, sendAt: Date): DateRange => {
+  const to = frequency === 'weekly' ? startOfBangkokWeek(sendAt) : startOfBangkokDay(sendAt)
+  return { from: addDays(to, frequency === 'weekly' ? -7 : -1), to }
+}
+
+// Each send time is delivered once. A new schedule waits for its first send time instead of
+// going out as soon as it is created.
+export const isReportDue = (
+  schedule: Pick<ReportSchedule, 'frequency' | 'send_hour' | 'enabled' | 'last_sent_at' | 'created_at'>,
+  now = new Date()
+): boolean => {
+  if (!schedule.enabled) return false
+  const since = new Date(schedule.last_sent_at ?? schedule.created_at)
+  return latestSendTime(schedule, now) > since
+}
+
+const COUNT_LINES: NumericMetricKey[] = [
+  'totalChat', 'totalLead', 'totalBuy', 'totalGoodCustomer', 'totalBadCustomer', 'totalSpam', 'totalBlocking', 'totalBan'
+]
+
+const ratioPercent = (metrics: MetricData, numerator: NumericMetricKey, denominator: NumericMetricKey): number | null => {
+  return metrics[denominator] > 0 ? (metrics[numerator] / metrics[denominator]) * 100 : null
+}
+
+// The dashboard's summary figures for the report period next to the period before it
+export const buildReportLines = (metrics: MetricData, previous: MetricData, includeFinance: boolean): ReportLine[] => {
+  const lines: ReportLine[] = COUNT_LINES.map((key) => ({
+    label: METRIC_LABELS[key],
+    kind: 'count',
+    value: metrics[key],
+    previous: previous[key]
+  }))
+  CONVERSION_RATIOS.forEach((ratio) => {
+    lines.push({
+      label: ratio.label,
+      kind: 'percent',
+      value: ratioPercent(metrics, ratio.numerator, ratio.denominator),
+      previous: ratioPercent(previous, ratio.numerator, ratio.denominator)
+    })
+  })
+
+  if (includeFinance) {
+    lines.push(
+      { label: METRIC_LABELS.totalBuyValue, kind: 'currency', value: metrics.totalBuyValue, previous: previous.totalBuyValue },
+      { label: METRIC_LABELS.totalOrders, kind: 'count', value: metrics.totalOrders, previous: previous.totalOrders },
+      { label: 'Average Order Value', kind: 'currency', value: averageOrderValue(metrics), previous: averageOrderValue(previous) }
+    )
+    // Ad spend lines only mean something once spend has been imported for these days
+    if (metrics.totalAdSpend > 0 || previous.totalAdSpend > 0) {
+      lines.push({ label: METRIC_LABELS.totalAdSpend, kind: 'currency', value: metrics.totalAdSpend, previous: previous.totalAdSpend })
+      AD_SPEND_KPIS.forEach((kpi) => {
+        lines.push({
+          label: kpi.label,
+          kind: kpi.isCurrency ? 'currency' : 'multiple',
+          value: kpi.value(metrics),
+          previous: kpi.value(previous)
+        })
+      })
+    }
+  }
+
+  return lines
+}
+
+const formatLineValue = (kind: ReportLineKind, value: number | null): string => {
+  if (value === null) return '–'
+  switch (kind) {
+    case 'count': return formatNumber(value)
+    case 'currency': return formatCurrency(value)
+    case 'percent': return `${value.toFixed(1)}%`
+    case 'multiple': return `${value.toFixed(2)}×`
+  }
+}
+
+const signed = (value: number, digits: number): string => {
+  const rounded = value.toFixed(digits)
+  return value > 0 ? `+${rounded}` : rounded
+}
+
+// "+12.5%", "-1.2 pt", "new"; null when there is nothing to compare
+export const formatLineChange = (line: ReportLine): string | null => {
+  if (line.value === null || line.previous === null) return null
+  if (line.kind === 'percent') return `${signed(line.value - line.previous, 1)} pt`
+  const change = percentChange(line.value, line.previous)
+  return change === null ? 'new' : `${signed(change, 1)}%`
+}
+
+// Inclusive Bangkok days, e.g. "2025-08-24" or "2025-08-18 – 2025-08-24"
+export const formatReportPeriod = (range: DateRange): string => {
+  const first = toDateParam(range.from)
+  const last = toDateParam(addDays(range.to, -1))
+  return first === last ? first : `${first} – ${last}`
+}
+
+const escapeHtml = (value: string): string => {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+}
+
+// Plain text for chat channels and an HTML table for email
+export const renderReport = (report: SummaryReport): RenderedReport => {
+  const period = formatReportPeriod(report.period)
+  const previous = formatReportPeriod(report.previousPeriod)
+  const pages = report.pageNames.length ? report.pageNames.join(', ') : 'All pages'
+  const title = `${REPORT_FREQUENCY_LABELS[report.frequency]} report: ${report.scheduleName}`
+  const rows = report.lines.map((line) => ({
+    label: line.label,
+    value: formatLineValue(line.kind, line.value),
+    previous: formatLineValue(line.kind, line.previous),
+    change: formatLineChange(line)
+  }))
+
+  const text = [
+    `[BMS] ${title}`,
+    `${period} (Bangkok) vs ${previous}`,
+    `Pages: ${pages}`,
+    '',
+    ...rows.map((row) => `${row.label}: ${row.value}${row.change ? ` (${row.change}, was ${row.previous})` : ''}`)
+  ].join('\n')
+
+  const cell = 'padding:4px 12px;border-bottom:1px solid #e5e7eb'
+  const html = [
+    '<div style="font-family:Arial,sans-serif;color:#111827">',
+    `<h2 style="margin:0 0 4px">${escapeHtml(title)}</h2>`,
+    `<p style="margin:0;color:#4b5563">${escapeHtml(period)} (Bangkok) vs ${escapeHtml(previous)}</p>`,
+    `<p style="margin:0 0 12px;color:#4b5563">Pages: ${escapeHtml(pages)}</p>`,
+    '<table style="border-collapse:collapse;font-size:14px">',
+    `<thead><tr><th style="${cell};text-align:left">Metric</th><th style="${cell};text-align:right">${escapeHtml(period)}</th>` +
+      `<th style="${cell};text-align:right">${escapeHtml(previous)}</th><th style="${cell};text-align:right">Change</th></tr></thead>`,
+    '<tbody>',
+    ...rows.map((row) => {
+      const color = row.change?.startsWith('+') ? '#047857' : row.change?.startsWith('-') ? '#b91c1c' : '#4b5563'
+      return `<tr><td style="${cell}">${escapeHtml(row.label)}</td><td style="${cell};text-align:right">${escapeHtml(row.value)}</td>` +
+        `<td style="${cell};text-align:right;color:#6b7280">${escapeHtml(row.previous)}</td>` +
+        `<td style="${cell};text-align:right;color:${color}">${escapeHtml(row.change ?? '–')}</td></tr>`
+    }),
+    '</tbody>',
+    '</table>',
+    '</div>'
+  ].join('\n')
+
+  return { subject: `[BMS] ${title} (${period})`, text, html }
+}
+
+const invalid = (message: string): never => {
+  throw new ApiError(400, 'bad_request', message)
+}
+
+const isStringArray = (value: unknown): value is string[] => {
+  return Array.isArray(value) && value.every((item) => typeof item === 'string')
+}
+
+const EMAIL_PATTERN = /^[^\s@,;]+@[^\s@,;]+\.[^\s@,;]+$/
+
+// Every channel a schedule sends through needs its own recipient
+export const assertRecipients = (channels: AlertChannel[], recipients: ReportRecipients) => {
+  const missing = channelsWithoutRecipients(channels, recipients)
+  if (missing.length) invalid(`"recipients" must name where to send ${missing.join(', ')} reports`)
+}
+
+// Blank strings count as unset
+const optionalString = (value: unknown, field: string): string | null => {
+  if (value === undefined || value === null) return null
+  if (typeof value !== 'string') return invalid(`"recipients.${field}" must be a string or null`)
+  return value.trim() || null
+}
+
+const parseRecipients = (value: unknown): ReportRecipients => {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) return invalid('"recipients" must be an object')
+  const recipients = value as Record<string, unknown>
+
+  const emailTo = recipients.email_to ?? []
+  if (!isStringArray(emailTo)) return invalid('"recipients.email_to" must be an array of email addresses')
+  const addresses = Array.from(new Set(emailTo.map((address) => address.trim()).filter(Boolean)))
+  const badAddresses = addresses.filter((address) => !EMAIL_PATTERN.test(address))
+  if (badAddresses.length) invalid(`Invalid email addresses: ${badAddresses.join(', ')}`)
+  if (addresses.length > MAX_REPORT_EMAILS) invalid(`A report can go to at most ${MAX_REPORT_EMAILS} email addresses`)
+
+  const webhookUrl = optionalString(recipients.webhook_url, 'webhook_url')
+  if (webhookUrl) {
+    let url: URL | null = null
+    try {
+      url = new URL(webhookUrl)
+    } catch {
+      // Reported below
+    }
+    if (url?.protocol !== 'https:') invalid('"recipients.webhook_url" must be an https:// URL')
+  }
+
+  const lineToken = optionalString(recipients.line_token, 'line_token')
+  if (!addresses.length && !webhookUrl && !lineToken) {
+    invalid('"recipients" must include at least one email address, webhook URL or LINE token')
+  }
+
+  return {
+    email_to: addresses,
+    webhook_url: webhookUrl,
+    webhook_secret: webhookUrl ? optionalString(recipients.webhook_secret, 'webhook_secret') : null,
+    line_token: lineToken
+  }
+}
+
+// Validates a JSON request body; `partial` allows PATCH bodies with only some fields
+export function parseReportScheduleInput(body: unknown, partial: true): Partial<ReportScheduleInput>
+export function parseReportScheduleInput(body: unknown, partial?: false): ReportScheduleInput
+export function parseReportScheduleInput(body: unknown, partial = false): Partial<ReportScheduleInput> {
+  if (typeof body !== 'object' || body === null) return invalid('Request body must be a JSON object')
+  const input = body as Record<string, unknown>
+  const has = (key: keyof ReportScheduleInput) => input[key] !== undefined
+  const result: Partial<ReportScheduleInput> = {}
+
+  const required: (keyof ReportScheduleInput)[] = ['name', 'frequency', 'channels', 'recipients']
+  if (!partial) {
+    const missing = required.filter((key) => !has(key))
+    if (missing.length) invalid(`Missing fields: ${missing.join(', ')}`)
+  }
+
+  if (has('name')) {
+    if (typeof input.name !== 'string' || !input.name.trim()) invalid('"name" must be a non-empty string')
+    result.name = (input.name as string).trim()
+  }
+  if (has('frequency')) {
+    if (!REPORT_FREQUENCIES.includes(input.frequency as ReportFrequency)) invalid(`Unknown frequency "${input.frequency}"`)
+    result.frequency = input.frequency as ReportFrequency
+  }
+  if (has('send_hour')) {
+    const hour = input.send_hour
+    if (typeof hour !== 'number' || !Number.isInteger(hour) || hour < 0 || hour > 23) {
+      invalid('"send_hour" must be a whole hour between 0 and 23')
+    }
+    result.send_hour = hour as number
+  }
+  if (has('page_ids') || input.page_ids === null) {
+    if (input.page_ids !== null && !isStringArray(input.page_ids)) invalid('"page_ids" must be an array of page ids or null')
+    const pageIds = input.page_ids as string[] | null
+    result.page_ids = pageIds?.length ? pageIds : null
+  }
+  if (has('channels')) {
+    if (!isStringArray(input.channels) || input.channels.some((channel) => !ALERT_CHANNELS.includes(channel as AlertChannel))) {
+      invalid(`"channels" must be a list of ${ALERT_CHANNELS.join(', ')}`)
+    }
+    // Unlike alerts there is no in-app fallback, so a report needs somewhere to go
+    if (!(input.channels as string[]).length) invalid('"channels" must include at least one channel')
+    result.channels = input.channels as AlertChannel[]
+  }
+  if (has('include_finance')) {
+    if (typeof input.include_finance !== 'boolean') invalid('"include_finance" must be true or false')
+    result.include_finance = input.include_finance as boolean
+  }
+  if (has('enabled')) {
+    if (typeof input.enabled !== 'boolean') invalid('"enabled" must be true or false')
+    result.enabled = input.enabled as boolean
+  }
+  if (has('recipients')) {
+    result.recipients = parseRecipients(input.recipients)
+  }
+  // A PATCH with only one of the two is checked against the stored schedule instead
+  if (result.channels && result.recipients) assertRecipients(result.channels, result.recipients)
+
+  return result
+}
@@ -0,0 +1,158 @@
+import { createHmac, timingSafeEqual } from 'crypto'
+import type { DbClient } from '@/lib/supabase'
+import { presetRange, previousRange } from '@/lib/dateRange'
+import { fetchMetricData, withoutFinance } from '@/lib/metrics'
+import { fetchTrendData } from '@/lib/trends'
+import { fetchIntentCatalog } from '@/lib/intents'
+import { fetchPages } from '@/lib/pages'
+import {
+  type ShareLink,
+  type ShareLinkInput,
+  type ShareLinkView,
+  type SharedDashboard,
+  shareLinkStatus,
+  shareTimeFrame
+} from '@/lib/shareLinks'
+import { ApiError } from '@/lib/apiError'
+
+const MAX_LOGGED_VIEWS = 200
+const MAX_HEADER_LENGTH = 512
+
+const signature = (payload: string): string => {
+  const secret = process.env.SHARE_LINK_SECRET
+  if (!secret) throw new Error('SHARE_LINK_SECRET is not set')
+  return createHmac('sha256', secret).update(payload).digest('base64url')
+}
+
+// `<link id>.<expiry in Unix seconds>.<signature>`. The expiry is signed along with the id,
+// so a token stops working on time without a database read; revocation needs the row.
+export const signShareToken = (link: Pick<ShareLink, 'id' | 'expires_at'>): string => {
+  const payload = `${link.id}.${Math.floor(new Date(link.expires_at).getTime() / 1000)}`
+  return `${payload}.${signature(payload)}`
+}
+
+// The link id of a well-signed, unexpired token, else null
+export const verifyShareToken = (token: string, now: Date = new Date()): string | null => {
+  const [id, expiry, given] = token.split('.')
+  if (!id || !expiry || !given || !/^\d+$/.test(expiry)) return null
+  const expected = Buffer.from(signature(`${id}.${expiry}`))
+  const actual = Buffer.from(given)
+  if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) return null
+  return Number(expiry) * 1000 > now.getTime() ? id : null
+}
+
+export const fetchShareLinks = async (client: DbClient): Promise<ShareLink[]> => {
+  const { data, error } = await client.from('share_links').select('*').order('created_at', { ascending: false })
+  if (error) throw error
+  return (data ?? []) as ShareLink[]
+}
+
+export const insertShareLink = async (client: DbClient, input: ShareLinkInput, createdBy: string): Promise<ShareLink> => {
+  const { data, error } = await client.from('share_links').insert({ ...input, created_by: createdBy }).select().single()
+  if (error) throw error
+  return data as ShareLink
+}
+
+// Revoking keeps the row, so the access log can still name the link
+export const revokeShareLink = async (client: DbClient, id: string): Promise<ShareLink> => {
+  const { data, error } = await client
+    .from('share_links')
+    .update({ revoked_at: new Date().toISOString() })
+    .eq('id', id)
+    .is('revoked_at', null)
+    .select()
+    .maybeSingle()
+  if (error) throw error
+  if (!data) throw new ApiError(404, 'not_found', 'Share link not found or already revoked')
+  return data as ShareLink
+}
+
+export const fetchShareLinkViews = async (client: DbClient, linkId: string): Promise<ShareLinkView[]> => {
+  const { data, error } = await client
+    .from('share_link_views')
+    .select('*')
+    .eq('share_link_id', linkId)
+    .order('viewed_at', { ascending: false })
+    .limit(MAX_LOGGED_VIEWS)
+  if (error) throw error
+  return data ?? []
+}
+
+// Anonymous viewers get the same answer whether a token is forged, expired or revoked.
+// Needs the service role: there is no session to apply row-level security to.
+export const resolveShareLink = async (client: DbClient, token: string, now: Date = new Date()): Promise<ShareLink> => {
+  const unavailable = new ApiError(404, 'not_found', 'This link is invalid, has expired or was revoked')
+  const id = verifyShareToken(token, now)
+  if (!id) throw unavailable
+  const { data, error } = await client.from('share_links').select('*').eq('id', id).maybeSingle()
+  if (error) throw error
+  if (!data || shareLinkStatus(data, now) !== 'active') throw unavailable
+  return data as ShareLink
+}
+
+// Failures are only logged: a viewer should not lose the dashboard because the log is down
+export const logShareLinkView = async (client: DbClient, linkId: string, view: string, headers: Headers) => {
+  const header = (name: string) => headers.get(name)?.slice(0, MAX_HEADER_LENGTH) || null
+  const { error } = await client.from('share_link_views').insert({
+    share_link_id: linkId,
+    view,
+    // The first x-forwarded-for entry is the client when running behind a proxy
+    ip: header('x-forwarded-for')?.split(',')[0].trim() || header('x-real-ip'),
+    user_agent: header('user-agent'),
+    referer: header('referer')
+  })
+  if (error) console.error('Error logging share link view:', error)
+}
+
+// For the /share and /embed pages: the live link behind `token` with this opening logged,
+// or null when there is nothing to show
+export const openShareLink = async (
+  client: DbClient,
+  token: string,
+  view: string,
+  headers: Headers
+): Promise<ShareLink | null> => {
+  try {
+    const link = await resolveShareLink(client, token)
+    await logShareLinkView(client, link.id, view, headers)
+    return link
+  } catch (error) {
+    if (!(error instanceof ApiError && error.status === 404)) console.error('Error opening share link:', error)
+    return null
+  }
+}
+
+// Everything the read-only dashboard and its widgets draw, scoped to the link's pages.
+// Revenue is stripped exactly as for a user without finance access.
+export const fetchSharedDashboard = async (
+  client: DbClient,
+  link: ShareLink,
+  requestedTimeFrame: string | null,
+  now: Date = new Date()
+): Promise<SharedDashboard> => {
+  const timeFrame = shareTimeFrame(link, requestedTimeFrame)
+  const range = presetRange(timeFrame, now)
+  const filters = { pageIds: link.page_ids }
+  const catalog = await fetchIntentCatalog(client, link.page_ids)
+  const [metrics, previous, trends, pages] = await Promise.all([
+    fetchMetricData(client, range, filters, catalog),
+    fetchMetricData(client, previousRange(range), filters, catalog),
+    fetchTrendData(client, range, filters, catalog),
+    fetchPages(client)
+  ])
+
+  return {
+    name: link.name,
+    expiresAt: link.expires_at,
+    timeFrames: link.time_frames,
+    timeFrame,
+    from: range.from.toISOString(),
+    to: range.to.toISOString(),
+    includeFinance: link.include_finance,
+    pageNames: link.page_ids.map((id) => pages.find((page) => page.id === id)?.name ?? id),
+    catalog,
+    metrics: link.include_finance ? metrics : withoutFinance(metrics),
+    previous: link.include_finance ? previous : withoutFinance(previous),
+    trends: link.include_finance ? trends : { ...trends, points: trends.points.map((point) => ({ ...point, revenue: 0 })) }
+  }
+}
@@ -0,0 +1,117 @@
+import { type PresetTimeFrame, PRESET_TIME_FRAMES, addDays } from '@/lib/dateRange'
+import type { MetricData } from '@/lib/metrics'
+import type { TrendData } from '@/lib/trends'
+import type { IntentCatalog } from '@/lib/intents'
+import type { Tables } from '@/lib/database.types'
+import { ApiError } from '@/lib/apiError'
+
+// A read-only view of some pages for people without a login, valid until it expires or is revoked
+export type ShareLink = Omit<Tables<'share_links'>, 'time_frames'> & {
+  time_frames: PresetTimeFrame[]
+}
+
+// As listed for admins: the link plus the signed token its URLs are built from
+export type ShareLinkWithToken = ShareLink & { token: string }
+
+// One opening of a share or embed URL
+export type ShareLinkView = Tables<'share_link_views'>
+
+// Fields an admin sets when creating a link; links cannot be edited, only revoked
+export type ShareLinkInput = Pick<ShareLink, 'name' | 'page_ids' | 'time_frames' | 'include_finance' | 'expires_at'>
+
+export type ShareLinkStatus = 'active' | 'expired' | 'revoked'
+
+// Charts that can be embedded on their own; any other widget is a card id from DEFAULT_LAYOUT
+export type ChartWidget = 'trend' | 'funnel'
+
+export const CHART_WIDGET_LABELS: Record<ChartWidget, string> = {
+  trend: 'Trend chart',
+  funnel: 'Conversion funnel'
+}
+
+export const CHART_WIDGETS = Object.keys(CHART_WIDGET_LABELS) as ChartWidget[]
+
+// Logged for the full read-only dashboard; embeds log their widget
+export const DASHBOARD_VIEW = 'dashboard'
+
+export const MAX_SHARE_DAYS = 365
+
+// What a link shows for one of its time frames, from GET /api/share/:token
+export interface SharedDashboard {
+  name: string
+  expiresAt: string
+  timeFrames: PresetTimeFrame[]
+  timeFrame: PresetTimeFrame
+  from: string
+  to: string
+  includeFinance: boolean
+  pageNames: string[]
+  catalog: IntentCatalog
+  metrics: MetricData
+  previous: MetricData
+  trends: TrendData
+}
+
+export const shareLinkStatus = (link: Pick<ShareLink, 'expires_at' | 'revoked_at'>, now: Date = new Date()): ShareLinkStatus => {
+  if (link.revoked_at) return 'revoked'
+  return new Date(link.expires_at) <= now ? 'expired' : 'active'
+}
+
+export const sharePath = (token: string): string => `/share/${token}`
+
+export const embedPath = (token: string, widget: string): string => `/embed/${token}/${widget}`
+
+// Chart keys and card ids (DEFAULT_LAYOUT ids, or auto-<intent_type> for automatic intent
+// cards) are all short slugs; anything else is not worth a database read or a log row
+export const isShareWidget = (widget: string): boolean => /^[A-Za-z0-9_-]{1,64}$/.test(widget)
+
+// ?range=7days when the link allows it, else the link's first time frame
+export const shareTimeFrame = (link: Pick<ShareLink, 'time_frames'>, requested: string | null): PresetTimeFrame => {
+  const timeFrame = requested as PresetTimeFrame | null
+  return timeFrame && link.time_frames.includes(timeFrame) ? timeFrame : link.time_frames[0]
+}
+
+const invalid = (message: string): never => {
+  throw new ApiError(400, 'bad_request', message)
+}
+
+const isStringArray = (value: unknown): value is string[] => {
+  return Array.isArray(value) && value.every((item) => typeof item === 'string')
+}
+
+// Validates a JSON request body for a new link
+export const parseShareLinkInput = (body: unknown, now: Date = new Date()): ShareLinkInput => {
+  if (typeof body !== 'object' || body === null) return invalid('Request body must be a JSON object')
+  const input = body as Record<string, unknown>
+
+  const required: (keyof ShareLinkInput)[] = ['name', 'page_ids', 'time_frames', 'expires_at']
+  const missing = required.filter((key) => input[key] === undefined)
+  if (missing.length) invalid(`Missing fields: ${missing.join(', ')}`)
+
+  if (typeof input.name !== 'string' || !input.name.trim()) invalid('"name" must be a non-empty string')
+  if (!isStringArray(input.page_ids) || input.page_ids.length === 0) {
+    invalid('"page_ids" must be a non-empty array of page ids; links always name their pages')
+  }
+  if (!isStringArray(input.time_frames) || input.time_frames.length === 0) {
+    invalid('"time_frames" must be a non-empty array')
+  }
+  const unknownFrames = (input.time_frames as string[]).filter((item) => !PRESET_TIME_FRAMES.includes(item as PresetTimeFrame))
+  if (unknownFrames.length) invalid(`Unknown time frames: ${unknownFrames.join(', ')}`)
+  if (input.include_finance !== undefined && typeof input.include_finance !== 'boolean') {
+    invalid('"include_finance" must be a boolean')
+  }
+
+  const expiresAt = typeof input.expires_at === 'string' ? new Date(input.expires_at) : null
+  if (!expiresAt || Number.isNaN(expiresAt.getTime())) return invalid('"expires_at" must be an ISO date-time')
+  if (expiresAt <= now) invalid('"expires_at" must be in the future')
+  if (expiresAt > addDays(now, MAX_SHARE_DAYS)) invalid(`Links can be valid for at most ${MAX_SHARE_DAYS} days`)
+
+  return {
+    name: (input.name as string).trim(),
+    page_ids: Array.from(new Set(input.page_ids as string[])),
+    // Kept in preset order so the viewer's switcher reads Today, 7 Days, 30 Days
+    time_frames: PRESET_TIME_FRAMES.filter((item) => (input.time_frames as string[]).includes(item)),
+    include_finance: input.include_finance === true,
+    expires_at: expiresAt.toISOString()
+  }
+}
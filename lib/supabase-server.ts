@@ -0,0 +1,36 @@
+import { cookies } from 'next/headers'
+import { createServerClient } from '@supabase/ssr'
+import { createClient } from '@supabase/supabase-js'
+import { supabaseAnonKey, supabaseUrl } from '@/lib/supabase'
+import type { Database } from '@/lib/database.types'
+
+// Session-aware client for server components and route handlers
+export const createServerSupabase = async () => {
+  const cookieStore = await cookies()
+
+  return createServerClient<Database>(supabaseUrl, supabaseAnonKey, {
+    cookies: {
+      getAll() {
+        return cookieStore.getAll()
+      },
+      setAll(cookiesToSet) {
+        try {
+          cookiesToSet.forEach(({ name, value, options }) => cookieStore.set(name, value, options))
+        } catch {
+          // Server components cannot write cookies; the middleware refreshes the session instead
+        }
+      }
+    }
+  })
+}
+
+// Bypasses row-level security. Only for trusted server jobs (cron routes) and verified share links,
+// whose pages come from the link rather than the request. Never for other user requests.
+export const createServiceSupabase = () => {
+  const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY
+  if (!serviceRoleKey) throw new Error('SUPABASE_SERVICE_ROLE_KEY is not set')
+
+  return createClient<Database>(supabaseUrl, serviceRoleKey, {
+    auth: { persistSession: false, autoRefreshToken: false }
+  })
+}
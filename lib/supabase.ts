@@ -1,6 +1,11 @@
-import { createClient } from '@supabase/supabase-js'
+import { createBrowserClient } from '@supabase/ssr'
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { Database } from '@/lib/database.types'
 
-const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!
-const supabaseAnonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
+export type DbClient = SupabaseClient<Database>
 
-export const supabase = createClient(supabaseUrl, supabaseAnonKey)
\ No newline at end of file
+export const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!
+export const supabaseAnonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
+
+// Cookie-backed so the session is shared with middleware and server components
+export const supabase = createBrowserClient<Database>(supabaseUrl, supabaseAnonKey)
\ No newline at end of file
@@ -0,0 +1,93 @@
+import { type DateRange, type Granularity, bucketStarts, rangeGranularity } from '@/lib/dateRange'
+import { toThb, normalizeCurrency } from '@/lib/currency'
+import type { DbClient } from '@/lib/supabase'
+import type { MetricFilters } from '@/lib/metrics'
+import { type IntentCatalog, catalogIntentTypes, describeIntent, fetchIntentCatalog } from '@/lib/intents'
+
+// 'chats', 'revenue' or an intent_type
+export type TrendSeriesKey = string
+
+// One bucket of the trend chart; `time` is the bucket start in epoch ms
+export type TrendPoint = { time: number } & Record<TrendSeriesKey, number>
+
+export interface TrendSeries {
+  key: TrendSeriesKey
+  label: string
+  color: string
+  // Revenue is plotted on its own currency axis
+  axis: 'count' | 'value'
+}
+
+export const DEFAULT_TREND_SERIES: TrendSeriesKey[] = ['chats', 'Lead', 'Purchase']
+
+// Chats and revenue, then a line for every intent type in the catalog, registry first
+export const trendSeries = (catalog: IntentCatalog): TrendSeries[] => [
+  { key: 'chats', label: 'Chats', color: '#3B82F6', axis: 'count' },
+  { key: 'revenue', label: 'Revenue (THB)', color: '#8B5CF6', axis: 'value' },
+  ...catalogIntentTypes(catalog).map((intentType): TrendSeries => {
+    const { label, color } = describeIntent(catalog, intentType)
+    return { key: intentType, label, color, axis: 'count' }
+  })
+]
+
+const emptyPoint = (time: number, series: TrendSeries[]): TrendPoint => {
+  const point = { time } as TrendPoint
+  series.forEach(({ key }) => {
+    point[key] = 0
+  })
+  return point
+}
+
+export interface TrendData {
+  granularity: Granularity
+  series: TrendSeries[]
+  points: TrendPoint[]
+}
+
+// Buckets are counted by trend_buckets() in the database. `catalog` can be passed in when it
+// is already loaded.
+export const fetchTrendData = async (
+  client: DbClient,
+  range: DateRange,
+  filters: MetricFilters = {},
+  catalog?: IntentCatalog
+): Promise<TrendData> => {
+  const granularity = rangeGranularity(range)
+
+  const [intentCatalog, { data, error }] = await Promise.all([
+    catalog ?? fetchIntentCatalog(client, filters.pageIds),
+    client.rpc('trend_buckets', {
+      range_from: range.from.toISOString(),
+      range_to: range.to.toISOString(),
+      granularity,
+      filter_page_ids: filters.pageIds?.length ? filters.pageIds : undefined
+    })
+  ])
+  if (error) throw error
+  const series = trendSeries(intentCatalog)
+
+  // Pre-fill every bucket so quiet periods plot as zero instead of gaps
+  const buckets = new Map<number, TrendPoint>()
+  bucketStarts(range, granularity).forEach((start) => {
+    buckets.set(start.getTime(), emptyPoint(start.getTime(), series))
+  })
+
+  ;(data ?? []).forEach((row) => {
+    const point = buckets.get(row.bucket_time)
+    if (!point) return
+    point.chats += row.chats
+    Object.entries(row.intents as Record<string, number>).forEach(([intentType, count]) => {
+      if (intentType in point) point[intentType] += count
+    })
+    Object.entries(row.revenue as Record<string, number>).forEach(([currency, value]) => {
+      point.revenue += toThb(value, normalizeCurrency(currency)) ?? 0
+    })
+  })
+
+  return { granularity, series, points: Array.from(buckets.values()) }
+}
+
+// True when no bucket has anything in any series
+export const isEmptyTrend = (data: TrendData): boolean => {
+  return data.points.every((point) => data.series.every((series) => point[series.key] === 0))
+}
@@ -1,5 +1,12 @@
 import type { NextConfig } from "next";
 
+// Share and embed URLs carry their token, so it must not leak to other sites through the
+// Referer header or end up in search results
+const shareHeaders = [
+  { key: "Referrer-Policy", value: "no-referrer" },
+  { key: "X-Robots-Tag", value: "noindex, nofollow" },
+];
+
 const nextConfig: NextConfig = {
   eslint: {
     ignoreDuringBuilds: true,
@@ -7,6 +14,19 @@ const nextConfig: NextConfig = {
   typescript: {
     ignoreBuildErrors: true,
   },
+  async headers() {
+    return [
+      { source: "/share/:path*", headers: shareHeaders },
+      {
+        source: "/embed/:path*",
+        headers: [
+          ...shareHeaders,
+          // Space-separated origins allowed to frame widgets, e.g. "https://portal.example.com"
+          { key: "Content-Security-Policy", value: `frame-ancestors ${process.env.EMBED_FRAME_ANCESTORS || "*"}` },
+        ],
+      },
+    ];
+  },
 };
 
-export default nextConfig;
\ No newline at end of file
+export default nextConfig;
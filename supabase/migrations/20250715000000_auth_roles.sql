@@ -0,0 +1,67 @@
+-- Roles and page assignments for dashboard users.
+-- Role permissions mirror ROLE_PERMISSIONS in lib/auth.ts.
+
+create table if not exists public.user_roles (
+  user_id uuid primary key references auth.users (id) on delete cascade,
+  role text not null check (role in ('admin', 'manager', 'analyst', 'client_viewer'))
+);
+
+create table if not exists public.user_pages (
+  user_id uuid not null references auth.users (id) on delete cascade,
+  page_id text not null,
+  primary key (user_id, page_id)
+);
+
+create or replace function public.current_role_name()
+returns text
+language sql stable security definer set search_path = public
+as $$
+  select role from public.user_roles where user_id = auth.uid()
+$$;
+
+create or replace function public.can_view_page(target_page_id text)
+returns boolean
+language sql stable security definer set search_path = public
+as $$
+  select public.current_role_name() in ('admin', 'manager', 'analyst')
+    or exists (
+      select 1 from public.user_pages
+      where user_id = auth.uid() and page_id = target_page_id
+    )
+$$;
+
+create or replace function public.can_view_finance()
+returns boolean
+language sql stable security definer set search_path = public
+as $$
+  select coalesce(public.current_role_name() in ('admin', 'manager'), false)
+$$;
+
+alter table public.user_roles enable row level security;
+alter table public.user_pages enable row level security;
+
+create policy "Users read their own role" on public.user_roles
+  for select using (user_id = auth.uid());
+create policy "Users read their own page assignments" on public.user_pages
+  for select using (user_id = auth.uid());
+
+-- Dashboard data is only readable by signed-in users, scoped to their pages
+alter table public.pages enable row level security;
+alter table public.psid_inputs enable row level security;
+alter table public.intents enable row level security;
+alter table public.purchase enable row level security;
+alter table public.psid_inputs_statistics enable row level security;
+alter table public.intent_statistics enable row level security;
+
+create policy "Read assigned pages" on public.pages
+  for select to authenticated using (public.can_view_page(id));
+create policy "Read chats for assigned pages" on public.psid_inputs
+  for select to authenticated using (public.can_view_page(page_id));
+create policy "Read intents for assigned pages" on public.intents
+  for select to authenticated using (public.can_view_page(page_id));
+create policy "Read purchases with finance access" on public.purchase
+  for select to authenticated using (public.can_view_page(page_id) and public.can_view_finance());
+create policy "Read chat statistics for assigned pages" on public.psid_inputs_statistics
+  for select to authenticated using (public.can_view_page(page_id));
+create policy "Read intent statistics for assigned pages" on public.intent_statistics
+  for select to authenticated using (public.can_view_page(page_id));
@@ -0,0 +1,74 @@
+-- Threshold alert rules and the alerts they raise.
+-- Rules are evaluated by POST /api/alerts/evaluate (see lib/alerts-server.ts).
+
+create table if not exists public.alert_rules (
+  id uuid primary key default gen_random_uuid(),
+  name text not null,
+  -- A MetricData field (totalBan, ...) or a conversion ratio key (chatToBuy, ...)
+  metric text not null,
+  operator text not null check (operator in ('>', '>=', '<', '<=')),
+  threshold numeric not null,
+  "window" text not null check ("window" in ('today', '7days', '30days', 'hours')),
+  -- Only used by the trailing 'hours' window
+  window_hours integer check (window_hours is null or window_hours between 1 and 168),
+  -- null means every page
+  page_ids text[],
+  channels text[] not null default '{}',
+  cooldown_minutes integer not null default 60 check (cooldown_minutes >= 0),
+  enabled boolean not null default true,
+  last_triggered_at timestamptz,
+  created_by uuid references auth.users (id) on delete set null,
+  created_at timestamptz not null default now()
+);
+
+create table if not exists public.alert_events (
+  id bigint generated by default as identity primary key,
+  rule_id uuid references public.alert_rules (id) on delete set null,
+  rule_name text not null,
+  metric text not null,
+  value numeric not null,
+  threshold numeric not null,
+  message text not null,
+  page_ids text[],
+  window_from timestamptz not null,
+  window_to timestamptz not null,
+  -- Per-channel delivery result, e.g. { "line": "sent", "email": "failed: 401" }
+  delivery jsonb not null default '{}',
+  created_at timestamptz not null default now(),
+  acknowledged_at timestamptz,
+  acknowledged_by uuid references auth.users (id) on delete set null
+);
+
+create index if not exists alert_events_created_at_idx on public.alert_events (created_at desc);
+
+-- An alert is visible when the user can see every page it covers, and finance alerts
+-- additionally need finance access (mirrors FINANCE_METRICS in lib/metrics.ts)
+create or replace function public.can_view_alert(alert_page_ids text[], alert_metric text)
+returns boolean
+language sql stable security definer set search_path = public
+as $$
+  select public.current_role_name() is not null
+    and case
+      when alert_page_ids is null then public.can_view_page(null)
+      else not exists (select 1 from unnest(alert_page_ids) as p (id) where not public.can_view_page(p.id))
+    end
+    and (alert_metric not in ('totalBuyValue', 'totalOrders') or public.can_view_finance())
+$$;
+
+alter table public.alert_rules enable row level security;
+alter table public.alert_events enable row level security;
+
+create policy "Read visible alert rules" on public.alert_rules
+  for select to authenticated using (public.can_view_alert(page_ids, metric));
+create policy "Admins manage alert rules" on public.alert_rules
+  for all to authenticated
+  using (public.current_role_name() = 'admin')
+  with check (public.current_role_name() = 'admin');
+
+-- Events are written by the evaluator with the service role; users can only read and acknowledge
+create policy "Read visible alerts" on public.alert_events
+  for select to authenticated using (public.can_view_alert(page_ids, metric));
+create policy "Acknowledge visible alerts" on public.alert_events
+  for update to authenticated
+  using (public.can_view_alert(page_ids, metric))
+  with check (public.can_view_alert(page_ids, metric));
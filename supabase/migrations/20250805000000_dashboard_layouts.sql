@@ -0,0 +1,19 @@
+-- Per-user dashboard layouts: card rows, custom ratio KPIs and good/bad intent grouping.
+-- The JSON shape is DashboardLayout in lib/layout.ts.
+
+create table if not exists public.dashboard_layouts (
+  user_id uuid primary key references auth.users (id) on delete cascade,
+  layout jsonb not null,
+  updated_at timestamptz not null default now()
+);
+
+alter table public.dashboard_layouts enable row level security;
+
+create policy "Users read their own layout" on public.dashboard_layouts
+  for select to authenticated using (user_id = auth.uid());
+create policy "Users save their own layout" on public.dashboard_layouts
+  for insert to authenticated with check (user_id = auth.uid());
+create policy "Users update their own layout" on public.dashboard_layouts
+  for update to authenticated using (user_id = auth.uid()) with check (user_id = auth.uid());
+create policy "Users reset their own layout" on public.dashboard_layouts
+  for delete to authenticated using (user_id = auth.uid());
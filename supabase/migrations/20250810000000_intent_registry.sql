@@ -0,0 +1,32 @@
+-- Describes each intent_type the bot emits. Intents seen in intent_statistics without a row
+-- here are still counted and flagged as unmapped on the dashboard.
+-- Mirrors DEFAULT_INTENT_REGISTRY in lib/intents.ts.
+
+create table if not exists public.intent_registry (
+  intent_type text primary key,
+  label text not null,
+  category text not null default 'neutral' check (category in ('good', 'bad', 'neutral')),
+  color text not null default '#6B7280',
+  -- Order in the conversion funnel after Chat; null keeps the intent out of the funnel
+  funnel_position integer
+);
+
+insert into public.intent_registry (intent_type, label, category, color, funnel_position) values
+  ('VC', 'ViewContent', 'good', '#14B8A6', 1),
+  ('ATC', 'AddToCart', 'good', '#06B6D4', 2),
+  ('IC', 'Initiate Checkout', 'good', '#6366F1', 3),
+  ('Lead', 'Lead', 'good', '#10B981', 4),
+  ('Purchase', 'Purchase', 'good', '#F59E0B', 5),
+  ('Move to Spam', 'Spam', 'bad', '#F97316', null),
+  ('Blocking', 'Blocking', 'bad', '#EF4444', null),
+  ('Ban', 'Ban', 'bad', '#991B1B', null)
+on conflict (intent_type) do nothing;
+
+alter table public.intent_registry enable row level security;
+
+create policy "Signed-in users read the intent registry" on public.intent_registry
+  for select to authenticated using (true);
+create policy "Admins manage the intent registry" on public.intent_registry
+  for all to authenticated
+  using (public.current_role_name() = 'admin')
+  with check (public.current_role_name() = 'admin');
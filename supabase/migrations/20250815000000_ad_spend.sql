@@ -0,0 +1,64 @@
+-- Daily ad spend per page and campaign, imported from Meta Ads Manager CSV exports
+-- (or a Marketing API connector later; see AdSpendImporter in lib/adSpend.ts).
+
+create table if not exists public.ad_spend_imports (
+  id uuid primary key default gen_random_uuid(),
+  page_id text not null,
+  source text not null check (source in ('csv', 'marketing_api')),
+  -- Uploaded file name, or a description of the API pull
+  label text not null,
+  row_count integer not null,
+  date_from date not null,
+  date_to date not null,
+  imported_by uuid references auth.users (id) on delete set null,
+  created_at timestamptz not null default now()
+);
+
+create table if not exists public.ad_spend (
+  id bigint generated by default as identity primary key,
+  page_id text not null,
+  -- Bangkok calendar day the spend was reported for
+  date date not null,
+  campaign_name text not null default '',
+  spend numeric not null check (spend >= 0),
+  currency text not null default 'THB',
+  impressions bigint,
+  clicks bigint,
+  -- The import that last wrote this row; deleting the import removes it
+  import_id uuid references public.ad_spend_imports (id) on delete cascade,
+  updated_at timestamptz not null default now(),
+  -- Re-importing an overlapping export replaces the earlier numbers
+  unique (page_id, date, campaign_name)
+);
+
+create index if not exists ad_spend_date_idx on public.ad_spend (date);
+
+-- Ad spend counts as finance data alongside purchases
+create or replace function public.can_view_alert(alert_page_ids text[], alert_metric text)
+returns boolean
+language sql stable security definer set search_path = public
+as $$
+  select public.current_role_name() is not null
+    and case
+      when alert_page_ids is null then public.can_view_page(null)
+      else not exists (select 1 from unnest(alert_page_ids) as p (id) where not public.can_view_page(p.id))
+    end
+    and (alert_metric not in ('totalBuyValue', 'totalOrders', 'totalAdSpend') or public.can_view_finance())
+$$;
+
+alter table public.ad_spend_imports enable row level security;
+alter table public.ad_spend enable row level security;
+
+create policy "Read ad spend imports with finance access" on public.ad_spend_imports
+  for select to authenticated using (public.can_view_page(page_id) and public.can_view_finance());
+create policy "Admins manage ad spend imports" on public.ad_spend_imports
+  for all to authenticated
+  using (public.current_role_name() = 'admin')
+  with check (public.current_role_name() = 'admin');
+
+create policy "Read ad spend with finance access" on public.ad_spend
+  for select to authenticated using (public.can_view_page(page_id) and public.can_view_finance());
+create policy "Admins manage ad spend" on public.ad_spend
+  for all to authenticated
+  using (public.current_role_name() = 'admin')
+  with check (public.current_role_name() = 'admin');
@@ -0,0 +1,18 @@
+-- Per-user display preferences: UI language and calendar era for dates.
+-- The shape is UserPreferences in lib/i18n.ts.
+
+create table if not exists public.user_preferences (
+  user_id uuid primary key references auth.users (id) on delete cascade,
+  locale text not null default 'en' check (locale in ('en', 'th')),
+  calendar text not null default 'gregorian' check (calendar in ('gregorian', 'buddhist')),
+  updated_at timestamptz not null default now()
+);
+
+alter table public.user_preferences enable row level security;
+
+create policy "Users read their own preferences" on public.user_preferences
+  for select to authenticated using (user_id = auth.uid());
+create policy "Users save their own preferences" on public.user_preferences
+  for insert to authenticated with check (user_id = auth.uid());
+create policy "Users update their own preferences" on public.user_preferences
+  for update to authenticated using (user_id = auth.uid()) with check (user_id = auth.uid());
@@ -0,0 +1,44 @@
+-- Scheduled summary reports sent to clients through the alert channels.
+-- Due schedules are sent by POST /api/reports/run (see lib/reports-server.ts).
+
+create table if not exists public.report_schedules (
+  id uuid primary key default gen_random_uuid(),
+  name text not null,
+  -- daily reports cover the previous Bangkok day, weekly ones the previous Monday–Sunday week
+  frequency text not null check (frequency in ('daily', 'weekly')),
+  -- Hour of day in Bangkok time; weekly reports go out on Mondays at this hour
+  send_hour integer not null default 8 check (send_hour between 0 and 23),
+  -- null means every page
+  page_ids text[],
+  channels text[] not null default '{}',
+  include_finance boolean not null default false,
+  enabled boolean not null default true,
+  last_sent_at timestamptz,
+  -- Per-channel result of the last run, e.g. { "line": "sent", "email": "failed: 401" }
+  last_delivery jsonb,
+  created_by uuid references auth.users (id) on delete set null,
+  created_at timestamptz not null default now()
+);
+
+-- A schedule is visible when the user can see every page it covers, and schedules that
+-- include revenue additionally need finance access
+create or replace function public.can_view_report(report_page_ids text[], report_include_finance boolean)
+returns boolean
+language sql stable security definer set search_path = public
+as $$
+  select public.current_role_name() is not null
+    and case
+      when report_page_ids is null then public.can_view_page(null)
+      else not exists (select 1 from unnest(report_page_ids) as p (id) where not public.can_view_page(p.id))
+    end
+    and (not report_include_finance or public.can_view_finance())
+$$;
+
+alter table public.report_schedules enable row level security;
+
+create policy "Read visible report schedules" on public.report_schedules
+  for select to authenticated using (public.can_view_report(page_ids, include_finance));
+create policy "Admins manage report schedules" on public.report_schedules
+  for all to authenticated
+  using (public.current_role_name() = 'admin')
+  with check (public.current_role_name() = 'admin');
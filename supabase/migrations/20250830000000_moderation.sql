@@ -0,0 +1,39 @@
+-- Moderation detail for bad-customer intents (spam, blocking, ban): the reason or keyword the
+-- bot acted on, and false-positive marks that take a row out of every count.
+-- See lib/moderation.ts.
+
+alter table public.intents add column if not exists reason text;
+alter table public.intents add column if not exists false_positive_at timestamptz;
+alter table public.intents add column if not exists false_positive_by uuid references auth.users (id) on delete set null;
+
+-- Every count filters on false_positive_at, so keep the counted rows indexed on their own
+create index if not exists intents_counted_idx on public.intents (intent_type, created_at)
+  where false_positive_at is null;
+
+-- Mirrors the 'moderate' permission in lib/auth.ts
+create or replace function public.can_moderate()
+returns boolean
+language sql stable security definer set search_path = public
+as $$
+  select coalesce(public.current_role_name() in ('admin', 'manager'), false)
+$$;
+
+-- Marks or clears a false positive on a visible intent. Moderators go through this function
+-- rather than an update policy so they cannot change anything else about the row.
+create or replace function public.set_intent_false_positive(target_intent_id bigint, is_false_positive boolean)
+returns setof public.intents
+language plpgsql security definer set search_path = public
+as $$
+begin
+  if not public.can_moderate() then
+    raise exception 'Not allowed to moderate intents' using errcode = '42501';
+  end if;
+
+  return query
+    update public.intents
+    set false_positive_at = case when is_false_positive then coalesce(false_positive_at, now()) end,
+        false_positive_by = case when is_false_positive then coalesce(false_positive_by, auth.uid()) end
+    where id = target_intent_id and public.can_view_page(page_id)
+    returning *;
+end;
+$$;
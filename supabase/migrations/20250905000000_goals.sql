@@ -0,0 +1,31 @@
+-- Targets for dashboard KPIs over a Bangkok calendar day, week or month.
+-- Progress is measured on read by GET /api/goals/progress (see lib/goals-server.ts).
+
+create table if not exists public.goals (
+  id uuid primary key default gen_random_uuid(),
+  -- A MetricData field (totalLead, ...) or a conversion ratio key (chatToBuy, ...), as for alert rules
+  metric text not null,
+  -- daily is the Bangkok day, weekly the Monday–Sunday week, monthly the calendar month
+  period text not null check (period in ('daily', 'weekly', 'monthly')),
+  target numeric not null check (target > 0),
+  -- at_most goals are ceilings, e.g. no more than 50 bans a month
+  direction text not null default 'at_least' check (direction in ('at_least', 'at_most')),
+  -- null means every page
+  page_ids text[],
+  created_by uuid references auth.users (id) on delete set null,
+  created_at timestamptz not null default now()
+);
+
+-- One goal per metric, period and page set, so a card never has two competing targets
+create unique index if not exists goals_scope_idx
+  on public.goals (metric, period, coalesce(page_ids, '{}'::text[]));
+
+alter table public.goals enable row level security;
+
+-- Same visibility as an alert rule on the metric: every page it covers, plus finance access for money
+create policy "Read visible goals" on public.goals
+  for select to authenticated using (public.can_view_alert(page_ids, metric));
+create policy "Admins manage goals" on public.goals
+  for all to authenticated
+  using (public.current_role_name() = 'admin')
+  with check (public.current_role_name() = 'admin');
@@ -0,0 +1,55 @@
+-- Notes on what happened when (an ad launch, a bot script change, a Facebook outage), shown as
+-- markers on the trend charts and listed next to the period on the dashboard.
+
+create table if not exists public.annotations (
+  id uuid primary key default gen_random_uuid(),
+  title text not null check (length(trim(title)) > 0),
+  note text,
+  starts_at timestamptz not null,
+  -- null for a single moment
+  ends_at timestamptz check (ends_at is null or ends_at >= starts_at),
+  -- null means every page
+  page_ids text[],
+  created_by uuid references auth.users (id) on delete set null default auth.uid(),
+  -- Kept with the row since users cannot read each other's auth.users entries
+  author_email text,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists annotations_starts_at_idx on public.annotations (starts_at);
+
+-- Mirrors the 'annotate' permission in lib/auth.ts
+create or replace function public.can_annotate()
+returns boolean
+language sql stable security definer set search_path = public
+as $$
+  select coalesce(public.current_role_name() in ('admin', 'manager', 'analyst'), false)
+$$;
+
+-- Annotations for every page are context everyone can use; page annotations need every page they name
+create or replace function public.can_view_annotation(annotation_page_ids text[])
+returns boolean
+language sql stable security definer set search_path = public
+as $$
+  select public.current_role_name() is not null
+    and (
+      annotation_page_ids is null
+      or not exists (select 1 from unnest(annotation_page_ids) as p (id) where not public.can_view_page(p.id))
+    )
+$$;
+
+alter table public.annotations enable row level security;
+
+create policy "Read visible annotations" on public.annotations
+  for select to authenticated using (public.can_view_annotation(page_ids));
+create policy "Annotators add annotations" on public.annotations
+  for insert to authenticated
+  with check (public.can_annotate() and created_by = auth.uid());
+-- Authors edit and remove their own annotations; admins can tidy up anyone's
+create policy "Authors and admins change annotations" on public.annotations
+  for update to authenticated
+  using (created_by = auth.uid() or public.current_role_name() = 'admin')
+  with check (public.can_view_annotation(page_ids));
+create policy "Authors and admins remove annotations" on public.annotations
+  for delete to authenticated
+  using (created_by = auth.uid() or public.current_role_name() = 'admin');
@@ -0,0 +1,44 @@
+-- Read-only dashboard links for people without a login, and the log of who opened them.
+-- Links are signed with SHARE_LINK_SECRET and resolved with the service role by
+-- /share/:token, /embed/:token/:widget and GET /api/share/:token (see lib/shareLinks-server.ts).
+
+create table if not exists public.share_links (
+  id uuid primary key default gen_random_uuid(),
+  name text not null check (length(btrim(name)) > 0),
+  -- Always explicit: a link never follows new pages the way an all-pages goal does
+  page_ids text[] not null check (cardinality(page_ids) > 0),
+  -- Preset windows the viewer may switch between
+  time_frames text[] not null
+    check (cardinality(time_frames) > 0 and time_frames <@ array['today', '7days', '30days']),
+  include_finance boolean not null default false,
+  expires_at timestamptz not null,
+  -- Revoked links keep their row so the access log still names them
+  revoked_at timestamptz,
+  created_by uuid references auth.users (id) on delete set null,
+  created_at timestamptz not null default now()
+);
+
+create table if not exists public.share_link_views (
+  id bigint generated by default as identity primary key,
+  share_link_id uuid not null references public.share_links (id) on delete cascade,
+  -- 'dashboard' or the widget that was embedded
+  view text not null,
+  ip text,
+  user_agent text,
+  referer text,
+  viewed_at timestamptz not null default now()
+);
+
+create index if not exists share_link_views_link_idx
+  on public.share_link_views (share_link_id, viewed_at desc);
+
+alter table public.share_links enable row level security;
+alter table public.share_link_views enable row level security;
+
+-- Anonymous viewers never touch these tables directly; the server reads and logs with the service role
+create policy "Admins manage share links" on public.share_links
+  for all to authenticated
+  using (public.current_role_name() = 'admin')
+  with check (public.current_role_name() = 'admin');
+create policy "Admins read share link views" on public.share_link_views
+  for select to authenticated using (public.current_role_name() = 'admin');
@@ -0,0 +1,18 @@
+-- Streams changes to the tables the dashboard numbers are computed from, so useDataSync
+-- (hooks/useDataSync.ts) can refresh on them. Row-level security still decides which
+-- changes each subscriber receives. Keep in step with SYNC_TABLES.
+
+do $$
+declare
+  sync_table text;
+begin
+  foreach sync_table in array array['psid_inputs', 'intents', 'purchase', 'ad_spend'] loop
+    if not exists (
+      select 1 from pg_publication_tables
+      where pubname = 'supabase_realtime' and schemaname = 'public' and tablename = sync_table
+    ) then
+      execute format('alter publication supabase_realtime add table public.%I', sync_table);
+    end if;
+  end loop;
+end
+$$;
@@ -0,0 +1,19 @@
+-- Acknowledging goes through acknowledge_alert() instead of an update policy, which let any
+-- viewer of an alert rewrite the whole row, including who acknowledged it.
+drop policy if exists "Acknowledge visible alerts" on public.alert_events;
+
+-- Acknowledges a visible alert for everyone as the calling user; returns no row when the
+-- alert does not exist or is not visible
+create or replace function public.acknowledge_alert(target_alert_id bigint)
+returns setof public.alert_events
+language plpgsql security definer set search_path = public
+as $$
+begin
+  return query
+    update public.alert_events
+    set acknowledged_at = now(),
+        acknowledged_by = auth.uid()
+    where id = target_alert_id and public.can_view_alert(page_ids, metric)
+    returning *;
+end;
+$$;
@@ -0,0 +1,21 @@
+-- Where each scheduled report goes. Reports are for clients, so every schedule names its own
+-- inbox, webhook and LINE group rather than sharing one process-wide destination. Kept out of
+-- report_schedules, which every viewer of a schedule can read, because LINE tokens and
+-- webhook secrets are for admins only.
+
+create table if not exists public.report_recipients (
+  schedule_id uuid primary key references public.report_schedules (id) on delete cascade,
+  email_to text[] not null default '{}',
+  webhook_url text,
+  -- Sent as X-BMS-Report-Secret so the receiver can check the report came from BMS
+  webhook_secret text,
+  line_token text,
+  updated_at timestamptz not null default now()
+);
+
+alter table public.report_recipients enable row level security;
+
+create policy "Admins manage report recipients" on public.report_recipients
+  for all to authenticated
+  using (public.current_role_name() = 'admin')
+  with check (public.current_role_name() = 'admin');
@@ -0,0 +1,19 @@
+-- Every report schedule sends to its own recipients; there are no process-wide defaults left
+-- to fall back on. Schedules from before recipients were stored per schedule (or whose
+-- recipients are all blank) are switched off until an admin gives them somewhere to go.
+
+update public.report_schedules s
+set enabled = false
+where not exists (
+  select 1
+  from public.report_recipients r
+  where r.schedule_id = s.id
+    and (cardinality(r.email_to) > 0 or r.webhook_url is not null or r.line_token is not null)
+);
+
+delete from public.report_recipients
+where cardinality(email_to) = 0 and webhook_url is null and line_token is null;
+
+alter table public.report_recipients
+  add constraint report_recipients_at_least_one
+  check (cardinality(email_to) > 0 or webhook_url is not null or line_token is not null);
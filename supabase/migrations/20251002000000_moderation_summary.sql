@@ -0,0 +1,97 @@
+-- Moderation report aggregates, counted in the database instead of downloading every chat and
+-- bad-customer intent in the window. Runs as the caller, so row-level security still limits
+-- the counts to the caller's pages. See fetchModerationReport in lib/moderation.ts.
+
+-- Start of the Bangkok hour or day containing `ts`, matching startOfBucket in lib/dateRange.ts
+create or replace function public.bangkok_bucket(ts timestamptz, granularity text)
+returns timestamptz
+language sql immutable
+as $$
+  select date_trunc(granularity, ts at time zone 'Asia/Bangkok') at time zone 'Asia/Bangkok'
+$$;
+
+-- Reasons are free text from the bot; they are grouped case- and whitespace-insensitively
+create or replace function public.normalize_reason(reason text)
+returns text
+language sql immutable
+as $$
+  select lower(btrim(regexp_replace(coalesce(reason, ''), '\s+', ' ', 'g')))
+$$;
+
+-- Chats and bad intents grouped by bucket, page, reason and customer. Bucket starts are epoch
+-- milliseconds; false positives are only counted, never grouped.
+create or replace function public.moderation_summary(
+  range_from timestamptz,
+  range_to timestamptz,
+  bad_intent_types text[],
+  granularity text,
+  filter_page_ids text[] default null,
+  top_offenders integer default 20
+)
+returns jsonb
+language sql stable set search_path = public
+as $$
+  with chats as (
+    select created_at, page_id
+    from public.psid_inputs
+    where created_at >= range_from and created_at < range_to
+      and (filter_page_ids is null or page_id = any (filter_page_ids))
+  ),
+  events as (
+    select created_at, page_id, psid, intent_type, reason, false_positive_at
+    from public.intents
+    where created_at >= range_from and created_at < range_to
+      and intent_type = any (bad_intent_types)
+      and (filter_page_ids is null or page_id = any (filter_page_ids))
+  ),
+  bad as (
+    select * from events where false_positive_at is null
+  ),
+  -- Each customer is listed under the page of their latest event
+  offenders as (
+    select psid, (array_agg(page_id order by created_at desc))[1] as page_id, max(created_at) as last_seen, count(*) as total
+    from bad
+    group by psid
+    order by total desc, last_seen desc
+    limit top_offenders
+  )
+  select jsonb_build_object(
+    'chats_by_bucket', (
+      select coalesce(jsonb_agg(jsonb_build_object('time', bucket_time, 'total', total)), '[]')
+      from (
+        select (extract(epoch from public.bangkok_bucket(created_at, granularity)) * 1000)::bigint as bucket_time, count(*) as total
+        from chats group by 1
+      ) grouped
+    ),
+    'chats_by_page', (
+      select coalesce(jsonb_agg(jsonb_build_object('page_id', page_id, 'total', total)), '[]')
+      from (select page_id, count(*) as total from chats group by page_id) grouped
+    ),
+    'bad_by_bucket', (
+      select coalesce(jsonb_agg(jsonb_build_object('time', bucket_time, 'intent_type', intent_type, 'total', total)), '[]')
+      from (
+        select (extract(epoch from public.bangkok_bucket(created_at, granularity)) * 1000)::bigint as bucket_time, intent_type, count(*) as total
+        from bad group by 1, 2
+      ) grouped
+    ),
+    'bad_by_page', (
+      select coalesce(jsonb_agg(jsonb_build_object('page_id', page_id, 'intent_type', intent_type, 'total', total)), '[]')
+      from (select page_id, intent_type, count(*) as total from bad group by page_id, intent_type) grouped
+    ),
+    'bad_by_reason', (
+      select coalesce(jsonb_agg(jsonb_build_object('reason', reason, 'intent_type', intent_type, 'total', total)), '[]')
+      from (
+        select public.normalize_reason(reason) as reason, intent_type, count(*) as total
+        from bad group by 1, 2
+      ) grouped
+    ),
+    'offenders', (
+      select coalesce(jsonb_agg(jsonb_build_object(
+        'psid', o.psid, 'page_id', o.page_id, 'last_seen', o.last_seen, 'intent_type', b.intent_type, 'total', b.total
+      )), '[]')
+      from offenders o
+      join (select psid, intent_type, count(*) as total from bad group by psid, intent_type) b on b.psid = o.psid
+    ),
+    'false_positives', (select count(*) from events where false_positive_at is not null)
+  )
+$$;
@@ -0,0 +1,57 @@
+-- Trend chart buckets, counted in the database instead of downloading every chat, intent and
+-- purchase in the window. Runs as the caller, so row-level security still limits the counts
+-- to the caller's pages, and revenue to finance users. See fetchTrendData in lib/trends.ts.
+
+-- One row per Bangkok hour or day with anything in it. Bucket starts are epoch milliseconds;
+-- intents are counted per intent_type (false positives left out) and revenue is summed per
+-- raw currency, since conversion to THB happens in the app.
+create or replace function public.trend_buckets(
+  range_from timestamptz,
+  range_to timestamptz,
+  granularity text,
+  filter_page_ids text[] default null
+)
+returns table (bucket_time bigint, chats bigint, intents jsonb, revenue jsonb)
+language sql stable set search_path = public
+as $$
+  with chat_buckets as (
+    select public.bangkok_bucket(created_at, granularity) as bucket, count(*) as total
+    from public.psid_inputs
+    where created_at >= range_from and created_at < range_to
+      and (filter_page_ids is null or page_id = any (filter_page_ids))
+    group by 1
+  ),
+  intent_buckets as (
+    select bucket, jsonb_object_agg(intent_type, total) as counts
+    from (
+      select public.bangkok_bucket(created_at, granularity) as bucket, intent_type, count(*) as total
+      from public.intents
+      where created_at >= range_from and created_at < range_to
+        and false_positive_at is null
+        and (filter_page_ids is null or page_id = any (filter_page_ids))
+      group by 1, 2
+    ) grouped
+    group by bucket
+  ),
+  revenue_buckets as (
+    select bucket, jsonb_object_agg(currency, total) as totals
+    from (
+      select public.bangkok_bucket(created_at, granularity) as bucket, coalesce(currency, '') as currency,
+        sum(coalesce(value, 0)) as total
+      from public.purchase
+      where created_at >= range_from and created_at < range_to
+        and (filter_page_ids is null or page_id = any (filter_page_ids))
+      group by 1, 2
+    ) grouped
+    group by bucket
+  )
+  select
+    (extract(epoch from bucket) * 1000)::bigint,
+    coalesce(c.total, 0),
+    coalesce(i.counts, '{}'),
+    coalesce(r.totals, '{}')
+  from chat_buckets c
+  full join intent_buckets i using (bucket)
+  full join revenue_buckets r using (bucket)
+  order by bucket
+$$;
@@ -0,0 +1,35 @@
+-- Activity heatmap slots, counted in the database instead of downloading every chat and intent
+-- in the window. Runs as the caller, so row-level security still limits the counts to the
+-- caller's pages. See fetchHeatmapData in lib/heatmap.ts.
+
+-- One row per hour-of-week slot on the Bangkok clock with anything in it; weekday 0 is Monday
+create or replace function public.heatmap_counts(
+  range_from timestamptz,
+  range_to timestamptz,
+  filter_page_ids text[] default null
+)
+returns table (weekday integer, hour integer, chats bigint, leads bigint, purchases bigint)
+language sql stable set search_path = public
+as $$
+  with events as (
+    select created_at, null::text as intent_type
+    from public.psid_inputs
+    where created_at >= range_from and created_at < range_to
+      and (filter_page_ids is null or page_id = any (filter_page_ids))
+    union all
+    select created_at, intent_type
+    from public.intents
+    where created_at >= range_from and created_at < range_to
+      and intent_type in ('Lead', 'Purchase')
+      and false_positive_at is null
+      and (filter_page_ids is null or page_id = any (filter_page_ids))
+  )
+  select
+    extract(isodow from created_at at time zone 'Asia/Bangkok')::integer - 1,
+    extract(hour from created_at at time zone 'Asia/Bangkok')::integer,
+    count(*) filter (where intent_type is null),
+    count(*) filter (where intent_type = 'Lead'),
+    count(*) filter (where intent_type = 'Purchase')
+  from events
+  group by 1, 2
+$$;
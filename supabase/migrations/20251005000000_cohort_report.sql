@@ -0,0 +1,158 @@
+-- Customer cohorts, worked out in the database instead of downloading every chat, intent and
+-- purchase up to the horizon and looking up each PSID's earlier chats in batches. Runs as the
+-- caller, so row-level security still limits it to the caller's pages, and purchase value to
+-- finance users. See fetchCohortReport in lib/cohorts.ts.
+
+-- Customers are PSIDs whose first ever chat falls inside the window. Their chats, leads and
+-- purchases are followed up to `horizon`; purchase values are converted with `thb_rates`
+-- ({"USD": 36.5, …}), and currencies without a rate are left out. Times are epoch
+-- milliseconds, durations milliseconds. `retained[N]` counts the cohort members who chatted in
+-- week N after their first-chat week and `converted[N]` those who had purchased by its end.
+create or replace function public.cohort_report(
+  range_from timestamptz,
+  range_to timestamptz,
+  horizon timestamptz,
+  thb_rates jsonb,
+  cohort_weeks integer,
+  customer_limit integer,
+  filter_page_ids text[] default null
+)
+returns jsonb
+language sql stable set search_path = public
+as $$
+  with chats as (
+    select id, psid, page_id, created_at
+    from public.psid_inputs
+    where created_at >= range_from and created_at < horizon
+      and (filter_page_ids is null or page_id = any (filter_page_ids))
+  ),
+  first_chats as (
+    select distinct on (psid) psid, page_id, created_at as first_contact
+    from chats
+    order by psid, created_at, id
+  ),
+  customers as (
+    select
+      f.psid,
+      f.page_id,
+      f.first_contact,
+      -- Monday 00:00 Bangkok time of the first-chat week
+      date_trunc('week', f.first_contact at time zone 'Asia/Bangkok') at time zone 'Asia/Bangkok' as cohort_week
+    from first_chats f
+    where f.first_contact < range_to
+      and not exists (
+        select 1
+        from public.psid_inputs earlier
+        where earlier.psid = f.psid and earlier.created_at < range_from
+          and (filter_page_ids is null or earlier.page_id = any (filter_page_ids))
+      )
+  ),
+  intent_totals as (
+    select
+      psid,
+      min(created_at) filter (where intent_type = 'Lead') as first_lead,
+      min(created_at) filter (where intent_type = 'Purchase') as first_purchase,
+      count(*) filter (where intent_type = 'Purchase') as purchases
+    from public.intents
+    where created_at >= range_from and created_at < horizon
+      and intent_type in ('Lead', 'Purchase')
+      and false_positive_at is null
+      and (filter_page_ids is null or page_id = any (filter_page_ids))
+      and psid in (select psid from customers)
+    group by psid
+  ),
+  purchase_values as (
+    select
+      psid,
+      sum(coalesce(value, 0) * (thb_rates ->> coalesce(nullif(upper(btrim(currency)), ''), 'THB'))::numeric) as total
+    from public.purchase
+    where created_at >= range_from and created_at < horizon
+      and (filter_page_ids is null or page_id = any (filter_page_ids))
+      and psid in (select psid from customers)
+    group by psid
+  ),
+  journeys as (
+    select
+      c.psid,
+      c.page_id,
+      c.first_contact,
+      c.cohort_week,
+      t.first_purchase,
+      case when t.first_lead is not null
+        then greatest(0, (extract(epoch from t.first_lead - c.first_contact) * 1000)::bigint) end as time_to_lead,
+      case when t.first_purchase is not null
+        then greatest(0, (extract(epoch from t.first_purchase - c.first_contact) * 1000)::bigint) end as time_to_purchase,
+      coalesce(t.purchases, 0) as purchases,
+      coalesce(v.total, 0) as lifetime_value
+    from customers c
+    left join intent_totals t on t.psid = c.psid
+    left join purchase_values v on v.psid = c.psid
+  ),
+  chat_weeks as (
+    select distinct j.cohort_week, j.psid, floor(extract(epoch from ch.created_at - j.cohort_week) / 604800)::integer as week
+    from chats ch
+    join journeys j on j.psid = ch.psid
+  ),
+  cohorts as (
+    select cohort_week, count(*) as customers
+    from journeys
+    group by cohort_week
+  ),
+  cohort_offsets as (
+    select
+      c.cohort_week,
+      c.customers,
+      o.week,
+      (select count(*) from chat_weeks w where w.cohort_week = c.cohort_week and w.week = o.week) as retained,
+      (
+        select count(*)
+        from journeys j
+        where j.cohort_week = c.cohort_week and j.first_purchase < c.cohort_week + (o.week + 1) * interval '7 days'
+      ) as converted
+    from cohorts c
+    cross join generate_series(0, cohort_weeks) as o(week)
+  )
+  select jsonb_build_object(
+    'summary', (
+      select jsonb_build_object(
+        'customers', count(*),
+        'leads', count(time_to_lead),
+        'buyers', count(*) filter (where purchases > 0),
+        'repeat_buyers', count(*) filter (where purchases > 1),
+        'median_time_to_lead', percentile_cont(0.5) within group (order by time_to_lead),
+        'median_time_to_purchase', percentile_cont(0.5) within group (order by time_to_purchase),
+        'total_value', coalesce(sum(lifetime_value), 0)
+      )
+      from journeys
+    ),
+    'cohorts', (
+      select coalesce(jsonb_agg(jsonb_build_object(
+        'week_start', (extract(epoch from cohort_week) * 1000)::bigint,
+        'customers', customers,
+        'retained', retained,
+        'converted', converted
+      ) order by cohort_week), '[]')
+      from (
+        select cohort_week, customers, array_agg(retained order by week) as retained, array_agg(converted order by week) as converted
+        from cohort_offsets
+        group by cohort_week, customers
+      ) grouped
+    ),
+    'customers', (
+      select coalesce(jsonb_agg(jsonb_build_object(
+        'psid', psid,
+        'page_id', page_id,
+        'first_contact', (extract(epoch from first_contact) * 1000)::bigint,
+        'time_to_lead', time_to_lead,
+        'time_to_purchase', time_to_purchase,
+        'purchases', purchases,
+        'lifetime_value', lifetime_value
+      ) order by lifetime_value desc, purchases desc, first_contact), '[]')
+      from (
+        select * from journeys
+        order by lifetime_value desc, purchases desc, first_contact
+        limit customer_limit
+      ) top
+    )
+  )
+$$;
@@ -0,0 +1,49 @@
+-- Ad spend imports run as one transaction, and deleting an import no longer deletes spend.
+-- Every row keeps the import that last wrote it, but its numbers may have replaced an older
+-- import's, so removing the newer import used to lose days the older one still covered.
+
+alter table public.ad_spend drop constraint if exists ad_spend_import_id_fkey;
+alter table public.ad_spend
+  add constraint ad_spend_import_id_fkey
+  foreign key (import_id) references public.ad_spend_imports (id) on delete set null;
+
+comment on column public.ad_spend.import_id is
+  'The import that last wrote this row; null once that import is removed from the history';
+
+-- Records the import and upserts its rows (page, day and campaign replace what is stored) in
+-- one go, so a failed import leaves nothing behind. `records` is a JSON array of
+-- { date, campaign_name, spend, currency, impressions, clicks }. Runs as the caller, so only
+-- admins can import.
+create or replace function public.import_ad_spend(
+  target_page_id text,
+  import_source text,
+  import_label text,
+  records jsonb,
+  importer_id uuid default null
+)
+returns setof public.ad_spend_imports
+language plpgsql set search_path = public
+as $$
+declare
+  batch public.ad_spend_imports;
+begin
+  insert into public.ad_spend_imports (page_id, source, label, row_count, date_from, date_to, imported_by)
+  select target_page_id, import_source, import_label, count(*), min(r.date), max(r.date), importer_id
+  from jsonb_to_recordset(records) as r (date date)
+  returning * into batch;
+
+  insert into public.ad_spend (page_id, date, campaign_name, spend, currency, impressions, clicks, import_id, updated_at)
+  select target_page_id, r.date, r.campaign_name, r.spend, r.currency, r.impressions, r.clicks, batch.id, now()
+  from jsonb_to_recordset(records)
+    as r (date date, campaign_name text, spend numeric, currency text, impressions bigint, clicks bigint)
+  on conflict (page_id, date, campaign_name) do update
+  set spend = excluded.spend,
+      currency = excluded.currency,
+      impressions = excluded.impressions,
+      clicks = excluded.clicks,
+      import_id = excluded.import_id,
+      updated_at = excluded.updated_at;
+
+  return next batch;
+end;
+$$;
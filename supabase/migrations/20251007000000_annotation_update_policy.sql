@@ -0,0 +1,19 @@
+-- Editing an annotation needs the 'annotate' permission on both sides of the update, and the
+-- author cannot be changed: the old policy only checked the page scope of the new row, so an
+-- author could hand an annotation to someone else or keep editing after losing the permission.
+
+drop policy if exists "Authors and admins change annotations" on public.annotations;
+
+-- Authors edit their own annotations; admins can tidy up anyone's
+create policy "Authors and admins change annotations" on public.annotations
+  for update to authenticated
+  using (public.can_annotate() and (created_by = auth.uid() or public.current_role_name() = 'admin'))
+  with check (
+    public.can_annotate()
+    and (created_by = auth.uid() or public.current_role_name() = 'admin')
+    and public.can_view_annotation(page_ids)
+  );
+
+-- Only the annotation itself is editable; created_by and author_email stay as written
+revoke update on public.annotations from anon, authenticated;
+grant update (title, note, starts_at, ends_at, page_ids) on public.annotations to authenticated;
@@ -0,0 +1,20 @@
+-- author_email is filled in from auth.users instead of trusting whatever the client sends, and
+-- clients can no longer write it (or created_by, which defaults to the caller).
+
+create or replace function public.set_annotation_author()
+returns trigger
+language plpgsql security definer set search_path = public
+as $$
+begin
+  new.author_email := (select email from auth.users where id = new.created_by);
+  return new;
+end;
+$$;
+
+drop trigger if exists annotations_set_author on public.annotations;
+create trigger annotations_set_author
+  before insert on public.annotations
+  for each row execute function public.set_annotation_author();
+
+revoke insert on public.annotations from anon, authenticated;
+grant insert (title, note, starts_at, ends_at, page_ids) on public.annotations to authenticated;